@@ -3,6 +3,8 @@ import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { existsSync, mkdirSync } from 'fs';
+import * as logger from '../utils/logger.js';
+import { runMigrations, markSchemaCurrent } from './migrations.js';
 
 // ESM-friendly __dirname replacement
 const __filename = fileURLToPath(import.meta.url);
@@ -14,7 +16,7 @@ const __dirname = dirname(__filename);
  * Features:
  * - SQLite with WAL mode for concurrent reads
  * - Automatic schema initialization
- * - Schema versioning for migrations
+ * - Ordered, transactional schema migrations for existing databases
  * - Performance optimizations (cache size, temp store)
  * 
  * Connection Pooling Considerations (T064):
@@ -72,15 +74,18 @@ export function initializeDatabase(config: DatabaseConfig): Database.Database {
     // Set page size to 4KB (good balance for FTS5)
     db.pragma('page_size = 4096');
 
-    // Apply schema if not already initialized
-    if (!isSchemaInitialized(db)) {
-        applySchema(db);
-    }
-
-    // Verify schema version
-    const currentVersion = getSchemaVersion(db);
-    if (currentVersion !== 1) {
-        throw new Error(`Unsupported schema version: ${currentVersion}. Expected version 1.`);
+    // New databases get the latest schema directly; existing ones are migrated
+    try {
+        if (!isSchemaInitialized(db)) {
+            logger.info('Initializing database schema', { path: config.path });
+            applySchema(db);
+            markSchemaCurrent(db);
+        } else {
+            runMigrations(db, { path: config.path });
+        }
+    } catch (error) {
+        db.close();
+        throw error;
     }
 
     return db;
@@ -126,19 +131,6 @@ function isSchemaInitialized(db: Database.Database): boolean {
     return result !== undefined;
 }
 
-/**
- * Get the current schema version
- * 
- * @param db Database instance
- * @returns Schema version number
- */
-function getSchemaVersion(db: Database.Database): number {
-    const result = db.prepare('SELECT version FROM schema_version ORDER BY version DESC LIMIT 1')
-        .get() as { version: number } | undefined;
-
-    return result?.version ?? 0;
-}
-
 /**
  * Apply the SQL schema to the database
  * 
@@ -0,0 +1,456 @@
+import type Database from 'better-sqlite3';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Schema migrations for Azure Updates MCP Server
+ *
+ * schema.sql always describes the latest schema and is only applied to new
+ * databases. Existing databases are upgraded by the numbered migrations below,
+ * one transaction per step, and every applied step is recorded in
+ * schema_version.
+ *
+ * Adding a schema change:
+ * 1. Update schema.sql (and tests/fixtures/test-schema.sql)
+ * 2. Append a migration with the next version number that makes the same
+ *    change to an existing database
+ * 3. Mark it destructive if it drops or rewrites data, so the database file
+ *    is backed up before it runs
+ */
+
+export interface Migration {
+    version: number; // Schema version after this migration (consecutive, starting at 2)
+    description: string;
+    destructive?: boolean; // Drops or rewrites data: back up the database first
+    up: (db: Database.Database) => void;
+}
+
+export interface MigrationOptions {
+    path?: string; // Database file, used for backups (omit for in-memory databases)
+    migrations?: Migration[]; // Override for tests
+}
+
+export interface MigrationResult {
+    fromVersion: number;
+    toVersion: number;
+    applied: number[]; // Versions applied by this call
+    backupPath: string | null; // Backup taken before a destructive migration
+}
+
+/**
+ * Add a column unless it exists
+ *
+ * Databases created before migrations existed may already have columns that
+ * were added on open, so column additions must tolerate them.
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
+/**
+ * Ordered schema migrations (version 1 is the initial schema)
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: 'Fix FTS5 update/delete triggers and rebuild the full-text index',
+        up: (db): void => {
+            db.exec(`
+                DROP TRIGGER IF EXISTS updates_fts_update;
+                CREATE TRIGGER updates_fts_update AFTER UPDATE ON azure_updates BEGIN
+                  INSERT INTO updates_fts(updates_fts, rowid, id, title, description_md)
+                  VALUES ('delete', old.rowid, old.id, old.title, old.description_md);
+                  INSERT INTO updates_fts(rowid, id, title, description_md)
+                  VALUES (new.rowid, new.id, new.title, new.description_md);
+                END;
+
+                DROP TRIGGER IF EXISTS updates_fts_delete;
+                CREATE TRIGGER updates_fts_delete AFTER DELETE ON azure_updates BEGIN
+                  INSERT INTO updates_fts(updates_fts, rowid, id, title, description_md)
+                  VALUES ('delete', old.rowid, old.id, old.title, old.description_md);
+                END;
+
+                -- The old triggers may have corrupted the index
+                INSERT INTO updates_fts(updates_fts) VALUES ('rebuild');
+            `);
+        },
+    },
+    {
+        version: 3,
+        description: 'Add update_revisions table',
+        up: (db): void => {
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS update_revisions (
+                  id INTEGER PRIMARY KEY AUTOINCREMENT,
+                  update_id TEXT NOT NULL,
+                  title TEXT NOT NULL,
+                  description_html TEXT,
+                  description_md TEXT,
+                  status TEXT,
+                  locale TEXT,
+                  created TEXT NOT NULL,
+                  modified TEXT NOT NULL,
+                  tags TEXT NOT NULL DEFAULT '[]',
+                  product_categories TEXT NOT NULL DEFAULT '[]',
+                  products TEXT NOT NULL DEFAULT '[]',
+                  availabilities TEXT NOT NULL DEFAULT '[]',
+                  superseded_by TEXT NOT NULL,
+                  recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+                  FOREIGN KEY (update_id) REFERENCES azure_updates(id) ON DELETE CASCADE
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_revisions_update_modified ON update_revisions(update_id, modified);
+            `);
+        },
+    },
+    {
+        version: 4,
+        description: 'Add removed-update tombstones and reconciliation checkpoint',
+        up: (db): void => {
+            addColumnIfMissing(db, 'azure_updates', 'removed_at', 'TEXT');
+            addColumnIfMissing(db, 'sync_checkpoints', 'last_reconciliation', 'TEXT');
+            db.exec('CREATE INDEX IF NOT EXISTS idx_updates_removed_at ON azure_updates(removed_at)');
+        },
+    },
+    {
+        version: 5,
+        description: 'Add sync_runs table',
+        up: (db): void => {
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS sync_runs (
+                  id INTEGER PRIMARY KEY AUTOINCREMENT,
+                  started_at TEXT NOT NULL,
+                  finished_at TEXT,
+                  mode TEXT NOT NULL CHECK (mode IN ('initial', 'differential', 'full')),
+                  status TEXT NOT NULL CHECK (status IN ('success', 'failed', 'in_progress')),
+                  records_inserted INTEGER NOT NULL DEFAULT 0,
+                  records_updated INTEGER NOT NULL DEFAULT 0,
+                  records_deleted INTEGER NOT NULL DEFAULT 0,
+                  pages_fetched INTEGER NOT NULL DEFAULT 0,
+                  duration_ms INTEGER,
+                  error_message TEXT
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+            `);
+        },
+    },
+    {
+        version: 6,
+        description: 'Add sync lock owner and heartbeat',
+        up: (db): void => {
+            addColumnIfMissing(db, 'sync_checkpoints', 'lock_owner', 'TEXT');
+            addColumnIfMissing(db, 'sync_checkpoints', 'lock_heartbeat', 'TEXT');
+        },
+    },
+    {
+        version: 7,
+        description: 'Index update_availabilities by update',
+        up: (db): void => {
+            db.exec('CREATE INDEX IF NOT EXISTS idx_availabilities_update_date ON update_availabilities(update_id, date)');
+        },
+    },
+    {
+        version: 8,
+        description: 'Add tags, products and categories to the full-text index',
+        destructive: true, // Drops and rebuilds updates_fts and its triggers
+        up: (db): void => {
+            db.exec(`
+                DROP TRIGGER IF EXISTS updates_fts_insert;
+                DROP TRIGGER IF EXISTS updates_fts_update;
+                DROP TRIGGER IF EXISTS updates_fts_delete;
+                DROP TABLE IF EXISTS updates_fts;
+
+                CREATE VIRTUAL TABLE updates_fts USING fts5(
+                  id UNINDEXED,
+                  title,
+                  description_md,
+                  tags,
+                  products,
+                  categories,
+                  tokenize='porter unicode61 remove_diacritics 2'
+                );
+
+                INSERT INTO updates_fts(rowid, id, title, description_md, tags, products, categories)
+                SELECT
+                  au.rowid, au.id, au.title, au.description_md,
+                  (SELECT group_concat(tag, ', ') FROM update_tags WHERE update_id = au.id),
+                  (SELECT group_concat(product, ', ') FROM update_products WHERE update_id = au.id),
+                  (SELECT group_concat(category, ', ') FROM update_categories WHERE update_id = au.id)
+                FROM azure_updates au;
+
+                CREATE TRIGGER updates_fts_insert AFTER INSERT ON azure_updates BEGIN
+                  INSERT INTO updates_fts(rowid, id, title, description_md, tags, products, categories)
+                  VALUES (
+                    new.rowid, new.id, new.title, new.description_md,
+                    (SELECT group_concat(tag, ', ') FROM update_tags WHERE update_id = new.id),
+                    (SELECT group_concat(product, ', ') FROM update_products WHERE update_id = new.id),
+                    (SELECT group_concat(category, ', ') FROM update_categories WHERE update_id = new.id)
+                  );
+                END;
+
+                CREATE TRIGGER updates_fts_update AFTER UPDATE OF title, description_md ON azure_updates BEGIN
+                  UPDATE updates_fts SET title = new.title, description_md = new.description_md WHERE rowid = new.rowid;
+                END;
+
+                CREATE TRIGGER updates_fts_delete AFTER DELETE ON azure_updates BEGIN
+                  DELETE FROM updates_fts WHERE rowid = old.rowid;
+                END;
+            `);
+
+            // Refresh the FTS column whenever a related value is added or removed
+            const related = [
+                { table: 'update_tags', column: 'tag', ftsColumn: 'tags' },
+                { table: 'update_products', column: 'product', ftsColumn: 'products' },
+                { table: 'update_categories', column: 'category', ftsColumn: 'categories' },
+            ];
+            for (const { table, column, ftsColumn } of related) {
+                for (const [event, row] of [['insert', 'new'], ['delete', 'old']]) {
+                    db.exec(`
+                        DROP TRIGGER IF EXISTS updates_fts_${ftsColumn}_${event};
+                        CREATE TRIGGER updates_fts_${ftsColumn}_${event} AFTER ${event.toUpperCase()} ON ${table} BEGIN
+                          UPDATE updates_fts SET ${ftsColumn} = (SELECT group_concat(${column}, ', ') FROM ${table} WHERE update_id = ${row}.update_id)
+                          WHERE rowid = (SELECT rowid FROM azure_updates WHERE id = ${row}.update_id);
+                        END;
+                    `);
+                }
+            }
+        },
+    },
+    {
+        version: 9,
+        description: 'Add search_terms trigram vocabulary',
+        up: (db): void => {
+            // Filled on first use (see spelling.service.ts) and after every sync
+            db.exec(`
+                CREATE VIRTUAL TABLE IF NOT EXISTS search_terms USING fts5(
+                  term,
+                  documents UNINDEXED,
+                  tokenize='trigram'
+                );
+            `);
+        },
+    },
+    {
+        version: 10,
+        description: 'Add update_embeddings for similarity search',
+        up: (db): void => {
+            // Filled at startup and by sync when similarity search is on (see embedding.service.ts)
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS update_embeddings (
+                  update_id TEXT PRIMARY KEY,
+                  model TEXT NOT NULL,
+                  vector BLOB NOT NULL,
+
+                  FOREIGN KEY (update_id) REFERENCES azure_updates(id) ON DELETE CASCADE
+                );
+
+                CREATE TRIGGER IF NOT EXISTS update_embeddings_invalidate
+                AFTER UPDATE OF title, description_md ON azure_updates
+                WHEN old.title IS NOT new.title OR old.description_md IS NOT new.description_md
+                BEGIN
+                  DELETE FROM update_embeddings WHERE update_id = new.id;
+                END;
+            `);
+        },
+    },
+    {
+        version: 11,
+        description: 'Refresh full-text tags, products and categories once per update instead of per row',
+        up: (db): void => {
+            // Sync now calls refreshUpdateSearchColumns after replacing the related values
+            for (const column of ['tags', 'products', 'categories']) {
+                db.exec(`
+                    DROP TRIGGER IF EXISTS updates_fts_${column}_insert;
+                    DROP TRIGGER IF EXISTS updates_fts_${column}_delete;
+                `);
+            }
+        },
+    },
+    {
+        version: 12,
+        description: 'Add azure_updates.change_seq so search cursors skip updates changed after their first page',
+        up: (db): void => {
+            // Existing rows keep their insertion order; upsertUpdate numbers later changes
+            addColumnIfMissing(db, 'azure_updates', 'change_seq', 'INTEGER NOT NULL DEFAULT 0');
+            db.exec(`
+                UPDATE azure_updates SET change_seq = rowid;
+                CREATE INDEX IF NOT EXISTS idx_updates_change_seq ON azure_updates(change_seq);
+            `);
+        },
+    },
+    {
+        version: 13,
+        description: 'Record sync runs skipped because of the sync lock as skipped instead of failed',
+        destructive: true, // Rebuilds sync_runs to widen its status CHECK constraint
+        up: (db): void => {
+            db.exec(`
+                CREATE TABLE sync_runs_new (
+                  id INTEGER PRIMARY KEY AUTOINCREMENT,
+                  started_at TEXT NOT NULL,
+                  finished_at TEXT,
+                  mode TEXT NOT NULL CHECK (mode IN ('initial', 'differential', 'full')),
+                  status TEXT NOT NULL CHECK (status IN ('success', 'failed', 'skipped', 'in_progress')),
+                  records_inserted INTEGER NOT NULL DEFAULT 0,
+                  records_updated INTEGER NOT NULL DEFAULT 0,
+                  records_deleted INTEGER NOT NULL DEFAULT 0,
+                  pages_fetched INTEGER NOT NULL DEFAULT 0,
+                  duration_ms INTEGER,
+                  error_message TEXT
+                );
+
+                INSERT INTO sync_runs_new
+                SELECT id, started_at, finished_at, mode,
+                       CASE WHEN status = 'failed' AND error_message = 'Sync already in progress' THEN 'skipped' ELSE status END,
+                       records_inserted, records_updated, records_deleted, pages_fetched, duration_ms, error_message
+                FROM sync_runs;
+
+                DROP TABLE sync_runs;
+                ALTER TABLE sync_runs_new RENAME TO sync_runs;
+                CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+            `);
+        },
+    },
+];
+
+/**
+ * Version reached after the last migration (1 if there are none)
+ */
+function getLatestVersion(migrations: Migration[]): number {
+    return migrations[migrations.length - 1]?.version ?? 1;
+}
+
+/**
+ * Schema version the code expects
+ */
+export const LATEST_SCHEMA_VERSION = getLatestVersion(MIGRATIONS);
+
+/**
+ * Get the current schema version
+ *
+ * @param db Database instance
+ * @returns Schema version number (0 if none recorded)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+    const result = db.prepare('SELECT MAX(version) as version FROM schema_version')
+        .get() as { version: number | null };
+
+    return result.version ?? 0;
+}
+
+/**
+ * Record that a freshly created database (schema.sql) is at the latest version
+ *
+ * @param db Database instance
+ * @param migrations Migration list (defaults to MIGRATIONS)
+ */
+export function markSchemaCurrent(db: Database.Database, migrations: Migration[] = MIGRATIONS): void {
+    const insert = db.prepare('INSERT OR IGNORE INTO schema_version (version) VALUES (?)');
+    db.transaction(() => {
+        for (const migration of migrations) {
+            insert.run(migration.version);
+        }
+    })();
+}
+
+/**
+ * Copy the database file next to itself before a destructive migration
+ *
+ * @returns Backup path
+ */
+function backupDatabase(db: Database.Database, path: string, version: number): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${path}.v${version}-${timestamp}.bak`;
+
+    // VACUUM INTO writes a consistent copy, including WAL contents
+    db.prepare('VACUUM INTO ?').run(backupPath);
+    logger.info('Backed up database before destructive migration', { backupPath, version });
+
+    return backupPath;
+}
+
+/**
+ * Check that migration versions are consecutive, starting at 2
+ */
+function validateMigrations(migrations: Migration[]): void {
+    migrations.forEach((migration, index) => {
+        if (migration.version !== index + 2) {
+            throw new Error(`Migration versions must be consecutive from 2: found ${migration.version} at position ${index + 1}`);
+        }
+    });
+}
+
+/**
+ * Apply one migration and record it, in a single IMMEDIATE transaction
+ *
+ * @returns False if another process applied it first
+ */
+function applyMigration(db: Database.Database, migration: Migration): boolean {
+    try {
+        return db.transaction(() => {
+            // Another process may have applied it since we read the version
+            if (getSchemaVersion(db) >= migration.version) {
+                return false;
+            }
+            migration.up(db);
+            db.prepare('INSERT INTO schema_version (version) VALUES (?)').run(migration.version);
+            return true;
+        }).immediate();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Schema migration ${migration.version} (${migration.description}) failed: ${message}`);
+    }
+}
+
+/**
+ * Upgrade an existing database to the latest schema version
+ *
+ * Each migration runs in its own IMMEDIATE transaction together with its
+ * schema_version row, so a failed step is rolled back and leaves the database
+ * at the previous version, and concurrent processes opening the same database
+ * apply each step once.
+ *
+ * @param db Database instance (schema_version table must exist)
+ * @param options Database path for backups and optional migration list
+ * @returns Versions before and after, and the steps applied
+ * @throws Error if the database is newer than the code or a migration fails
+ */
+export function runMigrations(db: Database.Database, options: MigrationOptions = {}): MigrationResult {
+    const migrations = options.migrations ?? MIGRATIONS;
+    validateMigrations(migrations);
+
+    const latestVersion = getLatestVersion(migrations);
+    const fromVersion = getSchemaVersion(db);
+
+    if (fromVersion > latestVersion) {
+        throw new Error(
+            `Database schema version ${fromVersion} is newer than this server supports (${latestVersion}). ` +
+            'Upgrade azure-updates-mcp-server or use a different DATABASE_PATH.'
+        );
+    }
+
+    const pending = migrations.filter(m => m.version > fromVersion);
+    const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [], backupPath: null };
+
+    if (pending.length === 0) {
+        return result;
+    }
+
+    if (options.path && options.path !== ':memory:' && pending.some(m => m.destructive)) {
+        result.backupPath = backupDatabase(db, options.path, fromVersion);
+    }
+
+    for (const migration of pending) {
+        const applied = applyMigration(db, migration);
+        if (applied) {
+            logger.info('Applied schema migration', { version: migration.version, description: migration.description });
+            result.applied.push(migration.version);
+        }
+        result.toVersion = migration.version;
+    }
+
+    return result;
+}
@@ -2,17 +2,52 @@ import Database from 'better-sqlite3';
 import type {
     AzureUpdate,
     AzureUpdateRecord,
-    AzureUpdateAvailability
+    AzureUpdateAvailability,
+    AzureUpdateRelatedData
 } from '../models/azure-update.js';
 import type {
-    SyncCheckpoint
+    SyncCheckpoint,
+    SyncLockResult,
+    SyncRun,
+    SyncRunCompletion,
+    SyncRunMode
 } from '../models/sync-checkpoint.js';
+import type {
+    UpdateRevision
+} from '../models/update-revision.js';
+import type {
+    RelatedUpdateCandidate,
+    RelationDirection
+} from '../models/related-update.js';
+import { getUpdateUrl } from '../utils/update-url.js';
 
 /**
  * Prepared statements and database queries for Azure Updates MCP Server
  * 
- * All queries use prepared statements for performance and SQL injection prevention
+ * All queries use prepared statements for performance and SQL injection prevention.
+ * Statements are prepared once per database connection and reused.
+ */
+
+// Prepared statements per connection, keyed by SQL (dropped with the connection)
+const statementCache = new WeakMap<Database.Database, Map<string, Database.Statement>>();
+
+/**
+ * Get a cached prepared statement for this connection
  */
+function prepare(db: Database.Database, sql: string): Database.Statement {
+    let statements = statementCache.get(db);
+    if (!statements) {
+        statements = new Map();
+        statementCache.set(db, statements);
+    }
+
+    let stmt = statements.get(sql);
+    if (!stmt) {
+        stmt = db.prepare(sql);
+        statements.set(sql, stmt);
+    }
+    return stmt;
+}
 
 // =============================================================================
 // Sync Checkpoint Queries
@@ -22,7 +57,7 @@ import type {
  * Get the current sync checkpoint
  */
 export function getSyncCheckpoint(db: Database.Database): SyncCheckpoint | null {
-    const stmt = db.prepare(`
+    const stmt = prepare(db, `
     SELECT 
       id, 
       last_sync as lastSync, 
@@ -30,6 +65,9 @@ export function getSyncCheckpoint(db: Database.Database): SyncCheckpoint | null
       record_count as recordCount,
       duration_ms as durationMs,
       error_message as errorMessage,
+      last_reconciliation as lastReconciliation,
+      lock_owner as lockOwner,
+      lock_heartbeat as lockHeartbeat,
       created_at as createdAt,
       updated_at as updatedAt
     FROM sync_checkpoints 
@@ -40,30 +78,109 @@ export function getSyncCheckpoint(db: Database.Database): SyncCheckpoint | null
 }
 
 /**
- * Start a new sync operation (pessimistic lock)
- * Returns true if lock acquired, false if already in progress
+ * Start a new sync operation (lease-based lock)
+ * 
+ * Takes the lock when no sync is in progress, or when the holder's last heartbeat
+ * is older than staleBefore (locks taken before leases existed fall back to
+ * updated_at). Runs as an IMMEDIATE transaction so that processes sharing the
+ * database file cannot both take the lock.
+ * 
+ * @param owner Lock owner identifier (host:pid)
+ * @param staleBefore ISO 8601 timestamp; older heartbeats are considered stale
  */
-export function startSync(db: Database.Database): boolean {
-    const stmt = db.prepare(`
+export function startSync(db: Database.Database, owner: string, staleBefore: string): SyncLockResult {
+    const selectStmt = prepare(db, `
+    SELECT
+      sync_status as syncStatus,
+      lock_owner as lockOwner,
+      COALESCE(lock_heartbeat, updated_at) as heartbeat,
+      julianday(COALESCE(lock_heartbeat, updated_at)) < julianday(?) as isStale
+    FROM sync_checkpoints
+    WHERE id = 1
+  `);
+    const updateStmt = prepare(db, `
     UPDATE sync_checkpoints 
-    SET sync_status = 'in_progress', updated_at = datetime('now')
-    WHERE id = 1 AND sync_status != 'in_progress'
+    SET 
+      sync_status = 'in_progress',
+      lock_owner = ?,
+      lock_heartbeat = ?,
+      updated_at = datetime('now')
+    WHERE id = 1
   `);
 
-    const result = stmt.run();
-    return result.changes > 0;
+    const acquire = db.transaction((): SyncLockResult => {
+        const current = selectStmt.get(staleBefore) as {
+            syncStatus: string;
+            lockOwner: string | null;
+            heartbeat: string;
+            isStale: number;
+        } | undefined;
+
+        if (!current) {
+            return { acquired: false, takenOverFrom: null };
+        }
+
+        const isHeld = current.syncStatus === 'in_progress';
+        if (isHeld && !current.isStale) {
+            return { acquired: false, takenOverFrom: null };
+        }
+
+        updateStmt.run(owner, new Date().toISOString());
+        return {
+            acquired: true,
+            takenOverFrom: isHeld ? { owner: current.lockOwner, heartbeat: current.heartbeat } : null,
+        };
+    });
+
+    return acquire.immediate();
+}
+
+/**
+ * Renew the sync lock heartbeat
+ * 
+ * @returns False if the lock is no longer held by this owner
+ */
+export function renewSyncLock(db: Database.Database, owner: string): boolean {
+    const stmt = prepare(db, `
+    UPDATE sync_checkpoints 
+    SET lock_heartbeat = ?
+    WHERE id = 1 AND sync_status = 'in_progress' AND lock_owner = ?
+  `);
+
+    return stmt.run(new Date().toISOString(), owner).changes > 0;
+}
+
+/**
+ * Check whether a sync holds a live (non-stale) lock
+ * 
+ * @param staleBefore ISO 8601 timestamp; older heartbeats are considered stale
+ */
+export function isSyncLockActive(db: Database.Database, staleBefore: string): boolean {
+    const stmt = prepare(db, `
+    SELECT 1
+    FROM sync_checkpoints
+    WHERE id = 1
+      AND sync_status = 'in_progress'
+      AND julianday(COALESCE(lock_heartbeat, updated_at)) >= julianday(?)
+  `);
+
+    return stmt.get(staleBefore) !== undefined;
 }
 
 /**
- * Complete a sync operation successfully
+ * Complete a sync operation successfully and release the lock
+ * 
+ * @param lockOwner When set, only applies if this owner still holds the lock
+ * @returns False if the lock was held by another owner
  */
 export function completeSyncSuccess(
     db: Database.Database,
     checkpoint: string,
     recordCount: number,
-    durationMs: number
-): void {
-    const stmt = db.prepare(`
+    durationMs: number,
+    lockOwner?: string
+): boolean {
+    const stmt = prepare(db, `
     UPDATE sync_checkpoints 
     SET 
       last_sync = ?,
@@ -71,30 +188,138 @@ export function completeSyncSuccess(
       record_count = ?,
       duration_ms = ?,
       error_message = NULL,
+      lock_owner = NULL,
+      lock_heartbeat = NULL,
       updated_at = datetime('now')
-    WHERE id = 1
+    WHERE id = 1 AND (? IS NULL OR lock_owner = ?)
   `);
 
-    stmt.run(checkpoint, recordCount, durationMs);
+    const owner = lockOwner ?? null;
+    return stmt.run(checkpoint, recordCount, durationMs, owner, owner).changes > 0;
 }
 
 /**
- * Mark sync as failed
+ * Mark sync as failed and release the lock
+ * 
+ * @param lockOwner When set, only applies if this owner still holds the lock
+ * @returns False if the lock was held by another owner
  */
 export function completeSyncFailure(
     db: Database.Database,
-    errorMessage: string
-): void {
-    const stmt = db.prepare(`
+    errorMessage: string,
+    lockOwner?: string
+): boolean {
+    const stmt = prepare(db, `
     UPDATE sync_checkpoints 
     SET 
       sync_status = 'failed',
       error_message = ?,
+      lock_owner = NULL,
+      lock_heartbeat = NULL,
       updated_at = datetime('now')
+    WHERE id = 1 AND (? IS NULL OR lock_owner = ?)
+  `);
+
+    const owner = lockOwner ?? null;
+    return stmt.run(errorMessage, owner, owner).changes > 0;
+}
+
+/**
+ * Record when removed-update reconciliation last ran
+ */
+export function setLastReconciliation(
+    db: Database.Database,
+    reconciledAt: string
+): void {
+    const stmt = prepare(db, `
+    UPDATE sync_checkpoints 
+    SET last_reconciliation = ?, updated_at = datetime('now')
     WHERE id = 1
   `);
 
-    stmt.run(errorMessage);
+    stmt.run(reconciledAt);
+}
+
+// =============================================================================
+// Sync Run History Queries
+// =============================================================================
+
+/**
+ * Record the start of a sync run
+ * 
+ * @returns ID of the new run
+ */
+export function insertSyncRun(
+    db: Database.Database,
+    startedAt: string,
+    mode: SyncRunMode
+): number {
+    const stmt = prepare(db, `
+    INSERT INTO sync_runs (started_at, mode, status)
+    VALUES (?, ?, 'in_progress')
+  `);
+
+    return Number(stmt.run(startedAt, mode).lastInsertRowid);
+}
+
+/**
+ * Record the outcome of a sync run
+ */
+export function completeSyncRun(
+    db: Database.Database,
+    runId: number,
+    completion: SyncRunCompletion
+): void {
+    const stmt = prepare(db, `
+    UPDATE sync_runs
+    SET
+      finished_at = ?,
+      status = ?,
+      records_inserted = ?,
+      records_updated = ?,
+      records_deleted = ?,
+      pages_fetched = ?,
+      duration_ms = ?,
+      error_message = ?
+    WHERE id = ?
+  `);
+
+    stmt.run(
+        new Date().toISOString(),
+        completion.status,
+        completion.recordsInserted,
+        completion.recordsUpdated,
+        completion.recordsDeleted,
+        completion.pagesFetched,
+        completion.durationMs,
+        completion.errorMessage ?? null,
+        runId
+    );
+}
+
+/**
+ * Get the most recent sync runs, newest first
+ */
+export function getRecentSyncRuns(db: Database.Database, limit: number): SyncRun[] {
+    const stmt = prepare(db, `
+    SELECT
+      id,
+      started_at as startedAt,
+      finished_at as finishedAt,
+      mode,
+      status,
+      records_inserted as recordsInserted,
+      records_updated as recordsUpdated,
+      records_deleted as recordsDeleted,
+      pages_fetched as pagesFetched,
+      duration_ms as durationMs,
+      error_message as errorMessage
+    FROM sync_runs
+    ORDER BY started_at DESC, id DESC
+    LIMIT ?
+  `);
+
+    return stmt.all(limit) as SyncRun[];
 }
 
 // =============================================================================
@@ -103,16 +328,20 @@ export function completeSyncFailure(
 
 /**
  * Upsert an Azure update record
+ * 
+ * A record received from the API is live, so any tombstone is cleared.
+ * New updates, updates with a new modified timestamp and restored updates
+ * take the next change_seq, so search cursors leave them out of later pages.
  */
 export function upsertUpdate(
     db: Database.Database,
     update: AzureUpdateRecord
 ): void {
-    const stmt = db.prepare(`
+    const stmt = prepare(db, `
     INSERT INTO azure_updates (
-      id, title, description_html, description_md, status, locale, created, modified, metadata
+      id, title, description_html, description_md, status, locale, created, modified, metadata, change_seq
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(change_seq), 0) + 1 FROM azure_updates))
     ON CONFLICT(id) DO UPDATE SET
       title = excluded.title,
       description_html = excluded.description_html,
@@ -121,7 +350,12 @@ export function upsertUpdate(
       locale = excluded.locale,
       created = excluded.created,
       modified = excluded.modified,
-      metadata = excluded.metadata
+      metadata = excluded.metadata,
+      removed_at = NULL,
+      change_seq = CASE
+        WHEN modified IS NOT excluded.modified OR removed_at IS NOT NULL THEN excluded.change_seq
+        ELSE change_seq
+      END
   `);
 
     stmt.run(
@@ -160,7 +394,7 @@ export function upsertUpdateIfNewer(
  * Get an Azure update by ID
  */
 export function getUpdateById(db: Database.Database, id: string): AzureUpdate | null {
-    const updateStmt = db.prepare(`
+    const updateStmt = prepare(db, `
     SELECT 
       id, 
       title, 
@@ -168,7 +402,8 @@ export function getUpdateById(db: Database.Database, id: string): AzureUpdate |
       status, 
       locale, 
       created, 
-      modified
+      modified,
+      removed_at as removedAt
     FROM azure_updates 
     WHERE id = ?
   `);
@@ -177,7 +412,7 @@ export function getUpdateById(db: Database.Database, id: string): AzureUpdate |
     if (!update) return null;
 
     // Add URL field
-    update.url = `https://azure.microsoft.com/en-us/updates/?id=${id}`;
+    update.url = getUpdateUrl(id);
 
     // Fetch related data
     update.tags = getTagsForUpdate(db, id);
@@ -188,14 +423,187 @@ export function getUpdateById(db: Database.Database, id: string): AzureUpdate |
     return update as AzureUpdate;
 }
 
+/**
+ * Get the stored modified timestamp of an update
+ * 
+ * @returns Modified timestamp, or null if the update is not stored
+ */
+export function getUpdateModified(db: Database.Database, id: string): string | null {
+    const stmt = prepare(db, 'SELECT modified FROM azure_updates WHERE id = ?');
+    const row = stmt.get(id) as { modified: string } | undefined;
+    return row?.modified ?? null;
+}
+
+/**
+ * Check whether an update is stored
+ */
+export function updateExists(db: Database.Database, id: string): boolean {
+    const stmt = prepare(db, 'SELECT 1 FROM azure_updates WHERE id = ?');
+    return stmt.get(id) !== undefined;
+}
+
 /**
  * Delete an Azure update (cascade deletes related records)
  */
 export function deleteUpdate(db: Database.Database, id: string): void {
-    const stmt = db.prepare('DELETE FROM azure_updates WHERE id = ?');
+    const stmt = prepare(db, 'DELETE FROM azure_updates WHERE id = ?');
     stmt.run(id);
 }
 
+/**
+ * Get IDs of all updates that are not tombstoned
+ */
+export function getActiveUpdateIds(db: Database.Database): string[] {
+    const stmt = prepare(db, 'SELECT id FROM azure_updates WHERE removed_at IS NULL');
+    const rows = stmt.all() as { id: string }[];
+    return rows.map(row => row.id);
+}
+
+/**
+ * Get IDs of all tombstoned updates
+ */
+export function getRemovedUpdateIds(db: Database.Database): string[] {
+    const stmt = prepare(db, 'SELECT id FROM azure_updates WHERE removed_at IS NOT NULL');
+    const rows = stmt.all() as { id: string }[];
+    return rows.map(row => row.id);
+}
+
+/**
+ * Tombstone updates that were withdrawn upstream
+ * 
+ * @returns Number of updates marked as removed
+ */
+export function markUpdatesRemoved(
+    db: Database.Database,
+    ids: string[],
+    removedAt: string
+): number {
+    const stmt = prepare(db, 'UPDATE azure_updates SET removed_at = ? WHERE id = ? AND removed_at IS NULL');
+    const markMany = db.transaction((idsToMark: string[]) => {
+        let changes = 0;
+        for (const id of idsToMark) {
+            changes += stmt.run(removedAt, id).changes;
+        }
+        return changes;
+    });
+
+    return markMany(ids);
+}
+
+/**
+ * Clear tombstones of updates that reappeared upstream
+ * 
+ * Restored updates take the next change_seq, like in upsertUpdate.
+ * 
+ * @returns Number of updates restored
+ */
+export function restoreRemovedUpdates(db: Database.Database, ids: string[]): number {
+    const stmt = prepare(db, `
+    UPDATE azure_updates
+    SET removed_at = NULL, change_seq = (SELECT MAX(change_seq) + 1 FROM azure_updates)
+    WHERE id = ? AND removed_at IS NOT NULL
+  `);
+    const restoreMany = db.transaction((idsToRestore: string[]) => {
+        let changes = 0;
+        for (const id of idsToRestore) {
+            changes += stmt.run(id).changes;
+        }
+        return changes;
+    });
+
+    return restoreMany(ids);
+}
+
+// =============================================================================
+// Revision History Queries
+// =============================================================================
+
+/**
+ * Snapshot the stored version of an update into update_revisions
+ * 
+ * Only archives when the stored row is older than the incoming modified timestamp,
+ * so re-syncing the same version never creates duplicate revisions.
+ * Must be called before the row and its related data are overwritten.
+ * 
+ * @param db Database instance
+ * @param updateId ID of the update about to be overwritten
+ * @param newModified Modified timestamp of the incoming version
+ * @returns True if a revision was recorded
+ */
+export function archiveUpdateRevision(
+    db: Database.Database,
+    updateId: string,
+    newModified: string
+): boolean {
+    const stmt = prepare(db, `
+    INSERT INTO update_revisions (
+      update_id, title, description_html, description_md, status, locale, created, modified,
+      tags, product_categories, products, availabilities, superseded_by
+    )
+    SELECT
+      au.id, au.title, au.description_html, au.description_md, au.status, au.locale, au.created, au.modified,
+      (SELECT json_group_array(tag) FROM (
+        SELECT tag FROM update_tags WHERE update_id = au.id ORDER BY tag
+      )),
+      (SELECT json_group_array(category) FROM (
+        SELECT category FROM update_categories WHERE update_id = au.id ORDER BY category
+      )),
+      (SELECT json_group_array(product) FROM (
+        SELECT product FROM update_products WHERE update_id = au.id ORDER BY product
+      )),
+      (SELECT json_group_array(json_object('ring', ring, 'date', date)) FROM (
+        SELECT ring, date FROM update_availabilities WHERE update_id = au.id ORDER BY date
+      )),
+      ?
+    FROM azure_updates au
+    WHERE au.id = ? AND au.modified < ?
+  `);
+
+    const result = stmt.run(newModified, updateId, newModified);
+    return result.changes > 0;
+}
+
+/**
+ * Get all archived revisions of an update, oldest first
+ */
+export function getUpdateRevisions(db: Database.Database, updateId: string): UpdateRevision[] {
+    const stmt = prepare(db, `
+    SELECT 
+      id as revisionId,
+      update_id as updateId,
+      title,
+      description_md as descriptionMarkdown,
+      status,
+      locale,
+      created,
+      modified,
+      tags,
+      product_categories as productCategories,
+      products,
+      availabilities,
+      superseded_by as supersededBy,
+      recorded_at as recordedAt
+    FROM update_revisions 
+    WHERE update_id = ? 
+    ORDER BY modified, id
+  `);
+
+    const rows = stmt.all(updateId) as Array<Omit<UpdateRevision, 'tags' | 'productCategories' | 'products' | 'availabilities'> & {
+        tags: string;
+        productCategories: string;
+        products: string;
+        availabilities: string;
+    }>;
+
+    return rows.map(row => ({
+        ...row,
+        tags: JSON.parse(row.tags) as string[],
+        productCategories: JSON.parse(row.productCategories) as string[],
+        products: JSON.parse(row.products) as string[],
+        availabilities: JSON.parse(row.availabilities) as AzureUpdateAvailability[],
+    }));
+}
+
 // =============================================================================
 // Related Data Queries
 // =============================================================================
@@ -204,7 +612,7 @@ export function deleteUpdate(db: Database.Database, id: string): void {
  * Get tags for an update
  */
 export function getTagsForUpdate(db: Database.Database, updateId: string): string[] {
-    const stmt = db.prepare('SELECT tag FROM update_tags WHERE update_id = ? ORDER BY tag');
+    const stmt = prepare(db, 'SELECT tag FROM update_tags WHERE update_id = ? ORDER BY tag');
     const rows = stmt.all(updateId) as { tag: string }[];
     return rows.map(row => row.tag);
 }
@@ -213,7 +621,7 @@ export function getTagsForUpdate(db: Database.Database, updateId: string): strin
  * Get categories for an update
  */
 export function getCategoriesForUpdate(db: Database.Database, updateId: string): string[] {
-    const stmt = db.prepare('SELECT category FROM update_categories WHERE update_id = ? ORDER BY category');
+    const stmt = prepare(db, 'SELECT category FROM update_categories WHERE update_id = ? ORDER BY category');
     const rows = stmt.all(updateId) as { category: string }[];
     return rows.map(row => row.category);
 }
@@ -222,7 +630,7 @@ export function getCategoriesForUpdate(db: Database.Database, updateId: string):
  * Get products for an update
  */
 export function getProductsForUpdate(db: Database.Database, updateId: string): string[] {
-    const stmt = db.prepare('SELECT product FROM update_products WHERE update_id = ? ORDER BY product');
+    const stmt = prepare(db, 'SELECT product FROM update_products WHERE update_id = ? ORDER BY product');
     const rows = stmt.all(updateId) as { product: string }[];
     return rows.map(row => row.product);
 }
@@ -234,7 +642,7 @@ export function getAvailabilitiesForUpdate(
     db: Database.Database,
     updateId: string
 ): AzureUpdateAvailability[] {
-    const stmt = db.prepare(`
+    const stmt = prepare(db, `
     SELECT ring, date 
     FROM update_availabilities 
     WHERE update_id = ? 
@@ -243,10 +651,378 @@ export function getAvailabilitiesForUpdate(
     return stmt.all(updateId) as AzureUpdateAvailability[];
 }
 
+/**
+ * Add batch-loaded rows to the related data of their update
+ */
+function appendRelatedRows<T extends { update_id: string }>(
+    related: Map<string, AzureUpdateRelatedData>,
+    rows: T[],
+    append: (entry: AzureUpdateRelatedData, row: T) => void
+): void {
+    for (const row of rows) {
+        const entry = related.get(row.update_id);
+        if (entry) {
+            append(entry, row);
+        }
+    }
+}
+
+/**
+ * Get tags, categories, products and availabilities for several updates
+ * 
+ * Loads each dimension with one query for all IDs (instead of four queries per
+ * update). Values are ordered as in the single-update getters.
+ * 
+ * @param db Database instance
+ * @param updateIds Update IDs
+ * @returns Related data per update ID (empty arrays for updates without values)
+ */
+export function getRelatedDataForUpdates(
+    db: Database.Database,
+    updateIds: string[]
+): Map<string, AzureUpdateRelatedData> {
+    const related = new Map<string, AzureUpdateRelatedData>();
+    for (const id of updateIds) {
+        related.set(id, { tags: [], productCategories: [], products: [], availabilities: [] });
+    }
+
+    if (updateIds.length === 0) {
+        return related;
+    }
+
+    // One JSON array parameter keeps a single cached statement for any page size
+    const ids = JSON.stringify(updateIds);
+    const inIds = 'update_id IN (SELECT value FROM json_each(?))';
+
+    const tags = prepare(db, `SELECT update_id, tag FROM update_tags WHERE ${inIds} ORDER BY update_id, tag`)
+        .all(ids) as { update_id: string; tag: string }[];
+    appendRelatedRows(related, tags, (entry, row) => entry.tags.push(row.tag));
+
+    const categories = prepare(db, `SELECT update_id, category FROM update_categories WHERE ${inIds} ORDER BY update_id, category`)
+        .all(ids) as { update_id: string; category: string }[];
+    appendRelatedRows(related, categories, (entry, row) => entry.productCategories.push(row.category));
+
+    const products = prepare(db, `SELECT update_id, product FROM update_products WHERE ${inIds} ORDER BY update_id, product`)
+        .all(ids) as { update_id: string; product: string }[];
+    appendRelatedRows(related, products, (entry, row) => entry.products.push(row.product));
+
+    const availabilities = prepare(db, `SELECT update_id, ring, date FROM update_availabilities WHERE ${inIds} ORDER BY update_id, date`)
+        .all(ids) as ({ update_id: string } & AzureUpdateAvailability)[];
+    appendRelatedRows(related, availabilities, (entry, row) => entry.availabilities.push({ ring: row.ring, date: row.date }));
+
+    return related;
+}
+
+// =============================================================================
+// Search Vocabulary (typo suggestions)
+// =============================================================================
+
+// Words shorter than a trigram cannot be looked up by similarity
+const MIN_SEARCH_TERM_LENGTH = 3;
+
+/**
+ * Split text into distinct lowercase words (letters and digits, diacritics removed)
+ * 
+ * Numbers and words shorter than a trigram are skipped.
+ */
+function extractSearchTerms(text: string): Set<string> {
+    const words = text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return new Set(words.filter(word => word.length >= MIN_SEARCH_TERM_LENGTH && !/^\d+$/.test(word)));
+}
+
+/**
+ * Rebuild the search_terms vocabulary from the full-text index
+ * 
+ * Counts, for every word of the indexed titles, descriptions, tags, products
+ * and categories, the number of updates containing it.
+ * 
+ * @param db Database instance
+ * @returns Number of distinct terms
+ */
+export function rebuildSearchTerms(db: Database.Database): number {
+    const documents = new Map<string, number>();
+    const rows = prepare(db, 'SELECT title, description_md, tags, products, categories FROM updates_fts')
+        .iterate() as IterableIterator<Record<string, string | null>>;
+
+    for (const row of rows) {
+        for (const term of extractSearchTerms(Object.values(row).join(' '))) {
+            documents.set(term, (documents.get(term) ?? 0) + 1);
+        }
+    }
+
+    const insertStmt = prepare(db, 'INSERT INTO search_terms (term, documents) VALUES (?, ?)');
+    db.transaction(() => {
+        prepare(db, 'DELETE FROM search_terms').run();
+        for (const [term, count] of documents) {
+            insertStmt.run(term, count);
+        }
+    })();
+
+    return documents.size;
+}
+
+/**
+ * Check whether the search_terms vocabulary has been built
+ */
+export function hasSearchTerms(db: Database.Database): boolean {
+    return prepare(db, 'SELECT 1 FROM search_terms LIMIT 1').get() !== undefined;
+}
+
+/**
+ * Find vocabulary terms sharing trigrams with a word
+ * 
+ * @param db Database instance
+ * @param word Lowercase word (letters and digits, at least 3 characters)
+ * @param limit Maximum number of candidates
+ * @returns Candidate terms, those sharing the most trigrams first
+ */
+export function findSimilarSearchTerms(
+    db: Database.Database,
+    word: string,
+    limit: number
+): { term: string; documents: number }[] {
+    const trigrams = new Set<string>();
+    for (let i = 0; i + MIN_SEARCH_TERM_LENGTH <= word.length; i++) {
+        trigrams.add(`"${word.slice(i, i + MIN_SEARCH_TERM_LENGTH)}"`);
+    }
+
+    if (trigrams.size === 0) {
+        return [];
+    }
+
+    const stmt = prepare(db, 'SELECT term, documents FROM search_terms WHERE search_terms MATCH ? ORDER BY rank LIMIT ?');
+    return stmt.all([...trigrams].join(' OR '), limit) as { term: string; documents: number }[];
+}
+
+// =============================================================================
+// Update Embeddings (similarity search)
+// =============================================================================
+
+/**
+ * Get the text of updates that have no embedding from the given model
+ * 
+ * @param db Database instance
+ * @param model Embedding model identifier
+ * @returns Id, title and Markdown description per update
+ */
+export function getUpdatesWithoutEmbedding(
+    db: Database.Database,
+    model: string
+): { id: string; title: string; descriptionMarkdown: string | null }[] {
+    const stmt = prepare(db, `
+        SELECT au.id, au.title, au.description_md AS descriptionMarkdown
+        FROM azure_updates au
+        WHERE NOT EXISTS (SELECT 1 FROM update_embeddings e WHERE e.update_id = au.id AND e.model = ?)
+    `);
+    return stmt.all(model) as { id: string; title: string; descriptionMarkdown: string | null }[];
+}
+
+/**
+ * Get the text of the given updates
+ * 
+ * @param db Database instance
+ * @param ids Update IDs
+ * @returns Id, title and Markdown description per existing update
+ */
+export function getUpdateTexts(
+    db: Database.Database,
+    ids: string[]
+): { id: string; title: string; descriptionMarkdown: string | null }[] {
+    const stmt = prepare(db, `
+        SELECT id, title, description_md AS descriptionMarkdown
+        FROM azure_updates
+        WHERE id IN (SELECT value FROM json_each(?))
+    `);
+    return stmt.all(JSON.stringify(ids)) as { id: string; title: string; descriptionMarkdown: string | null }[];
+}
+
+/**
+ * Store the embedding of an update (replacing any previous one)
+ * 
+ * @param db Database instance
+ * @param updateId Update ID
+ * @param model Embedding model identifier
+ * @param vector Unit-length embedding
+ */
+export function upsertUpdateEmbedding(
+    db: Database.Database,
+    updateId: string,
+    model: string,
+    vector: Float32Array
+): void {
+    const stmt = prepare(db, `
+        INSERT INTO update_embeddings (update_id, model, vector) VALUES (?, ?, ?)
+        ON CONFLICT(update_id) DO UPDATE SET model = excluded.model, vector = excluded.vector
+    `);
+    stmt.run(updateId, model, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength));
+}
+
+// =============================================================================
+// Related Updates
+// =============================================================================
+
+// Columns of a related update candidate (azure_updates au; the creation date of the given update is bound first)
+const CANDIDATE_COLUMNS = `
+    au.id, au.title, au.status, au.created, au.modified,
+    CAST(ROUND(julianday(au.created) - julianday(?)) AS INTEGER) AS daysApart`;
+
+/**
+ * Condition limiting candidates to one side of the given update's creation date
+ */
+function createdDirectionClause(direction: RelationDirection): string {
+    if (direction === 'earlier') return 'AND au.created < ?';
+    if (direction === 'later') return 'AND au.created > ?';
+    return '';
+}
+
+/**
+ * Get updates sharing products or product categories with an update
+ * 
+ * Removed updates are skipped.
+ * 
+ * @param db Database instance
+ * @param update ID and creation date of the given update
+ * @param direction Creation dates to consider
+ * @param limit Maximum number of candidates
+ * @returns Candidates sharing the most products, then categories, then closest in time first
+ */
+export function getUpdatesSharingTaxonomy(
+    db: Database.Database,
+    update: { id: string; created: string },
+    direction: RelationDirection,
+    limit: number
+): RelatedUpdateCandidate[] {
+    const stmt = prepare(db, `
+        WITH shared AS (
+            SELECT update_id, 1 AS is_product FROM update_products
+            WHERE product IN (SELECT product FROM update_products WHERE update_id = ?)
+            UNION ALL
+            SELECT update_id, 0 AS is_product FROM update_categories
+            WHERE category IN (SELECT category FROM update_categories WHERE update_id = ?)
+        )
+        SELECT ${CANDIDATE_COLUMNS}
+        FROM shared s JOIN azure_updates au ON au.id = s.update_id
+        WHERE au.id != ? AND au.removed_at IS NULL ${createdDirectionClause(direction)}
+        GROUP BY au.id
+        ORDER BY SUM(s.is_product) DESC, COUNT(*) DESC, ABS(daysApart), au.id
+        LIMIT ?
+    `);
+
+    const params: unknown[] = [update.id, update.id, update.created, update.id];
+    if (direction !== 'any') {
+        params.push(update.created);
+    }
+    return stmt.all(...params, limit) as RelatedUpdateCandidate[];
+}
+
+/**
+ * Get updates whose title matches a full-text query
+ * 
+ * Removed updates are skipped.
+ * 
+ * @param db Database instance
+ * @param update ID and creation date of the given update
+ * @param match FTS5 MATCH expression on the title column
+ * @param direction Creation dates to consider
+ * @param limit Maximum number of candidates
+ * @returns Candidates with titleRank, best title match first
+ */
+export function getUpdatesMatchingTitle(
+    db: Database.Database,
+    update: { id: string; created: string },
+    match: string,
+    direction: RelationDirection,
+    limit: number
+): RelatedUpdateCandidate[] {
+    // Column order of updates_fts: id (unindexed), title, description_md, tags, products, categories
+    const stmt = prepare(db, `
+        SELECT ${CANDIDATE_COLUMNS}, bm25(fts.updates_fts, 0, 1, 0, 0, 0, 0) AS titleRank
+        FROM updates_fts fts CROSS JOIN azure_updates au ON au.rowid = fts.rowid
+        WHERE fts.updates_fts MATCH ? AND au.id != ? AND au.removed_at IS NULL ${createdDirectionClause(direction)}
+        ORDER BY titleRank, au.id
+        LIMIT ?
+    `);
+
+    const params: unknown[] = [update.created, match, update.id];
+    if (direction !== 'any') {
+        params.push(update.created);
+    }
+    return stmt.all(...params, limit) as RelatedUpdateCandidate[];
+}
+
+// =============================================================================
+// Feature Lifecycles
+// =============================================================================
+
+/**
+ * Get the updates that carry lifecycle information (at least one availability ring)
+ * 
+ * Removed updates are skipped.
+ * 
+ * @param db Database instance
+ * @returns Id, title and creation date per update, oldest first
+ */
+export function getLifecycleUpdates(db: Database.Database): { id: string; title: string; created: string }[] {
+    const stmt = prepare(db, `
+        SELECT au.id, au.title, au.created
+        FROM azure_updates au
+        WHERE au.removed_at IS NULL
+          AND EXISTS (SELECT 1 FROM update_availabilities ua WHERE ua.update_id = au.id)
+        ORDER BY au.created, au.id
+    `);
+    return stmt.all() as { id: string; title: string; created: string }[];
+}
+
+// =============================================================================
+// Retirement Impact
+// =============================================================================
+
+/**
+ * Get the retirements of updates listing any of the given products
+ * 
+ * Product names match case-insensitively. Removed updates are skipped.
+ * 
+ * @param db Database instance
+ * @param products Product names
+ * @returns One row per update, retirement date (null if TBD) and matching product (as stored), earliest retirement first
+ */
+export function getRetirementsForProducts(
+    db: Database.Database,
+    products: string[]
+): { id: string; title: string; date: string | null; product: string }[] {
+    const stmt = prepare(db, `
+        SELECT DISTINCT au.id, au.title, ua.date, up.product
+        FROM update_products up
+        JOIN azure_updates au ON au.id = up.update_id
+        JOIN update_availabilities ua ON ua.update_id = au.id AND ua.ring = 'Retirement'
+        WHERE au.removed_at IS NULL
+          AND lower(up.product) IN (SELECT lower(value) FROM json_each(?))
+        ORDER BY ua.date IS NULL, ua.date, au.id, up.product
+    `);
+    return stmt.all(JSON.stringify(products)) as { id: string; title: string; date: string | null; product: string }[];
+}
+
 // =============================================================================
 // Batch Insert Operations
 // =============================================================================
 
+/**
+ * Copy the tags, products and categories of an update into its full-text row
+ * 
+ * Call once after replacing them: the related tables have no triggers, so
+ * an update with many values is rewritten in the index only once.
+ */
+export function refreshUpdateSearchColumns(db: Database.Database, updateId: string): void {
+    const stmt = prepare(db, `
+    UPDATE updates_fts SET
+      tags = (SELECT group_concat(tag, ', ') FROM update_tags WHERE update_id = ?),
+      products = (SELECT group_concat(product, ', ') FROM update_products WHERE update_id = ?),
+      categories = (SELECT group_concat(category, ', ') FROM update_categories WHERE update_id = ?)
+    WHERE rowid = (SELECT rowid FROM azure_updates WHERE id = ?)
+  `);
+    stmt.run(updateId, updateId, updateId, updateId);
+}
+
 /**
  * Replace tags for an update (delete + batch insert)
  */
@@ -256,13 +1032,13 @@ export function replaceUpdateTags(
     tags: string[]
 ): void {
     // Delete existing tags
-    const deleteStmt = db.prepare('DELETE FROM update_tags WHERE update_id = ?');
+    const deleteStmt = prepare(db, 'DELETE FROM update_tags WHERE update_id = ?');
     deleteStmt.run(updateId);
 
     if (tags.length === 0) return;
 
     // Batch insert new tags
-    const insertStmt = db.prepare('INSERT INTO update_tags (update_id, tag) VALUES (?, ?)');
+    const insertStmt = prepare(db, 'INSERT INTO update_tags (update_id, tag) VALUES (?, ?)');
     const insertMany = db.transaction((tagsToInsert: string[]) => {
         for (const tag of tagsToInsert) {
             insertStmt.run(updateId, tag);
@@ -280,12 +1056,12 @@ export function replaceUpdateCategories(
     updateId: string,
     categories: string[]
 ): void {
-    const deleteStmt = db.prepare('DELETE FROM update_categories WHERE update_id = ?');
+    const deleteStmt = prepare(db, 'DELETE FROM update_categories WHERE update_id = ?');
     deleteStmt.run(updateId);
 
     if (categories.length === 0) return;
 
-    const insertStmt = db.prepare('INSERT INTO update_categories (update_id, category) VALUES (?, ?)');
+    const insertStmt = prepare(db, 'INSERT INTO update_categories (update_id, category) VALUES (?, ?)');
     const insertMany = db.transaction((categoriesToInsert: string[]) => {
         for (const category of categoriesToInsert) {
             insertStmt.run(updateId, category);
@@ -303,12 +1079,12 @@ export function replaceUpdateProducts(
     updateId: string,
     products: string[]
 ): void {
-    const deleteStmt = db.prepare('DELETE FROM update_products WHERE update_id = ?');
+    const deleteStmt = prepare(db, 'DELETE FROM update_products WHERE update_id = ?');
     deleteStmt.run(updateId);
 
     if (products.length === 0) return;
 
-    const insertStmt = db.prepare('INSERT INTO update_products (update_id, product) VALUES (?, ?)');
+    const insertStmt = prepare(db, 'INSERT INTO update_products (update_id, product) VALUES (?, ?)');
     const insertMany = db.transaction((productsToInsert: string[]) => {
         for (const product of productsToInsert) {
             insertStmt.run(updateId, product);
@@ -326,12 +1102,12 @@ export function replaceUpdateAvailabilities(
     updateId: string,
     availabilities: AzureUpdateAvailability[]
 ): void {
-    const deleteStmt = db.prepare('DELETE FROM update_availabilities WHERE update_id = ?');
+    const deleteStmt = prepare(db, 'DELETE FROM update_availabilities WHERE update_id = ?');
     deleteStmt.run(updateId);
 
     if (availabilities.length === 0) return;
 
-    const insertStmt = db.prepare(`
+    const insertStmt = prepare(db, `
     INSERT INTO update_availabilities (update_id, ring, date) 
     VALUES (?, ?, ?)
   `);
@@ -352,7 +1128,7 @@ export function replaceUpdateAvailabilities(
  * Get all distinct tags
  */
 export function getAllTags(db: Database.Database): string[] {
-    const stmt = db.prepare('SELECT DISTINCT tag FROM update_tags ORDER BY tag');
+    const stmt = prepare(db, 'SELECT DISTINCT tag FROM update_tags ORDER BY tag');
     const rows = stmt.all() as { tag: string }[];
     return rows.map(row => row.tag);
 }
@@ -361,7 +1137,7 @@ export function getAllTags(db: Database.Database): string[] {
  * Get all distinct categories
  */
 export function getAllCategories(db: Database.Database): string[] {
-    const stmt = db.prepare('SELECT DISTINCT category FROM update_categories ORDER BY category');
+    const stmt = prepare(db, 'SELECT DISTINCT category FROM update_categories ORDER BY category');
     const rows = stmt.all() as { category: string }[];
     return rows.map(row => row.category);
 }
@@ -370,7 +1146,7 @@ export function getAllCategories(db: Database.Database): string[] {
  * Get all distinct products
  */
 export function getAllProducts(db: Database.Database): string[] {
-    const stmt = db.prepare('SELECT DISTINCT product FROM update_products ORDER BY product');
+    const stmt = prepare(db, 'SELECT DISTINCT product FROM update_products ORDER BY product');
     const rows = stmt.all() as { product: string }[];
     return rows.map(row => row.product);
 }
@@ -379,7 +1155,7 @@ export function getAllProducts(db: Database.Database): string[] {
  * Get all distinct availability rings
  */
 export function getAllAvailabilityRings(db: Database.Database): string[] {
-    const stmt = db.prepare('SELECT DISTINCT ring FROM update_availabilities ORDER BY ring');
+    const stmt = prepare(db, 'SELECT DISTINCT ring FROM update_availabilities ORDER BY ring');
     const rows = stmt.all() as { ring: string }[];
     return rows.map(row => row.ring);
 }
@@ -388,7 +1164,7 @@ export function getAllAvailabilityRings(db: Database.Database): string[] {
  * Get all distinct statuses
  */
 export function getAllStatuses(db: Database.Database): string[] {
-    const stmt = db.prepare('SELECT DISTINCT status FROM azure_updates WHERE status IS NOT NULL ORDER BY status');
+    const stmt = prepare(db, 'SELECT DISTINCT status FROM azure_updates WHERE status IS NOT NULL ORDER BY status');
     const rows = stmt.all() as { status: string }[];
     return rows.map(row => row.status);
 }
@@ -397,7 +1173,7 @@ export function getAllStatuses(db: Database.Database): string[] {
  * Get total update count
  */
 export function getUpdateCount(db: Database.Database): number {
-    const stmt = db.prepare('SELECT COUNT(*) as count FROM azure_updates');
+    const stmt = prepare(db, 'SELECT COUNT(*) as count FROM azure_updates');
     const result = stmt.get() as { count: number };
     return result.count;
 }
@@ -414,7 +1190,7 @@ export function getUpdateCount(db: Database.Database): number {
 export function deleteUpdatesBeforeRetentionDate(db: Database.Database, retentionStartDate: string): number {
     const cutoffDateTime = retentionStartDate + 'T00:00:00.000Z';
 
-    const stmt = db.prepare(`
+    const stmt = prepare(db, `
     DELETE FROM azure_updates 
     WHERE MAX(modified, created) < ?
   `);
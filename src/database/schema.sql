@@ -16,6 +16,8 @@ CREATE TABLE IF NOT EXISTS azure_updates (
   created TEXT NOT NULL,  -- ISO 8601: YYYY-MM-DDTHH:MM:SS.SSSSSSSZ
   modified TEXT NOT NULL,  -- ISO 8601 with 7 decimal precision for differential sync
   metadata TEXT,  -- JSON blob for extensibility (handles unknown fields)
+  removed_at TEXT,  -- Tombstone: ISO 8601 timestamp when the update was found withdrawn upstream (NULL = active)
+  change_seq INTEGER NOT NULL DEFAULT 0,  -- Local write order: next number on insert, upstream modification or restore (pins search cursors)
   
   CONSTRAINT chk_dates CHECK (
     created IS NOT NULL AND 
@@ -33,6 +35,12 @@ CREATE INDEX IF NOT EXISTS idx_updates_created ON azure_updates(created);
 -- Index for status filtering
 CREATE INDEX IF NOT EXISTS idx_updates_status ON azure_updates(status);
 
+-- Index for excluding withdrawn updates from default searches
+CREATE INDEX IF NOT EXISTS idx_updates_removed_at ON azure_updates(removed_at);
+
+-- Index for the next change number and cursor snapshots (MAX(change_seq))
+CREATE INDEX IF NOT EXISTS idx_updates_change_seq ON azure_updates(change_seq);
+
 -- =============================================================================
 -- 2. Many-to-Many: update_tags
 -- =============================================================================
@@ -100,34 +108,49 @@ CREATE INDEX IF NOT EXISTS idx_availabilities_date ON update_availabilities(date
 -- Composite index for common query pattern (ring + date filtering)
 CREATE INDEX IF NOT EXISTS idx_availabilities_ring_date ON update_availabilities(ring, date);
 
+-- Index for loading and filtering an update's availabilities (and cascading deletes)
+CREATE INDEX IF NOT EXISTS idx_availabilities_update_date ON update_availabilities(update_id, date);
+
 -- =============================================================================
 -- 6. FTS5 Virtual Table: updates_fts
 -- =============================================================================
 
--- Full-text search index for title and description content
--- Note: Title boosting can be achieved in queries using MATCH expressions
+-- Full-text search index over title, description, tags, products and categories
+-- Stores its own copy of the text (no external content) so that a column can
+-- be refreshed when only the tags, products or categories of an update change.
+-- Those columns are refreshed once per stored update by sync
+-- (refreshUpdateSearchColumns), not by triggers on the related tables.
+-- The rowid matches azure_updates.rowid. Columns are weighted at query time
+-- with bm25() (see search.service.ts).
 CREATE VIRTUAL TABLE IF NOT EXISTS updates_fts USING fts5(
   id UNINDEXED,  -- Don't index the ID itself (used for joins)
   title,
   description_md,
-  content='azure_updates',  -- Extract content from this table
-  content_rowid='rowid',  -- Map to rowid (SQLite internal)
+  tags,  -- Comma-separated tags
+  products,  -- Comma-separated products
+  categories,  -- Comma-separated product categories
   tokenize='porter unicode61 remove_diacritics 2'  -- Advanced tokenization
 );
 
 -- Triggers to keep FTS5 in sync with azure_updates
-CREATE TRIGGER IF NOT EXISTS updates_fts_insert AFTER INSERT ON azure_updates BEGIN
-  INSERT INTO updates_fts(rowid, id, title, description_md)
-  VALUES (new.rowid, new.id, new.title, new.description_md);
+DROP TRIGGER IF EXISTS updates_fts_insert;
+CREATE TRIGGER updates_fts_insert AFTER INSERT ON azure_updates BEGIN
+  INSERT INTO updates_fts(rowid, id, title, description_md, tags, products, categories)
+  VALUES (
+    new.rowid, new.id, new.title, new.description_md,
+    (SELECT group_concat(tag, ', ') FROM update_tags WHERE update_id = new.id),
+    (SELECT group_concat(product, ', ') FROM update_products WHERE update_id = new.id),
+    (SELECT group_concat(category, ', ') FROM update_categories WHERE update_id = new.id)
+  );
 END;
 
-CREATE TRIGGER IF NOT EXISTS updates_fts_update AFTER UPDATE ON azure_updates BEGIN
-  DELETE FROM updates_fts WHERE rowid = old.rowid;
-  INSERT INTO updates_fts(rowid, id, title, description_md)
-  VALUES (new.rowid, new.id, new.title, new.description_md);
+DROP TRIGGER IF EXISTS updates_fts_update;
+CREATE TRIGGER updates_fts_update AFTER UPDATE OF title, description_md ON azure_updates BEGIN
+  UPDATE updates_fts SET title = new.title, description_md = new.description_md WHERE rowid = new.rowid;
 END;
 
-CREATE TRIGGER IF NOT EXISTS updates_fts_delete AFTER DELETE ON azure_updates BEGIN
+DROP TRIGGER IF EXISTS updates_fts_delete;
+CREATE TRIGGER updates_fts_delete AFTER DELETE ON azure_updates BEGIN
   DELETE FROM updates_fts WHERE rowid = old.rowid;
 END;
 
@@ -142,6 +165,9 @@ CREATE TABLE IF NOT EXISTS sync_checkpoints (
   record_count INTEGER NOT NULL DEFAULT 0,
   duration_ms INTEGER,
   error_message TEXT,
+  last_reconciliation TEXT,  -- ISO 8601: last time upstream IDs were compared to detect removed updates
+  lock_owner TEXT,  -- host:pid of the process holding the sync lock (while in_progress)
+  lock_heartbeat TEXT,  -- ISO 8601: last heartbeat from the lock owner; stale locks can be taken over
   
   -- Metadata for observability
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
@@ -152,11 +178,101 @@ CREATE TABLE IF NOT EXISTS sync_checkpoints (
 INSERT OR IGNORE INTO sync_checkpoints (id, last_sync, sync_status, record_count)
 VALUES (1, '1970-01-01T00:00:00.0000000Z', 'success', 0);
 
+-- =============================================================================
+-- 8. One-to-Many: update_revisions
+-- =============================================================================
+
+-- Snapshot of a previous version of an update, taken by sync before a newer
+-- `modified` overwrites the row. Multi-valued fields are stored as JSON arrays.
+CREATE TABLE IF NOT EXISTS update_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  update_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description_html TEXT,
+  description_md TEXT,
+  status TEXT,
+  locale TEXT,
+  created TEXT NOT NULL,
+  modified TEXT NOT NULL,  -- modified timestamp of the snapshotted version
+  tags TEXT NOT NULL DEFAULT '[]',  -- JSON array of tag names
+  product_categories TEXT NOT NULL DEFAULT '[]',  -- JSON array of category names
+  products TEXT NOT NULL DEFAULT '[]',  -- JSON array of product names
+  availabilities TEXT NOT NULL DEFAULT '[]',  -- JSON array of { ring, date }
+  superseded_by TEXT NOT NULL,  -- modified timestamp of the version that replaced this one
+  recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+  FOREIGN KEY (update_id) REFERENCES azure_updates(id) ON DELETE CASCADE
+);
+
+-- Index for per-update history lookups in chronological order
+CREATE INDEX IF NOT EXISTS idx_revisions_update_modified ON update_revisions(update_id, modified);
+
+-- =============================================================================
+-- 9. Append-only Table: sync_runs
+-- =============================================================================
+
+-- One row per performSync call (runs skipped because another sync held the
+-- lock have status 'skipped'). sync_checkpoints keeps only the latest state.
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  started_at TEXT NOT NULL,  -- ISO 8601
+  finished_at TEXT,  -- ISO 8601, NULL while running
+  mode TEXT NOT NULL CHECK (mode IN ('initial', 'differential', 'full')),
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed', 'skipped', 'in_progress')),
+  records_inserted INTEGER NOT NULL DEFAULT 0,
+  records_updated INTEGER NOT NULL DEFAULT 0,
+  records_deleted INTEGER NOT NULL DEFAULT 0,  -- Updates tombstoned as removed upstream
+  pages_fetched INTEGER NOT NULL DEFAULT 0,
+  duration_ms INTEGER,
+  error_message TEXT
+);
+
+-- Index for listing recent runs
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+
+-- =============================================================================
+-- 10. Virtual Table: search_terms (FTS5 trigram vocabulary)
+-- =============================================================================
+
+-- Distinct words of the full-text index with the number of updates containing
+-- them, rebuilt after every sync that changes updates. The trigram tokenizer
+-- finds similarly spelled words for "did you mean" suggestions.
+CREATE VIRTUAL TABLE IF NOT EXISTS search_terms USING fts5(
+  term,
+  documents UNINDEXED,
+  tokenize='trigram'
+);
+
+-- =============================================================================
+-- 11. One-to-One: update_embeddings (similarity search vectors)
+-- =============================================================================
+
+-- Embedding of each update's title and description, written by sync (and at
+-- startup) when similarity search is enabled. `model` identifies
+-- the embedding provider; vectors of another model are recomputed.
+CREATE TABLE IF NOT EXISTS update_embeddings (
+  update_id TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  vector BLOB NOT NULL,  -- Float32 array, unit length
+
+  FOREIGN KEY (update_id) REFERENCES azure_updates(id) ON DELETE CASCADE
+);
+
+-- Drop the vector when the embedded text changes, so it is recomputed
+CREATE TRIGGER IF NOT EXISTS update_embeddings_invalidate
+AFTER UPDATE OF title, description_md ON azure_updates
+WHEN old.title IS NOT new.title OR old.description_md IS NOT new.description_md
+BEGIN
+  DELETE FROM update_embeddings WHERE update_id = new.id;
+END;
+
 -- =============================================================================
 -- Schema Version Tracking
 -- =============================================================================
 
 -- User-defined metadata table for schema versioning
+-- This file is the latest schema and is applied to new databases only; existing
+-- databases are upgraded by the numbered migrations in migrations.ts
 CREATE TABLE IF NOT EXISTS schema_version (
   version INTEGER PRIMARY KEY,
   applied_at TEXT NOT NULL DEFAULT (datetime('now'))
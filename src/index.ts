@@ -3,11 +3,14 @@
 /**
  * Azure Updates MCP Server - Entry Point
  * 
- * Initializes the database, sets up the MCP server with stdio transport,
- * and handles graceful shutdown.
+ * Initializes the database, sets up the MCP server with stdio transport
+ * (default) or HTTP transport (`--transport http`), and handles graceful shutdown.
+ *
+ * Usage: azure-updates-mcp-server [--transport stdio|http] [--host <host>] [--port <port>]
  */
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type Database from 'better-sqlite3';
 import { join } from 'path';
 import { homedir } from 'os';
 import { readFileSync } from 'fs';
@@ -16,7 +19,20 @@ import { dirname } from 'path';
 
 import { initializeDatabase, closeDatabase } from './database/database.js';
 import { createMCPServer } from './server.js';
-import { performSync, isSyncNeeded } from './services/sync.service.js';
+import { startHttpTransport } from './transports/http.transport.js';
+import {
+    performSync,
+    isSyncNeeded,
+    parseCheckIntervalMinutes,
+    startSyncScheduler,
+    stopSyncScheduler,
+    type SyncOptions,
+} from './services/sync.service.js';
+import { parseRankWeights, type SearchOptions } from './services/search.service.js';
+import { loadSynonymFile } from './services/synonym.service.js';
+import { createEmbeddingProvider, ensureUpdateEmbeddings, type EmbeddingProvider } from './services/embedding.service.js';
+import { loadFeatureOverrideFile, type LifecycleOptions } from './services/lifecycle.service.js';
+import { loadInventoryFile, type ImpactOptions } from './services/impact.service.js';
 import { deleteUpdatesBeforeRetentionDate } from './database/queries.js';
 import * as logger from './utils/logger.js';
 
@@ -31,9 +47,126 @@ const LOG_LEVEL = (process.env.LOG_LEVEL ?? 'info') as 'debug' | 'info' | 'warn'
 const SYNC_STALENESS_HOURS = parseInt(process.env.SYNC_STALENESS_HOURS ?? '24', 10);
 const SYNC_ON_STARTUP = (process.env.SYNC_ON_STARTUP ?? 'true').toLowerCase() === 'true';
 const DATA_RETENTION_START_DATE = process.env.DATA_RETENTION_START_DATE ?? '2022-01-01';
+const SYNC_RECONCILE_INTERVAL_HOURS = parseInt(process.env.SYNC_RECONCILE_INTERVAL_HOURS ?? '168', 10);
+const SYNC_CHECK_INTERVAL_MINUTES = process.env.SYNC_CHECK_INTERVAL_MINUTES ?? '60';
+const SYNC_LOCK_TIMEOUT_MINUTES = parseInt(process.env.SYNC_LOCK_TIMEOUT_MINUTES ?? '10', 10);
+const SEARCH_RANK_WEIGHTS = process.env.SEARCH_RANK_WEIGHTS ?? '';
+const SEARCH_SYNONYMS_FILE = process.env.SEARCH_SYNONYMS_FILE || undefined;
+const SIMILARITY_SEARCH = (process.env.SIMILARITY_SEARCH ?? 'false').toLowerCase() === 'true';
+const SIMILARITY_SEARCH_PROVIDER = process.env.SIMILARITY_SEARCH_PROVIDER ?? 'hashing';
+const SIMILARITY_SEARCH_DIMENSIONS = process.env.SIMILARITY_SEARCH_DIMENSIONS ? Number(process.env.SIMILARITY_SEARCH_DIMENSIONS) : undefined;
+const FEATURE_OVERRIDES_FILE = process.env.FEATURE_OVERRIDES_FILE || undefined;
+const INVENTORY_FILE = process.env.INVENTORY_FILE || undefined;
+const INVENTORY_OWNER_TAG = process.env.INVENTORY_OWNER_TAG || undefined;
+const TRANSPORT = getCliOption('transport') ?? process.env.MCP_TRANSPORT ?? 'stdio';
+const HTTP_HOST = getCliOption('host') ?? process.env.MCP_HTTP_HOST ?? '127.0.0.1';
+const HTTP_PORT = parseInt(getCliOption('port') ?? process.env.MCP_HTTP_PORT ?? '3000', 10);
+const HTTP_AUTH_TOKEN = process.env.MCP_HTTP_AUTH_TOKEN || undefined;
 const SERVER_NAME = 'azure-updates-mcp-server';
 const SERVER_VERSION = packageJson.version;
 
+/**
+ * Create the sync options shared by the startup sync, the scheduler and on-demand syncs
+ * 
+ * @param embeddings Embedding provider for similarity search (syncs store vectors, searches compare them)
+ */
+function createSyncOptions(embeddings: EmbeddingProvider | undefined): SyncOptions {
+    return {
+        reconcileIntervalHours: SYNC_RECONCILE_INTERVAL_HOURS,
+        lockTimeoutMinutes: SYNC_LOCK_TIMEOUT_MINUTES,
+        embeddings,
+    };
+}
+
+/**
+ * Read a `--name value` or `--name=value` command line option
+ */
+function getCliOption(name: string): string | undefined {
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === `--${name}`) {
+            return args[i + 1];
+        }
+        if (args[i].startsWith(`--${name}=`)) {
+            return args[i].slice(name.length + 3);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Start a non-blocking sync if data is stale on startup
+ */
+function startStartupSync(db: Database.Database, syncOptions: SyncOptions): void {
+    // T056: Check if sync is needed based on staleness
+    if (SYNC_ON_STARTUP && isSyncNeeded(db, SYNC_STALENESS_HOURS)) {
+        logger.info('Data is stale, starting background sync', {
+            stalenessThreshold: `${SYNC_STALENESS_HOURS} hours`,
+            dataRetentionStartDate: DATA_RETENTION_START_DATE,
+        });
+
+        // T057: Non-blocking background sync - don't await
+        void performSync(db, DATA_RETENTION_START_DATE, syncOptions)
+            .then(result => {
+                if (result.success) {
+                    logger.info('Background sync completed', {
+                        recordsProcessed: result.recordsProcessed,
+                        recordsInserted: result.recordsInserted,
+                        recordsUpdated: result.recordsUpdated,
+                        recordsRemoved: result.recordsRemoved,
+                        durationMs: result.durationMs,
+                    });
+                } else {
+                    logger.warn('Background sync failed', {
+                        error: result.error,
+                        durationMs: result.durationMs,
+                    });
+                }
+            })
+            .catch(error => {
+                logger.errorWithStack('Background sync error', error as Error);
+            });
+    } else {
+        logger.info('Data is fresh, skipping startup sync', {
+            syncOnStartup: SYNC_ON_STARTUP,
+            stalenessThreshold: `${SYNC_STALENESS_HOURS} hours`,
+        });
+    }
+}
+
+/**
+ * Create the embedding provider when similarity search is enabled
+ * 
+ * @throws Error if the provider name or dimensions are invalid
+ */
+function loadEmbeddingProvider(): EmbeddingProvider | undefined {
+    return SIMILARITY_SEARCH ? createEmbeddingProvider(SIMILARITY_SEARCH_PROVIDER, SIMILARITY_SEARCH_DIMENSIONS) : undefined;
+}
+
+/**
+ * Read the tool options (rank weights, synonym, feature override and inventory files)
+ * 
+ * @param embeddings Embedding provider for similarity search
+ * @throws Error if a setting or file is invalid
+ */
+function loadToolOptions(
+    embeddings: EmbeddingProvider | undefined
+): { searchOptions: SearchOptions; lifecycleOptions: LifecycleOptions; impactOptions: ImpactOptions } {
+    return {
+        searchOptions: {
+            rankWeights: parseRankWeights(SEARCH_RANK_WEIGHTS),
+            synonyms: SEARCH_SYNONYMS_FILE ? loadSynonymFile(SEARCH_SYNONYMS_FILE) : undefined,
+            embeddings,
+        },
+        lifecycleOptions: {
+            overrides: FEATURE_OVERRIDES_FILE ? loadFeatureOverrideFile(FEATURE_OVERRIDES_FILE) : undefined,
+        },
+        impactOptions: {
+            inventory: INVENTORY_FILE ? loadInventoryFile(INVENTORY_FILE, { ownerTag: INVENTORY_OWNER_TAG }) : undefined,
+        },
+    };
+}
+
 /**
  * Main entry point
  */
@@ -51,6 +184,15 @@ async function main(): Promise<void> {
             logLevel: LOG_LEVEL,
         });
 
+        // Read every setting and file before touching the database, so bad configuration fails fast
+        if (TRANSPORT !== 'stdio' && TRANSPORT !== 'http') {
+            throw new Error(`Unknown transport: ${TRANSPORT} (expected 'stdio' or 'http')`);
+        }
+        const checkIntervalMinutes = parseCheckIntervalMinutes(SYNC_CHECK_INTERVAL_MINUTES);
+        const embeddings = loadEmbeddingProvider();
+        const syncOptions = createSyncOptions(embeddings);
+        const { searchOptions, lifecycleOptions, impactOptions } = loadToolOptions(embeddings);
+
         // Initialize database
         logger.info('Initializing database', { path: DATABASE_PATH });
         const db = initializeDatabase({
@@ -73,60 +215,76 @@ async function main(): Promise<void> {
             }
         }
 
-        // T056: Check if sync is needed based on staleness
-        if (SYNC_ON_STARTUP && isSyncNeeded(db, SYNC_STALENESS_HOURS)) {
-            logger.info('Data is stale, starting background sync', {
-                stalenessThreshold: `${SYNC_STALENESS_HOURS} hours`,
-                dataRetentionStartDate: DATA_RETENTION_START_DATE,
-            });
-
-            // T057: Non-blocking background sync - don't await
-            void performSync(db, DATA_RETENTION_START_DATE)
-                .then(result => {
-                    if (result.success) {
-                        logger.info('Background sync completed', {
-                            recordsProcessed: result.recordsProcessed,
-                            recordsInserted: result.recordsInserted,
-                            recordsUpdated: result.recordsUpdated,
-                            durationMs: result.durationMs,
-                        });
-                    } else {
-                        logger.warn('Background sync failed', {
-                            error: result.error,
-                            durationMs: result.durationMs,
-                        });
-                    }
-                })
-                .catch(error => {
-                    logger.errorWithStack('Background sync error', error as Error);
-                });
-        } else {
-            logger.info('Data is fresh, skipping startup sync', {
-                syncOnStartup: SYNC_ON_STARTUP,
-                stalenessThreshold: `${SYNC_STALENESS_HOURS} hours`,
-            });
+        // Embed updates stored while similarity search was off (searches only read vectors)
+        if (embeddings) {
+            ensureUpdateEmbeddings(db, embeddings);
         }
 
-        // Create MCP server
-        const server = createMCPServer({
+        // Sync in the background if the data is stale
+        startStartupSync(db, syncOptions);
+
+        // Keep re-checking staleness while the server stays running
+        // (SYNC_ON_STARTUP=false disables automatic sync completely)
+        startSyncScheduler(db, {
+            checkIntervalMinutes: SYNC_ON_STARTUP ? checkIntervalMinutes : 0,
+            stalenessHours: SYNC_STALENESS_HOURS,
+            retentionStartDate: DATA_RETENTION_START_DATE,
+            syncOptions,
+        });
+
+        const createServer = (): ReturnType<typeof createMCPServer> => createMCPServer({
             name: SERVER_NAME,
             version: SERVER_VERSION,
             database: db,
+            sync: {
+                retentionStartDate: DATA_RETENTION_START_DATE,
+                syncOptions,
+            },
+            search: searchOptions,
+            lifecycle: lifecycleOptions,
+            impact: impactOptions,
         });
 
-        // Setup stdio transport
-        const transport = new StdioServerTransport();
+        let closeTransport: () => Promise<void>;
+
+        if (TRANSPORT === 'http') {
+            if (!HTTP_AUTH_TOKEN) {
+                logger.warn('MCP_HTTP_AUTH_TOKEN is not set, HTTP endpoints are unauthenticated', {
+                    host: HTTP_HOST,
+                });
+            }
+
+            // One MCP server per client session, all sharing the same database
+            const httpTransport = await startHttpTransport({
+                host: HTTP_HOST,
+                port: HTTP_PORT,
+                authToken: HTTP_AUTH_TOKEN,
+                database: db,
+                version: SERVER_VERSION,
+                createServer,
+            });
+            closeTransport = httpTransport.close;
+
+            logger.info('MCP server is ready and listening on HTTP', { url: httpTransport.url });
+        } else {
+            const server = createServer();
+
+            // Setup stdio transport
+            const transport = new StdioServerTransport();
 
-        logger.info('Connecting MCP server to stdio transport');
-        await server.connect(transport);
+            logger.info('Connecting MCP server to stdio transport');
+            await server.connect(transport);
+            closeTransport = (): Promise<void> => server.close();
 
-        logger.info('MCP server is ready and listening on stdio');
+            logger.info('MCP server is ready and listening on stdio');
+        }
 
         // Graceful shutdown handlers
         const shutdown = (): void => {
             logger.info('Shutting down server');
+            stopSyncScheduler();
 
-            server.close()
+            closeTransport()
                 .then(() => {
                     closeDatabase();
                     logger.info('Server shutdown complete');
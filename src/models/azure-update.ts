@@ -31,10 +31,18 @@ export interface AzureUpdate {
     products: string[]; // e.g., ['Azure Virtual Machines']
     availabilities: AzureUpdateAvailability[]; // Timeline entries
 
+    // Tombstone timestamp if the update was withdrawn upstream (null/absent = active)
+    removedAt?: string | null;
+
     // Extensibility for unknown fields
     [key: string]: unknown;
 }
 
+/**
+ * Multi-valued fields stored in the junction tables
+ */
+export type AzureUpdateRelatedData = Pick<AzureUpdate, 'tags' | 'productCategories' | 'products' | 'availabilities'>;
+
 /**
  * Database record representation (flattened for SQLite storage)
  */
@@ -54,7 +62,9 @@ export interface AzureUpdateRecord {
  * Lightweight search result (excludes description field to reduce token usage)
  * Used by search_azure_updates for efficient discovery
  */
-export type AzureUpdateSearchSummary = Omit<AzureUpdate, 'description'>;
+export interface AzureUpdateSearchSummary extends Omit<AzureUpdate, 'description'> {
+    snippet?: string; // Description excerpt around the matched terms (includeSnippets)
+}
 
 /**
  * Full search result with relevance score (includes description)
@@ -62,6 +72,7 @@ export type AzureUpdateSearchSummary = Omit<AzureUpdate, 'description'>;
  */
 export interface AzureUpdateSearchResult extends AzureUpdate {
     relevanceScore?: number; // BM25 relevance score from FTS5
+    snippet?: string; // Description excerpt around the matched terms (includeSnippets)
 }
 
 /**
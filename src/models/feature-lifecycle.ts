@@ -0,0 +1,81 @@
+/**
+ * TypeScript interfaces for feature lifecycles
+ * 
+ * Used by the get_feature_lifecycle MCP tool
+ */
+
+/**
+ * Lifecycle stages (availability rings), in lifecycle order
+ */
+export const LIFECYCLE_STAGES = ['Private Preview', 'Preview', 'General Availability', 'Retirement'] as const;
+
+/**
+ * Lifecycle stage of a feature
+ */
+export type FeatureStage = typeof LIFECYCLE_STAGES[number];
+
+/**
+ * Manual grouping of updates into one feature (FEATURE_OVERRIDES_FILE)
+ */
+export interface FeatureOverride {
+    name?: string; // Feature name (default: derived from the latest title)
+    updateIds: string[]; // Updates forming the feature; they are left out of automatic grouping
+}
+
+/**
+ * Date a feature reached a stage
+ */
+export interface FeatureStageEntry {
+    stage: FeatureStage;
+    date: string | null; // ISO 8601 date (first of the month), null if not announced yet
+    updateId: string; // Announcement the date comes from (the most recent one listing the stage)
+}
+
+/**
+ * Time between two consecutive dated stages
+ */
+export interface StageTransition {
+    from: FeatureStage;
+    to: FeatureStage;
+    days: number;
+}
+
+/**
+ * Announcements about one feature and the stages derived from them
+ */
+export interface FeatureTimeline {
+    id: string; // ID of the earliest update of the feature
+    name: string;
+    products: string[];
+    updates: Array<{ id: string; title: string; created: string }>; // Oldest first
+    stages: FeatureStageEntry[]; // In lifecycle order
+    transitions: StageTransition[]; // Between stages reached by the reference date
+    currentStage: FeatureStage | null; // Latest stage whose date has passed
+    currentStageSince: string | null;
+    monthsInCurrentStage: number | null;
+    manual: boolean; // Grouped by an override rather than by product and title
+}
+
+/**
+ * Feature lifecycle query parameters
+ */
+export interface FeatureLifecycleQuery {
+    updateId?: string; // Only the feature containing this update
+    products?: string[]; // Features of ANY of these products
+    stage?: FeatureStage; // Current stage
+    minMonthsInStage?: number; // In the current stage for at least this many months
+    limit?: number; // Maximum features (default: 20)
+}
+
+/**
+ * Feature lifecycle query result
+ */
+export interface FeatureLifecycleResult {
+    features: FeatureTimeline[]; // Longest in their current stage first
+    metadata: {
+        totalFeatures: number; // Features matching the query
+        returnedFeatures: number;
+        asOf: string; // Date the current stages refer to
+        medianPreviewToGaDays: number | null; // Over matching features with a Preview → General Availability transition
+    };
+}
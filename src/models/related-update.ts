@@ -0,0 +1,58 @@
+/**
+ * TypeScript interfaces for related updates
+ * 
+ * Used by the find_related_updates MCP tool
+ */
+
+import type { AzureUpdateAvailability } from './azure-update.js';
+
+/**
+ * Which related updates to return, by creation date relative to the given update
+ */
+export type RelationDirection = 'earlier' | 'later' | 'any';
+
+/**
+ * Update that may be related to another one (row of a candidate query)
+ */
+export interface RelatedUpdateCandidate {
+    id: string;
+    title: string;
+    status: string | null;
+    created: string;
+    modified: string;
+    daysApart: number; // Days between the creation dates (negative = created before the given update)
+    titleRank?: number; // bm25 score of the title match (lower = better), for title matches only
+}
+
+/**
+ * Update related to the given one, with the evidence for the relation
+ */
+export interface RelatedUpdate {
+    id: string;
+    title: string;
+    url: string;
+    status: string | null;
+    created: string;
+    modified: string;
+    tags: string[];
+    productCategories: string[];
+    products: string[];
+    availabilities: AzureUpdateAvailability[];
+    score: number; // Higher = more closely related
+    sharedProducts: string[];
+    sharedCategories: string[];
+    sharedTitleTerms: string[]; // Salient title words of the given update found in this title
+    daysApart: number; // Negative = created before the given update
+    reasons: string[]; // Why the update is related, e.g., 'Same product: Azure Kubernetes Service'
+}
+
+/**
+ * Updates related to an update
+ */
+export interface RelatedUpdates {
+    id: string;
+    title: string;
+    url: string;
+    created: string;
+    related: RelatedUpdate[]; // Most closely related first
+}
@@ -0,0 +1,35 @@
+/**
+ * TypeScript interfaces for the retirement calendar
+ * 
+ * Used by the export_retirement_calendar MCP tool and the
+ * azure-updates://calendar/retirements.ics resource
+ */
+
+import type { SearchFilters } from './search-query.js';
+
+/**
+ * Filters for the retirement calendar (same semantics as in SearchFilters)
+ */
+export type RetirementCalendarFilters = Pick<SearchFilters, 'products' | 'productCategories'>;
+
+/**
+ * Retirement of an update in one month (one calendar event)
+ */
+export interface RetirementEvent {
+    uid: string; // Derived from the update ID; stays the same when the retirement date moves
+    updateId: string;
+    title: string;
+    url: string;
+    products: string[];
+    date: string; // ISO 8601 date (first of the retirement month)
+    modified: string; // Last modification of the update (LAST-MODIFIED)
+    sequence: number; // Archived revisions of the update, so it grows with every change (SEQUENCE)
+}
+
+/**
+ * Retirement calendar in iCalendar (RFC 5545) format
+ */
+export interface RetirementCalendar {
+    events: RetirementEvent[]; // Earliest retirement first
+    ics: string; // VCALENDAR with one all-day VEVENT per event (CRLF line endings)
+}
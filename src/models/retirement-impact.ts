@@ -0,0 +1,78 @@
+/**
+ * TypeScript interfaces for retirement impact reports
+ * 
+ * Used by the get_retirement_impact MCP tool
+ */
+
+/**
+ * Product in use, as declared in an inventory (INVENTORY_FILE or tool input)
+ */
+export interface InventoryItem {
+    product: string; // Product name as in update products (case-insensitive)
+    resourceCount?: number; // Resources using the product
+    owners?: string[]; // People or teams to notify
+}
+
+/**
+ * Inventory entry: a product name or an item with resource count and owners
+ */
+export type InventoryEntry = string | InventoryItem;
+
+/**
+ * How soon a retirement takes effect
+ */
+export type UrgencyBucket =
+    | 'overdue' // Retirement month has passed
+    | 'within90Days' // Less than 90 days left
+    | 'withinYear'; // Less than a year left
+
+/**
+ * Retirement affecting products of the inventory
+ */
+export interface ImpactedRetirement {
+    updateId: string;
+    title: string;
+    url: string;
+    retirementDate: string; // ISO 8601 date (first of the retirement month)
+    daysUntil: number; // Negative when overdue
+    affectedProducts: InventoryItem[]; // Inventory items the update lists
+    resourceCount: number | null; // Sum over affected products, null if no count was declared
+    owners: string[]; // Owners of all affected products
+}
+
+/**
+ * Retirement impact report
+ */
+export interface RetirementImpact {
+    buckets: Record<UrgencyBucket, ImpactedRetirement[]>; // Earliest retirement first
+    unmatchedProducts: string[]; // Inventory products no stored update lists (check the spelling)
+    metadata: {
+        asOf: string; // Date the buckets refer to
+        inventoryProducts: number;
+        impactedRetirements: number; // Across all buckets
+        laterRetirements: number; // Dated a year or more ahead (not listed)
+        undatedRetirements: number; // Without an announced date (not listed)
+    };
+}
+
+/**
+ * Resource type without a product mapping, found in a resource export
+ */
+export interface UnmappedResourceType {
+    type: string; // ARM resource type, lowercase (e.g. microsoft.contoso/widgets)
+    resourceCount: number;
+}
+
+/**
+ * Inventory derived from an Azure Resource Graph result or `az resource list` export
+ */
+export interface ImportedInventory {
+    inventory: InventoryItem[]; // One item per product, most resources first
+    products: string[]; // Product names of the inventory (sorted), e.g. for a products.anyOf filter
+    unmappedTypes: UnmappedResourceType[]; // Types the mapping table does not cover, most resources first
+    metadata: {
+        resources: number; // Resources in the export (summarized rows count their count column)
+        mappedResources: number; // Resources of a type with a product
+        skippedRows: number; // Rows without a resource type
+    };
+}
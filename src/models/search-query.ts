@@ -16,6 +16,25 @@ export type SortBy =
     | 'retirement:asc' // Earliest retirement first
     | 'retirement:desc'; // Latest retirement first
 
+/**
+ * How keyword queries are matched
+ */
+export type SearchMode =
+    | 'keyword' // Full-text match (FTS5, BM25 relevance)
+    | 'similarity' // Most similar updates by embedding (cosine similarity)
+    | 'hybrid'; // Keyword and similarity rankings fused (reciprocal rank fusion)
+
+/**
+ * Filter on a multi-valued dimension (tags, products, product categories)
+ * 
+ * All given conditions must hold. Empty arrays are ignored.
+ */
+export interface MultiValueFilter {
+    allOf?: string[]; // Result must contain ALL of these values
+    anyOf?: string[]; // Result must contain AT LEAST ONE of these values
+    noneOf?: string[]; // Result must contain NONE of these values
+}
+
 /**
  * Search filters for Azure updates
  * 
@@ -23,17 +42,56 @@ export type SortBy =
  * The Azure API provides retirement dates at YYYY-MM granularity (month precision only).
  * Dates are stored in the database normalized to the 1st of the month (e.g., "2026-06" → "2026-06-01").
  * When filtering, any ISO 8601 date within the target month works correctly due to date comparison logic.
+ * The same applies to availabilityDateFrom/To, which match any ring (or the rings in availabilityRings).
  */
 export interface SearchFilters {
     status?: string; // Filter by status (e.g., 'Active', 'Retired')
     availabilityRing?: string; // Filter by availability ring
+    availabilityRings?: string[]; // Filter by availability rings - result must have ANY of them (OR semantics); also scopes the availability date filters
+    availabilityDateFrom?: string; // ISO 8601 date - include updates with an availability (in availabilityRings, if set) on or after this date (month-level granularity)
+    availabilityDateTo?: string; // ISO 8601 date - include updates with an availability (in availabilityRings, if set) on or before this date (month-level granularity)
+    availabilityDateTbd?: boolean; // Include only updates with an availability (in availabilityRings, if set) whose date is not announced yet (NULL)
     modifiedFrom?: string; // ISO 8601 date - include updates modified on or after this date
     modifiedTo?: string; // ISO 8601 date - include updates modified on or before this date
     retirementFrom?: string; // ISO 8601 date - include updates with retirement on or after this date (month-level granularity)
     retirementTo?: string; // ISO 8601 date - include updates with retirement on or before this date (month-level granularity)
-    tags?: string[]; // Filter by tags - result must contain ALL specified tags (AND semantics)
-    products?: string[]; // Filter by products - result must contain ALL specified products (AND semantics)
-    productCategories?: string[]; // Filter by product categories - result must contain ALL specified categories (AND semantics)
+    tags?: string[] | MultiValueFilter; // Filter by tags - an array requires ALL specified tags (same as allOf)
+    products?: string[] | MultiValueFilter; // Filter by products - an array requires ALL specified products (same as allOf)
+    productCategories?: string[] | MultiValueFilter; // Filter by product categories - an array requires ALL specified categories (same as allOf)
+    includeRemoved?: boolean; // Include updates withdrawn upstream (excluded by default)
+}
+
+/**
+ * Dimensions that can be counted across all matches of a search
+ */
+export type FacetField =
+    | 'tags'
+    | 'products'
+    | 'productCategories'
+    | 'availabilityRings'
+    | 'statuses'
+    | 'months'; // Month of last modification (YYYY-MM)
+
+/**
+ * Number of matching updates with a given facet value
+ */
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+/**
+ * Facet counts per requested dimension
+ */
+export type SearchFacets = Partial<Record<FacetField, FacetCount[]>>;
+
+/**
+ * Snippet options for keyword searches (SearchQuery.includeSnippets)
+ */
+export interface SnippetOptions {
+    maxTokens?: number; // Maximum words per snippet (1-64, default: 24)
+    startMarker?: string; // Inserted before each matched term (default: '**')
+    endMarker?: string; // Inserted after each matched term (default: '**')
 }
 
 /**
@@ -45,6 +103,35 @@ export interface SearchQuery {
     sortBy?: SortBy; // Sort order with direction suffix
     limit?: number; // Max results to return (default: 20, max: 100)
     offset?: number; // Number of results to skip for pagination (default: 0)
+    cursor?: string; // Opaque cursor from SearchMetadata.cursor - continues after the previous page (replaces offset)
+    facets?: FacetField[]; // Dimensions to count across all matches (default: none)
+    includeSnippets?: boolean; // Add a description excerpt with highlighted matches to each result (keyword searches only)
+    snippetOptions?: SnippetOptions; // Snippet length and highlight markers
+    mode?: SearchMode; // Matching mode (default: keyword); similarity and hybrid need a query
+}
+
+/**
+ * Misspelled query term and its replacement
+ */
+export interface TermCorrection {
+    term: string; // Term as written in the query
+    suggestion: string; // Closest indexed word (or two words, e.g. "cosmos db")
+}
+
+/**
+ * Corrected query run because the original query matched nothing
+ */
+export interface QuerySuggestion {
+    query: string; // Corrected query; the returned results are for this query
+    corrections: TermCorrection[]; // Replaced terms
+}
+
+/**
+ * Query term searched together with its synonyms
+ */
+export interface SynonymExpansion {
+    term: string; // Term as written in the query (a known multi-word name counts as one term)
+    synonyms: string[]; // Other names also matched, e.g. "Azure Kubernetes Service" for "AKS"
 }
 
 /**
@@ -56,6 +143,10 @@ export interface SearchMetadata {
     limit: number; // Applied limit
     offset: number; // Applied offset
     hasMore: boolean; // True if more results available
+    truncated?: boolean; // Set when a similarity or hybrid ranking stopped at its limit: totalResults is then a lower bound
+    cursor?: string; // Pass as SearchQuery.cursor to fetch the next page (set when hasMore)
+    didYouMean?: QuerySuggestion; // Set when the query matched nothing and a corrected query did
+    expansions?: SynonymExpansion[]; // Query terms that were expanded with synonyms
     queryTime: number; // Query execution time in milliseconds
 }
 
@@ -65,6 +156,7 @@ export interface SearchMetadata {
 export interface SearchResponse<T = unknown> {
     results: T[]; // Array of matching results
     metadata: SearchMetadata; // Query metadata
+    facets?: SearchFacets; // Counts across all matches, when requested
 }
 
 /**
@@ -19,6 +19,9 @@ export interface SyncCheckpoint {
     recordCount: number; // Total number of records synced
     durationMs: number | null; // Sync duration in milliseconds
     errorMessage: string | null; // Error message if sync failed
+    lastReconciliation: string | null; // ISO 8601 timestamp of last removed-update reconciliation
+    lockOwner: string | null; // host:pid of the process holding the sync lock
+    lockHeartbeat: string | null; // ISO 8601 timestamp of the lock owner's last heartbeat
     createdAt: string; // Checkpoint creation timestamp
     updatedAt: string; // Last update timestamp
 }
@@ -33,10 +36,64 @@ export interface SyncCheckpointRecord {
     record_count: number;
     duration_ms: number | null;
     error_message: string | null;
+    last_reconciliation: string | null;
+    lock_owner: string | null;
+    lock_heartbeat: string | null;
     created_at: string;
     updated_at: string;
 }
 
+/**
+ * Result of trying to take the sync lock
+ */
+export interface SyncLockResult {
+    acquired: boolean;
+    takenOverFrom: {
+        owner: string | null; // Previous owner (null for locks taken before leases existed)
+        heartbeat: string; // Its last heartbeat
+    } | null; // Set when a stale lock was taken over
+}
+
+/**
+ * Kind of sync run
+ */
+export type SyncRunMode = 'initial' | 'differential' | 'full';
+
+/**
+ * Sync run status ('skipped' when another sync held the lock)
+ */
+export type SyncRunStatus = SyncStatus | 'skipped';
+
+/**
+ * Sync run history entry (one per performSync call)
+ */
+export interface SyncRun {
+    id: number; // Auto-increment run identifier
+    startedAt: string; // ISO 8601 timestamp
+    finishedAt: string | null; // ISO 8601 timestamp, null while running
+    mode: SyncRunMode;
+    status: SyncRunStatus;
+    recordsInserted: number; // Updates stored for the first time
+    recordsUpdated: number; // Previously stored updates whose modified timestamp changed
+    recordsDeleted: number; // Updates tombstoned as removed upstream
+    pagesFetched: number; // API pages fetched
+    durationMs: number | null;
+    errorMessage: string | null;
+}
+
+/**
+ * Outcome recorded when a sync run finishes
+ */
+export interface SyncRunCompletion {
+    status: Exclude<SyncRunStatus, 'in_progress'>;
+    recordsInserted: number;
+    recordsUpdated: number;
+    recordsDeleted: number;
+    pagesFetched: number;
+    durationMs: number;
+    errorMessage?: string | null;
+}
+
 /**
  * Sync operation result
  */
@@ -0,0 +1,83 @@
+/**
+ * TypeScript interfaces for update revision history
+ * 
+ * Used by the get_azure_update_history MCP tool
+ */
+
+import type { AzureUpdateAvailability } from './azure-update.js';
+
+/**
+ * Snapshot of a previous version of an Azure update
+ */
+export interface UpdateRevision {
+    revisionId: number; // Auto-increment revision identifier
+    updateId: string; // ID of the Azure update this revision belongs to
+    title: string;
+    descriptionMarkdown: string | null;
+    status: string | null;
+    locale: string | null;
+    created: string; // ISO 8601 timestamp
+    modified: string; // ISO 8601 timestamp of the snapshotted version
+    tags: string[];
+    productCategories: string[];
+    products: string[];
+    availabilities: AzureUpdateAvailability[];
+    supersededBy: string; // Modified timestamp of the version that replaced this one
+    recordedAt: string; // When the snapshot was taken
+}
+
+/**
+ * Change of a single-valued field (title, status, availability date per ring)
+ */
+export interface ValueChange {
+    field: string; // e.g., 'title', 'status', 'availabilities.Retirement'
+    type: 'value';
+    before: string | null;
+    after: string | null;
+}
+
+/**
+ * Change of a multi-valued field (tags, products, productCategories)
+ */
+export interface SetChange {
+    field: string; // e.g., 'tags', 'products'
+    type: 'set';
+    added: string[];
+    removed: string[];
+}
+
+/**
+ * Change of the description text (content only included on request)
+ */
+export interface TextChange {
+    field: 'description';
+    type: 'text';
+    before?: string | null;
+    after?: string | null;
+}
+
+/**
+ * Field-level change between two consecutive versions
+ */
+export type FieldChange = ValueChange | SetChange | TextChange;
+
+/**
+ * One edit event in the history of an update
+ */
+export interface UpdateHistoryEntry {
+    modified: string; // Modified timestamp of the newer version
+    previousModified: string; // Modified timestamp of the older version
+    changes: FieldChange[];
+}
+
+/**
+ * Full revision history of an update
+ */
+export interface UpdateHistory {
+    id: string;
+    title: string; // Current title
+    url: string;
+    currentModified: string;
+    revisionCount: number;
+    history: UpdateHistoryEntry[]; // Newest first
+}
@@ -0,0 +1,82 @@
+/**
+ * TypeScript interfaces for update digests
+ * 
+ * Used by the get_updates_digest MCP tool
+ */
+
+import type { SearchFilters } from './search-query.js';
+import type { FormattedAvailability } from '../utils/availability-formatter.js';
+
+/**
+ * Output format of a digest
+ */
+export type DigestFormat = 'markdown' | 'json';
+
+/**
+ * Digest query parameters
+ */
+export interface UpdatesDigestQuery {
+    since?: string; // ISO 8601 date - start of the window (updates modified on or after)
+    days?: number; // Window of the last N days, used when since is not set (default: 7)
+    until?: string; // ISO 8601 date - end of the window (updates modified on or before; a date includes its whole day; default: now)
+    products?: SearchFilters['products']; // Same semantics as in SearchFilters
+    productCategories?: SearchFilters['productCategories']; // Same semantics as in SearchFilters
+}
+
+/**
+ * Update listed in a digest
+ */
+export interface DigestUpdate {
+    id: string;
+    title: string;
+    url: string;
+    created: string;
+    modified: string;
+    products: string[];
+    productCategories: string[];
+    availabilities: FormattedAvailability[];
+}
+
+/**
+ * Updates of one product category
+ */
+export interface DigestCategorySection {
+    category: string; // First product category of the updates, or "Uncategorized"
+    count: number;
+    updates: DigestUpdate[]; // Most recently modified first
+}
+
+/**
+ * Updates of one availability ring, by product category
+ */
+export interface DigestRingSection {
+    ring: string; // Most advanced availability ring of the updates, or "No availability ring"
+    count: number;
+    categories: DigestCategorySection[]; // Alphabetical, "Uncategorized" last
+}
+
+/**
+ * New or modified updates, by availability ring
+ */
+export interface DigestGroup {
+    count: number;
+    rings: DigestRingSection[]; // In lifecycle order, other rings after
+}
+
+/**
+ * Updates created or modified in a time window
+ */
+export interface UpdatesDigest {
+    window: {
+        since: string;
+        until: string;
+    };
+    scope: Pick<UpdatesDigestQuery, 'products' | 'productCategories'>; // Product filters the digest is limited to
+    newUpdates: DigestGroup; // Created in the window
+    modifiedUpdates: DigestGroup; // Created before the window, modified in it
+    metadata: {
+        totalUpdates: number;
+        newUpdates: number;
+        modifiedUpdates: number;
+    };
+}
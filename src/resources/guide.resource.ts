@@ -15,6 +15,7 @@ import {
     getUpdateCount,
     getSyncCheckpoint,
 } from '../database/queries.js';
+import { getSyncSchedulerStatus } from '../services/sync.service.js';
 import * as logger from '../utils/logger.js';
 
 /**
@@ -42,10 +43,39 @@ export interface GuideResourceData {
         hoursSinceSync: number;
         totalRecords: number;
         syncStatus: string;
+        nextScheduledSync: string | null; // Next background staleness check (null when the scheduler is off)
     };
     queryTips: string[];
 }
 
+/**
+ * Calculate data freshness from the sync checkpoint and background scheduler
+ * 
+ * @param db Database instance
+ * @param totalRecords Number of stored updates
+ * @returns Data freshness block of the guide
+ */
+function getDataFreshness(db: Database.Database, totalRecords: number): GuideResourceData['dataFreshness'] {
+    const checkpoint = getSyncCheckpoint(db);
+    const lastSync = checkpoint?.lastSync || 'Never';
+    const syncStatus = checkpoint?.syncStatus || 'unknown';
+
+    let hoursSinceSync = 0;
+    if (checkpoint && checkpoint.lastSync !== '1970-01-01T00:00:00.0000000Z') {
+        const lastSyncTime = new Date(checkpoint.lastSync).getTime();
+        const now = Date.now();
+        hoursSinceSync = Math.round((now - lastSyncTime) / (1000 * 60 * 60) * 10) / 10; // Round to 1 decimal
+    }
+
+    return {
+        lastSync,
+        hoursSinceSync,
+        totalRecords,
+        syncStatus,
+        nextScheduledSync: getSyncSchedulerStatus()?.nextRunAt ?? null,
+    };
+}
+
 /**
  * Generate the guide resource content
  * 
@@ -69,16 +99,8 @@ export function generateGuideResource(db: Database.Database): GuideResourceData
     const totalRecords = getUpdateCount(db);
 
     // T067: Calculate data freshness
-    const checkpoint = getSyncCheckpoint(db);
-    const lastSync = checkpoint?.lastSync || 'Never';
-    const syncStatus = checkpoint?.syncStatus || 'unknown';
-
-    let hoursSinceSync = 0;
-    if (checkpoint && checkpoint.lastSync !== '1970-01-01T00:00:00.0000000Z') {
-        const lastSyncTime = new Date(checkpoint.lastSync).getTime();
-        const now = Date.now();
-        hoursSinceSync = Math.round((now - lastSyncTime) / (1000 * 60 * 60) * 10) / 10; // Round to 1 decimal
-    }
+    const dataFreshness = getDataFreshness(db, totalRecords);
+    const { hoursSinceSync } = dataFreshness;
 
     const duration = Date.now() - startTime;
 
@@ -120,6 +142,13 @@ export function generateGuideResource(db: Database.Database): GuideResourceData
                     limit: 10,
                 },
             },
+            {
+                description: 'Boolean search: AKS updates on retiring features, excluding previews',
+                query: {
+                    query: 'product:aks AND retirement -preview',
+                    limit: 10,
+                },
+            },
             {
                 description: 'Filter by tags with AND semantics (must have ALL specified tags)',
                 query: {
@@ -140,6 +169,16 @@ export function generateGuideResource(db: Database.Database): GuideResourceData
                     limit: 20,
                 },
             },
+            {
+                description: 'Any-of / none-of filters: updates for any of several products without the Retirements tag',
+                query: {
+                    filters: {
+                        products: { anyOf: ['Azure Kubernetes Service (AKS)', 'Azure Functions', 'Azure SQL Database'] },
+                        tags: { noneOf: ['Retirements'] },
+                    },
+                    limit: 20,
+                },
+            },
             {
                 description: 'Filter by availability ring (Retirement) to retrieve retirement updates (note: retirement dates are month-level only; use YYYY-MM format)',
                 query: {
@@ -164,25 +203,38 @@ export function generateGuideResource(db: Database.Database): GuideResourceData
             },
         ],
 
-        dataFreshness: {
-            lastSync,
-            hoursSinceSync,
-            totalRecords,
-            syncStatus,
-        },
+        dataFreshness,
 
         queryTips: [
             'Two-step workflow: Use search_azure_updates for discovery (returns lightweight metadata), then get_azure_update to fetch full descriptions',
+            'To find features stuck in preview, call get_feature_lifecycle with stage: "Preview", minMonthsInStage (e.g., 18) and products; pass updateId to see the stages and dates of the feature an update belongs to',
+            'To see which retirements affect the products you use, call get_retirement_impact with an inventory of product names (optionally resourceCount and owners); results are grouped into overdue, within90Days and withinYear',
+            'To build that inventory from an Azure Resource Graph or az resource list export, call import_inventory with the export as resourceExport; its products list also works as a products filter',
+            'For a weekly "what\'s new" summary, call get_updates_digest with days: 7 (or since) and optional products; it returns Markdown sectioned into new and modified updates by ring and category, ready to post in Teams',
+            'To put retirement deadlines into Outlook or another calendar app, call export_retirement_calendar with products / productCategories filters and save the result as an .ics file',
+            'To trace an announcement back (preview before GA, earlier retirement notices for the same product), call find_related_updates with its id and direction: "earlier"; each result lists why it is related',
             'Phrase search: Use double quotes for exact matches (e.g., "Azure Virtual Machines" finds that exact phrase)',
             'Without quotes: Words are matched with OR logic (e.g., security authentication matches "security" OR "authentication")',
             'Combine phrase search with regular words: "Azure Databricks" preview',
-            'Structured filters: Use filters.tags, filters.products, filters.productCategories for precise filtering with AND semantics',
+            'Boolean queries: AND, OR and NOT (uppercase) combine terms, AND binds tighter than OR, -term excludes a term and parentheses group terms (e.g., (aks OR kubernetes) AND retirement -preview)',
+            'Field scoping: title:, product:, tag: and category: limit a word, phrase or group to one field (e.g., product:"Azure Functions" AND title:retirement)',
+            'Structured filters: Use filters.tags, filters.products, filters.productCategories for precise filtering; arrays use AND semantics',
             'Filter arrays require ALL values to match: tags: ["Security", "Compliance"] returns only updates with BOTH tags',
+            'For OR / NOT, pass an object instead of an array: products: { anyOf: [...] } matches any listed product, tags: { noneOf: ["Retirements"] } excludes retirements; allOf, anyOf and noneOf can be combined',
             'Retirement updates: Use availabilityRings filter with "Retirement" value, not tags. Retirement information is in the availability ring field',
             'Retirement date filtering: Use retirementFrom/retirementTo (YYYY-MM format, inclusive). Example: retirementFrom: "2026-03" for March 2026. Retirement dates are month-level only; the API normalizes them to the 1st of each month internally',
+            'Several rings and ring dates: availabilityRings: ["General Availability", "Preview"] with availabilityDateFrom: "2026-01" and availabilityDateTo: "2026-03" finds GA or Preview in 2026-Q1 (the date must belong to one of the listed rings). availabilityDateTbd: true finds rings whose date is not announced yet',
             'Modified date filtering: Use modifiedFrom/modifiedTo (inclusive, full timestamp with second precision)',
-            'sortBy parameter supports: modified:desc (default), modified:asc, created:desc/asc, retirement:desc/asc',
+            'Updates deleted or unpublished upstream are excluded by default; set filters.includeRemoved: true to include them (they carry a removedAt timestamp)',
+            'Facets: Pass facets (e.g., ["productCategories", "availabilityRings"]) to get counts across all matches, then narrow with filters instead of guessing values',
+            'Keywords match titles, descriptions, tags, products and product categories; hits in titles and products count most',
+            'Product names and acronyms match their other names too: aks also finds "Azure Kubernetes Service", "Entra ID" also finds "Azure Active Directory"; metadata.expansions lists the synonyms used, so there is no need to search each name separately',
+            'When the server enables similarity search, mode: "similarity" ranks updates by embedding similarity (with the built-in embedding, shared words and word forms rather than exact keyword hits) and mode: "hybrid" combines both rankings; use offset (not cursor) to page, and higher relevance means a better match',
+            'Typos are corrected when a query matches nothing (e.g., kuberentes → kubernetes, cosmosdb → "cosmos db"); metadata.didYouMean then shows the corrected query, which you should reuse for further pages',
+            'Set includeSnippets: true with a query to get a short description excerpt per result with matches in **bold** (snippetOptions sets maxTokens and the markers), instead of calling get_azure_update for every result',
+            'sortBy parameter supports: relevance (best keyword matches first, needs query), modified:desc (default), modified:asc, created:desc/asc, retirement:desc/asc',
             'Set limit (default: 20, max: 100) and offset for pagination through large result sets',
+            'To page through many results, pass metadata.cursor from the previous response as cursor (same query, filters and sortBy, no offset); pages stay stable while a sync adds updates',
             'search_azure_updates returns lightweight metadata without descriptions to reduce token usage by 80%+',
         ],
     };
@@ -0,0 +1,89 @@
+/**
+ * MCP Resource: Azure Retirement Calendar
+ * 
+ * Retirement dates as an iCalendar (RFC 5545) feed for calendar apps such as
+ * Outlook. Product and product category filters are given as query
+ * parameters, e.g.
+ * azure-updates://calendar/retirements.ics?products.anyOf=Azure%20Functions&productCategories.noneOf=AI
+ * 
+ * - products=X / productCategories=X: must have ALL given values (repeatable)
+ * - products.anyOf=X, products.noneOf=X (same for productCategories): AT LEAST ONE / NONE of the given values
+ */
+
+import type Database from 'better-sqlite3';
+import type { MultiValueFilter } from '../models/search-query.js';
+import type { RetirementCalendarFilters } from '../models/retirement-calendar.js';
+import { getRetirementCalendar } from '../services/calendar.service.js';
+import * as logger from '../utils/logger.js';
+import { MULTI_VALUE_OPERATORS } from '../utils/validation.js';
+
+export const RETIREMENT_CALENDAR_URI = 'azure-updates://calendar/retirements.ics';
+
+const FILTER_FIELDS = ['products', 'productCategories'] as const;
+
+/**
+ * Check whether a URI refers to the retirement calendar (with or without filters)
+ * 
+ * @param uri Resource URI
+ * @returns True for the retirement calendar
+ */
+export function isRetirementCalendarUri(uri: string): boolean {
+    return uri === RETIREMENT_CALENDAR_URI || uri.startsWith(`${RETIREMENT_CALENDAR_URI}?`);
+}
+
+/**
+ * Parse the filters from the query parameters of a retirement calendar URI
+ * 
+ * @param uri Resource URI
+ * @returns Product and product category filters
+ * @throws Error if a query parameter is not supported
+ */
+export function parseRetirementCalendarFilters(uri: string): RetirementCalendarFilters {
+    const query = uri.slice(RETIREMENT_CALENDAR_URI.length + 1);
+    const filters: Record<string, MultiValueFilter> = {};
+
+    for (const [name, value] of new URLSearchParams(query)) {
+        const [field, operator = 'allOf'] = name.split('.');
+        if (!FILTER_FIELDS.includes(field as typeof FILTER_FIELDS[number]) ||
+            !MULTI_VALUE_OPERATORS.includes(operator as typeof MULTI_VALUE_OPERATORS[number])) {
+            throw new Error(
+                `Unsupported query parameter "${name}" (use ${FILTER_FIELDS.join(' or ')}, ` +
+                `optionally with .${MULTI_VALUE_OPERATORS.join(', .')})`
+            );
+        }
+
+        const filter = filters[field] ?? {};
+        const key = operator as keyof MultiValueFilter;
+        filter[key] = [...(filter[key] ?? []), value];
+        filters[field] = filter;
+    }
+
+    return filters;
+}
+
+/**
+ * Format the retirement calendar as MCP resource response
+ * 
+ * @param db Database instance
+ * @param uri Requested URI (query parameters select the filters)
+ * @returns MCP resource response
+ * @throws Error if a query parameter is not supported
+ */
+export function getRetirementCalendarResourceResponse(
+    db: Database.Database,
+    uri: string = RETIREMENT_CALENDAR_URI
+): { contents: Array<{ uri: string; mimeType: string; text: string }> } {
+    const calendar = getRetirementCalendar(db, parseRetirementCalendarFilters(uri));
+
+    logger.debug('Retirement calendar resource generated', { uri, eventCount: calendar.events.length });
+
+    return {
+        contents: [
+            {
+                uri,
+                mimeType: 'text/calendar',
+                text: calendar.ics,
+            },
+        ],
+    };
+}
@@ -0,0 +1,75 @@
+/**
+ * MCP Resource: Azure Updates Sync Runs
+ * 
+ * Lists recent sync runs (mode, timing, record counts, pages fetched and
+ * errors) so clients can see how fresh the data is and why syncs failed.
+ */
+
+import type Database from 'better-sqlite3';
+import type { SyncRun } from '../models/sync-checkpoint.js';
+import { getRecentSyncRuns } from '../database/queries.js';
+import * as logger from '../utils/logger.js';
+
+const RECENT_RUN_LIMIT = 50;
+
+/**
+ * Sync runs resource data structure
+ */
+export interface SyncRunsResourceData {
+    runs: SyncRun[]; // Newest first
+    summary: {
+        returned: number;
+        failed: number; // Failed runs among those returned
+        skipped: number; // Runs skipped because another sync held the lock
+        lastSuccessAt: string | null; // Finish time of the latest successful run
+        lastFailureAt: string | null; // Finish time of the latest failed run
+    };
+}
+
+/**
+ * Generate the sync runs resource content
+ * 
+ * @param db Database instance
+ * @param limit Maximum number of runs to include
+ * @returns Sync runs resource data
+ */
+export function generateSyncRunsResource(db: Database.Database, limit: number = RECENT_RUN_LIMIT): SyncRunsResourceData {
+    const runs = getRecentSyncRuns(db, limit);
+    const lastSuccess = runs.find(run => run.status === 'success');
+    const lastFailure = runs.find(run => run.status === 'failed');
+
+    logger.debug('Sync runs resource generated', { runCount: runs.length });
+
+    return {
+        runs,
+        summary: {
+            returned: runs.length,
+            failed: runs.filter(run => run.status === 'failed').length,
+            skipped: runs.filter(run => run.status === 'skipped').length,
+            lastSuccessAt: lastSuccess?.finishedAt ?? null,
+            lastFailureAt: lastFailure?.finishedAt ?? null,
+        },
+    };
+}
+
+/**
+ * Format sync runs resource as MCP resource response
+ * 
+ * @param db Database instance
+ * @returns MCP resource response
+ */
+export function getSyncRunsResourceResponse(
+    db: Database.Database
+): { contents: Array<{ uri: string; mimeType: string; text: string }> } {
+    const data = generateSyncRunsResource(db);
+
+    return {
+        contents: [
+            {
+                uri: 'azure-updates://sync-runs',
+                mimeType: 'application/json',
+                text: JSON.stringify(data, null, 2),
+            },
+        ],
+    };
+}
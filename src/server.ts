@@ -16,7 +16,26 @@ import type Database from 'better-sqlite3';
 import * as logger from './utils/logger.js';
 import { handleSearchAzureUpdates } from './tools/search-azure-updates.tool.js';
 import { handleGetAzureUpdate } from './tools/get-azure-update.tool.js';
+import { handleGetAzureUpdateHistory } from './tools/get-azure-update-history.tool.js';
+import { handleFindRelatedUpdates } from './tools/find-related-updates.tool.js';
+import { handleGetFeatureLifecycle } from './tools/get-feature-lifecycle.tool.js';
+import { handleExportRetirementCalendar } from './tools/export-retirement-calendar.tool.js';
+import { handleGetRetirementImpact } from './tools/get-retirement-impact.tool.js';
+import { handleImportInventory } from './tools/import-inventory.tool.js';
+import { handleGetUpdatesDigest } from './tools/get-updates-digest.tool.js';
+import { handleTriggerSync } from './tools/trigger-sync.tool.js';
+import { handleGetSyncStatus } from './tools/get-sync-status.tool.js';
+import type { SyncJobConfig } from './services/sync-job.service.js';
+import type { SearchOptions } from './services/search.service.js';
+import type { LifecycleOptions } from './services/lifecycle.service.js';
+import type { ImpactOptions } from './services/impact.service.js';
 import { getGuideResourceResponse } from './resources/guide.resource.js';
+import { getSyncRunsResourceResponse } from './resources/sync-runs.resource.js';
+import {
+    RETIREMENT_CALENDAR_URI,
+    getRetirementCalendarResourceResponse,
+    isRetirementCalendarUri,
+} from './resources/retirement-calendar.resource.js';
 
 /**
  * MCP Server configuration
@@ -25,6 +44,42 @@ export interface ServerConfig {
     name: string;
     version: string;
     database: Database.Database;
+    sync?: SyncJobConfig; // Retention and sync options for on-demand syncs (trigger_sync)
+    search?: SearchOptions; // Relevance ranking options for search_azure_updates
+    lifecycle?: LifecycleOptions; // Feature overrides for get_feature_lifecycle
+    impact?: ImpactOptions; // Default inventory for get_retirement_impact
+}
+
+/**
+ * Result of a tool handler
+ * 
+ * A type literal rather than an interface so that it is assignable to the
+ * SDK's CallTool result type, which has an index signature.
+ */
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+/**
+ * Input schema for a multi-valued filter: an array (ALL must match) or allOf/anyOf/noneOf
+ */
+function multiValueFilterSchema(plural: string): Record<string, unknown> {
+    const values = { type: 'array', items: { type: 'string' } };
+    return {
+        anyOf: [
+            values,
+            {
+                type: 'object',
+                properties: {
+                    allOf: { ...values, description: `Result must have ALL of these ${plural}` },
+                    anyOf: { ...values, description: `Result must have AT LEAST ONE of these ${plural}` },
+                    noneOf: { ...values, description: `Result must have NONE of these ${plural}` },
+                },
+                additionalProperties: false,
+            },
+        ],
+        description:
+            `Filter by ${plural}. An array requires ALL specified ${plural} (AND semantics); ` +
+            'an object combines allOf, anyOf (OR) and noneOf (NOT), e.g., {"anyOf": [...], "noneOf": [...]}',
+    };
 }
 
 /**
@@ -45,7 +100,7 @@ export function createMCPServer(config: ServerConfig): Server {
     );
 
     // Register handlers
-    registerToolHandlers(server, config.database);
+    registerToolHandlers(server, config.database, config.sync ?? {}, config.search ?? {}, config.lifecycle ?? {}, config.impact ?? {});
     registerResourceHandlers(server, config.database);
 
     logger.info('MCP server created', {
@@ -60,7 +115,14 @@ export function createMCPServer(config: ServerConfig): Server {
 /**
  * Register tool handlers
  */
-function registerToolHandlers(server: Server, db: Database.Database): void {
+function registerToolHandlers(
+    server: Server,
+    db: Database.Database,
+    syncConfig: SyncJobConfig,
+    searchOptions: SearchOptions,
+    lifecycleOptions: LifecycleOptions,
+    impactOptions: ImpactOptions
+): void {
     // List available tools
     server.setRequestHandler(ListToolsRequestSchema, () => {
         logger.debug('ListTools request received');
@@ -83,21 +145,253 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
                         required: ['id'],
                     },
                 },
+                {
+                    name: 'get_azure_update_history',
+                    description:
+                        'List previous revisions of a specific Azure update with field-level diffs ' +
+                        '(title, status, tags, products, categories, availability dates per ring). ' +
+                        'Use to find out when and how an announcement changed, e.g., when a retirement date moved.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            id: {
+                                type: 'string',
+                                description: 'Unique identifier of the Azure update (required)',
+                            },
+                            includeDescriptions: {
+                                type: 'boolean',
+                                description: 'Include the full before/after description text for description changes (default: false)',
+                            },
+                        },
+                        required: ['id'],
+                    },
+                },
+                {
+                    name: 'find_related_updates',
+                    description:
+                        'Find updates related to a specific Azure update, e.g., the preview announcement before a GA or earlier ' +
+                        'retirement notices for the same product. Ranked by shared products and categories, title similarity and ' +
+                        'closeness in time; each result lists the reasons it is related.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            id: {
+                                type: 'string',
+                                description: 'Unique identifier of the Azure update (required)',
+                            },
+                            direction: {
+                                type: 'string',
+                                enum: ['earlier', 'later', 'any'],
+                                description: 'Only updates published before (earlier) or after (later) this one (default: any)',
+                            },
+                            limit: {
+                                type: 'number',
+                                description: 'Maximum related updates (default: 10, max: 50)',
+                                minimum: 1,
+                                maximum: 50,
+                            },
+                        },
+                        required: ['id'],
+                    },
+                },
+                {
+                    name: 'get_feature_lifecycle',
+                    description:
+                        'Group announcements about the same feature (same product, similar title) into timelines with the date of ' +
+                        'each stage (Private Preview, Preview, General Availability, Retirement), the days between stages and the ' +
+                        'current stage. Use to find features stuck in preview, e.g., stage "Preview" with minMonthsInStage 18 for ' +
+                        'your products, or to see the lifecycle of the feature an update belongs to.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            updateId: {
+                                type: 'string',
+                                description: 'Only the feature this update belongs to',
+                            },
+                            products: {
+                                type: 'array',
+                                items: { type: 'string' },
+                                description: 'Only features of ANY of these products (exact product names)',
+                            },
+                            stage: {
+                                type: 'string',
+                                enum: ['Private Preview', 'Preview', 'General Availability', 'Retirement'],
+                                description: 'Only features currently in this stage (the latest stage whose date has passed)',
+                            },
+                            minMonthsInStage: {
+                                type: 'number',
+                                description: 'Only features that have been in their current stage for at least this many months',
+                                minimum: 0,
+                            },
+                            limit: {
+                                type: 'number',
+                                description: 'Maximum features, longest in their current stage first (default: 20, max: 100)',
+                                minimum: 1,
+                                maximum: 100,
+                            },
+                        },
+                    },
+                },
+                {
+                    name: 'export_retirement_calendar',
+                    description:
+                        'Export retirement dates as an iCalendar (RFC 5545) feed to save as an .ics file and import into ' +
+                        'calendar apps such as Outlook: one all-day event on the first of each retirement month with the title, ' +
+                        'URL and products of the update. Event UIDs are derived from the update ID, so re-imports update ' +
+                        'existing events. Also available as the azure-updates://calendar/retirements.ics resource.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            products: multiValueFilterSchema('products'),
+                            productCategories: multiValueFilterSchema('product categories'),
+                        },
+                    },
+                },
+                {
+                    name: 'get_retirement_impact',
+                    description:
+                        'List upcoming retirements of the products you use, grouped by urgency: overdue (retirement month passed), ' +
+                        'within90Days and withinYear, with the resource counts and owners of the affected products. Pass the ' +
+                        'products in inventory, or omit it to use the inventory file configured on the server. ' +
+                        'unmatchedProducts lists inventory names no update uses (check the spelling against the guide).',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            inventory: {
+                                type: 'array',
+                                items: {
+                                    anyOf: [
+                                        { type: 'string' },
+                                        {
+                                            type: 'object',
+                                            properties: {
+                                                product: { type: 'string', description: 'Product name (case-insensitive)' },
+                                                resourceCount: { type: 'number', minimum: 0, description: 'Resources using the product' },
+                                                owners: { type: 'array', items: { type: 'string' }, description: 'People or teams to notify' },
+                                            },
+                                            required: ['product'],
+                                        },
+                                    ],
+                                },
+                                description:
+                                    'Products in use: product names or { product, resourceCount, owners } objects ' +
+                                    '(default: the inventory file configured on the server)',
+                            },
+                        },
+                    },
+                },
+                {
+                    name: 'import_inventory',
+                    description:
+                        'Build an inventory from a resource export instead of typing product names: pass the JSON output of an ' +
+                        'Azure Resource Graph query (e.g., resources | summarize count() by type) or of az resource list. ARM ' +
+                        'resource types are mapped to Azure Updates product names; returns the inventory (products with resource ' +
+                        'counts and owners) for get_retirement_impact, the product names for products filters and the resource ' +
+                        'types without a mapping. Works only on the passed export; Azure is not called.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            resourceExport: {
+                                type: ['array', 'object'],
+                                description:
+                                    'Resource export: an array of resources with a type (az resource list), a Resource Graph ' +
+                                    'result with data (az graph query) or an ARM list with value (required)',
+                            },
+                            ownerTag: {
+                                type: 'string',
+                                description: 'Resource tag holding the owner (e.g., "owner"); owners are collected per product',
+                            },
+                        },
+                        required: ['resourceExport'],
+                    },
+                },
+                {
+                    name: 'get_updates_digest',
+                    description:
+                        'Summarize what changed in a time window (default: the last 7 days) for a weekly "what\'s new" post: ' +
+                        'updates created in the window (new announcements) and updates created earlier but modified in it, ' +
+                        'each sectioned by availability ring and product category with counts. Returns Markdown ready to ' +
+                        'paste into Teams, or the same digest as JSON. Replaces paging through search_azure_updates with modifiedFrom.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            since: {
+                                type: 'string',
+                                description: 'Start of the window: ISO 8601 date (e.g., "2026-10-12"); updates modified on or after it',
+                            },
+                            days: {
+                                type: 'number',
+                                minimum: 1,
+                                maximum: 365,
+                                description: 'Window of the last N days, instead of since (default: 7)',
+                            },
+                            until: {
+                                type: 'string',
+                                description: 'End of the window: ISO 8601 date; updates modified on or before it, a date including its whole day (default: now)',
+                            },
+                            products: multiValueFilterSchema('products'),
+                            productCategories: multiValueFilterSchema('product categories'),
+                            format: {
+                                type: 'string',
+                                enum: ['markdown', 'json'],
+                                description: 'Output format (default: markdown)',
+                            },
+                        },
+                    },
+                },
+                {
+                    name: 'trigger_sync',
+                    description:
+                        'Start a sync with the Azure Updates API in the background and return a job ID. ' +
+                        'Use "differential" (default) to fetch changes since the last sync, or "full" to re-fetch every update. ' +
+                        'The response reports the mode the sync runs in ("initial" if no sync has succeeded yet). ' +
+                        'Poll get_sync_status with the jobId until the job has finished.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            mode: {
+                                type: 'string',
+                                enum: ['differential', 'full'],
+                                description: 'Sync mode (default: differential)',
+                            },
+                        },
+                    },
+                },
+                {
+                    name: 'get_sync_status',
+                    description:
+                        'Report data freshness: last sync time, status, last error, duration, record count, ' +
+                        'the next scheduled background sync and recent sync jobs. ' +
+                        'Pass a jobId returned by trigger_sync to poll that job.',
+                    inputSchema: {
+                        type: 'object',
+                        properties: {
+                            jobId: {
+                                type: 'string',
+                                description: 'Sync job ID returned by trigger_sync (optional)',
+                            },
+                        },
+                    },
+                },
                 {
                     name: 'search_azure_updates',
                     description:
                         'Search and filter Azure service updates. Returns lightweight metadata without descriptions (80% token reduction). ' +
-                        'Supports phrase search ("exact phrase"), structured filters (tags/products/categories with AND semantics), ' +
-                        'and pagination. Use get_azure_update to retrieve full details.',
+                        'Supports phrase search ("exact phrase"), structured filters (tags/products/categories with allOf/anyOf/noneOf), ' +
+                        'pagination and optional facet counts. Use get_azure_update to retrieve full details.',
                     inputSchema: {
                         type: 'object',
                         properties: {
                             query: {
                                 type: 'string',
                                 description:
-                                    'Full-text search query (FTS5 on title + description). Supports phrase search: ' +
+                                    'Full-text search query (FTS5 on title, description, tags, products and categories; title and product hits rank highest). Supports phrase search: ' +
                                     'enclose text in double quotes for exact phrases ("virtual machine"), other words use OR logic ' +
-                                    'with prefix matching. Case-insensitive. Leave empty to filter only without keyword search.',
+                                    'with prefix matching. Boolean syntax: AND / OR / NOT (uppercase), -term to exclude, parentheses to group, ' +
+                                    'and title: / product: / tag: / category: to search one field (e.g. product:aks AND retirement -preview). ' +
+                                    'Case-insensitive. Misspelled words that match nothing are corrected (metadata.didYouMean shows the query used). ' +
+                                    'Product names and acronyms also match their synonyms (AKS = Azure Kubernetes Service, Entra ID = Azure Active Directory; see metadata.expansions). ' +
+                                    'Leave empty to filter only without keyword search.',
                             },
                             filters: {
                                 type: 'object',
@@ -110,7 +404,27 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
                                     availabilityRing: {
                                         type: 'string',
                                         enum: ['General Availability', 'Preview', 'Private Preview', 'Retirement'],
-                                        description: 'Filter by availability ring',
+                                        description: 'Filter by availability ring (use availabilityRings for several rings)',
+                                    },
+                                    availabilityRings: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'string',
+                                            enum: ['General Availability', 'Preview', 'Private Preview', 'Retirement'],
+                                        },
+                                        description: 'Filter by availability rings - result must have ANY of them (OR semantics). availabilityDateFrom/To and availabilityDateTbd apply to these rings.',
+                                    },
+                                    availabilityDateFrom: {
+                                        type: 'string',
+                                        description: 'YYYY-MM format - include updates with an availability date on or after this month (inclusive, in availabilityRings if set, otherwise any ring). Example: 2026-01',
+                                    },
+                                    availabilityDateTo: {
+                                        type: 'string',
+                                        description: 'YYYY-MM format - include updates with an availability date on or before this month (inclusive, in availabilityRings if set, otherwise any ring). Example: 2026-03',
+                                    },
+                                    availabilityDateTbd: {
+                                        type: 'boolean',
+                                        description: 'Only include updates whose availability date (in availabilityRings if set) is not announced yet (TBD). Cannot be combined with availabilityDateFrom/To.',
                                     },
                                     modifiedFrom: {
                                         type: 'string',
@@ -128,27 +442,19 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
                                         type: 'string',
                                         description: 'YYYY-MM format - include updates with retirement on or before this month (inclusive, filters by Retirement availability ring). Example: 2026-12 for December 2026.',
                                     },
-                                    tags: {
-                                        type: 'array',
-                                        items: { type: 'string' },
-                                        description: 'Filter by tags - result must contain ALL specified tags (AND semantics)',
-                                    },
-                                    products: {
-                                        type: 'array',
-                                        items: { type: 'string' },
-                                        description: 'Filter by products - result must contain ALL specified products (AND semantics)',
-                                    },
-                                    productCategories: {
-                                        type: 'array',
-                                        items: { type: 'string' },
-                                        description: 'Filter by product categories - result must contain ALL specified categories (AND semantics)',
+                                    tags: multiValueFilterSchema('tags'),
+                                    products: multiValueFilterSchema('products'),
+                                    productCategories: multiValueFilterSchema('product categories'),
+                                    includeRemoved: {
+                                        type: 'boolean',
+                                        description: 'Include updates that were deleted or unpublished upstream (default: false). Removed updates carry a removedAt timestamp.',
                                     },
                                 },
                             },
                             sortBy: {
                                 type: 'string',
-                                enum: ['modified:desc', 'modified:asc', 'created:desc', 'created:asc', 'retirement:asc', 'retirement:desc'],
-                                description: 'Sort order. Default is "modified:desc". retirement sorts require Retirement availability ring.',
+                                enum: ['relevance', 'modified:desc', 'modified:asc', 'created:desc', 'created:asc', 'retirement:asc', 'retirement:desc'],
+                                description: 'Sort order. Default is "modified:desc". "relevance" ranks keyword matches best first (requires query; without one, falls back to modified:desc). retirement sorts require Retirement availability ring.',
                             },
                             limit: {
                                 type: 'number',
@@ -161,6 +467,58 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
                                 description: 'Number of results to skip for pagination. Example: offset=20 with limit=20 returns results 21-40. (default: 0)',
                                 minimum: 0,
                             },
+                            cursor: {
+                                type: 'string',
+                                description: 'Opaque cursor from metadata.cursor of the previous response. Returns the next page without shifting or repeating results when a sync runs meanwhile (updates it adds, modifies or restores are left out of later pages); repeat the same query (as sent, even when metadata.didYouMean corrected it), filters and sortBy, and omit offset.',
+                            },
+                            facets: {
+                                type: 'array',
+                                items: {
+                                    type: 'string',
+                                    enum: ['tags', 'products', 'productCategories', 'availabilityRings', 'statuses', 'months'],
+                                },
+                                description:
+                                    'Count all matches (not just this page) per value of these dimensions, e.g., to see how many ' +
+                                    'results are Compute or retirements before narrowing with filters. months groups by modification month (YYYY-MM). ' +
+                                    'Up to 25 most frequent values per dimension (all months). Omit for no facets.',
+                            },
+                            includeSnippets: {
+                                type: 'boolean',
+                                description:
+                                    'Add a short description excerpt (snippet) around the matched keywords to each result, with matches ' +
+                                    'wrapped in markers, to see why a result matched without calling get_azure_update. Needs query. Default: false.',
+                            },
+                            snippetOptions: {
+                                type: 'object',
+                                description: 'Snippet length and highlight markers (used with includeSnippets)',
+                                properties: {
+                                    maxTokens: {
+                                        type: 'number',
+                                        description: 'Maximum words per snippet (1-64, default: 24)',
+                                        minimum: 1,
+                                        maximum: 64,
+                                    },
+                                    startMarker: {
+                                        type: 'string',
+                                        description: 'Text inserted before each match (default: "**")',
+                                    },
+                                    endMarker: {
+                                        type: 'string',
+                                        description: 'Text inserted after each match (default: "**")',
+                                    },
+                                },
+                            },
+                            mode: {
+                                type: 'string',
+                                enum: ['keyword', 'similarity', 'hybrid'],
+                                description:
+                                    'How query is matched. keyword (default): full-text keyword search. similarity: rank by embedding ' +
+                                    'similarity to query; the built-in embedding is lexical, so it matches shared words and word forms ' +
+                                    '(network / networking) but not synonyms spelled differently. hybrid: fuse keyword and similarity rankings. ' +
+                                    'similarity and hybrid need query, are available only when the server enables similarity search, page with offset ' +
+                                    '(no cursor) and always sort by relevance, where a higher relevance is a better match. They rank at most 200 updates ' +
+                                    'per method; metadata.truncated is then true and total is a lower bound, so narrow the search with filters.',
+                            },
                         },
                     },
                 },
@@ -168,21 +526,33 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
         };
     });
 
+    // Tool implementations by name
+    const toolHandlers: Record<string, (args: Record<string, unknown> | undefined) => ToolResult> = {
+        get_azure_update: args => handleGetAzureUpdate(db, args),
+        get_azure_update_history: args => handleGetAzureUpdateHistory(db, args),
+        find_related_updates: args => handleFindRelatedUpdates(db, args),
+        get_feature_lifecycle: args => handleGetFeatureLifecycle(db, args, lifecycleOptions),
+        export_retirement_calendar: args => handleExportRetirementCalendar(db, args),
+        get_retirement_impact: args => handleGetRetirementImpact(db, args, impactOptions),
+        import_inventory: args => handleImportInventory(args),
+        get_updates_digest: args => handleGetUpdatesDigest(db, args),
+        trigger_sync: args => handleTriggerSync(db, args, syncConfig),
+        get_sync_status: args => handleGetSyncStatus(db, args),
+        search_azure_updates: args => handleSearchAzureUpdates(db, args, searchOptions),
+    };
+
     // Call tool handler
     server.setRequestHandler(CallToolRequestSchema, (request) => {
         logger.info('CallTool request received', {
             tool: request.params.name,
         });
 
-        if (request.params.name === 'get_azure_update') {
-            return handleGetAzureUpdate(db, request.params.arguments);
-        }
-
-        if (request.params.name === 'search_azure_updates') {
-            return handleSearchAzureUpdates(db, request.params.arguments);
+        const name = request.params.name;
+        if (!Object.hasOwn(toolHandlers, name)) {
+            throw new Error(`Unknown tool: ${name}`);
         }
 
-        throw new Error(`Unknown tool: ${request.params.name}`);
+        return toolHandlers[name](request.params.arguments);
     });
 }
 
@@ -206,6 +576,24 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
                         'Includes all available tags, product categories, products, availability rings, and data freshness info.',
                     mimeType: 'application/json',
                 },
+                {
+                    uri: 'azure-updates://sync-runs',
+                    name: 'Azure Updates Sync Runs',
+                    description:
+                        'Recent sync runs with mode (initial/differential/full), status (success/failed, or ' +
+                        'skipped while another sync held the lock), start and end time, ' +
+                        'records inserted/updated/deleted, pages fetched and error messages.',
+                    mimeType: 'application/json',
+                },
+                {
+                    uri: RETIREMENT_CALENDAR_URI,
+                    name: 'Azure Retirement Calendar',
+                    description:
+                        'Retirement dates as an iCalendar (RFC 5545) feed, one all-day event per update and retirement month. ' +
+                        'Filter with query parameters products / productCategories (must have ALL), ' +
+                        'e.g., ?products.anyOf=Azure%20Functions&productCategories.noneOf=Databases (also .anyOf and .noneOf).',
+                    mimeType: 'text/calendar',
+                },
             ],
         };
     });
@@ -220,6 +608,14 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
             return getGuideResourceResponse(db);
         }
 
+        if (request.params.uri === 'azure-updates://sync-runs') {
+            return getSyncRunsResourceResponse(db);
+        }
+
+        if (isRetirementCalendarUri(request.params.uri)) {
+            return getRetirementCalendarResourceResponse(db, request.params.uri);
+        }
+
         throw new Error(`Unknown resource: ${request.params.uri}`);
     });
 }
@@ -7,6 +7,7 @@
 
 import type { AzureUpdate } from '../models/azure-update.js';
 import { withRetry } from '../utils/retry.js';
+import { getUpdateUrl } from '../utils/update-url.js';
 import * as logger from '../utils/logger.js';
 
 const DEFAULT_AZURE_UPDATES_API_ENDPOINT = 'https://www.microsoft.com/releasecommunications/api/v2/azure';
@@ -57,6 +58,8 @@ export interface FetchOptions {
     modifiedSince?: string; // ISO 8601 timestamp for differential sync
     limit?: number; // Max results per page
     includeCount?: boolean; // Include total count in response
+    select?: string[]; // Fields to include in response ($select projection)
+    onPageFetched?: (page: number, recordsInPage: number) => void; // Called after each page is fetched
 }
 
 /**
@@ -119,6 +122,15 @@ async function fetchPage(
     return response.json() as Promise<AzureUpdatesApiResponse>;
 }
 
+/**
+ * Record the total count from the first response that provides one
+ */
+function updateTotalCount(state: PaginationState, data: AzureUpdatesApiResponse): void {
+    if (state.totalCount === undefined && typeof data['@odata.count'] === 'number') {
+        state.totalCount = data['@odata.count'];
+    }
+}
+
 /**
  * Fetch Azure updates from the API with pagination
  * 
@@ -160,9 +172,7 @@ export async function fetchAzureUpdates(
             const data = await fetchPage(requestUrl);
 
             // Update total count if provided
-            if (state.totalCount === undefined && typeof data['@odata.count'] === 'number') {
-                state.totalCount = data['@odata.count'];
-            }
+            updateTotalCount(state, data);
 
             // Convert and accumulate updates
             const updates = data.value.map(convertApiRecordToUpdate);
@@ -173,6 +183,7 @@ export async function fetchAzureUpdates(
                 recordsInPage: updates.length,
                 totalSoFar: state.allUpdates.length,
             });
+            options.onPageFetched?.(state.page, updates.length);
 
             // Update pagination state
             state.nextLink = data['@odata.nextLink'];
@@ -207,6 +218,73 @@ export async function fetchAzureUpdates(
     }
 }
 
+/**
+ * Check if $skip-based pagination has more pages
+ */
+function hasMoreSkipPages(pageLength: number, skip: number, totalCount: number | undefined): boolean {
+    if (pageLength < DEFAULT_PAGE_SIZE) return false;
+    if (totalCount !== undefined && skip >= totalCount) return false;
+    return true;
+}
+
+/**
+ * Fetch the IDs of all updates available upstream
+ * 
+ * Uses an ID-only projection ($select=id) so the full catalog can be listed cheaply.
+ * Used by sync reconciliation to detect updates withdrawn upstream.
+ * 
+ * @param options Fetch options (modifiedSince narrows the listing to the retention window)
+ * @returns Array of update IDs
+ */
+export async function fetchAzureUpdateIds(
+    options: Pick<FetchOptions, 'modifiedSince'> = {}
+): Promise<string[]> {
+    const startTime = Date.now();
+    const ids: string[] = [];
+    let nextLink: string | undefined;
+    let totalCount: number | undefined;
+    let skip = 0;
+
+    try {
+        while (true) {
+            const requestUrl = nextLink ?? buildQueryUrl({
+                modifiedSince: options.modifiedSince,
+                limit: DEFAULT_PAGE_SIZE,
+                includeCount: skip === 0,
+                select: ['id'],
+            }, skip);
+
+            const data = await fetchPage(requestUrl);
+
+            if (totalCount === undefined && typeof data['@odata.count'] === 'number') {
+                totalCount = data['@odata.count'];
+            }
+
+            ids.push(...data.value.map(record => record.id));
+            nextLink = data['@odata.nextLink'];
+            skip += data.value.length;
+
+            if (!nextLink && !hasMoreSkipPages(data.value.length, skip, totalCount)) {
+                break;
+            }
+        }
+
+        logger.info('Fetched upstream update IDs', {
+            totalIds: ids.length,
+            durationMs: Date.now() - startTime,
+        });
+
+        return ids;
+    } catch (error) {
+        const err = error as Error;
+        logger.errorWithStack('Azure Updates API ID listing failed', err, {
+            durationMs: Date.now() - startTime,
+        });
+
+        throw new Error(`Failed to fetch Azure update IDs: ${err.message}`);
+    }
+}
+
 /**
  * Build OData query URL with filters
  * 
@@ -235,6 +313,11 @@ function buildQueryUrl(options: FetchOptions, skip: number = 0): string {
         params.set('$filter', `modified ge ${options.modifiedSince}`);
     }
 
+    // Restrict returned fields (e.g., ID-only projection for reconciliation)
+    if (options.select && options.select.length > 0) {
+        params.set('$select', options.select.join(','));
+    }
+
     // Sort by newest first so initial pages contain recent updates
     params.set('$orderby', 'modified desc');
 
@@ -321,7 +404,7 @@ function convertApiRecordToUpdate(apiRecord: AzureUpdateApiRecord): AzureUpdate
         id: apiRecord.id,
         title: apiRecord.title,
         description: apiRecord.description || '',
-        url: `https://azure.microsoft.com/en-us/updates/?id=${apiRecord.id}`,
+        url: getUpdateUrl(apiRecord.id),
         status: apiRecord.status || null,
         locale: apiRecord.locale || null,
         created: apiRecord.created,
@@ -0,0 +1,249 @@
+/**
+ * Retirement calendar service
+ * 
+ * Exports retirement dates (Retirement availability ring) as an iCalendar
+ * (RFC 5545) feed that calendar apps such as Outlook can import or
+ * subscribe to: one all-day event per update and retirement month with the
+ * title, URL and products of the update. Updates can be narrowed down with
+ * the product and product category filters of search_azure_updates.
+ */
+
+import type Database from 'better-sqlite3';
+import type {
+    RetirementCalendar,
+    RetirementCalendarFilters,
+    RetirementEvent,
+} from '../models/retirement-calendar.js';
+import { getRelatedDataForUpdates } from '../database/queries.js';
+import { buildFilterClauses } from './search.service.js';
+import { getUpdateUrl } from '../utils/update-url.js';
+
+// PRODID of the generated calendars
+const PRODUCT_ID = '-//azure-updates-mcp-server//Retirement Calendar//EN';
+
+// Calendar name shown by calendar apps
+const CALENDAR_NAME = 'Azure Retirements';
+
+// Domain part of event UIDs
+const UID_DOMAIN = 'azure-updates-mcp-server';
+
+// Maximum line length in octets, excluding the CRLF (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Retirement month of an update (database row)
+ */
+interface RetirementRow {
+    id: string;
+    title: string;
+    modified: string;
+    date: string;
+    sequence: number;
+}
+
+/**
+ * Options for retirement calendars
+ */
+export interface CalendarOptions {
+    now?: Date; // Generation time (DTSTAMP; default: now)
+}
+
+/**
+ * Build the retirement calendar
+ * 
+ * Retirements without an announced date (TBD) are left out, as are removed
+ * updates.
+ * 
+ * @param db Database instance
+ * @param filters Product and product category filters
+ * @param options Generation time
+ * @returns Events and the iCalendar text
+ */
+export function getRetirementCalendar(
+    db: Database.Database,
+    filters: RetirementCalendarFilters = {},
+    options: CalendarOptions = {}
+): RetirementCalendar {
+    const events = getRetirementEvents(db, filters);
+    return { events, ics: formatCalendar(events, options.now ?? new Date()) };
+}
+
+/**
+ * Get one event per update and retirement month, earliest first
+ * 
+ * @param db Database instance
+ * @param filters Product and product category filters
+ * @returns Retirement events
+ */
+function getRetirementEvents(db: Database.Database, filters: RetirementCalendarFilters): RetirementEvent[] {
+    const params: unknown[] = [];
+    const clauses = [
+        "ua.ring = 'Retirement'",
+        'ua.date IS NOT NULL',
+        ...buildFilterClauses({ products: filters.products, productCategories: filters.productCategories }, params),
+    ];
+
+    const rows = db.prepare(`
+        SELECT DISTINCT au.id, au.title, au.modified, substr(ua.date, 1, 7) || '-01' AS date,
+            (SELECT COUNT(*) FROM update_revisions ur WHERE ur.update_id = au.id) AS sequence
+        FROM azure_updates au
+        JOIN update_availabilities ua ON ua.update_id = au.id
+        WHERE ${clauses.join(' AND ')}
+        ORDER BY date, au.id
+    `).all(...params) as RetirementRow[];
+
+    const relatedData = getRelatedDataForUpdates(db, [...new Set(rows.map(row => row.id))]);
+    const seen = new Set<string>();
+
+    return rows.map(row => {
+        const earliest = !seen.has(row.id);
+        seen.add(row.id);
+
+        return {
+            uid: createUid(row.id, earliest ? undefined : row.date),
+            updateId: row.id,
+            title: row.title,
+            url: getUpdateUrl(row.id),
+            products: relatedData.get(row.id)?.products ?? [],
+            date: row.date,
+            modified: row.modified,
+            sequence: row.sequence,
+        };
+    });
+}
+
+/**
+ * Create the UID of a retirement event
+ * 
+ * The earliest retirement month of an update gets a UID that depends only
+ * on the update ID, so calendar apps move the existing event when that date
+ * changes. Further months of a phased retirement get a suffix from their own
+ * month, so adding or moving one month leaves the UIDs of the others alone.
+ * 
+ * @param updateId Update ID
+ * @param date Retirement month of a further event (first of the month); undefined for the earliest
+ * @returns Event UID
+ */
+function createUid(updateId: string, date?: string): string {
+    const suffix = date ? `-${date.slice(0, 7).replace('-', '')}` : '';
+    return `retirement-${updateId}${suffix}@${UID_DOMAIN}`;
+}
+
+/**
+ * Format events as an iCalendar (RFC 5545) VCALENDAR
+ * 
+ * @param events Retirement events
+ * @param now Generation time
+ * @returns Calendar text with CRLF line endings
+ */
+function formatCalendar(events: RetirementEvent[], now: Date): string {
+    const stamp = formatTimestamp(now.toISOString());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${CALENDAR_NAME}`,
+        ...events.flatMap(event => formatEvent(event, stamp)),
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Format one retirement as an all-day VEVENT on the first of its month
+ * 
+ * DTSTAMP is the generation time; LAST-MODIFIED and SEQUENCE come from the
+ * update, so calendar apps apply a changed date when the feed is re-imported.
+ * 
+ * @param event Retirement event
+ * @param stamp Generation time as iCalendar DATE-TIME
+ * @returns Content lines (unfolded)
+ */
+function formatEvent(event: RetirementEvent, stamp: string): string[] {
+    const start = new Date(`${event.date}T00:00:00Z`);
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    const description = [
+        `Retirement month: ${event.date.slice(0, 7)}`,
+        event.products.length > 0 ? `Products: ${event.products.join(', ')}` : null,
+        event.url,
+    ].filter((line): line is string => line !== null).join('\n');
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        `LAST-MODIFIED:${formatTimestamp(event.modified)}`,
+        `SEQUENCE:${event.sequence}`,
+        `DTSTART;VALUE=DATE:${formatDate(start)}`,
+        `DTEND;VALUE=DATE:${formatDate(end)}`,
+        `SUMMARY:${escapeText(event.title)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `URL:${event.url}`,
+        ...(event.products.length > 0 ? [`CATEGORIES:${event.products.map(escapeText).join(',')}`] : []),
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+    ];
+}
+
+/**
+ * Format a date as an iCalendar DATE (YYYYMMDD)
+ */
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Format an ISO 8601 timestamp as an iCalendar UTC DATE-TIME (YYYYMMDDTHHMMSSZ)
+ * 
+ * Falls back to the current time for timestamps that cannot be parsed.
+ */
+function formatTimestamp(timestamp: string): string {
+    const parsed = new Date(timestamp);
+    const date = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newline)
+ */
+function escapeText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets
+ * 
+ * Continuation lines start with a space. Multi-byte UTF-8 characters are
+ * never split.
+ * 
+ * @param line Unfolded content line
+ * @returns Folded line (CRLF separated)
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const charOctets = Buffer.byteLength(char, 'utf-8');
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + charOctets > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += charOctets;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
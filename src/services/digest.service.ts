@@ -0,0 +1,288 @@
+/**
+ * Updates digest service
+ * 
+ * Summarizes what changed in a time window ("what's new since last Monday"):
+ * updates created in the window are new announcements, updates created
+ * earlier but modified in the window are modified ones. Both are sectioned
+ * by availability ring and product category with counts, and can be
+ * rendered as Markdown for posting to a chat channel.
+ */
+
+import type Database from 'better-sqlite3';
+import type {
+    DigestCategorySection,
+    DigestGroup,
+    DigestRingSection,
+    DigestUpdate,
+    UpdatesDigest,
+    UpdatesDigestQuery,
+} from '../models/updates-digest.js';
+import type { MultiValueFilter } from '../models/search-query.js';
+import { LIFECYCLE_STAGES } from '../models/feature-lifecycle.js';
+import { getRelatedDataForUpdates } from '../database/queries.js';
+import { formatAvailabilities } from '../utils/availability-formatter.js';
+import { getUpdateUrl } from '../utils/update-url.js';
+import { buildFilterClauses } from './search.service.js';
+
+/**
+ * Options for digests
+ */
+export interface DigestOptions {
+    now?: Date; // End of the window when the query has no until (default: now)
+}
+
+// Window length when the query has neither since nor days
+export const DEFAULT_DIGEST_DAYS = 7;
+
+// Section names of updates without an availability ring or product category
+export const NO_RING = 'No availability ring';
+export const NO_CATEGORY = 'Uncategorized';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD without a time
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Update modified in the window (database row)
+ */
+interface DigestRow {
+    id: string;
+    title: string;
+    created: string;
+    modified: string;
+}
+
+/**
+ * Build the digest of updates created or modified in a time window
+ * 
+ * Each update is listed once: under its most advanced availability ring
+ * (Retirement over General Availability over Preview over Private Preview)
+ * and its first product category in alphabetical order. Removed updates are
+ * left out.
+ * 
+ * @param db Database instance
+ * @param query Time window and product filters
+ * @param options Reference date for the default window
+ * @returns New and modified updates by ring and category
+ */
+export function getUpdatesDigest(
+    db: Database.Database,
+    query: UpdatesDigestQuery = {},
+    options: DigestOptions = {}
+): UpdatesDigest {
+    const now = options.now ?? new Date();
+    const since = query.since ?? new Date(now.getTime() - (query.days ?? DEFAULT_DIGEST_DAYS) * DAY_MS).toISOString();
+    const until = query.until ?? now.toISOString();
+
+    const params: unknown[] = [];
+    const clauses = buildFilterClauses({
+        products: query.products,
+        productCategories: query.productCategories,
+        modifiedFrom: since,
+        modifiedTo: toEndOfDay(until),
+    }, params);
+
+    const rows = db.prepare(`
+        SELECT au.id, au.title, au.created, au.modified
+        FROM azure_updates au
+        WHERE ${clauses.join(' AND ')}
+        ORDER BY au.modified DESC, au.id
+    `).all(...params) as DigestRow[];
+
+    const relatedData = getRelatedDataForUpdates(db, rows.map(row => row.id));
+    const updates = rows.map((row): DigestUpdate => {
+        const related = relatedData.get(row.id);
+        return {
+            id: row.id,
+            title: row.title,
+            url: getUpdateUrl(row.id),
+            created: row.created,
+            modified: row.modified,
+            products: related?.products ?? [],
+            productCategories: related?.productCategories ?? [],
+            availabilities: formatAvailabilities(related?.availabilities ?? []),
+        };
+    });
+
+    const newUpdates = updates.filter(update => update.created >= since);
+    const modifiedUpdates = updates.filter(update => update.created < since);
+
+    return {
+        window: { since, until },
+        scope: { products: query.products, productCategories: query.productCategories },
+        newUpdates: buildGroup(newUpdates),
+        modifiedUpdates: buildGroup(modifiedUpdates),
+        metadata: {
+            totalUpdates: updates.length,
+            newUpdates: newUpdates.length,
+            modifiedUpdates: modifiedUpdates.length,
+        },
+    };
+}
+
+/**
+ * Extend a date-only window end to the last instant of that day
+ * 
+ * Stored timestamps sort after their date ("2026-10-19T09:00:00Z" > "2026-10-19"),
+ * so without this an until date would drop the updates of its own day.
+ * 
+ * @param until Window end (date or timestamp)
+ * @returns Inclusive upper bound for modified timestamps
+ */
+function toEndOfDay(until: string): string {
+    return DATE_ONLY_PATTERN.test(until) ? `${until}T23:59:59.9999999Z` : until;
+}
+
+/**
+ * Section updates by ring, then by product category
+ * 
+ * @param updates Updates, most recently modified first
+ * @returns Group with ring sections in lifecycle order
+ */
+function buildGroup(updates: DigestUpdate[]): DigestGroup {
+    const rings = new Map<string, Map<string, DigestUpdate[]>>();
+
+    for (const update of updates) {
+        const ring = getDigestRing(update);
+        const category = update.productCategories[0] ?? NO_CATEGORY;
+        const categories = rings.get(ring) ?? new Map<string, DigestUpdate[]>();
+        categories.set(category, [...(categories.get(category) ?? []), update]);
+        rings.set(ring, categories);
+    }
+
+    const sections = [...rings.entries()].map(([ring, categories]): DigestRingSection => {
+        const categorySections = [...categories.entries()]
+            .map(([category, entries]): DigestCategorySection => ({ category, count: entries.length, updates: entries }))
+            .sort((a, b) => compareSectionNames(a.category, b.category, NO_CATEGORY));
+        return {
+            ring,
+            count: categorySections.reduce((sum, section) => sum + section.count, 0),
+            categories: categorySections,
+        };
+    });
+
+    return {
+        count: updates.length,
+        rings: sections.sort((a, b) => getRingOrder(a.ring) - getRingOrder(b.ring) || compareSectionNames(a.ring, b.ring, NO_RING)),
+    };
+}
+
+/**
+ * Get the ring an update is listed under: its most advanced lifecycle ring
+ * 
+ * @param update Digest update
+ * @returns Ring name, the first listed ring if none is a lifecycle stage, or NO_RING
+ */
+function getDigestRing(update: DigestUpdate): string {
+    const rings = update.availabilities.map(availability => availability.ring);
+    const stages = rings.filter(ring => getRingOrder(ring) < LIFECYCLE_STAGES.length);
+    if (stages.length > 0) {
+        return stages.reduce((latest, ring) => (getRingOrder(ring) > getRingOrder(latest) ? ring : latest));
+    }
+    return rings[0] ?? NO_RING;
+}
+
+/**
+ * Position of a ring in lifecycle order; other rings and NO_RING sort after the stages
+ */
+function getRingOrder(ring: string): number {
+    const index = (LIFECYCLE_STAGES as readonly string[]).indexOf(ring);
+    return index === -1 ? LIFECYCLE_STAGES.length : index;
+}
+
+/**
+ * Compare section names alphabetically with the catch-all section last
+ */
+function compareSectionNames(a: string, b: string, catchAll: string): number {
+    return Number(a === catchAll) - Number(b === catchAll) || a.localeCompare(b);
+}
+
+/**
+ * Render a digest as Markdown, e.g. for a Teams or Slack post
+ * 
+ * New announcements list their creation date, modified updates their
+ * modification date.
+ * 
+ * @param digest Digest from getUpdatesDigest
+ * @returns Markdown text
+ */
+export function formatDigestMarkdown(digest: UpdatesDigest): string {
+    const { since, until } = digest.window;
+    const { totalUpdates, newUpdates, modifiedUpdates } = digest.metadata;
+    const lines = [`# Azure Updates digest: ${since.slice(0, 10)} to ${until.slice(0, 10)}`, ''];
+
+    const scope = formatScope(digest.scope);
+    if (scope) {
+        lines.push(scope, '');
+    }
+
+    lines.push(`**${totalUpdates} ${totalUpdates === 1 ? 'update' : 'updates'}**: ${newUpdates} new, ${modifiedUpdates} modified`);
+
+    lines.push(...formatGroupMarkdown('New announcements', digest.newUpdates, 'created'));
+    lines.push(...formatGroupMarkdown('Modified updates', digest.modifiedUpdates, 'modified'));
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Render the new or modified updates of a digest
+ * 
+ * @param heading Section heading
+ * @param group Updates by ring and category
+ * @param dateField Date shown per update
+ * @returns Markdown lines, starting with a blank line
+ */
+function formatGroupMarkdown(heading: string, group: DigestGroup, dateField: 'created' | 'modified'): string[] {
+    const lines = ['', `## ${heading} (${group.count})`];
+    if (group.count === 0) {
+        return [...lines, '', '_None_'];
+    }
+
+    for (const ring of group.rings) {
+        lines.push('', `### ${ring.ring} (${ring.count})`);
+        for (const category of ring.categories) {
+            lines.push('', `#### ${category.category} (${category.count})`, '');
+            lines.push(...category.updates.map(update => formatUpdateLine(update, dateField)));
+        }
+    }
+    return lines;
+}
+
+/**
+ * Render one update as a list item with link, products and date
+ */
+function formatUpdateLine(update: DigestUpdate, dateField: 'created' | 'modified'): string {
+    const title = update.title.replace(/([\\[\]])/g, '\\$1');
+    const products = update.products.length > 0 ? ` · ${update.products.join(', ')}` : '';
+    return `- [${title}](${update.url})${products} · ${update[dateField].slice(0, 10)}`;
+}
+
+/**
+ * Describe the product filters of a digest
+ * 
+ * @param scope Product filters
+ * @returns Scope line, or undefined if the digest covers all products
+ */
+function formatScope(scope: UpdatesDigest['scope']): string | undefined {
+    const parts = [
+        formatMultiValueFilter('Products', scope.products),
+        formatMultiValueFilter('Product categories', scope.productCategories),
+    ].filter((part): part is string => part !== undefined);
+
+    return parts.length > 0 ? `_${parts.join(' · ')}_` : undefined;
+}
+
+/**
+ * Describe a multi-valued filter, e.g. "Products: any of A, B; none of C"
+ */
+function formatMultiValueFilter(label: string, filter: string[] | MultiValueFilter | undefined): string | undefined {
+    const { allOf, anyOf, noneOf } = Array.isArray(filter) ? { allOf: filter } as MultiValueFilter : filter ?? {};
+    const conditions = [
+        allOf?.length ? allOf.join(', ') : undefined,
+        anyOf?.length ? `any of ${anyOf.join(', ')}` : undefined,
+        noneOf?.length ? `none of ${noneOf.join(', ')}` : undefined,
+    ].filter((condition): condition is string => condition !== undefined);
+
+    return conditions.length > 0 ? `${label}: ${conditions.join('; ')}` : undefined;
+}
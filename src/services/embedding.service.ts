@@ -0,0 +1,300 @@
+/**
+ * Embedding service for similarity search
+ * 
+ * Stores one vector per update (title and description) in update_embeddings
+ * and ranks updates by cosine similarity to a query. Vectors come from an
+ * EmbeddingProvider picked by name (SIMILARITY_SEARCH_PROVIDER). The built-in
+ * "hashing" provider hashes words and their character trigrams into a
+ * fixed-size vector: it works offline and without model files, but it is
+ * lexical (shared words and word fragments), not a language model.
+ */
+
+import type Database from 'better-sqlite3';
+import { getUpdatesWithoutEmbedding, getUpdateTexts, upsertUpdateEmbedding } from '../database/queries.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Computes embeddings for texts
+ */
+export interface EmbeddingProvider {
+    readonly model: string; // Identifies the vector space; stored vectors of another model are recomputed
+    embed(texts: string[]): Float32Array[]; // One unit-length vector per text
+}
+
+/**
+ * Update ranked by similarity to a query
+ */
+export interface SimilarUpdate {
+    id: string;
+    similarity: number; // Cosine similarity (1 = same direction)
+}
+
+/**
+ * Most similar updates to a query
+ */
+export interface SimilarityRanking {
+    updates: SimilarUpdate[]; // Most similar first
+    truncated: boolean; // More updates were similar than returned, or candidates were left unscored
+}
+
+// Vector length of the hashing provider
+const DEFAULT_DIMENSIONS = 512;
+
+// Weight of a character trigram relative to a whole word
+const TRIGRAM_WEIGHT = 0.3;
+
+// Texts embedded per provider call when filling the table
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Updates less similar than this are not returned
+const MIN_SIMILARITY = 0.05;
+
+// Most recently modified candidates scored per query (bounds the vectors read)
+const MAX_SCORED_CANDIDATES = 10000;
+
+// Words too common to carry meaning
+const STOP_WORDS = new Set([
+    'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'but', 'by',
+    'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'may', 'more',
+    'new', 'no', 'not', 'now', 'of', 'on', 'or', 'our', 'out', 'so', 'that', 'the', 'their', 'them', 'then', 'there',
+    'these', 'they', 'things', 'this', 'those', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'which', 'while',
+    'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Create the built-in embedding provider (feature hashing)
+ * 
+ * Each word and each character trigram of a word ("<ne", "net", ...) adds a
+ * signed weight to one dimension picked by its hash. Texts sharing words or
+ * word stems (network / networking) get similar vectors; synonyms without
+ * shared spelling do not, so this measures lexical overlap, not meaning.
+ * 
+ * @param dimensions Vector length
+ * @returns Embedding provider
+ */
+export function createHashingEmbeddingProvider(dimensions: number = DEFAULT_DIMENSIONS): EmbeddingProvider {
+    return {
+        model: `hashing-v1-${dimensions}`,
+        embed: texts => texts.map(text => embedText(text, dimensions)),
+    };
+}
+
+// Embedding providers selectable by name
+const EMBEDDING_PROVIDERS: Record<string, (dimensions?: number) => EmbeddingProvider> = {
+    hashing: createHashingEmbeddingProvider,
+};
+
+/**
+ * Create an embedding provider by name
+ * 
+ * @param name Provider name (see EMBEDDING_PROVIDERS)
+ * @param dimensions Vector length (default: the provider's own)
+ * @returns Embedding provider
+ * @throws Error if the name or the vector length is invalid
+ */
+export function createEmbeddingProvider(name: string, dimensions?: number): EmbeddingProvider {
+    if (!Object.hasOwn(EMBEDDING_PROVIDERS, name)) {
+        throw new Error(`Unknown embedding provider "${name}" (available: ${Object.keys(EMBEDDING_PROVIDERS).join(', ')})`);
+    }
+    if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions < 1)) {
+        throw new Error(`Invalid embedding dimensions: ${dimensions} (expected a positive integer)`);
+    }
+
+    return EMBEDDING_PROVIDERS[name](dimensions);
+}
+
+/**
+ * Compute and store embeddings for the given updates
+ * 
+ * @param db Database instance
+ * @param provider Embedding provider
+ * @param ids Update IDs
+ * @returns Number of updates embedded
+ */
+export function embedUpdates(db: Database.Database, provider: EmbeddingProvider, ids: string[]): number {
+    return storeEmbeddings(db, provider, getUpdateTexts(db, ids));
+}
+
+/**
+ * Embed every update without a vector from the provider's model
+ * (updates stored while similarity search was off, or after a model change)
+ * 
+ * Called at startup and by every sync; searches never write vectors.
+ * 
+ * @param db Database instance
+ * @param provider Embedding provider
+ * @returns Number of updates embedded
+ */
+export function ensureUpdateEmbeddings(db: Database.Database, provider: EmbeddingProvider): number {
+    const missing = getUpdatesWithoutEmbedding(db, provider.model);
+    if (missing.length === 0) {
+        return 0;
+    }
+
+    const count = db.transaction(() => storeEmbeddings(db, provider, missing))();
+    logger.info('Computed update embeddings', { model: provider.model, count });
+    return count;
+}
+
+/**
+ * Rank candidate updates by similarity to a query text
+ * 
+ * Read-only: updates without a stored vector from the provider's model are
+ * skipped (sync and startup fill them, see ensureUpdateEmbeddings). The
+ * candidate SQL applies the search filters before any vector is read, and
+ * only the most recently modified candidates up to maxCandidates are scored.
+ * 
+ * @param db Database instance
+ * @param provider Embedding provider
+ * @param text Query text
+ * @param candidates SQL selecting the candidate updates (column: id) and its parameters
+ * @param limit Maximum number of updates
+ * @param maxCandidates Maximum number of candidates scored
+ * @returns Most similar updates first (ties by id), and whether a limit cut them
+ */
+export function findSimilarUpdates(
+    db: Database.Database,
+    provider: EmbeddingProvider,
+    text: string,
+    candidates: { sql: string; params: unknown[] },
+    limit: number,
+    maxCandidates: number = MAX_SCORED_CANDIDATES
+): SimilarityRanking {
+    const unscored = db.prepare(`
+        WITH candidates AS (${candidates.sql})
+        SELECT COUNT(*) > ? AS unscored FROM candidates
+    `).get(...candidates.params, maxCandidates) as { unscored: number };
+
+    const [query] = provider.embed([text]);
+    const rows = db.prepare(`
+        WITH candidates AS (${candidates.sql}),
+        recent AS (
+            SELECT au.id FROM candidates c JOIN azure_updates au ON au.id = c.id
+            ORDER BY au.modified DESC, au.id
+            LIMIT ?
+        )
+        SELECT e.update_id AS id, e.vector
+        FROM recent r JOIN update_embeddings e ON e.update_id = r.id
+        WHERE e.model = ?
+    `).iterate(...candidates.params, maxCandidates, provider.model) as IterableIterator<{ id: string; vector: Buffer }>;
+
+    // Score row by row, so only the similarities are kept in memory
+    const similar: SimilarUpdate[] = [];
+    for (const row of rows) {
+        const similarity = dotProduct(query, toVector(row.vector));
+        if (similarity >= MIN_SIMILARITY) {
+            similar.push({ id: row.id, similarity });
+        }
+    }
+
+    return {
+        updates: similar
+            .sort((a, b) => b.similarity - a.similarity || a.id.localeCompare(b.id))
+            .slice(0, limit),
+        truncated: unscored.unscored === 1 || similar.length > limit,
+    };
+}
+
+/**
+ * Embed update texts in batches and store the vectors
+ * 
+ * @param db Database instance
+ * @param provider Embedding provider
+ * @param updates Id, title and description per update
+ * @returns Number of updates embedded
+ */
+function storeEmbeddings(
+    db: Database.Database,
+    provider: EmbeddingProvider,
+    updates: { id: string; title: string; descriptionMarkdown: string | null }[]
+): number {
+    for (let start = 0; start < updates.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = updates.slice(start, start + EMBEDDING_BATCH_SIZE);
+        // The title summarizes the update, so it counts twice
+        const vectors = provider.embed(batch.map(u => `${u.title}\n${u.title}\n${u.descriptionMarkdown ?? ''}`));
+        batch.forEach((update, i) => upsertUpdateEmbedding(db, update.id, provider.model, vectors[i]));
+    }
+
+    return updates.length;
+}
+
+/**
+ * Hash the words and word trigrams of a text into a unit-length vector
+ * 
+ * Repeated words count logarithmically, so long descriptions do not drown the title.
+ * 
+ * @param text Text
+ * @param dimensions Vector length
+ * @returns Unit-length vector (all zeros for a text without words)
+ */
+function embedText(text: string, dimensions: number): Float32Array {
+    const counts = new Map<string, number>();
+    const words = text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    for (const word of words.filter(w => w.length > 1 && !STOP_WORDS.has(w))) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+
+    const vector = new Float32Array(dimensions);
+    for (const [word, count] of counts) {
+        const weight = 1 + Math.log(count);
+        addFeature(vector, `w:${word}`, weight);
+
+        const padded = `<${word}>`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            addFeature(vector, `t:${padded.slice(i, i + 3)}`, weight * TRIGRAM_WEIGHT);
+        }
+    }
+
+    return normalize(vector);
+}
+
+/**
+ * Add a feature's weight to the dimension picked by its hash (the sign also comes from the hash)
+ */
+function addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    vector[hash % vector.length] += hash & 0x80000000 ? -weight : weight;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length (in place)
+ */
+function normalize(vector: Float32Array): Float32Array {
+    const length = Math.sqrt(dotProduct(vector, vector));
+    if (length > 0) {
+        for (let i = 0; i < vector.length; i++) {
+            vector[i] /= length;
+        }
+    }
+    return vector;
+}
+
+/**
+ * Dot product of two vectors (cosine similarity for unit-length vectors)
+ */
+function dotProduct(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
+
+/**
+ * Read a stored vector (copied, since BLOB buffers need not be 4-byte aligned)
+ */
+function toVector(blob: Buffer): Float32Array {
+    return new Float32Array(new Uint8Array(blob).buffer);
+}
@@ -0,0 +1,193 @@
+/**
+ * History service for Azure Updates
+ * 
+ * Reconstructs the edit history of an update from archived revisions and
+ * computes field-level diffs between consecutive versions.
+ */
+
+import type Database from 'better-sqlite3';
+import type { AzureUpdateAvailability } from '../models/azure-update.js';
+import type {
+    FieldChange,
+    UpdateHistory,
+    UpdateHistoryEntry,
+} from '../models/update-revision.js';
+import { getUpdateById, getUpdateRevisions } from '../database/queries.js';
+import { formatAvailability } from '../utils/availability-formatter.js';
+
+/**
+ * Comparable view of one version of an update
+ */
+interface VersionSnapshot {
+    title: string;
+    description: string | null;
+    status: string | null;
+    modified: string;
+    tags: string[];
+    productCategories: string[];
+    products: string[];
+    availabilities: AzureUpdateAvailability[];
+}
+
+/**
+ * Options for history retrieval
+ */
+export interface UpdateHistoryOptions {
+    includeDescriptions?: boolean; // Include before/after description text in diffs (default: false)
+}
+
+/**
+ * Get the revision history of an update with field-level diffs
+ * 
+ * @param db Database instance
+ * @param id Update ID
+ * @param options History options
+ * @returns Update history (newest change first), or null if the update does not exist
+ */
+export function getUpdateHistory(
+    db: Database.Database,
+    id: string,
+    options: UpdateHistoryOptions = {}
+): UpdateHistory | null {
+    const current = getUpdateById(db, id);
+    if (!current) {
+        return null;
+    }
+
+    const revisions = getUpdateRevisions(db, id);
+
+    // Oldest first, ending with the current version
+    const versions: VersionSnapshot[] = [
+        ...revisions.map(revision => ({
+            title: revision.title,
+            description: revision.descriptionMarkdown,
+            status: revision.status,
+            modified: revision.modified,
+            tags: revision.tags,
+            productCategories: revision.productCategories,
+            products: revision.products,
+            availabilities: revision.availabilities,
+        })),
+        {
+            title: current.title,
+            description: current.description,
+            status: current.status,
+            modified: current.modified,
+            tags: current.tags,
+            productCategories: current.productCategories,
+            products: current.products,
+            availabilities: current.availabilities,
+        },
+    ];
+
+    const history: UpdateHistoryEntry[] = [];
+    for (let i = 1; i < versions.length; i++) {
+        const before = versions[i - 1];
+        const after = versions[i];
+        history.push({
+            modified: after.modified,
+            previousModified: before.modified,
+            changes: diffVersions(before, after, options.includeDescriptions ?? false),
+        });
+    }
+
+    return {
+        id: current.id,
+        title: current.title,
+        url: current.url,
+        currentModified: current.modified,
+        revisionCount: revisions.length,
+        history: history.reverse(),
+    };
+}
+
+/**
+ * Compute field-level changes between two versions
+ * 
+ * @param before Older version
+ * @param after Newer version
+ * @param includeDescriptions Whether to include description text in the diff
+ * @returns List of changed fields
+ */
+function diffVersions(
+    before: VersionSnapshot,
+    after: VersionSnapshot,
+    includeDescriptions: boolean
+): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    if (before.title !== after.title) {
+        changes.push({ field: 'title', type: 'value', before: before.title, after: after.title });
+    }
+
+    if (before.status !== after.status) {
+        changes.push({ field: 'status', type: 'value', before: before.status, after: after.status });
+    }
+
+    if ((before.description ?? '') !== (after.description ?? '')) {
+        changes.push(includeDescriptions
+            ? { field: 'description', type: 'text', before: before.description, after: after.description }
+            : { field: 'description', type: 'text' });
+    }
+
+    pushSetChange(changes, 'tags', before.tags, after.tags);
+    pushSetChange(changes, 'productCategories', before.productCategories, after.productCategories);
+    pushSetChange(changes, 'products', before.products, after.products);
+
+    changes.push(...diffAvailabilities(before.availabilities, after.availabilities));
+
+    return changes;
+}
+
+/**
+ * Append a set change if any values were added or removed
+ */
+function pushSetChange(changes: FieldChange[], field: string, before: string[], after: string[]): void {
+    const added = after.filter(value => !before.includes(value));
+    const removed = before.filter(value => !after.includes(value));
+
+    if (added.length > 0 || removed.length > 0) {
+        changes.push({ field, type: 'set', added, removed });
+    }
+}
+
+/**
+ * Diff availabilities per ring (e.g., a Retirement date moving from March to September)
+ * 
+ * Dates are reported at month granularity ("March 2026"), or "TBD" when unset.
+ * A ring that appears or disappears is reported with a null before/after value.
+ */
+function diffAvailabilities(
+    before: AzureUpdateAvailability[],
+    after: AzureUpdateAvailability[]
+): FieldChange[] {
+    const beforeByRing = groupAvailabilityDates(before);
+    const afterByRing = groupAvailabilityDates(after);
+    const rings = [...new Set([...beforeByRing.keys(), ...afterByRing.keys()])].sort();
+
+    const changes: FieldChange[] = [];
+    for (const ring of rings) {
+        const beforeValue = beforeByRing.get(ring) ?? null;
+        const afterValue = afterByRing.get(ring) ?? null;
+        if (beforeValue !== afterValue) {
+            changes.push({ field: `availabilities.${ring}`, type: 'value', before: beforeValue, after: afterValue });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Map each ring to a readable, comma-separated list of its dates
+ */
+function groupAvailabilityDates(availabilities: AzureUpdateAvailability[]): Map<string, string> {
+    const byRing = new Map<string, string[]>();
+
+    for (const availability of availabilities) {
+        const formatted = formatAvailability(availability);
+        const label = formatted.year && formatted.month ? `${formatted.month} ${formatted.year}` : 'TBD';
+        byRing.set(availability.ring, [...(byRing.get(availability.ring) ?? []), label]);
+    }
+
+    return new Map([...byRing].map(([ring, labels]) => [ring, labels.join(', ')]));
+}
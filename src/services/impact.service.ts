@@ -0,0 +1,288 @@
+/**
+ * Retirement impact service
+ * 
+ * Joins an inventory of products in use (INVENTORY_FILE, which may also be a
+ * resource export, or tool input) with the retirement dates of updates
+ * listing those products, and sorts the retirements into urgency buckets
+ * (overdue, less than 90 days, less than a year) with the resource counts
+ * and owners of the affected products.
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import type Database from 'better-sqlite3';
+import { parse as parseYaml } from 'yaml';
+import type {
+    ImpactedRetirement,
+    InventoryEntry,
+    InventoryItem,
+    RetirementImpact,
+    UrgencyBucket,
+} from '../models/retirement-impact.js';
+import { getAllProducts, getRetirementsForProducts } from '../database/queries.js';
+import { importInventory, isResourceExport, type InventoryImportOptions } from './inventory-import.service.js';
+import * as logger from '../utils/logger.js';
+import { getUpdateUrl } from '../utils/update-url.js';
+
+/**
+ * Options for retirement impact reports
+ */
+export interface ImpactOptions {
+    inventory?: InventoryEntry[]; // Inventory used when the request has none (e.g. from INVENTORY_FILE)
+    now?: Date; // Date the buckets refer to (default: today)
+}
+
+// Upper bounds (exclusive) of the upcoming buckets in days
+const URGENT_DAYS = 90;
+const YEAR_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retirements of one update in one month, with the stored names of the inventory products it lists
+ */
+interface RetirementMatch {
+    id: string;
+    title: string;
+    date: string | null;
+    products: string[];
+}
+
+/**
+ * Get the retirements affecting an inventory, grouped by urgency
+ * 
+ * Product names match update products case-insensitively; entries for the
+ * same product are merged. Retirements a year or more ahead and retirements
+ * without an announced date are only counted.
+ * 
+ * @param db Database instance
+ * @param inventory Products in use
+ * @param options Reference date
+ * @returns Retirements per urgency bucket, earliest first
+ */
+export function getRetirementImpact(
+    db: Database.Database,
+    inventory: InventoryEntry[],
+    options: ImpactOptions = {}
+): RetirementImpact {
+    const asOf = (options.now ?? new Date()).toISOString().slice(0, 10);
+    const items = normalizeInventory(inventory);
+    const itemsByProduct = new Map(items.map(item => [item.product.toLowerCase(), item]));
+
+    const buckets: Record<UrgencyBucket, ImpactedRetirement[]> = { overdue: [], within90Days: [], withinYear: [] };
+    let laterRetirements = 0;
+    let undatedRetirements = 0;
+
+    for (const match of getRetirementMatches(db, items)) {
+        if (match.date === null) {
+            undatedRetirements++;
+            continue;
+        }
+
+        const bucket = getUrgencyBucket(match.date, asOf);
+        if (!bucket) {
+            laterRetirements++;
+            continue;
+        }
+
+        const affectedProducts = match.products
+            .map(product => itemsByProduct.get(product.toLowerCase()))
+            .filter((item): item is InventoryItem => item !== undefined);
+        buckets[bucket].push(toImpactedRetirement(match, match.date, affectedProducts, asOf));
+    }
+
+    const knownProducts = new Set(getAllProducts(db).map(product => product.toLowerCase()));
+
+    return {
+        buckets,
+        unmatchedProducts: items
+            .filter(item => !knownProducts.has(item.product.toLowerCase()))
+            .map(item => item.product),
+        metadata: {
+            asOf,
+            inventoryProducts: items.length,
+            impactedRetirements: buckets.overdue.length + buckets.within90Days.length + buckets.withinYear.length,
+            laterRetirements,
+            undatedRetirements,
+        },
+    };
+}
+
+/**
+ * Load an inventory from a JSON or YAML file
+ * 
+ * The file is either an inventory or a resource export (Azure Resource Graph
+ * result or `az resource list` output), whose resource types are mapped to
+ * products. Files ending in .yaml or .yml are read as YAML, all others as JSON.
+ * 
+ * @param path Path to an array of product names or items, e.g.
+ *   ["Azure Functions", {"product": "Azure Kubernetes Service (AKS)", "resourceCount": 12, "owners": ["platform-team"]}],
+ *   or to a resource export
+ * @param options Tag to read owners from (resource exports only)
+ * @returns Inventory entries
+ * @throws Error if the file cannot be read or parsed, or has the wrong shape
+ */
+export function loadInventoryFile(path: string, options: InventoryImportOptions = {}): InventoryEntry[] {
+    let content: string;
+    try {
+        content = readFileSync(path, 'utf-8');
+    } catch (error) {
+        throw new Error(`Cannot read inventory file ${path}: ${(error as Error).message}`);
+    }
+
+    const parsed = parseInventoryFile(path, content);
+
+    if (isResourceExport(parsed)) {
+        const imported = importInventory(parsed, options);
+        logger.info('Inventory imported from resource export', {
+            path,
+            products: imported.inventory.length,
+            ...imported.metadata,
+            unmappedTypes: imported.unmappedTypes.map(unmapped => unmapped.type),
+        });
+        return imported.inventory;
+    }
+
+    if (!isInventory(parsed)) {
+        throw new Error(`Invalid inventory file ${path}: expected a resource export or an array of product names or items with a product, an optional resourceCount and optional owners, e.g. ["Azure Functions", {"product": "Azure Kubernetes Service (AKS)", "resourceCount": 12, "owners": ["platform-team"]}]`);
+    }
+
+    return parsed;
+}
+
+/**
+ * Parse an inventory file as YAML or JSON, by its extension
+ */
+function parseInventoryFile(path: string, content: string): unknown {
+    const yaml = ['.yaml', '.yml'].includes(extname(path).toLowerCase());
+    try {
+        return yaml ? parseYaml(content) : JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid ${yaml ? 'YAML' : 'JSON'} in inventory file ${path}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Check the shape of a parsed inventory file
+ */
+function isInventory(value: unknown): value is InventoryEntry[] {
+    return Array.isArray(value) && value.every(entry => {
+        if (typeof entry === 'string') {
+            return entry.trim() !== '';
+        }
+        const { product, resourceCount, owners } = (entry ?? {}) as Record<string, unknown>;
+        return typeof product === 'string' && product.trim() !== '' &&
+            (resourceCount === undefined || (Number.isInteger(resourceCount) && (resourceCount as number) >= 0)) &&
+            (owners === undefined || (Array.isArray(owners) && owners.every(owner => typeof owner === 'string')));
+    });
+}
+
+/**
+ * Turn entries into items, merging entries for the same product
+ * 
+ * Resource counts of merged entries are added up and owners combined.
+ * 
+ * @param inventory Inventory entries
+ * @returns One item per product, in inventory order
+ */
+function normalizeInventory(inventory: InventoryEntry[]): InventoryItem[] {
+    const items = new Map<string, InventoryItem>();
+
+    for (const entry of inventory) {
+        const item = typeof entry === 'string' ? { product: entry } : entry;
+        const product = item.product.trim();
+        const key = product.toLowerCase();
+        const existing = items.get(key);
+
+        if (!existing) {
+            items.set(key, { ...item, product, owners: item.owners ? [...new Set(item.owners)] : undefined });
+            continue;
+        }
+
+        if (item.resourceCount !== undefined) {
+            existing.resourceCount = (existing.resourceCount ?? 0) + item.resourceCount;
+        }
+        if (item.owners) {
+            existing.owners = [...new Set([...(existing.owners ?? []), ...item.owners])];
+        }
+    }
+
+    return [...items.values()];
+}
+
+/**
+ * Load the retirements of updates listing inventory products
+ * 
+ * @param db Database instance
+ * @param items Inventory items
+ * @returns One match per update and retirement date, earliest first (TBD last)
+ */
+function getRetirementMatches(db: Database.Database, items: InventoryItem[]): RetirementMatch[] {
+    const matches = new Map<string, RetirementMatch>();
+
+    for (const row of getRetirementsForProducts(db, items.map(item => item.product))) {
+        const key = `${row.id}|${row.date ?? ''}`;
+        const match = matches.get(key);
+        if (match) {
+            match.products.push(row.product);
+        } else {
+            matches.set(key, { id: row.id, title: row.title, date: row.date, products: [row.product] });
+        }
+    }
+
+    return [...matches.values()];
+}
+
+/**
+ * Get the urgency bucket of a retirement date
+ * 
+ * A retirement is overdue once its month has passed; during the retirement
+ * month it counts as less than 90 days away.
+ * 
+ * @param date Retirement date (first of the month)
+ * @param asOf Reference date (YYYY-MM-DD)
+ * @returns Bucket, or undefined if the retirement is a year or more ahead
+ */
+function getUrgencyBucket(date: string, asOf: string): UrgencyBucket | undefined {
+    if (date.slice(0, 7) < asOf.slice(0, 7)) {
+        return 'overdue';
+    }
+
+    const days = daysBetween(asOf, date);
+    if (days < URGENT_DAYS) {
+        return 'within90Days';
+    }
+    return days < YEAR_DAYS ? 'withinYear' : undefined;
+}
+
+/**
+ * Build the report entry of a retirement
+ */
+function toImpactedRetirement(
+    match: RetirementMatch,
+    date: string,
+    affectedProducts: InventoryItem[],
+    asOf: string
+): ImpactedRetirement {
+    const counts = affectedProducts
+        .map(item => item.resourceCount)
+        .filter((count): count is number => count !== undefined);
+
+    return {
+        updateId: match.id,
+        title: match.title,
+        url: getUpdateUrl(match.id),
+        retirementDate: date,
+        daysUntil: daysBetween(asOf, date),
+        affectedProducts,
+        resourceCount: counts.length > 0 ? counts.reduce((sum, count) => sum + count, 0) : null,
+        owners: [...new Set(affectedProducts.flatMap(item => item.owners ?? []))],
+    };
+}
+
+/**
+ * Whole days from one ISO date to another (negative if to is earlier)
+ */
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS);
+}
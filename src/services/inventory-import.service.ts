@@ -0,0 +1,359 @@
+/**
+ * Inventory import service
+ * 
+ * Derives an inventory (products in use) from resource exports instead of
+ * hand-typed product names: the JSON output of an Azure Resource Graph query
+ * (`az graph query`, the Resource Graph REST API) or of `az resource list`.
+ * ARM resource types are mapped to Azure Updates product names with
+ * RESOURCE_TYPE_PRODUCTS. Exports are read from local files or passed in;
+ * Azure itself is never called.
+ */
+
+import type {
+    ImportedInventory,
+    InventoryItem,
+    UnmappedResourceType,
+} from '../models/retirement-impact.js';
+
+/**
+ * Options for inventory imports
+ */
+export interface InventoryImportOptions {
+    ownerTag?: string; // Resource tag holding the owner (e.g. "owner"); matched case-insensitively
+}
+
+/**
+ * Azure Updates product names per ARM resource type (lowercase)
+ * 
+ * Child types without an entry fall back to their parent type
+ * (microsoft.sql/servers/databases → microsoft.sql/servers). Keep names in
+ * line with the products listed by the azure-updates://guide resource.
+ */
+export const RESOURCE_TYPE_PRODUCTS: Readonly<Record<string, readonly string[]>> = {
+    // Compute
+    'microsoft.compute/virtualmachines': ['Azure Virtual Machines'],
+    'microsoft.compute/virtualmachinescalesets': ['Azure Virtual Machine Scale Sets'],
+    'microsoft.compute/disks': ['Azure Managed Disks'],
+    'microsoft.compute/snapshots': ['Azure Managed Disks'],
+    'microsoft.compute/availabilitysets': ['Azure Virtual Machines'],
+    'microsoft.compute/galleries': ['Azure Compute Gallery'],
+    'microsoft.compute/hostgroups': ['Azure Dedicated Host'],
+    'microsoft.batch/batchaccounts': ['Azure Batch'],
+    'microsoft.desktopvirtualization/hostpools': ['Azure Virtual Desktop'],
+    'microsoft.desktopvirtualization/workspaces': ['Azure Virtual Desktop'],
+    'microsoft.desktopvirtualization/applicationgroups': ['Azure Virtual Desktop'],
+    'microsoft.avs/privateclouds': ['Azure VMware Solution'],
+    // Containers
+    'microsoft.containerservice/managedclusters': ['Azure Kubernetes Service (AKS)'],
+    'microsoft.containerregistry/registries': ['Azure Container Registry'],
+    'microsoft.containerinstance/containergroups': ['Azure Container Instances'],
+    'microsoft.app/containerapps': ['Azure Container Apps'],
+    'microsoft.app/managedenvironments': ['Azure Container Apps'],
+    'microsoft.app/jobs': ['Azure Container Apps'],
+    'microsoft.redhatopenshift/openshiftclusters': ['Azure Red Hat OpenShift'],
+    // Web and integration
+    'microsoft.web/sites': ['Azure App Service'],
+    'microsoft.web/serverfarms': ['Azure App Service'],
+    'microsoft.web/staticsites': ['Azure Static Web Apps'],
+    'microsoft.logic/workflows': ['Azure Logic Apps'],
+    'microsoft.apimanagement/service': ['Azure API Management'],
+    'microsoft.signalrservice/signalr': ['Azure SignalR Service'],
+    'microsoft.signalrservice/webpubsub': ['Azure Web PubSub'],
+    'microsoft.servicebus/namespaces': ['Azure Service Bus'],
+    'microsoft.eventhub/namespaces': ['Azure Event Hubs'],
+    'microsoft.eventgrid/topics': ['Azure Event Grid'],
+    'microsoft.eventgrid/systemtopics': ['Azure Event Grid'],
+    'microsoft.eventgrid/domains': ['Azure Event Grid'],
+    'microsoft.eventgrid/namespaces': ['Azure Event Grid'],
+    'microsoft.appconfiguration/configurationstores': ['Azure App Configuration'],
+    'microsoft.appplatform/spring': ['Azure Spring Apps'],
+    'microsoft.notificationhubs/namespaces': ['Azure Notification Hubs'],
+    // Storage
+    'microsoft.storage/storageaccounts': ['Azure Storage Accounts'],
+    'microsoft.netapp/netappaccounts': ['Azure NetApp Files'],
+    'microsoft.storagecache/amlfilesystems': ['Azure Managed Lustre'],
+    'microsoft.elasticsan/elasticsans': ['Azure Elastic SAN'],
+    'microsoft.datalakestore/accounts': ['Azure Data Lake Storage'],
+    // Databases
+    'microsoft.sql/servers': ['Azure SQL Database'],
+    'microsoft.sql/managedinstances': ['Azure SQL Managed Instance'],
+    'microsoft.sqlvirtualmachine/sqlvirtualmachines': ['SQL Server on Azure Virtual Machines'],
+    'microsoft.documentdb/databaseaccounts': ['Azure Cosmos DB'],
+    'microsoft.documentdb/mongoclusters': ['Azure Cosmos DB'],
+    'microsoft.dbforpostgresql/flexibleservers': ['Azure Database for PostgreSQL'],
+    'microsoft.dbforpostgresql/servers': ['Azure Database for PostgreSQL'],
+    'microsoft.dbformysql/flexibleservers': ['Azure Database for MySQL'],
+    'microsoft.dbformysql/servers': ['Azure Database for MySQL'],
+    'microsoft.dbformariadb/servers': ['Azure Database for MariaDB'],
+    'microsoft.cache/redis': ['Azure Cache for Redis'],
+    'microsoft.cache/redisenterprise': ['Azure Cache for Redis'],
+    // Analytics
+    'microsoft.synapse/workspaces': ['Azure Synapse Analytics'],
+    'microsoft.datafactory/factories': ['Azure Data Factory'],
+    'microsoft.databricks/workspaces': ['Azure Databricks'],
+    'microsoft.kusto/clusters': ['Azure Data Explorer'],
+    'microsoft.streamanalytics/streamingjobs': ['Azure Stream Analytics'],
+    'microsoft.hdinsight/clusters': ['Azure HDInsight'],
+    'microsoft.purview/accounts': ['Microsoft Purview'],
+    'microsoft.powerbidedicated/capacities': ['Power BI Embedded'],
+    // AI
+    'microsoft.cognitiveservices/accounts': ['Azure AI services'],
+    'microsoft.search/searchservices': ['Azure AI Search'],
+    'microsoft.machinelearningservices/workspaces': ['Azure Machine Learning'],
+    'microsoft.botservice/botservices': ['Azure AI Bot Service'],
+    // Networking
+    'microsoft.network/virtualnetworks': ['Azure Virtual Network'],
+    'microsoft.network/networkinterfaces': ['Azure Virtual Network'],
+    'microsoft.network/networksecuritygroups': ['Azure Virtual Network'],
+    'microsoft.network/publicipaddresses': ['Azure Public IP'],
+    'microsoft.network/loadbalancers': ['Azure Load Balancer'],
+    'microsoft.network/applicationgateways': ['Azure Application Gateway'],
+    'microsoft.network/applicationgatewaywebapplicationfirewallpolicies': ['Azure Web Application Firewall'],
+    'microsoft.network/frontdoors': ['Azure Front Door'],
+    'microsoft.cdn/profiles': ['Azure Front Door'],
+    'microsoft.network/azurefirewalls': ['Azure Firewall'],
+    'microsoft.network/firewallpolicies': ['Azure Firewall'],
+    'microsoft.network/virtualnetworkgateways': ['Azure VPN Gateway'],
+    'microsoft.network/expressroutecircuits': ['Azure ExpressRoute'],
+    'microsoft.network/bastionhosts': ['Azure Bastion'],
+    'microsoft.network/dnszones': ['Azure DNS'],
+    'microsoft.network/privatednszones': ['Azure DNS'],
+    'microsoft.network/privateendpoints': ['Azure Private Link'],
+    'microsoft.network/natgateways': ['Azure NAT Gateway'],
+    'microsoft.network/trafficmanagerprofiles': ['Azure Traffic Manager'],
+    'microsoft.network/virtualwans': ['Azure Virtual WAN'],
+    'microsoft.network/ddosprotectionplans': ['Azure DDoS Protection'],
+    'microsoft.network/networkwatchers': ['Azure Network Watcher'],
+    // Management, monitoring and security
+    'microsoft.insights/components': ['Azure Monitor'],
+    'microsoft.insights/actiongroups': ['Azure Monitor'],
+    'microsoft.insights/metricalerts': ['Azure Monitor'],
+    'microsoft.insights/scheduledqueryrules': ['Azure Monitor'],
+    'microsoft.insights/datacollectionrules': ['Azure Monitor'],
+    'microsoft.operationalinsights/workspaces': ['Azure Monitor'],
+    'microsoft.dashboard/grafana': ['Azure Managed Grafana'],
+    'microsoft.monitor/accounts': ['Azure Monitor'],
+    'microsoft.automation/automationaccounts': ['Azure Automation'],
+    'microsoft.recoveryservices/vaults': ['Azure Backup', 'Azure Site Recovery'],
+    'microsoft.dataprotection/backupvaults': ['Azure Backup'],
+    'microsoft.keyvault/vaults': ['Azure Key Vault'],
+    'microsoft.keyvault/managedhsms': ['Azure Key Vault'],
+    'microsoft.managedidentity/userassignedidentities': ['Microsoft Entra ID'],
+    'microsoft.hybridcompute/machines': ['Azure Arc'],
+    'microsoft.kubernetes/connectedclusters': ['Azure Arc'],
+    'microsoft.devices/iothubs': ['Azure IoT Hub'],
+    'microsoft.communication/communicationservices': ['Azure Communication Services'],
+    'microsoft.devcenter/devcenters': ['Microsoft Dev Box'],
+    'microsoft.loadtestservice/loadtests': ['Azure Load Testing'],
+};
+
+// Products of Microsoft.Web/sites by kind (the type covers web apps, function apps and Logic Apps Standard)
+const WEB_SITE_KIND_PRODUCTS: ReadonlyArray<readonly [RegExp, string]> = [
+    [/workflowapp/i, 'Azure Logic Apps'],
+    [/functionapp/i, 'Azure Functions'],
+];
+
+/**
+ * Resource from an export, reduced to what the import needs
+ */
+interface ExportedResource {
+    type: string; // Lowercase
+    kind: string;
+    count: number; // 1, or the count column of a summarized Resource Graph query
+    owner?: string;
+}
+
+/**
+ * Build an inventory from a resource export
+ * 
+ * Accepts an array of resources (`az resource list`), a Resource Graph
+ * result with a `data` array or `data.columns`/`data.rows` table, or an ARM
+ * list response with a `value` array. Rows of summarized queries such as
+ * `resources | summarize count() by type` count as many resources as their
+ * `count_` (or `count`) column says.
+ * 
+ * @param value Parsed export JSON
+ * @param options Tag to read owners from
+ * @returns Inventory and the resource types without a product
+ * @throws Error if the value is not a resource export
+ */
+export function importInventory(value: unknown, options: InventoryImportOptions = {}): ImportedInventory {
+    const rows = getExportRows(value);
+    if (!rows) {
+        throw new Error('Not a resource export: expected an array of resources, a Resource Graph result with "data" or an ARM list with "value"');
+    }
+
+    const items = new Map<string, InventoryItem>();
+    const unmapped = new Map<string, number>();
+    let resources = 0;
+    let mappedResources = 0;
+    let skippedRows = 0;
+
+    for (const row of rows) {
+        const resource = toExportedResource(row, options.ownerTag);
+        if (!resource) {
+            skippedRows++;
+            continue;
+        }
+
+        resources += resource.count;
+        const products = getProductsForResource(resource);
+        if (products.length === 0) {
+            unmapped.set(resource.type, (unmapped.get(resource.type) ?? 0) + resource.count);
+            continue;
+        }
+
+        mappedResources += resource.count;
+        for (const product of products) {
+            addResource(items, product, resource);
+        }
+    }
+
+    return {
+        inventory: [...items.values()].sort((a, b) => (b.resourceCount ?? 0) - (a.resourceCount ?? 0)),
+        products: [...items.keys()].sort(),
+        unmappedTypes: [...unmapped.entries()]
+            .map(([type, resourceCount]): UnmappedResourceType => ({ type, resourceCount }))
+            .sort((a, b) => b.resourceCount - a.resourceCount),
+        metadata: { resources, mappedResources, skippedRows },
+    };
+}
+
+/**
+ * Check whether a parsed JSON value looks like a resource export rather than an inventory
+ * 
+ * @param value Parsed JSON
+ * @returns True for Resource Graph results, ARM lists and arrays of resources with a type
+ */
+export function isResourceExport(value: unknown): boolean {
+    if (!Array.isArray(value)) {
+        return getExportRows(value) !== undefined;
+    }
+    return value.length > 0 && value.every(row =>
+        typeof row === 'object' && row !== null && typeof (row as Record<string, unknown>).type === 'string' &&
+        (row as Record<string, unknown>).product === undefined);
+}
+
+/**
+ * Get the rows of a resource export
+ * 
+ * @param value Parsed export JSON
+ * @returns Rows as objects, or undefined if the value is not an export
+ */
+function getExportRows(value: unknown): unknown[] | undefined {
+    if (Array.isArray(value)) {
+        return value as unknown[];
+    }
+    if (typeof value !== 'object' || value === null) {
+        return undefined;
+    }
+
+    const { data, value: list } = value as Record<string, unknown>;
+    if (Array.isArray(data)) {
+        return data as unknown[];
+    }
+    if (Array.isArray(list)) {
+        return list as unknown[];
+    }
+    return isGraphTable(data) ? tableToRows(data) : undefined;
+}
+
+/**
+ * Check for the table format of Resource Graph results (resultFormat "table")
+ */
+function isGraphTable(value: unknown): value is { columns: Array<{ name: string }>; rows: unknown[][] } {
+    const { columns, rows } = (value ?? {}) as Record<string, unknown>;
+    return Array.isArray(columns) && Array.isArray(rows) &&
+        columns.every(column => typeof (column as { name?: unknown })?.name === 'string') &&
+        rows.every(row => Array.isArray(row));
+}
+
+/**
+ * Convert a Resource Graph table to row objects keyed by column name
+ */
+function tableToRows(table: { columns: Array<{ name: string }>; rows: unknown[][] }): Record<string, unknown>[] {
+    return table.rows.map(row => Object.fromEntries(table.columns.map((column, index) => [column.name, row[index]])));
+}
+
+/**
+ * Read type, kind, count and owner from an export row
+ * 
+ * @param row Export row
+ * @param ownerTag Tag holding the owner
+ * @returns Resource, or undefined if the row has no resource type
+ */
+function toExportedResource(row: unknown, ownerTag: string | undefined): ExportedResource | undefined {
+    if (typeof row !== 'object' || row === null) {
+        return undefined;
+    }
+
+    const { type, kind, tags } = row as Record<string, unknown>;
+    if (typeof type !== 'string' || !type.includes('/')) {
+        return undefined;
+    }
+
+    return {
+        type: type.trim().toLowerCase(),
+        kind: typeof kind === 'string' ? kind : '',
+        count: getRowCount(row as Record<string, unknown>),
+        owner: ownerTag ? getTagValue(tags, ownerTag) : undefined,
+    };
+}
+
+/**
+ * Get the number of resources a row stands for (count column of summarized queries, otherwise 1)
+ */
+function getRowCount(row: Record<string, unknown>): number {
+    const count = row.count_ ?? row.count;
+    return typeof count === 'number' && Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+/**
+ * Get a tag value by case-insensitive tag name
+ */
+function getTagValue(tags: unknown, name: string): string | undefined {
+    if (typeof tags !== 'object' || tags === null) {
+        return undefined;
+    }
+
+    const wanted = name.toLowerCase();
+    const entry = Object.entries(tags).find(([key]) => key.toLowerCase() === wanted);
+    return typeof entry?.[1] === 'string' && entry[1].trim() !== '' ? entry[1].trim() : undefined;
+}
+
+/**
+ * Map a resource to product names
+ * 
+ * @param resource Exported resource
+ * @returns Products (empty if the type is not in the mapping table)
+ */
+function getProductsForResource(resource: ExportedResource): readonly string[] {
+    if (resource.type === 'microsoft.web/sites') {
+        const match = WEB_SITE_KIND_PRODUCTS.find(([pattern]) => pattern.test(resource.kind));
+        if (match) {
+            return [match[1]];
+        }
+    }
+
+    // Fall back from child types to their parent (provider/type/child → provider/type)
+    for (let type = resource.type; type.split('/').length >= 2; type = type.slice(0, type.lastIndexOf('/'))) {
+        const products = RESOURCE_TYPE_PRODUCTS[type];
+        if (products) {
+            return products;
+        }
+    }
+    return [];
+}
+
+/**
+ * Count a resource towards an inventory item
+ */
+function addResource(items: Map<string, InventoryItem>, product: string, resource: ExportedResource): void {
+    const item = items.get(product) ?? { product, resourceCount: 0 };
+    item.resourceCount = (item.resourceCount ?? 0) + resource.count;
+
+    if (resource.owner && !item.owners?.includes(resource.owner)) {
+        item.owners = [...(item.owners ?? []), resource.owner];
+    }
+    items.set(product, item);
+}
@@ -0,0 +1,370 @@
+/**
+ * Feature lifecycle service
+ * 
+ * Groups announcements about the same feature into timelines and derives the
+ * stages the feature went through (Private Preview, Preview, General
+ * Availability, Retirement) from their availability rings. Two updates
+ * belong to the same feature when they share a product and their titles are
+ * similar (Jaccard similarity of salient title words, leaving out the words
+ * of the product name); groups from FEATURE_OVERRIDES_FILE take precedence.
+ * Timelines are computed per request, so they always match the stored updates.
+ */
+
+import { readFileSync } from 'fs';
+import type Database from 'better-sqlite3';
+import type { AzureUpdateAvailability } from '../models/azure-update.js';
+import {
+    LIFECYCLE_STAGES,
+    type FeatureLifecycleQuery,
+    type FeatureLifecycleResult,
+    type FeatureOverride,
+    type FeatureStageEntry,
+    type FeatureTimeline,
+    type StageTransition,
+} from '../models/feature-lifecycle.js';
+import { getLifecycleUpdates, getRelatedDataForUpdates } from '../database/queries.js';
+import { getSalientTitleTerms } from './related.service.js';
+
+/**
+ * Options for lifecycle computation
+ */
+export interface LifecycleOptions {
+    overrides?: FeatureOverride[]; // Manual feature groups (e.g. from FEATURE_OVERRIDES_FILE)
+    now?: Date; // Date the current stages refer to (default: today)
+}
+
+// Default number of features returned
+export const DEFAULT_FEATURE_LIMIT = 20;
+
+// Minimum Jaccard similarity of the title words of two updates about the same feature
+const TITLE_SIMILARITY_THRESHOLD = 0.6;
+
+// Announcement kind before the colon of a title: "Generally Available: ", "Public Preview: ", "Retirement: "
+const ANNOUNCEMENT_PREFIX = /^(?:[\w-]+\s+){0,2}(?:preview|availa\w*|ga|retire\w*|update|launch\w*|development)\s*:\s*/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Update with the data needed for grouping and stages
+ */
+interface LifecycleUpdate {
+    id: string;
+    title: string;
+    created: string;
+    products: string[];
+    availabilities: AzureUpdateAvailability[];
+}
+
+/**
+ * Updates about one feature, oldest first
+ */
+interface FeatureGroup {
+    updates: LifecycleUpdate[];
+    name?: string;
+    manual: boolean;
+}
+
+/**
+ * Get feature timelines matching a query
+ * 
+ * @param db Database instance
+ * @param query Feature filters and limit
+ * @param options Overrides and reference date
+ * @returns Matching features, longest in their current stage first
+ */
+export function getFeatureLifecycles(
+    db: Database.Database,
+    query: FeatureLifecycleQuery = {},
+    options: LifecycleOptions = {}
+): FeatureLifecycleResult {
+    const asOf = (options.now ?? new Date()).toISOString().slice(0, 10);
+
+    const timelines = groupIntoFeatures(loadLifecycleUpdates(db), options.overrides ?? [])
+        .map(group => buildTimeline(group, asOf))
+        .filter(timeline => timeline.stages.length > 0 && matchesQuery(timeline, query))
+        .sort(compareTimelines);
+
+    const previewToGaDays = timelines.flatMap(timeline => timeline.transitions
+        .filter(transition => transition.from === 'Preview' && transition.to === 'General Availability')
+        .map(transition => transition.days));
+
+    const features = timelines.slice(0, query.limit ?? DEFAULT_FEATURE_LIMIT);
+    return {
+        features,
+        metadata: {
+            totalFeatures: timelines.length,
+            returnedFeatures: features.length,
+            asOf,
+            medianPreviewToGaDays: median(previewToGaDays),
+        },
+    };
+}
+
+/**
+ * Load feature overrides from a JSON file
+ * 
+ * @param path Path to a JSON array of feature groups, e.g. [{"name": "AKS node auto-provisioning", "updateIds": ["1", "2"]}]
+ * @returns Feature overrides
+ * @throws Error if the file cannot be read or has the wrong shape
+ */
+export function loadFeatureOverrideFile(path: string): FeatureOverride[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read feature override file ${path}: ${(error as Error).message}`);
+    }
+
+    if (!isFeatureOverrides(parsed)) {
+        throw new Error(`Invalid feature override file ${path}: expected a JSON array of feature groups with an optional name and at least one update ID each, e.g. [{"name": "AKS node auto-provisioning", "updateIds": ["1", "2"]}]`);
+    }
+
+    return parsed;
+}
+
+/**
+ * Check the shape of a parsed feature override file
+ */
+function isFeatureOverrides(value: unknown): value is FeatureOverride[] {
+    return Array.isArray(value) && value.every(group => {
+        const { name, updateIds } = (group ?? {}) as Record<string, unknown>;
+        return (name === undefined || typeof name === 'string') &&
+            Array.isArray(updateIds) && updateIds.length > 0 && updateIds.every(id => typeof id === 'string');
+    });
+}
+
+/**
+ * Load the updates with availability rings, with their products and rings
+ */
+function loadLifecycleUpdates(db: Database.Database): LifecycleUpdate[] {
+    const updates = getLifecycleUpdates(db);
+    const related = getRelatedDataForUpdates(db, updates.map(update => update.id));
+
+    return updates.map(update => ({
+        ...update,
+        products: related.get(update.id)?.products ?? [],
+        availabilities: related.get(update.id)?.availabilities ?? [],
+    }));
+}
+
+/**
+ * Group updates into features: override groups first, then by product and title
+ * 
+ * @param updates Updates, oldest first
+ * @param overrides Manual feature groups (an update listed twice stays in the first group)
+ * @returns Feature groups
+ */
+function groupIntoFeatures(updates: LifecycleUpdate[], overrides: FeatureOverride[]): FeatureGroup[] {
+    const updatesById = new Map(updates.map(update => [update.id, update]));
+    const pinned = new Set<string>();
+    const groups: FeatureGroup[] = [];
+
+    for (const override of overrides) {
+        const members = override.updateIds.flatMap(id => {
+            const update = updatesById.get(id);
+            return update && !pinned.has(id) ? [update] : [];
+        });
+        members.forEach(update => pinned.add(update.id));
+
+        if (members.length > 0) {
+            members.sort((a, b) => a.created.localeCompare(b.created) || a.id.localeCompare(b.id));
+            groups.push({ updates: members, name: override.name, manual: true });
+        }
+    }
+
+    const clusters = clusterByProductAndTitle(updates.filter(update => !pinned.has(update.id)));
+    return [...groups, ...clusters.map(members => ({ updates: members, manual: false }))];
+}
+
+/**
+ * Cluster updates that share a product and have similar titles
+ * 
+ * Similarity is transitive: A-B and B-C put A, B and C in one feature. Only
+ * updates sharing a product and a title word are compared.
+ * 
+ * @param updates Updates, oldest first
+ * @returns Clusters, each oldest first
+ */
+function clusterByProductAndTitle(updates: LifecycleUpdate[]): LifecycleUpdate[][] {
+    const terms = updates.map(getFeatureTerms);
+    const parent = updates.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    // Earlier updates per product and title word
+    const index = new Map<string, number[]>();
+    updates.forEach((update, i) => {
+        const compared = new Set<number>();
+        for (const key of update.products.flatMap(product => [...terms[i]].map(term => `${product}\n${term}`))) {
+            const earlier = index.get(key) ?? [];
+            for (const j of earlier.filter(j => !compared.has(j))) {
+                compared.add(j);
+                if (jaccard(terms[i], terms[j]) >= TITLE_SIMILARITY_THRESHOLD) {
+                    parent[find(i)] = find(j);
+                }
+            }
+            earlier.push(i);
+            index.set(key, earlier);
+        }
+    });
+
+    const clusters = new Map<number, LifecycleUpdate[]>();
+    updates.forEach((update, i) => {
+        const root = find(i);
+        const cluster = clusters.get(root) ?? [];
+        cluster.push(update);
+        clusters.set(root, cluster);
+    });
+    return Array.from(clusters.values());
+}
+
+/**
+ * Title words that identify the feature of an update
+ * 
+ * Words of the update's product names are left out ("AKS", "Kubernetes"),
+ * unless the title consists of nothing else.
+ */
+function getFeatureTerms(update: LifecycleUpdate): Set<string> {
+    const productWords = new Set(update.products.flatMap(getSalientTitleTerms));
+    const terms = getSalientTitleTerms(update.title);
+    const specific = terms.filter(term => !productWords.has(term));
+    return new Set(specific.length > 0 ? specific : terms);
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+    const shared = [...a].filter(term => b.has(term)).length;
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Derive the timeline of a feature
+ * 
+ * @param group Updates about the feature, oldest first
+ * @param asOf Reference date (YYYY-MM-DD)
+ * @returns Feature timeline
+ */
+function buildTimeline(group: FeatureGroup, asOf: string): FeatureTimeline {
+    const { updates } = group;
+    const stages = getStages(updates);
+    const current = [...stages].reverse().find(entry => entry.date !== null && entry.date <= asOf);
+    const since = current?.date ?? null;
+
+    return {
+        id: updates[0].id,
+        name: group.name ?? updates[updates.length - 1].title.trim().replace(ANNOUNCEMENT_PREFIX, ''),
+        products: Array.from(new Set(updates.flatMap(update => update.products))).sort(),
+        updates: updates.map(({ id, title, created }) => ({ id, title, created })),
+        stages,
+        transitions: getTransitions(stages, asOf),
+        currentStage: current?.stage ?? null,
+        currentStageSince: since,
+        monthsInCurrentStage: since ? monthsBetween(since, asOf) : null,
+        manual: group.manual,
+    };
+}
+
+/**
+ * Get the date of each stage the updates list
+ * 
+ * The most recent announcement listing a stage sets its date (announcements
+ * correct earlier dates), but an announced date is not replaced by "TBD".
+ * 
+ * @param updates Updates, oldest first
+ * @returns Stages in lifecycle order
+ */
+function getStages(updates: LifecycleUpdate[]): FeatureStageEntry[] {
+    const stages: FeatureStageEntry[] = [];
+
+    for (const stage of LIFECYCLE_STAGES) {
+        let entry: FeatureStageEntry | undefined;
+        for (const update of updates) {
+            for (const availability of update.availabilities.filter(a => a.ring === stage)) {
+                if (!entry || availability.date !== null || entry.date === null) {
+                    entry = { stage, date: availability.date, updateId: update.id };
+                }
+            }
+        }
+        if (entry) {
+            stages.push(entry);
+        }
+    }
+
+    return stages;
+}
+
+/**
+ * Days between consecutive stages that have been reached (planned dates are left out)
+ */
+function getTransitions(stages: FeatureStageEntry[], asOf: string): StageTransition[] {
+    const dated = stages.filter((entry): entry is FeatureStageEntry & { date: string } => entry.date !== null && entry.date <= asOf);
+    return dated.slice(1).map((entry, i) => ({
+        from: dated[i].stage,
+        to: entry.stage,
+        days: Math.round((Date.parse(entry.date) - Date.parse(dated[i].date)) / DAY_MS),
+    }));
+}
+
+/**
+ * Whole months from one date to another (YYYY-MM-DD)
+ */
+function monthsBetween(from: string, to: string): number {
+    const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+    const [toYear, toMonth, toDay] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth) - (toDay < fromDay ? 1 : 0);
+}
+
+/**
+ * Check a timeline against the query filters
+ */
+function matchesQuery(timeline: FeatureTimeline, query: FeatureLifecycleQuery): boolean {
+    if (query.updateId !== undefined && !timeline.updates.some(update => update.id === query.updateId)) {
+        return false;
+    }
+    if (query.stage !== undefined && timeline.currentStage !== query.stage) {
+        return false;
+    }
+    if (query.minMonthsInStage !== undefined && (timeline.monthsInCurrentStage ?? -1) < query.minMonthsInStage) {
+        return false;
+    }
+    return matchesProducts(timeline, query.products);
+}
+
+/**
+ * Check whether a timeline covers any of the products (no products: any timeline)
+ */
+function matchesProducts(timeline: FeatureTimeline, products: string[] | undefined): boolean {
+    return !products || products.length === 0 || timeline.products.some(product => products.includes(product));
+}
+
+/**
+ * Order timelines by the start of their current stage (longest first), then by name
+ */
+function compareTimelines(a: FeatureTimeline, b: FeatureTimeline): number {
+    if (a.currentStageSince !== b.currentStageSince) {
+        if (a.currentStageSince === null) return 1;
+        if (b.currentStageSince === null) return -1;
+        return a.currentStageSince.localeCompare(b.currentStageSince);
+    }
+    return a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Median of a list of numbers (null for an empty list)
+ */
+function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
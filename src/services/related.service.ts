@@ -0,0 +1,212 @@
+/**
+ * Related updates service
+ * 
+ * Finds updates related to a given one, such as the preview announcement
+ * before a GA or earlier retirement notices for the same product. Candidates
+ * share products or product categories with the update, or match salient
+ * words of its title (FTS5 on the title column); they are scored by product
+ * and category overlap, title similarity and closeness in time.
+ */
+
+import type Database from 'better-sqlite3';
+import type {
+    RelatedUpdate,
+    RelatedUpdateCandidate,
+    RelatedUpdates,
+    RelationDirection,
+} from '../models/related-update.js';
+import type { AzureUpdate } from '../models/azure-update.js';
+import {
+    getUpdateById,
+    getRelatedDataForUpdates,
+    getUpdatesMatchingTitle,
+    getUpdatesSharingTaxonomy,
+} from '../database/queries.js';
+import { getUpdateUrl } from '../utils/update-url.js';
+
+/**
+ * Options for related update retrieval
+ */
+export interface RelatedUpdateOptions {
+    limit?: number; // Maximum related updates (default: 10)
+    direction?: RelationDirection; // Creation dates to consider (default: any)
+}
+
+// Default number of related updates
+export const DEFAULT_RELATED_LIMIT = 10;
+
+// Candidates considered per source (taxonomy overlap, title match)
+const TAXONOMY_CANDIDATE_LIMIT = 200;
+const TITLE_CANDIDATE_LIMIT = 50;
+
+// Score weights: all shared products, all shared categories, the best title match, same day
+const PRODUCT_WEIGHT = 3;
+const CATEGORY_WEIGHT = 1;
+const TITLE_WEIGHT = 2;
+const TIME_WEIGHT = 1;
+
+// Days apart at which the time score halves
+const TIME_HALF_SCORE_DAYS = 180;
+
+// Salient title words used for the title match
+const MAX_TITLE_TERMS = 8;
+
+// Title words that say what kind of announcement it is rather than what it is about
+const TITLE_STOP_WORDS = new Set([
+    'and', 'for', 'the', 'with', 'from', 'into', 'now', 'new', 'all', 'its', 'your', 'you', 'via', 'are', 'will', 'can',
+    'azure', 'microsoft', 'generally', 'available', 'availability', 'preview', 'retirement',
+    'retire', 'retired', 'retiring', 'update', 'updates', 'announcing', 'introducing', 'support', 'supports', 'feature',
+    'features', 'general', 'upcoming', 'change', 'changes', 'release', 'released',
+]);
+
+/**
+ * Find updates related to an update
+ * 
+ * @param db Database instance
+ * @param id Update ID
+ * @param options Limit and direction
+ * @returns Related updates (most closely related first), or null if the update does not exist
+ */
+export function findRelatedUpdates(
+    db: Database.Database,
+    id: string,
+    options: RelatedUpdateOptions = {}
+): RelatedUpdates | null {
+    const update = getUpdateById(db, id);
+    if (!update) {
+        return null;
+    }
+
+    const direction = options.direction ?? 'any';
+    const titleTerms = getSalientTitleTerms(update.title);
+
+    const candidates = new Map<string, RelatedUpdateCandidate>();
+    for (const candidate of getUpdatesSharingTaxonomy(db, update, direction, TAXONOMY_CANDIDATE_LIMIT)) {
+        candidates.set(candidate.id, candidate);
+    }
+    if (titleTerms.length > 0) {
+        const match = `title : (${titleTerms.map(term => `"${term}"`).join(' OR ')})`;
+        for (const candidate of getUpdatesMatchingTitle(db, update, match, direction, TITLE_CANDIDATE_LIMIT)) {
+            candidates.set(candidate.id, candidate);
+        }
+    }
+
+    // bm25 scores are negative; the best title match gets the full title weight
+    const bestTitleRank = Math.min(0, ...Array.from(candidates.values(), candidate => candidate.titleRank ?? 0));
+    const relatedData = getRelatedDataForUpdates(db, Array.from(candidates.keys()));
+
+    const related = Array.from(candidates.values(), candidate => scoreCandidate(update, titleTerms, {
+        ...candidate,
+        url: getUpdateUrl(candidate.id),
+        tags: [],
+        productCategories: [],
+        products: [],
+        availabilities: [],
+        ...relatedData.get(candidate.id),
+    }, bestTitleRank));
+
+    related.sort((a, b) => b.score - a.score || Math.abs(a.daysApart) - Math.abs(b.daysApart) || a.id.localeCompare(b.id));
+
+    return {
+        id: update.id,
+        title: update.title,
+        url: update.url,
+        created: update.created,
+        related: related.slice(0, options.limit ?? DEFAULT_RELATED_LIMIT),
+    };
+}
+
+/**
+ * Get the words of a title that say what the update is about
+ * 
+ * @param title Update title
+ * @returns Distinct lowercase words (at most MAX_TITLE_TERMS), in title order
+ */
+export function getSalientTitleTerms(title: string): string[] {
+    const words = title.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const terms = words.filter(word => word.length >= 3 && !/^\d+$/.test(word) && !TITLE_STOP_WORDS.has(word));
+    return Array.from(new Set(terms)).slice(0, MAX_TITLE_TERMS);
+}
+
+/**
+ * Score a candidate and list the reasons it is related
+ * 
+ * @param update Given update
+ * @param titleTerms Salient title words of the given update
+ * @param candidate Candidate with its tags, products, categories and availabilities
+ * @param bestTitleRank Best (lowest) title bm25 score among the candidates
+ * @returns Related update
+ */
+function scoreCandidate(
+    update: AzureUpdate,
+    titleTerms: string[],
+    candidate: Omit<RelatedUpdate, 'score' | 'sharedProducts' | 'sharedCategories' | 'sharedTitleTerms' | 'reasons'> & { titleRank?: number },
+    bestTitleRank: number
+): RelatedUpdate {
+    const { titleRank, ...summary } = candidate;
+    const sharedProducts = candidate.products.filter(product => update.products.includes(product));
+    const sharedCategories = candidate.productCategories.filter(category => update.productCategories.includes(category));
+    const candidateTerms = new Set(getSalientTitleTerms(candidate.title));
+    const sharedTitleTerms = titleTerms.filter(term => candidateTerms.has(term));
+
+    const score =
+        PRODUCT_WEIGHT * share(sharedProducts.length, update.products.length) +
+        CATEGORY_WEIGHT * share(sharedCategories.length, update.productCategories.length) +
+        TITLE_WEIGHT * (titleRank !== undefined && bestTitleRank < 0 ? titleRank / bestTitleRank : 0) +
+        TIME_WEIGHT * TIME_HALF_SCORE_DAYS / (TIME_HALF_SCORE_DAYS + Math.abs(candidate.daysApart));
+
+    return {
+        ...summary,
+        score: Math.round(score * 1000) / 1000,
+        sharedProducts,
+        sharedCategories,
+        sharedTitleTerms,
+        reasons: describeRelation(sharedProducts, sharedCategories, titleRank !== undefined, sharedTitleTerms, candidate.daysApart),
+    };
+}
+
+/**
+ * Fraction of the given update's values that a candidate shares
+ */
+function share(shared: number, total: number): number {
+    return total > 0 ? shared / total : 0;
+}
+
+/**
+ * Explain why a candidate is related
+ * 
+ * @param sharedProducts Products of both updates
+ * @param sharedCategories Product categories of both updates
+ * @param titleMatched Whether the candidate's title matched the title query
+ * @param sharedTitleTerms Salient title words of both updates
+ * @param daysApart Days between the creation dates
+ * @returns Reasons, strongest evidence first
+ */
+function describeRelation(
+    sharedProducts: string[],
+    sharedCategories: string[],
+    titleMatched: boolean,
+    sharedTitleTerms: string[],
+    daysApart: number
+): string[] {
+    const reasons: string[] = [];
+
+    if (sharedProducts.length > 0) {
+        reasons.push(`Same ${sharedProducts.length === 1 ? 'product' : 'products'}: ${sharedProducts.join(', ')}`);
+    }
+    if (titleMatched) {
+        reasons.push(sharedTitleTerms.length > 0 ? `Similar title (shared words: ${sharedTitleTerms.join(', ')})` : 'Similar title');
+    }
+    if (sharedCategories.length > 0) {
+        reasons.push(`Same ${sharedCategories.length === 1 ? 'category' : 'categories'}: ${sharedCategories.join(', ')}`);
+    }
+
+    if (daysApart === 0) {
+        reasons.push('Published the same day');
+    } else {
+        const days = Math.abs(daysApart);
+        reasons.push(`Published ${days} ${days === 1 ? 'day' : 'days'} ${daysApart < 0 ? 'earlier' : 'later'}`);
+    }
+
+    return reasons;
+}
@@ -1,10 +1,17 @@
 /**
  * Search service for Azure Updates with FTS5 full-text search
  * 
- * Provides keyword search across title and description fields with BM25 relevance ranking,
- * multi-dimensional filtering (tags, categories, products), and pagination support.
+ * Provides keyword search across title, description, tags, products and categories with
+ * field-weighted BM25 relevance ranking,
+ * multi-dimensional filtering (tags, categories, products), pagination support,
+ * optional facet counts across all matches and optional highlighted description snippets.
+ * Keyword searches without matches are retried with corrected spellings.
+ * Known product names and acronyms in keyword searches also match their synonyms.
+ * Similarity and hybrid modes rank updates by embedding similarity, alone or
+ * fused with keyword relevance.
  */
 
+import { createHash } from 'crypto';
 import type Database from 'better-sqlite3';
 import type {
     AzureUpdateSearchResult,
@@ -12,20 +19,201 @@ import type {
 import type {
     SearchQuery,
     SearchFilters,
+    SortBy,
     SearchResponse,
+    MultiValueFilter,
+    FacetField,
+    FacetCount,
+    SearchFacets,
+    SnippetOptions,
 } from '../models/search-query.js';
-import {
-    getTagsForUpdate,
-    getCategoriesForUpdate,
-    getProductsForUpdate,
-    getAvailabilitiesForUpdate,
-} from '../database/queries.js';
+import { getRelatedDataForUpdates } from '../database/queries.js';
+import { compileQuery, type CompiledQuery } from '../utils/query-parser.js';
+import { getUpdateUrl } from '../utils/update-url.js';
+import { suggestQuery } from './spelling.service.js';
+import { getSynonymDictionary } from './synonym.service.js';
+import { findSimilarUpdates, type EmbeddingProvider } from './embedding.service.js';
 import * as logger from '../utils/logger.js';
 
 // Constants for pagination limits
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
 
+// Most frequent values returned per facet (months are always returned in full)
+const FACET_VALUE_LIMIT = 25;
+
+// Keyword searches drive the join from the FTS index. CROSS JOIN stops SQLite
+// from starting at an azure_updates index (e.g. removed_at IS NULL) and
+// re-running MATCH for every row.
+const FTS_FROM = 'updates_fts fts CROSS JOIN azure_updates au ON au.rowid = fts.rowid';
+
+const DEFAULT_SORT: SortBy = 'modified:desc';
+
+// Similarity and hybrid searches rank at most this many updates per method
+const RANKED_CANDIDATE_LIMIT = 200;
+
+// Reciprocal rank fusion: an update scores 1 / (RRF_K + rank) per ranking it appears in
+const RRF_K = 60;
+
+// Snippets: FTS5 snippet() over description_md (column 2 of updates_fts)
+const SNIPPET_COLUMN = 2;
+const SNIPPET_ELLIPSIS = '…';
+const DEFAULT_SNIPPET_OPTIONS: Required<SnippetOptions> = {
+    maxTokens: 24,
+    startMarker: '**',
+    endMarker: '**',
+};
+
+/**
+ * bm25() weight per FTS column: a hit in a column with a higher weight
+ * counts more towards relevance (0 ignores the column for ranking)
+ */
+export interface RankWeights {
+    title: number;
+    description: number;
+    tags: number;
+    products: number;
+    categories: number;
+}
+
+/**
+ * Default weights: title and product hits outrank mentions in long descriptions
+ */
+export const DEFAULT_RANK_WEIGHTS: RankWeights = {
+    title: 10,
+    description: 1,
+    tags: 3,
+    products: 5,
+    categories: 2,
+};
+
+/**
+ * Search options (server configuration, not per query)
+ */
+export interface SearchOptions {
+    rankWeights?: Partial<RankWeights>; // Overrides DEFAULT_RANK_WEIGHTS per column
+    synonyms?: string[][]; // Synonym groups added to the built-in and product-derived ones
+    embeddings?: EmbeddingProvider; // Enables similarity and hybrid modes
+}
+
+/**
+ * Row selected by search queries
+ */
+interface SearchRow {
+    id: string;
+    title: string;
+    description: string;
+    descriptionMarkdown: string | null;
+    status: string | null;
+    locale: string | null;
+    created: string;
+    modified: string;
+    removedAt: string | null;
+    relevance?: number;
+    snippet?: string | null;
+}
+
+/**
+ * Update ranked by a similarity or hybrid search
+ */
+interface RankedUpdate {
+    id: string;
+    score: number; // Higher is better
+}
+
+/**
+ * Sort key expression and direction
+ */
+interface SortOrder {
+    key: string;
+    direction: 'ASC' | 'DESC';
+}
+
+/**
+ * Sort order per sort mode (relevance uses the weighted bm25() expression, see getSortOrder)
+ * 
+ * Every sort breaks ties by id in the same direction, so (key, id) is unique
+ * and a cursor can continue after any row. Updates without a retirement date
+ * sort as '' (before any date ascending, after any date descending, as NULL
+ * did) so that keys are never NULL.
+ */
+const SORTS: Record<Exclude<SortBy, 'relevance'>, SortOrder> = {
+    'modified:desc': { key: 'au.modified', direction: 'DESC' },
+    'modified:asc': { key: 'au.modified', direction: 'ASC' },
+    'created:desc': { key: 'au.created', direction: 'DESC' },
+    'created:asc': { key: 'au.created', direction: 'ASC' },
+    'retirement:asc': { key: `COALESCE(${getRetirementDateSubquery()}, '')`, direction: 'ASC' },
+    'retirement:desc': { key: `COALESCE(${getRetirementDateSubquery()}, '')`, direction: 'DESC' },
+};
+
+const SORT_MODES: string[] = ['relevance', ...Object.keys(SORTS)];
+
+/**
+ * Position after the last row of a page (decoded SearchMetadata.cursor)
+ */
+interface SearchCursor {
+    sortBy: SortBy; // Sort mode the key belongs to
+    key: string | number; // Sort key of the last row
+    id: string; // Id of the last row (tie-breaker)
+    position: number; // Rows returned so far (reported as offset)
+    snapshot: number; // Highest azure_updates.change_seq when the first page was served
+    fingerprint: string; // Hash of keyword, filters and sort mode (as sent by the caller)
+    correctedQuery?: string; // Keyword the pages run with when the first page applied didYouMean
+}
+
+/**
+ * Expected JSON types per cursor field
+ */
+const CURSOR_FIELD_TYPES: Record<keyof SearchCursor, string[]> = {
+    sortBy: ['string'],
+    key: ['string', 'number'],
+    id: ['string'],
+    position: ['number'],
+    snapshot: ['number'],
+    fingerprint: ['string'],
+    correctedQuery: ['string', 'undefined'],
+};
+
+/**
+ * Page to fetch: limit plus either an offset or a cursor
+ */
+interface PageOptions {
+    limit: number;
+    offset: number;
+    after?: SearchCursor;
+    correctedQuery?: string; // Keyword to run instead of the query's (spelling correction)
+}
+
+/**
+ * Facet count queries over the `matches` CTE (one row per matching update)
+ */
+const FACET_QUERIES: Record<FacetField, string> = {
+    tags: `
+        SELECT ut.tag AS value, COUNT(DISTINCT m.id) AS count
+        FROM matches m JOIN update_tags ut ON ut.update_id = m.id
+        GROUP BY ut.tag ORDER BY count DESC, value ASC LIMIT ${FACET_VALUE_LIMIT}`,
+    products: `
+        SELECT up.product AS value, COUNT(DISTINCT m.id) AS count
+        FROM matches m JOIN update_products up ON up.update_id = m.id
+        GROUP BY up.product ORDER BY count DESC, value ASC LIMIT ${FACET_VALUE_LIMIT}`,
+    productCategories: `
+        SELECT uc.category AS value, COUNT(DISTINCT m.id) AS count
+        FROM matches m JOIN update_categories uc ON uc.update_id = m.id
+        GROUP BY uc.category ORDER BY count DESC, value ASC LIMIT ${FACET_VALUE_LIMIT}`,
+    availabilityRings: `
+        SELECT ua.ring AS value, COUNT(DISTINCT m.id) AS count
+        FROM matches m JOIN update_availabilities ua ON ua.update_id = m.id
+        GROUP BY ua.ring ORDER BY count DESC, value ASC LIMIT ${FACET_VALUE_LIMIT}`,
+    statuses: `
+        SELECT m.status AS value, COUNT(*) AS count
+        FROM matches m WHERE m.status IS NOT NULL
+        GROUP BY m.status ORDER BY count DESC, value ASC LIMIT ${FACET_VALUE_LIMIT}`,
+    months: `
+        SELECT substr(m.modified, 1, 7) AS value, COUNT(*) AS count
+        FROM matches m
+        GROUP BY value ORDER BY value DESC`,
+};
+
 /**
  * Create search response with metadata
  * 
@@ -33,6 +221,7 @@ const MAX_LIMIT = 100;
  * @param totalResults Total count of matching results
  * @param limit Results limit
  * @param offset Results offset
+ * @param hasMore Whether another page follows
  * @param queryTime Query execution time in milliseconds
  * @returns Formatted search response
  */
@@ -41,6 +230,7 @@ function createSearchResponse<T>(
     totalResults: number,
     limit: number,
     offset: number,
+    hasMore: boolean,
     queryTime: number
 ): SearchResponse<T> {
     return {
@@ -50,7 +240,7 @@ function createSearchResponse<T>(
             returnedResults: results.length,
             limit,
             offset,
-            hasMore: totalResults > offset + results.length,
+            hasMore,
             queryTime,
         },
     };
@@ -59,21 +249,83 @@ function createSearchResponse<T>(
 /**
  * Search Azure updates with keyword search and filters
  * 
+ * If a keyword search matches nothing, misspelled words are corrected and the
+ * search is run again; the corrected query is reported in metadata.didYouMean.
+ * Terms expanded with synonyms are reported in metadata.expansions.
+ * 
  * @param db Database instance
  * @param query Search query parameters
+ * @param options Ranking and synonym configuration
  * @returns Search response with results and metadata
  */
 export function searchUpdates(
     db: Database.Database,
-    query: SearchQuery
+    query: SearchQuery,
+    options: SearchOptions = {}
+): SearchResponse<AzureUpdateSearchResult> {
+    if (query.mode === 'similarity' || query.mode === 'hybrid') {
+        return runRankedSearch(db, query, options);
+    }
+
+    const response = runSearch(db, query, options);
+
+    // Continued pages (cursor) belong to the query they were issued for
+    if (response.metadata.totalResults > 0 || !query.query?.trim() || query.cursor) {
+        return response;
+    }
+
+    const suggestion = suggestQuery(db, query.query);
+    if (!suggestion) {
+        return response;
+    }
+
+    const corrected = runSearch(db, query, options, suggestion.query);
+    if (corrected.metadata.totalResults === 0) {
+        return response;
+    }
+
+    logger.info('Search retried with corrected query', {
+        query: query.query,
+        correctedQuery: suggestion.query,
+        totalResults: corrected.metadata.totalResults,
+    });
+
+    corrected.metadata.didYouMean = suggestion;
+    corrected.metadata.queryTime += response.metadata.queryTime;
+    return corrected;
+}
+
+/**
+ * Run one search (without spelling correction)
+ * 
+ * Cursors are fingerprinted with the query as sent, so a caller repeating
+ * its query with metadata.cursor continues the pages even when they run
+ * with a corrected keyword (kept in the cursor).
+ * 
+ * @param db Database instance
+ * @param query Search query parameters
+ * @param options Ranking and synonym configuration
+ * @param correctedQuery Keyword to run instead of query.query (spelling correction)
+ * @returns Search response with results and metadata
+ */
+function runSearch(
+    db: Database.Database,
+    query: SearchQuery,
+    options: SearchOptions,
+    correctedQuery?: string
 ): SearchResponse<AzureUpdateSearchResult> {
     const startTime = Date.now();
 
     // Build search query with enforced limits
-    const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
-    const offset = query.offset ?? 0;
+    const sortBy = resolveSortBy(query.sortBy, query.query);
+    const fingerprint = getQueryFingerprint(query, sortBy);
+    const page = resolvePage(query, fingerprint, correctedQuery);
+    const { limit, offset } = page;
+    const rank = buildRankExpression(options.rankWeights);
+    const snippet = resolveSnippetOptions(query);
+    const keyword = compileKeyword(db, page.correctedQuery ?? query.query, options.synonyms);
 
-    const { sql, params } = buildSearchQuery(query.query, query.filters, query.sortBy, limit, offset);
+    const { sql, params } = buildSearchQuery(keyword?.match, query.filters, getSortOrder(sortBy, rank), page, rank, snippet);
 
     // T062: Log query performance metrics
     logger.debug('Executing search query', {
@@ -86,44 +338,27 @@ export function searchUpdates(
     // Execute search with timing
     const queryStartTime = Date.now();
     const stmt = db.prepare(sql);
-    const results = stmt.all(...params) as Array<{
-        id: string;
-        title: string;
-        description: string;
-        descriptionMarkdown: string | null;
-        status: string | null;
-        locale: string | null;
-        created: string;
-        modified: string;
-        relevance?: number;
-    }>;
+    const rows = stmt.all(...params) as Array<SearchRow & { sortKey: string | number }>;
+
+    // One extra row tells whether another page follows
+    const hasMore = rows.length > limit;
+    const results = rows.slice(0, limit);
 
     const queryExecutionTime = Date.now() - queryStartTime;
 
     // Get total count (without limit/offset)
     const countStartTime = Date.now();
-    const { sql: countSql, params: countParams } = buildCountQuery(query.query, query.filters);
+    const { sql: countSql, params: countParams } = buildCountQuery(keyword?.match, query.filters, page.after);
     const countStmt = db.prepare(countSql);
     const countResult = countStmt.get(...countParams) as { total: number };
     const totalResults = countResult.total;
     const countExecutionTime = Date.now() - countStartTime;
 
-    // Enrich results with related data
-    const enrichedResults: AzureUpdateSearchResult[] = results.map(row => ({
-        id: row.id,
-        title: row.title,
-        description: row.description,
-        url: `https://azure.microsoft.com/en-us/updates/?id=${row.id}`,
-        status: row.status,
-        locale: row.locale,
-        created: row.created,
-        modified: row.modified,
-        tags: getTagsForUpdate(db, row.id),
-        productCategories: getCategoriesForUpdate(db, row.id),
-        products: getProductsForUpdate(db, row.id),
-        availabilities: getAvailabilitiesForUpdate(db, row.id),
-        relevanceScore: row.relevance,
-    }));
+    // Enrich results with related data (one query per dimension for the whole page)
+    const enrichedResults = toSearchResults(db, results);
+
+    // Facet counts over all matches (not just this page)
+    const facets = computeQueryFacets(db, keyword?.match, query);
 
     const queryTime = Date.now() - startTime;
 
@@ -137,33 +372,577 @@ export function searchUpdates(
         totalResults,
     });
 
-    return createSearchResponse(enrichedResults, totalResults, limit, offset, queryTime);
+    const response = createSearchResponse(enrichedResults, totalResults, limit, offset, hasMore, queryTime);
+    if (hasMore) {
+        response.metadata.cursor = createNextCursor(db, results, sortBy, fingerprint, page);
+    }
+    if (keyword && keyword.expansions.length > 0) {
+        response.metadata.expansions = keyword.expansions;
+    }
+    if (facets) {
+        response.facets = facets;
+    }
+    return response;
 }
 
 /**
- * Build FTS5 search query with filters
+ * Compute the facets requested by a search query
+ * 
+ * @param db Database instance
+ * @param match FTS5 match expression of the keyword, if any
+ * @param query Search query
+ * @returns Facet counts, or undefined if none are requested
+ */
+function computeQueryFacets(
+    db: Database.Database,
+    match: string | undefined,
+    query: SearchQuery
+): SearchFacets | undefined {
+    return query.facets && query.facets.length > 0
+        ? computeFacets(db, buildMatchQuery(match, query.filters), query.facets)
+        : undefined;
+}
+
+/**
+ * Run a similarity or hybrid search
+ * 
+ * Similarity mode ranks the updates matching the filters by embedding
+ * similarity to the query. Hybrid mode fuses that ranking with the keyword
+ * (BM25) ranking by reciprocal rank fusion, so updates found by both come
+ * first. Results are paged with limit/offset over the ranked updates. Each
+ * method ranks at most RANKED_CANDIDATE_LIMIT updates; when that (or the
+ * number of scored candidates) cut the ranking, metadata.truncated is set and
+ * totalResults is a lower bound.
  * 
+ * @param db Database instance
+ * @param query Search query parameters (with query text)
+ * @param options Ranking, synonym and embedding configuration
+ * @returns Search response; relevanceScore is the similarity or fused score (higher is better)
+ * @throws Error if no embedding provider is configured
+ */
+function runRankedSearch(
+    db: Database.Database,
+    query: SearchQuery,
+    options: SearchOptions
+): SearchResponse<AzureUpdateSearchResult> {
+    const startTime = Date.now();
+    const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+    const offset = query.offset ?? 0;
+    const { ranked, keyword, truncated } = rankUpdates(db, query, options);
+
+    const page = ranked.slice(offset, offset + limit);
+    const rows = getRankedRows(db, page, keyword?.match, resolveSnippetOptions(query));
+    const response = createSearchResponse(
+        toSearchResults(db, rows), ranked.length, limit, offset, offset + limit < ranked.length, Date.now() - startTime
+    );
+
+    if (truncated) {
+        response.metadata.truncated = true;
+    }
+    if (keyword && keyword.expansions.length > 0) {
+        response.metadata.expansions = keyword.expansions;
+    }
+    if (query.facets && query.facets.length > 0) {
+        response.facets = computeFacets(db, buildIdListQuery(ranked.map(update => update.id)), query.facets);
+    }
+
+    logger.info('Ranked search completed', {
+        mode: query.mode,
+        totalTime: response.metadata.queryTime,
+        resultCount: rows.length,
+        totalResults: ranked.length,
+        truncated,
+    });
+
+    return response;
+}
+
+/**
+ * Rank the updates matching the filters for a similarity or hybrid search
+ * 
+ * @param db Database instance
+ * @param query Search query parameters (with query text)
+ * @param options Ranking, synonym and embedding configuration
+ * @returns Ranked updates, whether a limit cut a ranking, and the compiled keyword query for hybrid searches
+ * @throws Error if no embedding provider is configured
+ */
+function rankUpdates(
+    db: Database.Database,
+    query: SearchQuery,
+    options: SearchOptions
+): { ranked: RankedUpdate[]; truncated: boolean; keyword?: CompiledQuery } {
+    if (!options.embeddings) {
+        throw new Error(`mode "${query.mode}" requires similarity search to be enabled`);
+    }
+
+    const text = query.query?.trim() ?? '';
+    const similar = findSimilarUpdates(db, options.embeddings, text, buildMatchQuery(undefined, query.filters), RANKED_CANDIDATE_LIMIT);
+    if (query.mode !== 'hybrid') {
+        return { ranked: similar.updates.map(update => ({ id: update.id, score: update.similarity })), truncated: similar.truncated };
+    }
+
+    const keyword = compileKeyword(db, text, options.synonyms);
+    const byKeyword = rankByKeyword(db, keyword?.match, query.filters, buildRankExpression(options.rankWeights));
+    return {
+        ranked: fuseRankings([byKeyword.ids, similar.updates.map(update => update.id)]),
+        truncated: similar.truncated || byKeyword.truncated,
+        keyword,
+    };
+}
+
+/**
+ * Rank the updates matching a keyword and filters by weighted BM25
+ * 
+ * @param db Database instance
+ * @param match FTS5 MATCH expression (compiled keyword query)
+ * @param filters Optional structured filters
+ * @param rank Weighted bm25() expression
+ * @returns Update IDs, most relevant first, and whether more updates matched
+ */
+function rankByKeyword(
+    db: Database.Database,
+    match: string | undefined,
+    filters: SearchFilters | undefined,
+    rank: string
+): { ids: string[]; truncated: boolean } {
+    const { sql, params } = buildMatchQuery(match, filters);
+    // One extra row tells whether the limit cut the ranking
+    const rows = db.prepare(`${sql} ORDER BY ${rank}, au.id LIMIT ?`).all(...params, RANKED_CANDIDATE_LIMIT + 1) as { id: string }[];
+    return {
+        ids: rows.slice(0, RANKED_CANDIDATE_LIMIT).map(row => row.id),
+        truncated: rows.length > RANKED_CANDIDATE_LIMIT,
+    };
+}
+
+/**
+ * Fuse rankings by reciprocal rank fusion
+ * 
+ * @param rankings Update IDs per ranking, best first
+ * @returns Every ranked update with its summed score, best first (ties by id)
+ */
+function fuseRankings(rankings: string[][]): RankedUpdate[] {
+    const scores = new Map<string, number>();
+    for (const ranking of rankings) {
+        ranking.forEach((id, index) => scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + index + 1)));
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
+
+/**
+ * Load the rows of ranked updates in rank order
+ * 
+ * @param db Database instance
+ * @param ranked Ranked updates of the page
+ * @param match Optional FTS5 MATCH expression (for snippets of keyword matches)
+ * @param snippet Snippet options, if snippets are requested
+ * @returns Rows with the rank score as relevance
+ */
+function getRankedRows(
+    db: Database.Database,
+    ranked: RankedUpdate[],
+    match: string | undefined,
+    snippet: Required<SnippetOptions> | undefined
+): SearchRow[] {
+    const ids = JSON.stringify(ranked.map(update => update.id));
+    const rows = db.prepare(`
+        SELECT 
+            au.id,
+            au.title,
+            au.description_html as description,
+            au.description_md as descriptionMarkdown,
+            au.status,
+            au.locale,
+            au.created,
+            au.modified,
+            au.removed_at as removedAt
+        FROM azure_updates au
+        WHERE au.id IN (SELECT value FROM json_each(?))
+    `).all(ids) as SearchRow[];
+
+    const snippets = new Map<string, string | null>();
+    if (match && snippet) {
+        const params: unknown[] = [];
+        const column = buildSnippetColumn(snippet, params);
+        const snippetRows = db.prepare(`
+            SELECT ${column} au.id
+            FROM ${FTS_FROM}
+            WHERE fts.updates_fts MATCH ? AND au.id IN (SELECT value FROM json_each(?))
+        `).all(...params, match, ids) as { id: string; snippet: string | null }[];
+        snippetRows.forEach(row => snippets.set(row.id, row.snippet));
+    }
+
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    return ranked.flatMap(({ id, score }) => {
+        const row = rowsById.get(id);
+        return row ? [{ ...row, relevance: score, snippet: snippets.get(id) }] : [];
+    });
+}
+
+/**
+ * Build a query selecting the given updates (same columns as buildMatchQuery)
+ * 
+ * @param ids Update IDs
+ * @returns SQL query and parameters
+ */
+function buildIdListQuery(ids: string[]): { sql: string; params: unknown[] } {
+    return {
+        sql: 'SELECT au.id, au.status, au.modified FROM azure_updates au WHERE au.id IN (SELECT value FROM json_each(?))',
+        params: [JSON.stringify(ids)],
+    };
+}
+
+/**
+ * Convert rows to search results with tags, categories, products and availabilities
+ * 
+ * @param db Database instance
+ * @param rows Rows of one page
+ * @returns Search results in row order
+ */
+function toSearchResults(db: Database.Database, rows: SearchRow[]): AzureUpdateSearchResult[] {
+    // One query per dimension for the whole page
+    const related = getRelatedDataForUpdates(db, rows.map(row => row.id));
+
+    return rows.map(row => ({
+        id: row.id,
+        title: row.title,
+        description: row.description,
+        url: getUpdateUrl(row.id),
+        status: row.status,
+        locale: row.locale,
+        created: row.created,
+        modified: row.modified,
+        tags: [],
+        productCategories: [],
+        products: [],
+        availabilities: [],
+        ...related.get(row.id),
+        removedAt: row.removedAt,
+        relevanceScore: row.relevance,
+        snippet: row.snippet ? collapseWhitespace(row.snippet) : undefined,
+    }));
+}
+
+/**
+ * Compile the keyword query, expanding known names with their synonyms
+ * 
+ * @param db Database instance (product names are a synonym source)
  * @param keyword Optional keyword search query
+ * @param synonyms Configured synonym groups
+ * @returns Compiled query, or undefined without a keyword
+ */
+function compileKeyword(
+    db: Database.Database,
+    keyword: string | undefined,
+    synonyms: string[][] | undefined
+): CompiledQuery | undefined {
+    if (!keyword || keyword.trim() === '') {
+        return undefined;
+    }
+
+    return compileQuery(keyword, getSynonymDictionary(db, synonyms));
+}
+
+/**
+ * Resolve limit and offset, or the position of a cursor
+ * 
+ * @param query Search query
+ * @param fingerprint Fingerprint of the query
+ * @param correctedQuery Corrected keyword of a first page (continued pages take it from the cursor)
+ * @returns Page to fetch
+ * @throws Error if the cursor is invalid for this query
+ */
+function resolvePage(query: SearchQuery, fingerprint: string, correctedQuery?: string): PageOptions {
+    const after = query.cursor ? decodeCursor(query.cursor, fingerprint) : undefined;
+
+    return {
+        limit: Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT),
+        offset: after?.position ?? query.offset ?? 0,
+        after,
+        correctedQuery: correctedQuery ?? after?.correctedQuery,
+    };
+}
+
+/**
+ * Resolve snippet options (defaults for unset options)
+ * 
+ * @param query Search query
+ * @returns Snippet options, or undefined if snippets are not requested
+ */
+function resolveSnippetOptions(query: SearchQuery): Required<SnippetOptions> | undefined {
+    return query.includeSnippets ? { ...DEFAULT_SNIPPET_OPTIONS, ...query.snippetOptions } : undefined;
+}
+
+/**
+ * Create the cursor for the page after the given results
+ * 
+ * @param db Database instance
+ * @param results Rows of the current page (with their sort keys)
+ * @param sortBy Resolved sort mode
+ * @param fingerprint Fingerprint of the query
+ * @param page Current page
+ * @returns Opaque cursor, or undefined for an empty page
+ */
+function createNextCursor(
+    db: Database.Database,
+    results: Array<{ id: string; sortKey: string | number }>,
+    sortBy: SortBy,
+    fingerprint: string,
+    page: PageOptions
+): string | undefined {
+    const last = results[results.length - 1];
+    if (!last) {
+        return undefined;
+    }
+
+    return encodeCursor({
+        sortBy,
+        key: last.sortKey,
+        id: last.id,
+        position: page.offset + results.length,
+        snapshot: page.after?.snapshot ?? getSnapshot(db),
+        fingerprint,
+        correctedQuery: page.correctedQuery,
+    });
+}
+
+/**
+ * Check the cursor of a search query
+ * 
+ * @param query Search query
+ * @returns Error message, or undefined if there is no cursor or it is valid for this query
+ */
+export function getCursorError(query: SearchQuery): string | undefined {
+    if (!query.cursor) {
+        return undefined;
+    }
+
+    try {
+        decodeCursor(query.cursor, getQueryFingerprint(query, resolveSortBy(query.sortBy, query.query)));
+        return undefined;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+/**
+ * Encode a cursor as an opaque string
+ */
+function encodeCursor(cursor: SearchCursor): string {
+    return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor and check that it belongs to the current query
+ * 
+ * @param cursor Opaque cursor string
+ * @param fingerprint Fingerprint of the current query
+ * @returns Decoded cursor
+ * @throws Error if the cursor is malformed or was issued for a different query
+ */
+function decodeCursor(cursor: string, fingerprint: string): SearchCursor {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+        throw new Error('cursor is invalid; pass metadata.cursor from a previous response unchanged');
+    }
+
+    if (!isSearchCursor(decoded)) {
+        throw new Error('cursor is invalid; pass metadata.cursor from a previous response unchanged');
+    }
+
+    if (decoded.fingerprint !== fingerprint) {
+        throw new Error('cursor belongs to a different query; repeat the same query, filters and sortBy, or start again without a cursor');
+    }
+
+    return decoded;
+}
+
+/**
+ * Check the shape of a decoded cursor
+ */
+function isSearchCursor(value: unknown): value is SearchCursor {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+
+    const cursor = value as Record<string, unknown>;
+    return Object.entries(CURSOR_FIELD_TYPES).every(([field, types]) => types.includes(typeof cursor[field]))
+        && SORT_MODES.includes(cursor.sortBy as string);
+}
+
+/**
+ * Hash the parts of a query that a cursor depends on (not limit/offset)
+ */
+function getQueryFingerprint(query: SearchQuery, sortBy: SortBy): string {
+    return createHash('sha256')
+        .update(JSON.stringify([query.query?.trim() ?? '', query.filters ?? null, sortBy]))
+        .digest('base64url')
+        .slice(0, 16);
+}
+
+/**
+ * Highest change number in azure_updates
+ * 
+ * Updates inserted, modified or restored later get higher numbers (see
+ * upsertUpdate), so later pages of a cursor exclude them and results neither
+ * shift nor repeat while a sync runs.
+ */
+function getSnapshot(db: Database.Database): number {
+    const row = db.prepare('SELECT COALESCE(MAX(change_seq), 0) AS snapshot FROM azure_updates').get() as { snapshot: number };
+    return row.snapshot;
+}
+
+/**
+ * Resolve the sort mode (relevance needs a keyword; default modified:desc)
+ */
+function resolveSortBy(sortBy: SortBy | undefined, keyword: string | undefined): SortBy {
+    if (!sortBy || !SORT_MODES.includes(sortBy)) {
+        return DEFAULT_SORT;
+    }
+    if (sortBy === 'relevance' && !(keyword && keyword.trim() !== '')) {
+        return DEFAULT_SORT;
+    }
+    return sortBy;
+}
+
+/**
+ * Get the sort key expression and direction of a sort mode
+ * 
+ * @param sortBy Resolved sort mode
+ * @param rank Weighted bm25() expression (lower is more relevant)
+ */
+function getSortOrder(sortBy: SortBy, rank: string): SortOrder {
+    return sortBy === 'relevance' ? { key: rank, direction: 'ASC' } : SORTS[sortBy];
+}
+
+/**
+ * Build the weighted bm25() expression for keyword queries
+ * 
+ * Weights are validated numbers, so they are inlined: the expression is also
+ * used as sort key and in cursor conditions.
+ * 
+ * @param weights Overrides for DEFAULT_RANK_WEIGHTS
+ * @returns SQL expression (lower is more relevant)
+ */
+function buildRankExpression(weights: Partial<RankWeights> = {}): string {
+    const { title, description, tags, products, categories } = { ...DEFAULT_RANK_WEIGHTS, ...weights };
+    // Column order of updates_fts: id (unindexed), title, description_md, tags, products, categories
+    return `bm25(fts.updates_fts, 0, ${title}, ${description}, ${tags}, ${products}, ${categories})`;
+}
+
+/**
+ * Parse rank weights from configuration
+ * 
+ * @param value Comma-separated column=weight pairs, e.g. "title=10,products=5"
+ * @returns Weights for the listed columns
+ * @throws Error if a column is unknown or a weight is not a non-negative number
+ */
+export function parseRankWeights(value: string): Partial<RankWeights> {
+    const weights: Partial<RankWeights> = {};
+    const columns = Object.keys(DEFAULT_RANK_WEIGHTS);
+
+    for (const entry of value.split(',').map(part => part.trim()).filter(part => part !== '')) {
+        const [column, weight] = entry.split('=').map(part => part.trim());
+        const parsed = Number(weight);
+        if (!columns.includes(column) || weight === undefined || weight === '' || !Number.isFinite(parsed) || parsed < 0) {
+            throw new Error(`Invalid rank weight "${entry}": expected <column>=<non-negative number> with column one of ${columns.join(', ')}`);
+        }
+        weights[column as keyof RankWeights] = parsed;
+    }
+
+    return weights;
+}
+
+/**
+ * Count matching updates per facet value
+ * 
+ * Counts describe every match of the search (every ranked update for
+ * similarity and hybrid searches) rather than the current page. Multi-valued facets (tags, products,
+ * categories, rings) count an update once per value it carries.
+ * 
+ * @param db Database instance
+ * @param matches Query selecting every match (columns: id, status, modified) and its parameters
+ * @param fields Facets to compute
+ * @returns Counts per requested facet, most frequent first (months newest first)
+ */
+function computeFacets(
+    db: Database.Database,
+    matches: { sql: string; params: unknown[] },
+    fields: FacetField[]
+): SearchFacets {
+    const { sql: matchSql, params } = matches;
+    const facets: SearchFacets = {};
+
+    for (const field of new Set(fields)) {
+        facets[field] = db.prepare(`WITH matches AS (${matchSql}) ${FACET_QUERIES[field]}`)
+            .all(...params) as FacetCount[];
+    }
+
+    return facets;
+}
+
+/**
+ * Build query selecting every update matching the keyword and filters
+ * 
+ * @param match Optional FTS5 MATCH expression (compiled keyword query)
  * @param filters Optional structured filters
- * @param sortBy Optional sort parameter
- * @param limit Result limit
- * @param offset Result offset
+ * @returns SQL query (columns: id, status, modified) and parameters
+ */
+function buildMatchQuery(
+    match: string | undefined,
+    filters: SearchFilters | undefined
+): { sql: string; params: unknown[] } {
+    const params: unknown[] = [];
+    const clauses: string[] = [];
+    let from = 'azure_updates au';
+
+    if (match) {
+        from = FTS_FROM;
+        clauses.push('fts.updates_fts MATCH ?');
+        params.push(match);
+    }
+
+    clauses.push(...buildFilterClauses(filters, params));
+    const whereClause = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+
+    return {
+        sql: `SELECT au.id, au.status, au.modified FROM ${from} ${whereClause}`,
+        params,
+    };
+}
+
+/**
+ * Build FTS5 search query with filters
+ * 
+ * Fetches one row more than the limit so the caller can tell whether another
+ * page follows. With a cursor, rows after the cursor position are returned
+ * instead of skipping an offset.
+ * 
+ * @param match Optional FTS5 MATCH expression (compiled keyword query)
+ * @param filters Optional structured filters
+ * @param order Sort key and direction
+ * @param page Limit and offset or cursor
+ * @param rank Weighted bm25() expression (relevance score)
+ * @param snippet Snippet options, if snippets are requested (keyword searches only)
  * @returns SQL query and parameters
  */
 function buildSearchQuery(
-    keyword: string | undefined,
+    match: string | undefined,
     filters: SearchFilters | undefined,
-    sortBy: string | undefined,
-    limit: number,
-    offset: number
+    order: SortOrder,
+    page: PageOptions,
+    rank: string,
+    snippet?: Required<SnippetOptions>
 ): { sql: string; params: unknown[] } {
     const params: unknown[] = [];
     const whereClauses: string[] = [];
+    const orderByClause = buildOrderByClause(order);
 
-    // FTS5 keyword search with BM25 relevance ranking
-    if (keyword && keyword.trim() !== '') {
-        const ftsQuery = sanitizeFtsQuery(keyword);
-
+    // FTS5 keyword search with weighted BM25 relevance ranking
+    if (match) {
         // Join with FTS5 virtual table for keyword search
         const baseQuery = `
             SELECT 
@@ -175,22 +954,22 @@ function buildSearchQuery(
                 au.locale,
                 au.created,
                 au.modified,
-                fts.rank as relevance
-            FROM azure_updates au
-            INNER JOIN updates_fts fts ON au.rowid = fts.rowid
+                au.removed_at as removedAt,
+                ${rank} as relevance,
+                ${buildSnippetColumn(snippet, params)}
+                ${order.key} as sortKey
+            FROM ${FTS_FROM}
             WHERE fts.updates_fts MATCH ?
         `;
 
-        params.push(ftsQuery);
+        params.push(match);
 
-        // Apply filters
-        const filterClauses = buildFilterClauses(filters, params);
-        whereClauses.push(...filterClauses);
+        // Apply filters and cursor position
+        whereClauses.push(...buildFilterClauses(filters, params));
+        whereClauses.push(...buildCursorClauses(page.after, params, order));
 
         const whereClause = whereClauses.length > 0 ? `AND ${whereClauses.join(' AND ')}` : '';
 
-        const orderByClause = buildOrderByClause(sortBy);
-
         const sql = `
             ${baseQuery}
             ${whereClause}
@@ -198,7 +977,7 @@ function buildSearchQuery(
             LIMIT ? OFFSET ?
         `;
 
-        params.push(limit, offset);
+        params.push(page.limit + 1, page.after ? 0 : page.offset);
 
         return { sql, params };
     }
@@ -213,15 +992,16 @@ function buildSearchQuery(
             au.status,
             au.locale,
             au.created,
-            au.modified
+            au.modified,
+            au.removed_at as removedAt,
+            ${order.key} as sortKey
         FROM azure_updates au
     `;
 
-    const filterClauses = buildFilterClauses(filters, params);
+    whereClauses.push(...buildFilterClauses(filters, params));
+    whereClauses.push(...buildCursorClauses(page.after, params, order));
 
-    const whereClause = filterClauses.length > 0 ? `WHERE ${filterClauses.join(' AND ')}` : '';
-
-    const orderByClause = buildOrderByClause(sortBy);
+    const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
 
     const sql = `
         ${baseQuery}
@@ -230,39 +1010,64 @@ function buildSearchQuery(
         LIMIT ? OFFSET ?
     `;
 
-    params.push(limit, offset);
+    params.push(page.limit + 1, page.after ? 0 : page.offset);
 
     return { sql, params };
 }
 
+/**
+ * Build the snippet column of a keyword search
+ * 
+ * @param snippet Snippet options, if snippets are requested
+ * @param params Parameter array (markers, ellipsis and length are appended)
+ * @returns SQL select-list entry (with trailing comma) or an empty string
+ */
+function buildSnippetColumn(snippet: Required<SnippetOptions> | undefined, params: unknown[]): string {
+    if (!snippet) {
+        return '';
+    }
+
+    params.push(snippet.startMarker, snippet.endMarker, SNIPPET_ELLIPSIS, snippet.maxTokens);
+    return `snippet(fts.updates_fts, ${SNIPPET_COLUMN}, ?, ?, ?, ?) as snippet,`;
+}
+
+/**
+ * Collapse line breaks and runs of whitespace (Markdown descriptions) to single spaces
+ * 
+ * @param text Text to collapse
+ * @returns Single-line text
+ */
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
 /**
  * Build count query (same logic as search but COUNT(*))
  * 
- * @param keyword Optional keyword search query
+ * @param match Optional FTS5 MATCH expression (compiled keyword query)
  * @param filters Optional structured filters
+ * @param after Optional cursor (only its snapshot applies, so updates added meanwhile are not counted)
  * @returns SQL query and parameters
  */
 function buildCountQuery(
-    keyword: string | undefined,
-    filters: SearchFilters | undefined
+    match: string | undefined,
+    filters: SearchFilters | undefined,
+    after?: SearchCursor
 ): { sql: string; params: unknown[] } {
     const params: unknown[] = [];
     const whereClauses: string[] = [];
 
-    if (keyword && keyword.trim() !== '') {
-        const ftsQuery = sanitizeFtsQuery(keyword);
-
+    if (match) {
         const baseQuery = `
             SELECT COUNT(*) as total
-            FROM azure_updates au
-            INNER JOIN updates_fts fts ON au.rowid = fts.rowid
+            FROM ${FTS_FROM}
             WHERE fts.updates_fts MATCH ?
         `;
 
-        params.push(ftsQuery);
+        params.push(match);
 
-        const filterClauses = buildFilterClauses(filters, params);
-        whereClauses.push(...filterClauses);
+        whereClauses.push(...buildFilterClauses(filters, params));
+        whereClauses.push(...buildCursorClauses(after, params));
 
         const whereClause = whereClauses.length > 0 ? `AND ${whereClauses.join(' AND ')}` : '';
 
@@ -275,8 +1080,9 @@ function buildCountQuery(
     // Filter-only count
     const baseQuery = `SELECT COUNT(*) as total FROM azure_updates au`;
 
-    const filterClauses = buildFilterClauses(filters, params);
-    const whereClause = filterClauses.length > 0 ? `WHERE ${filterClauses.join(' AND ')}` : '';
+    whereClauses.push(...buildFilterClauses(filters, params));
+    whereClauses.push(...buildCursorClauses(after, params));
+    const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
 
     return {
         sql: `${baseQuery} ${whereClause}`,
@@ -284,6 +1090,41 @@ function buildCountQuery(
     };
 }
 
+/**
+ * Build WHERE clauses that continue after a cursor
+ * 
+ * - Snapshot: excludes updates inserted, modified or restored after the first page
+ * - Keyset: rows whose (sort key, id) come after the last row returned
+ * 
+ * Relevance scores depend on the whole index, so a sync between pages can
+ * still reorder relevance-sorted results slightly.
+ * 
+ * @param after Optional cursor
+ * @param params Parameter array (mutated to add cursor values)
+ * @param order Sort order of the cursor (omit for counts, which only apply the snapshot)
+ * @returns Array of WHERE clause strings
+ */
+function buildCursorClauses(
+    after: SearchCursor | undefined,
+    params: unknown[],
+    order?: SortOrder
+): string[] {
+    if (!after) {
+        return [];
+    }
+
+    const clauses = ['au.change_seq <= ?'];
+    params.push(after.snapshot);
+
+    if (order) {
+        const { key, direction } = order;
+        clauses.push(`(${key}, au.id) ${direction === 'DESC' ? '<' : '>'} (?, ?)`);
+        params.push(after.key, after.id);
+    }
+
+    return clauses;
+}
+
 /**
  * Build WHERE clauses for filters
  * 
@@ -293,19 +1134,28 @@ function buildCountQuery(
  * When filtering with specific days (e.g., 2026-06-15), the comparison still works correctly
  * because all dates within that month compare consistently.
  * 
+ * Updates withdrawn upstream (removed_at set) are excluded unless filters.includeRemoved is true.
+ * Clauses refer to azure_updates as au, so other services can select updates
+ * with the same filters (e.g., the retirement calendar).
+ * 
  * @param filters Search filters
  * @param params Parameter array (mutated to add filter values)
  * @returns Array of WHERE clause strings
  */
-function buildFilterClauses(
+export function buildFilterClauses(
     filters: SearchFilters | undefined,
     params: unknown[]
 ): string[] {
-    if (!filters) {
-        return [];
+    const clauses: string[] = [];
+
+    // Exclude tombstoned updates by default
+    if (!filters?.includeRemoved) {
+        clauses.push('au.removed_at IS NULL');
     }
 
-    const clauses: string[] = [];
+    if (!filters) {
+        return clauses;
+    }
 
     // Status filter
     if (filters.status) {
@@ -313,14 +1163,8 @@ function buildFilterClauses(
         params.push(filters.status);
     }
 
-    // Availability ring filter
-    if (filters.availabilityRing) {
-        clauses.push(`EXISTS (
-            SELECT 1 FROM update_availabilities ua 
-            WHERE ua.update_id = au.id AND ua.ring = ?
-        )`);
-        params.push(filters.availabilityRing);
-    }
+    // Availability ring, availability date and retirement date filters
+    clauses.push(...buildAvailabilityClauses(filters, params));
 
     // Date range filters
     if (filters.modifiedFrom) {
@@ -333,6 +1177,38 @@ function buildFilterClauses(
         params.push(filters.modifiedTo);
     }
 
+    // Multi-valued filters (arrays use AND semantics: result must have ALL values)
+    clauses.push(...buildMultiValueFilterClauses(filters, params));
+
+    return clauses;
+}
+
+/**
+ * Build WHERE clauses for the availability ring, availability date and
+ * retirement date filters
+ * 
+ * @param filters Search filters
+ * @param params Parameter array (mutated to add filter values)
+ * @returns Array of WHERE clause strings
+ */
+function buildAvailabilityClauses(filters: SearchFilters, params: unknown[]): string[] {
+    const clauses: string[] = [];
+
+    // Availability ring filter
+    if (filters.availabilityRing) {
+        clauses.push(`EXISTS (
+            SELECT 1 FROM update_availabilities ua 
+            WHERE ua.update_id = au.id AND ua.ring = ?
+        )`);
+        params.push(filters.availabilityRing);
+    }
+
+    // Rings, availability dates and TBD dates must hold for the same availability entry
+    const availabilityClause = buildAvailabilityClause(filters, params);
+    if (availabilityClause) {
+        clauses.push(availabilityClause);
+    }
+
     // Retirement date range filters
     // Note: Retirement dates are stored at month granularity (YYYY-MM-01 in DB).
     // For example, an API retirement date of "2026-06" is stored as "2026-06-01".
@@ -358,89 +1234,112 @@ function buildFilterClauses(
         params.push(filters.retirementTo);
     }
 
-    // Tags filter with AND semantics (result must have ALL specified tags)
-    if (filters.tags && filters.tags.length > 0) {
-        for (const tag of filters.tags) {
-            clauses.push(`EXISTS (
-                SELECT 1 FROM update_tags ut 
-                WHERE ut.update_id = au.id AND ut.tag = ?
-            )`);
-            params.push(tag);
-        }
+    return clauses;
+}
+
+/**
+ * Build WHERE clauses for the tag, product and product category filters
+ * 
+ * @param filters Search filters
+ * @param params Parameter array (mutated to add filter values)
+ * @returns Array of WHERE clause strings
+ */
+function buildMultiValueFilterClauses(filters: SearchFilters, params: unknown[]): string[] {
+    return [
+        ...buildMultiValueClauses('update_tags', 'tag', filters.tags, params),
+        ...buildMultiValueClauses('update_products', 'product', filters.products, params),
+        ...buildMultiValueClauses('update_categories', 'category', filters.productCategories, params),
+    ];
+}
+
+/**
+ * Build WHERE clause for availability rings, availability dates and TBD dates
+ * 
+ * All conditions apply to the same availability entry: "Preview between X
+ * and Y" matches updates whose Preview date is in the range, not updates in
+ * Preview that have some other ring's date in the range.
+ * 
+ * @param filters Search filters
+ * @param params Parameter array (mutated to add filter values)
+ * @returns EXISTS clause, or null if no availability filter is set
+ */
+function buildAvailabilityClause(filters: SearchFilters, params: unknown[]): string | null {
+    const conditions: string[] = [];
+    const rings = filters.availabilityRings ?? [];
+
+    if (rings.length > 0) {
+        conditions.push(`ua.ring IN (${rings.map(() => '?').join(', ')})`);
+        params.push(...rings);
     }
 
-    // Products filter with AND semantics (result must have ALL specified products)
-    if (filters.products && filters.products.length > 0) {
-        for (const product of filters.products) {
-            clauses.push(`EXISTS (
-                SELECT 1 FROM update_products up 
-                WHERE up.update_id = au.id AND up.product = ?
-            )`);
-            params.push(product);
-        }
+    if (filters.availabilityDateTbd) {
+        conditions.push('ua.date IS NULL');
     }
 
-    // Product categories filter with AND semantics (result must have ALL specified categories)
-    if (filters.productCategories && filters.productCategories.length > 0) {
-        for (const category of filters.productCategories) {
-            clauses.push(`EXISTS (
-                SELECT 1 FROM update_categories uc 
-                WHERE uc.update_id = au.id AND uc.category = ?
-            )`);
-            params.push(category);
-        }
+    if (filters.availabilityDateFrom) {
+        conditions.push('ua.date >= ?');
+        params.push(filters.availabilityDateFrom);
     }
 
-    return clauses;
+    if (filters.availabilityDateTo) {
+        conditions.push('ua.date <= ?');
+        params.push(filters.availabilityDateTo);
+    }
+
+    if (conditions.length === 0) {
+        return null;
+    }
+
+    return `EXISTS (
+        SELECT 1 FROM update_availabilities ua 
+        WHERE ua.update_id = au.id AND ${conditions.join(' AND ')}
+    )`;
 }
 
 /**
- * Sanitize FTS5 query to prevent syntax errors and support phrase search
+ * Build WHERE clauses for a multi-valued dimension (tags, products, categories)
  * 
- * Supports phrase search syntax:
- * - "exact phrase" → phrase search in FTS5
- * - other words → OR logic with prefix matching
+ * - allOf: one EXISTS per value (result must have ALL values)
+ * - anyOf: one EXISTS with IN (result must have AT LEAST ONE value)
+ * - noneOf: NOT EXISTS with IN (result must have NONE of the values)
  * 
- * @param query User input query
- * @returns Sanitized FTS5 query string
+ * @param table Junction table (update_id plus value column)
+ * @param column Value column
+ * @param filter Array (same as allOf) or allOf/anyOf/noneOf object
+ * @param params Parameter array (mutated to add filter values)
+ * @returns Array of WHERE clause strings
  */
-function sanitizeFtsQuery(query: string): string {
-    const phrases: string[] = [];
-    const tokens: string[] = [];
+function buildMultiValueClauses(
+    table: string,
+    column: string,
+    filter: string[] | MultiValueFilter | undefined,
+    params: unknown[]
+): string[] {
+    if (!filter) {
+        return [];
+    }
 
-    // Extract quoted phrases and replace with placeholders
-    let processed = query.replace(/"([^"]+)"/g, (_match: string, phrase: string) => {
-        const index = phrases.length;
-        // Escape double quotes in phrase content for FTS5
-        const escapedPhrase = phrase.replace(/"/g, '""');
-        phrases.push(`"${escapedPhrase}"`); // FTS5 phrase syntax
-        return `__PHRASE_${index}__`;
-    });
+    const { allOf = [], anyOf = [], noneOf = [] } = Array.isArray(filter) ? { allOf: filter } : filter;
+    const clauses: string[] = [];
+    const matchesSql = (condition: string): string =>
+        `EXISTS (SELECT 1 FROM ${table} f WHERE f.update_id = au.id AND ${condition})`;
 
-    // Sanitize remaining text (remove FTS5 operators)
-    processed = processed
-        .replace(/[(){}[\]^~*:]/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-
-    // Split into words and process
-    const words = processed.split(' ').filter(word => word.length > 0);
-
-    for (const word of words) {
-        // Check if it's a phrase placeholder
-        const phraseMatch = word.match(/^__PHRASE_(\d+)__$/);
-        if (phraseMatch) {
-            const index = parseInt(phraseMatch[1], 10);
-            tokens.push(phrases[index]);
-        } else {
-            // Regular word - escape and add prefix matching
-            const escaped = word.replace(/"/g, '""');
-            tokens.push(`"${escaped}"*`);
-        }
+    for (const value of allOf) {
+        clauses.push(matchesSql(`f.${column} = ?`));
+        params.push(value);
     }
 
-    // Join tokens with OR logic
-    return tokens.length > 0 ? tokens.join(' OR ') : '""';
+    if (anyOf.length > 0) {
+        clauses.push(matchesSql(`f.${column} IN (${anyOf.map(() => '?').join(', ')})`));
+        params.push(...anyOf);
+    }
+
+    if (noneOf.length > 0) {
+        clauses.push(`NOT ${matchesSql(`f.${column} IN (${noneOf.map(() => '?').join(', ')})`)}`);
+        params.push(...noneOf);
+    }
+
+    return clauses;
 }
 
 /**
@@ -462,33 +1361,12 @@ function getRetirementDateSubquery(): string {
 }
 
 /**
- * Get default order by clause
+ * Build ORDER BY clause for a sort order
  * 
- * @returns Default ORDER BY clause (always modified:desc)
+ * @param order Sort key and direction
+ * @returns SQL ORDER BY clause (sort key, then id)
  */
-function getDefaultOrderBy(): string {
-    return 'ORDER BY au.modified DESC';
-}
-
-/**
- * Build ORDER BY clause based on sortBy parameter
- * 
- * @param sortBy Sort parameter (e.g., 'modified:desc', 'retirement:asc')
- * @returns SQL ORDER BY clause
- */
-function buildOrderByClause(sortBy: string | undefined): string {
-    if (!sortBy) {
-        return getDefaultOrderBy();
-    }
-
-    const sortMap: Record<string, string> = {
-        'modified:desc': 'ORDER BY au.modified DESC',
-        'modified:asc': 'ORDER BY au.modified ASC',
-        'created:desc': 'ORDER BY au.created DESC',
-        'created:asc': 'ORDER BY au.created ASC',
-        'retirement:asc': `ORDER BY ${getRetirementDateSubquery()} ASC`,
-        'retirement:desc': `ORDER BY ${getRetirementDateSubquery()} DESC`,
-    };
-
-    return sortMap[sortBy] ?? getDefaultOrderBy();
+function buildOrderByClause(order: SortOrder): string {
+    const { key, direction } = order;
+    return `ORDER BY ${key} ${direction}, au.id ${direction}`;
 }
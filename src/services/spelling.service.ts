@@ -0,0 +1,179 @@
+/**
+ * Spelling service for Azure Updates search
+ * 
+ * Suggests corrections for query words that match nothing in the full-text
+ * index ("kuberentes" → "kubernetes", "cosmosdb" → "cosmos db"), using the
+ * search_terms trigram vocabulary built from updates_fts.
+ */
+
+import type Database from 'better-sqlite3';
+import type { QuerySuggestion, TermCorrection } from '../models/search-query.js';
+import { findSimilarSearchTerms, hasSearchTerms, rebuildSearchTerms } from '../database/queries.js';
+import { rewriteQueryWords } from '../utils/query-parser.js';
+import * as logger from '../utils/logger.js';
+
+// Only plain words of letters and digits are corrected (not C#, .NET, x-ray)
+const CORRECTABLE_WORD = /^[\p{L}\p{N}]{3,}$/u;
+
+// Vocabulary terms compared with a misspelled word
+const CANDIDATE_LIMIT = 50;
+
+// Shortest part when splitting a word in two ("cosmosdb" → "cosmos db")
+const MIN_SPLIT_LENGTH = 2;
+
+/**
+ * Suggest a corrected query for a query that matched nothing
+ * 
+ * Words matching nothing in the index are replaced by the closest indexed
+ * word, or by two words that occur together if the word is a run-together
+ * pair. Phrases, operators and field prefixes are kept.
+ * 
+ * @param db Database instance
+ * @param query User input query
+ * @returns Corrected query, or undefined if no word could be corrected
+ */
+export function suggestQuery(db: Database.Database, query: string): QuerySuggestion | undefined {
+    const corrections: TermCorrection[] = [];
+    const corrected = rewriteQueryWords(query, word => {
+        const suggestion = suggestWord(db, word);
+        if (!suggestion) {
+            return undefined;
+        }
+
+        corrections.push({ term: word, suggestion });
+        return suggestion.includes(' ') ? `"${suggestion}"` : suggestion;
+    });
+
+    return corrections.length > 0 ? { query: corrected, corrections } : undefined;
+}
+
+/**
+ * Build the vocabulary if it has never been built (e.g. right after the migration)
+ * 
+ * @param db Database instance
+ */
+function ensureSearchTerms(db: Database.Database): void {
+    if (!hasSearchTerms(db)) {
+        const terms = rebuildSearchTerms(db);
+        logger.info('Built search vocabulary', { terms });
+    }
+}
+
+/**
+ * Suggest a replacement for one query word
+ * 
+ * @param db Database instance
+ * @param word Query word
+ * @returns Replacement (one or two words), or undefined if the word matches or has no close term
+ */
+function suggestWord(db: Database.Database, word: string): string | undefined {
+    if (!CORRECTABLE_WORD.test(word) || matchesIndex(db, `"${word}"*`)) {
+        return undefined;
+    }
+
+    // A near-miss by one edit beats splitting; otherwise "cosmosdb" prefers "cosmos db" over "cosmos"
+    const normalized = word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+    const closest = findClosestTerm(db, normalized);
+    if (closest && closest.distance <= 1) {
+        return closest.term;
+    }
+
+    return findWordSplit(db, normalized) ?? closest?.term;
+}
+
+/**
+ * Split a run-together word into two words that occur as a phrase
+ * 
+ * @param db Database instance
+ * @param word Normalized word
+ * @returns Two words separated by a space, or undefined
+ */
+function findWordSplit(db: Database.Database, word: string): string | undefined {
+    for (let i = MIN_SPLIT_LENGTH; i <= word.length - MIN_SPLIT_LENGTH; i++) {
+        const phrase = `${word.slice(0, i)} ${word.slice(i)}`;
+        if (matchesIndex(db, `"${phrase}"`)) {
+            return phrase;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Find the vocabulary term with the smallest edit distance to a word
+ * 
+ * Ties are broken by the number of updates containing the term.
+ * 
+ * @param db Database instance
+ * @param word Normalized word
+ * @returns Closest term within the allowed distance and its distance, or undefined
+ */
+function findClosestTerm(db: Database.Database, word: string): { term: string; distance: number } | undefined {
+    ensureSearchTerms(db);
+
+    const maxDistance = getMaxEditDistance(word);
+    let best: { term: string; distance: number; documents: number } | undefined;
+
+    for (const { term, documents } of findSimilarSearchTerms(db, word, CANDIDATE_LIMIT)) {
+        const distance = getEditDistance(word, term);
+        const isCloser = !best || distance < best.distance || (distance === best.distance && documents > best.documents);
+        if (distance <= maxDistance && isCloser) {
+            best = { term, distance, documents };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Allowed edits for a word: 1 up to 4 characters, 2 up to 8, 3 beyond
+ * 
+ * @param word Word
+ * @returns Maximum edit distance
+ */
+function getMaxEditDistance(word: string): number {
+    if (word.length <= 4) {
+        return 1;
+    }
+    return word.length <= 8 ? 2 : 3;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent characters as one edit each (optimal string alignment)
+ * 
+ * @param a First word
+ * @param b Second word
+ * @returns Number of edits
+ */
+function getEditDistance(a: string, b: string): number {
+    // rows[i][j]: distance between the first i characters of a and the first j of b
+    const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+    for (let j = 1; j <= b.length; j++) {
+        rows[0][j] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return rows[a.length][b.length];
+}
+
+/**
+ * Check whether an FTS5 expression matches any update
+ * 
+ * @param db Database instance
+ * @param ftsQuery FTS5 MATCH expression
+ * @returns True if at least one update matches
+ */
+function matchesIndex(db: Database.Database, ftsQuery: string): boolean {
+    return db.prepare('SELECT 1 FROM updates_fts WHERE updates_fts MATCH ? LIMIT 1').get(ftsQuery) !== undefined;
+}
@@ -0,0 +1,171 @@
+/**
+ * Sync job service
+ *
+ * Runs on-demand syncs requested by MCP clients in the background and tracks
+ * them under a job ID that clients can poll. Jobs are kept in memory only;
+ * the sync checkpoint remains the durable record of sync state.
+ */
+
+import type Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { performSync, isSyncInProgress, resolveSyncRunMode, type SyncOptions, type SyncResult } from './sync.service.js';
+import type { SyncRunMode } from '../models/sync-checkpoint.js';
+import * as logger from '../utils/logger.js';
+
+const MAX_TRACKED_JOBS = 20;
+
+/**
+ * Sync mode requested by the client
+ */
+export type SyncMode = 'differential' | 'full';
+
+/**
+ * Sync job state
+ */
+export type SyncJobStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * On-demand sync job
+ */
+export interface SyncJob {
+    jobId: string;
+    mode: SyncRunMode; // Mode the sync runs in ('initial' until the first sync has succeeded)
+    status: SyncJobStatus;
+    startedAt: string; // ISO 8601 timestamp
+    finishedAt: string | null; // ISO 8601 timestamp, null while running
+    result: SyncResult | null; // Sync result once finished
+    error: string | null; // Failure reason
+}
+
+/**
+ * Settings applied to every on-demand sync (mirrors the startup sync)
+ */
+export interface SyncJobConfig {
+    retentionStartDate?: string;
+    syncOptions?: SyncOptions;
+}
+
+/**
+ * Result of requesting a sync job
+ */
+export type StartSyncJobResult =
+    | { started: true; job: SyncJob }
+    | { started: false; job: SyncJob | null; reason: string }; // job is set when one of ours is already running
+
+// Newest last (Map preserves insertion order)
+const jobs = new Map<string, SyncJob>();
+
+/**
+ * Drop the oldest finished jobs beyond the tracking limit
+ */
+function pruneJobs(): void {
+    for (const [jobId, job] of jobs) {
+        if (jobs.size <= MAX_TRACKED_JOBS) {
+            return;
+        }
+        if (job.status !== 'running') {
+            jobs.delete(jobId);
+        }
+    }
+}
+
+/**
+ * Record the outcome of a finished job
+ */
+function finishJob(job: SyncJob, result: SyncResult): void {
+    job.status = result.success ? 'succeeded' : 'failed';
+    job.finishedAt = new Date().toISOString();
+    job.result = result;
+    job.error = result.error ?? null;
+
+    logger.info('Sync job finished', {
+        jobId: job.jobId,
+        mode: job.mode,
+        status: job.status,
+        durationMs: result.durationMs,
+    });
+}
+
+/**
+ * Start an on-demand sync in the background
+ *
+ * Only one sync runs at a time: if a job is already running it is returned
+ * instead, and a sync started elsewhere (startup, scheduler or another
+ * process) is reported as a conflict unless its lock has gone stale.
+ *
+ * @param db Database instance
+ * @param mode 'differential' (changes since the checkpoint) or 'full' (whole retention window)
+ * @param config Retention and sync options
+ * @returns The started job, or the reason nothing was started
+ */
+export function startSyncJob(
+    db: Database.Database,
+    mode: SyncMode,
+    config: SyncJobConfig = {}
+): StartSyncJobResult {
+    const runningJob = getRunningSyncJob();
+    if (runningJob) {
+        return { started: false, job: runningJob, reason: 'A sync job is already running' };
+    }
+
+    if (isSyncInProgress(db, config.syncOptions?.lockTimeoutMinutes)) {
+        return { started: false, job: null, reason: 'A background sync is already in progress' };
+    }
+
+    const syncOptions: SyncOptions = { ...config.syncOptions, full: mode === 'full' };
+    const job: SyncJob = {
+        jobId: randomUUID(),
+        mode: resolveSyncRunMode(db, syncOptions),
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        result: null,
+        error: null,
+    };
+    jobs.set(job.jobId, job);
+    pruneJobs();
+
+    logger.info('Sync job started', { jobId: job.jobId, mode: job.mode });
+
+    void performSync(db, config.retentionStartDate, syncOptions)
+        .then(result => finishJob(job, result))
+        .catch((error: Error) => {
+            job.status = 'failed';
+            job.finishedAt = new Date().toISOString();
+            job.error = error.message;
+            logger.errorWithStack('Sync job error', error, { jobId: job.jobId });
+        });
+
+    return { started: true, job };
+}
+
+/**
+ * Get a tracked sync job by ID
+ *
+ * @param jobId Job identifier
+ * @returns Job, or null if unknown (or pruned)
+ */
+export function getSyncJob(jobId: string): SyncJob | null {
+    return jobs.get(jobId) ?? null;
+}
+
+/**
+ * Get the currently running sync job, if any
+ */
+export function getRunningSyncJob(): SyncJob | null {
+    for (const job of jobs.values()) {
+        if (job.status === 'running') {
+            return job;
+        }
+    }
+    return null;
+}
+
+/**
+ * List tracked sync jobs, newest first
+ *
+ * @param limit Maximum number of jobs to return
+ */
+export function listSyncJobs(limit: number = MAX_TRACKED_JOBS): SyncJob[] {
+    return Array.from(jobs.values()).reverse().slice(0, limit);
+}
@@ -2,28 +2,61 @@
  * Sync service for Azure Updates
  * 
  * Implements differential synchronization with checkpointing, transaction safety,
- * and HTML-to-Markdown conversion.
+ * and HTML-to-Markdown conversion. A periodic reconciliation pass compares the
+ * full set of upstream IDs with the local store to tombstone withdrawn updates.
+ * 
+ * The sync lock is a lease: the owner (host:pid) renews a heartbeat while it
+ * syncs, and a lock whose heartbeat is older than the lock timeout is taken
+ * over, so a process killed mid-sync cannot block syncing forever.
  */
 
+import { hostname } from 'os';
+
 import type Database from 'better-sqlite3';
 import type { AzureUpdate } from '../models/azure-update.js';
+import type { SyncCheckpoint, SyncRunCompletion, SyncRunMode } from '../models/sync-checkpoint.js';
 import {
     getSyncCheckpoint,
     startSync,
+    renewSyncLock,
+    isSyncLockActive,
     completeSyncSuccess,
     completeSyncFailure,
+    insertSyncRun,
+    completeSyncRun,
+    setLastReconciliation,
+    getActiveUpdateIds,
+    getRemovedUpdateIds,
+    markUpdatesRemoved,
+    restoreRemovedUpdates,
+    archiveUpdateRevision,
+    getUpdateModified,
     upsertUpdate,
     replaceUpdateTags,
     replaceUpdateCategories,
     replaceUpdateProducts,
+    refreshUpdateSearchColumns,
     replaceUpdateAvailabilities,
     getUpdateCount,
+    rebuildSearchTerms,
 } from '../database/queries.js';
-import { fetchAzureUpdates } from './azure-api.service.js';
+import { fetchAzureUpdates, fetchAzureUpdateIds } from './azure-api.service.js';
 import { convertHtmlToMarkdown } from './html-converter.service.js';
+import { embedUpdates, ensureUpdateEmbeddings, type EmbeddingProvider } from './embedding.service.js';
 import * as logger from '../utils/logger.js';
 
 const INITIAL_SYNC_CHECKPOINT = '1970-01-01T00:00:00.0000000Z';
+const DEFAULT_RECONCILE_INTERVAL_HOURS = 168; // Weekly
+// Refuse to tombstone more than this share of local updates in one pass
+// (protects against truncated upstream listings)
+const MAX_REMOVAL_RATIO = 0.1;
+const MIN_REMOVAL_GUARD = 20;
+const SYNC_IN_PROGRESS_ERROR = 'Sync already in progress';
+const SYNC_LOCK_LOST_ERROR = 'Sync lock was taken over by another process';
+const DEFAULT_LOCK_TIMEOUT_MINUTES = 10;
+const MAX_LOCK_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Identifies this process as sync lock owner across processes sharing the database
+const LOCK_OWNER = `${hostname()}:${process.pid}`;
 
 /**
  * Filter updates older than retention start date based on modified and created timestamps
@@ -53,10 +86,52 @@ export interface SyncResult {
     recordsProcessed: number;
     recordsInserted: number;
     recordsUpdated: number;
+    recordsRemoved: number;
     durationMs: number;
     error?: string;
 }
 
+/**
+ * Sync options
+ */
+export interface SyncOptions {
+    reconcileIntervalHours?: number; // Hours between removed-update reconciliation passes (default: 168, 0 = every sync)
+    full?: boolean; // Re-fetch every update in the retention window instead of only changes since the checkpoint (default: false)
+    lockTimeoutMinutes?: number; // Minutes without a heartbeat after which a sync lock is considered stale (default: 10)
+    embeddings?: EmbeddingProvider; // Computes similarity search vectors for stored updates (default: none)
+}
+
+/**
+ * Sync status information derived from the checkpoint
+ */
+export interface SyncStatusInfo {
+    lastSync: string;
+    syncStatus: string;
+    recordCount: number;
+    hoursSinceSync: number;
+    durationMs: number | null; // Duration of the last finished sync
+    lastError: string | null; // Error message of the last failed sync (cleared by the next success)
+    lastReconciliation: string | null;
+    lockOwner: string | null; // host:pid of the process running a sync
+    lockHeartbeat: string | null; // Last heartbeat of the running sync
+}
+
+/**
+ * Reconciliation result information
+ */
+export interface ReconcileResult {
+    upstreamCount: number; // Number of IDs listed upstream
+    removed: number; // Local updates newly tombstoned
+    restored: number; // Tombstoned updates that reappeared upstream
+}
+
+/**
+ * Options for removed-update reconciliation
+ */
+export interface ReconcileOptions {
+    requireSyncLock?: boolean; // Write only while this process holds the sync lock (default: false)
+}
+
 /**
  * Create a sync failure result
  */
@@ -66,6 +141,7 @@ function createSyncFailureResult(startTime: number, error: string): SyncResult {
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsRemoved: 0,
         durationMs: Date.now() - startTime,
         error,
     };
@@ -97,119 +173,450 @@ function applyRetentionFilter(
 }
 
 /**
- * Calculate insert and update counts
+ * Rebuild the vocabulary used for spelling suggestions if updates were stored
+ * 
+ * A failure only degrades "did you mean" suggestions, so it does not fail the sync.
  */
-function calculateSyncCounts(
-    recordCountBefore: number,
-    recordCountAfter: number,
-    recordsProcessed: number
-): { recordsInserted: number; recordsUpdated: number } {
-    const recordsInserted = Math.max(0, recordCountAfter - recordCountBefore);
-    const recordsUpdated = recordsProcessed - recordsInserted;
-    return { recordsInserted, recordsUpdated };
+function refreshSearchTerms(db: Database.Database, result: { recordsInserted: number; recordsUpdated: number }): void {
+    if (result.recordsInserted + result.recordsUpdated === 0) {
+        return;
+    }
+
+    try {
+        const terms = rebuildSearchTerms(db);
+        logger.info('Search vocabulary rebuilt', { terms });
+    } catch (error) {
+        logger.warn('Failed to rebuild search vocabulary', { error: (error as Error).message });
+    }
+}
+
+/**
+ * Embed stored updates that have no vector from the provider's model yet
+ * 
+ * A failure only degrades similarity search, so it does not fail the sync.
+ */
+function backfillEmbeddings(db: Database.Database, embeddings: EmbeddingProvider | undefined): void {
+    if (!embeddings) {
+        return;
+    }
+
+    try {
+        ensureUpdateEmbeddings(db, embeddings);
+    } catch (error) {
+        logger.warn('Failed to compute update embeddings', { error: (error as Error).message });
+    }
+}
+
+/**
+ * Determine the kind of sync run
+ */
+function getSyncRunMode(lastSync: string, options: SyncOptions): SyncRunMode {
+    if (lastSync === INITIAL_SYNC_CHECKPOINT) {
+        return 'initial';
+    }
+    return options.full ? 'full' : 'differential';
+}
+
+/**
+ * Determine the kind of run the next performSync call would perform
+ * 
+ * @param db Database instance
+ * @param options Sync options (full resync)
+ * @returns 'initial' while there is no checkpoint yet, otherwise 'full' or 'differential'
+ */
+export function resolveSyncRunMode(db: Database.Database, options: SyncOptions = {}): SyncRunMode {
+    return getSyncRunMode(getSyncCheckpoint(db)?.lastSync || INITIAL_SYNC_CHECKPOINT, options);
+}
+
+/**
+ * Record the outcome of a sync run in sync_runs
+ * 
+ * @param status Recorded status (default: success or failed from the result)
+ * @returns The sync result, unchanged
+ */
+function finishSyncRun(
+    db: Database.Database,
+    runId: number,
+    result: SyncResult,
+    pagesFetched: number,
+    status: SyncRunCompletion['status'] = result.success ? 'success' : 'failed'
+): SyncResult {
+    completeSyncRun(db, runId, {
+        status,
+        recordsInserted: result.recordsInserted,
+        recordsUpdated: result.recordsUpdated,
+        recordsDeleted: result.recordsRemoved,
+        pagesFetched,
+        durationMs: result.durationMs,
+        errorMessage: result.error,
+    });
+
+    return result;
+}
+
+/**
+ * Oldest heartbeat that still counts as a live sync lock
+ */
+function getLockStaleBefore(lockTimeoutMinutes: number = DEFAULT_LOCK_TIMEOUT_MINUTES): string {
+    return new Date(Date.now() - lockTimeoutMinutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Take the sync lock, taking over a stale lock left by a crashed process
+ * 
+ * @returns True if the lock was acquired
+ */
+function acquireSyncLock(db: Database.Database, lockTimeoutMinutes: number): boolean {
+    const lock = startSync(db, LOCK_OWNER, getLockStaleBefore(lockTimeoutMinutes));
+
+    if (lock.takenOverFrom) {
+        logger.warn('Taking over stale sync lock', {
+            previousOwner: lock.takenOverFrom.owner,
+            lastHeartbeat: lock.takenOverFrom.heartbeat,
+            lockTimeoutMinutes,
+            owner: LOCK_OWNER,
+        });
+    }
+
+    return lock.acquired;
+}
+
+/**
+ * Renew the sync lock heartbeat periodically while a sync runs
+ * 
+ * @returns Timer to clear when the sync finishes
+ */
+function startLockHeartbeat(db: Database.Database, lockTimeoutMinutes: number): NodeJS.Timeout {
+    const intervalMs = Math.min(MAX_LOCK_HEARTBEAT_INTERVAL_MS, (lockTimeoutMinutes * 60 * 1000) / 3);
+
+    const timer = setInterval(() => {
+        if (!renewSyncLock(db, LOCK_OWNER)) {
+            logger.warn('Sync lock was taken over by another process', { owner: LOCK_OWNER });
+        }
+    }, intervalMs);
+    timer.unref();
+
+    return timer;
+}
+
+/**
+ * Renew the sync lock, failing if another process has taken it over
+ */
+function ensureSyncLockHeld(db: Database.Database): void {
+    if (!renewSyncLock(db, LOCK_OWNER)) {
+        throw new Error(SYNC_LOCK_LOST_ERROR);
+    }
+}
+
+/**
+ * Check whether another sync currently holds a live lock
+ * 
+ * @param db Database instance
+ * @param lockTimeoutMinutes Minutes without a heartbeat after which a lock is stale
+ * @returns True if a sync is in progress and its lock is not stale
+ */
+export function isSyncInProgress(db: Database.Database, lockTimeoutMinutes?: number): boolean {
+    return isSyncLockActive(db, getLockStaleBefore(lockTimeoutMinutes));
 }
 
 /**
  * Perform full or differential sync with Azure Updates API
  * 
+ * Every call is recorded in sync_runs; calls skipped because another sync
+ * holds the lock are recorded with status 'skipped'. The lock heartbeat is renewed while the sync
+ * runs; if another process takes the lock over, nothing is written.
+ * 
  * @param db Database instance
  * @param retentionStartDate Optional retention start date (ISO 8601: YYYY-MM-DD) - records older than this will be filtered out
+ * @param options Sync options (reconciliation interval, full resync)
  * @returns Sync result
  */
-export async function performSync(db: Database.Database, retentionStartDate?: string): Promise<SyncResult> {
+export async function performSync(
+    db: Database.Database,
+    retentionStartDate?: string,
+    options: SyncOptions = {}
+): Promise<SyncResult> {
     const startTime = Date.now();
 
     logger.info('Starting sync operation');
 
+    // Get checkpoint and record the run
+    const checkpoint = getSyncCheckpoint(db);
+    const lastSync = checkpoint?.lastSync || INITIAL_SYNC_CHECKPOINT;
+    const mode = getSyncRunMode(lastSync, options);
+    const runId = insertSyncRun(db, new Date(startTime).toISOString(), mode);
+    let pagesFetched = 0;
+
     // Acquire sync lock
-    const lockAcquired = startSync(db);
-    if (!lockAcquired) {
+    const lockTimeoutMinutes = options.lockTimeoutMinutes ?? DEFAULT_LOCK_TIMEOUT_MINUTES;
+    if (!acquireSyncLock(db, lockTimeoutMinutes)) {
         logger.warn('Sync already in progress, skipping');
-        return createSyncFailureResult(startTime, 'Sync already in progress');
+        return finishSyncRun(db, runId, createSyncFailureResult(startTime, SYNC_IN_PROGRESS_ERROR), pagesFetched, 'skipped');
     }
 
+    const heartbeat = startLockHeartbeat(db, lockTimeoutMinutes);
+
     try {
-        // Get checkpoint and metadata
-        const checkpoint = getSyncCheckpoint(db);
-        const lastSync = checkpoint?.lastSync || INITIAL_SYNC_CHECKPOINT;
         const recordCountBefore = getUpdateCount(db);
-        const isInitialSync = lastSync === INITIAL_SYNC_CHECKPOINT;
+        const isInitialSync = mode === 'initial';
+        const isFullSync = mode !== 'differential';
 
         logger.info('Sync checkpoint retrieved', {
             lastSync,
-            isInitialSync,
+            mode,
             recordCountBefore,
         });
 
-        // Fetch updates from API
+        // Fetch updates from API (everything within the retention window for a full sync)
         const retentionModifiedSince = retentionStartDate ? `${retentionStartDate}T00:00:00.000Z` : undefined;
         const allUpdates = await fetchAzureUpdates({
-            modifiedSince: isInitialSync ? retentionModifiedSince : lastSync,
-            includeCount: isInitialSync,
+            modifiedSince: isFullSync ? retentionModifiedSince : lastSync,
+            includeCount: isFullSync,
+            onPageFetched: () => {
+                pagesFetched++;
+            },
         });
 
         // Apply retention filter
         const updates = applyRetentionFilter(allUpdates, retentionStartDate);
 
+        // Never write if another process took the lock over while we were fetching
+        ensureSyncLockHeld(db);
+
+        // Tombstone updates withdrawn upstream (before upserting, so anything
+        // fetched above clears a tombstone set by a racing listing)
+        const recordsRemoved = await reconcileIfDue(db, checkpoint, isInitialSync, retentionStartDate, options);
+
+        // Listing upstream IDs may have taken long enough to lose the lock too
+        ensureSyncLockHeld(db);
+
+        // Updates stored while similarity search was off, or before a model change
+        backfillEmbeddings(db, options.embeddings);
+
         // Handle no updates case
         if (updates.length === 0) {
             const durationMs = Date.now() - startTime;
-            completeSyncSuccess(db, new Date().toISOString(), recordCountBefore, durationMs);
+            completeSyncSuccess(db, new Date().toISOString(), recordCountBefore, durationMs, LOCK_OWNER);
             logger.info('Sync completed - no new updates', { durationMs });
 
-            return {
+            return finishSyncRun(db, runId, {
                 success: true,
                 recordsProcessed: 0,
                 recordsInserted: 0,
                 recordsUpdated: 0,
+                recordsRemoved,
                 durationMs,
-            };
+            }, pagesFetched);
         }
 
         // Process updates
-        const result = syncUpdatesInTransaction(db, updates);
+        const result = syncUpdatesInTransaction(db, updates, options.embeddings);
         const recordCountAfter = getUpdateCount(db);
-        const { recordsInserted, recordsUpdated } = calculateSyncCounts(
-            recordCountBefore,
-            recordCountAfter,
-            result.recordsProcessed
-        );
 
         // Update checkpoint
         const latestModified = updates.reduce((latest, update) => {
             return update.modified > latest ? update.modified : latest;
         }, lastSync);
 
+        refreshSearchTerms(db, result);
+
         const durationMs = Date.now() - startTime;
-        completeSyncSuccess(db, latestModified, recordCountAfter, durationMs);
+        completeSyncSuccess(db, latestModified, recordCountAfter, durationMs, LOCK_OWNER);
 
         logger.info('Sync completed successfully', {
             recordsProcessed: result.recordsProcessed,
-            recordsInserted,
-            recordsUpdated,
+            recordsInserted: result.recordsInserted,
+            recordsUpdated: result.recordsUpdated,
+            revisionsRecorded: result.revisionsRecorded,
+            recordsRemoved,
             totalRecords: recordCountAfter,
+            pagesFetched,
             durationMs,
-            isInitialSync,
+            mode,
         });
 
-        return {
+        return finishSyncRun(db, runId, {
             success: true,
             recordsProcessed: result.recordsProcessed,
-            recordsInserted,
-            recordsUpdated,
+            recordsInserted: result.recordsInserted,
+            recordsUpdated: result.recordsUpdated,
+            recordsRemoved,
             durationMs,
-        };
+        }, pagesFetched);
     } catch (error) {
         const err = error as Error;
         const durationMs = Date.now() - startTime;
 
-        completeSyncFailure(db, err.message);
+        completeSyncFailure(db, err.message, LOCK_OWNER);
         logger.errorWithStack('Sync failed', err, { durationMs });
 
-        return createSyncFailureResult(startTime, err.message);
+        return finishSyncRun(db, runId, createSyncFailureResult(startTime, err.message), pagesFetched);
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+/**
+ * Check whether a reconciliation pass is due
+ * 
+ * @param checkpoint Current sync checkpoint
+ * @param intervalHours Hours between reconciliation passes
+ * @returns True if reconciliation should run
+ */
+function isReconciliationDue(checkpoint: SyncCheckpoint | null, intervalHours: number): boolean {
+    if (!checkpoint?.lastReconciliation) {
+        return true;
+    }
+
+    const hoursSince = (Date.now() - new Date(checkpoint.lastReconciliation).getTime()) / (1000 * 60 * 60);
+    return hoursSince >= intervalHours;
+}
+
+/**
+ * Run reconciliation when due; failures are logged and never fail the sync,
+ * except losing the sync lock while listing upstream IDs
+ * 
+ * The initial sync fetches the full catalog, so it only records the reconciliation time.
+ * 
+ * @returns Number of updates tombstoned
+ */
+async function reconcileIfDue(
+    db: Database.Database,
+    checkpoint: SyncCheckpoint | null,
+    isInitialSync: boolean,
+    retentionStartDate: string | undefined,
+    options: SyncOptions
+): Promise<number> {
+    if (isInitialSync) {
+        setLastReconciliation(db, new Date().toISOString());
+        return 0;
+    }
+
+    if (!isReconciliationDue(checkpoint, options.reconcileIntervalHours ?? DEFAULT_RECONCILE_INTERVAL_HOURS)) {
+        return 0;
+    }
+
+    try {
+        const result = await reconcileRemovedUpdates(db, retentionStartDate, { requireSyncLock: true });
+        return result.removed;
+    } catch (error) {
+        if ((error as Error).message === SYNC_LOCK_LOST_ERROR) {
+            throw error;
+        }
+        logger.warn('Reconciliation failed, continuing sync', {
+            error: (error as Error).message,
+        });
+        return 0;
     }
 }
 
+/**
+ * Detect updates deleted or unpublished upstream
+ * 
+ * Compares the full set of upstream IDs (within the retention window) with the
+ * local store. Local updates missing upstream are tombstoned with removed_at;
+ * tombstoned updates that reappear are restored. Removed updates are excluded
+ * from default searches but kept for history and explicit lookups.
+ * 
+ * @param db Database instance
+ * @param retentionStartDate Optional retention start date (ISO 8601: YYYY-MM-DD)
+ * @param options Whether the caller's sync lock must still be held when writing
+ * @returns Reconciliation result
+ */
+export async function reconcileRemovedUpdates(
+    db: Database.Database,
+    retentionStartDate?: string,
+    options: ReconcileOptions = {}
+): Promise<ReconcileResult> {
+    const modifiedSince = retentionStartDate ? `${retentionStartDate}T00:00:00.000Z` : undefined;
+    const upstreamIds = new Set(await fetchAzureUpdateIds({ modifiedSince }));
+
+    if (upstreamIds.size === 0) {
+        throw new Error('Upstream returned no update IDs; refusing to tombstone the local store');
+    }
+
+    const activeIds = getActiveUpdateIds(db);
+    const missingIds = activeIds.filter(id => !upstreamIds.has(id));
+    const reappearedIds = getRemovedUpdateIds(db).filter(id => upstreamIds.has(id));
+
+    const removalLimit = Math.max(MIN_REMOVAL_GUARD, Math.floor(activeIds.length * MAX_REMOVAL_RATIO));
+    if (missingIds.length > removalLimit) {
+        throw new Error(
+            `${missingIds.length} of ${activeIds.length} updates missing upstream exceeds the safety limit of ${removalLimit}; skipping reconciliation`
+        );
+    }
+
+    // Listing upstream IDs takes a while: check the lock in the same transaction as the writes
+    const { removed, restored } = db.transaction(() => {
+        if (options.requireSyncLock) {
+            ensureSyncLockHeld(db);
+        }
+        const now = new Date().toISOString();
+        const counts = {
+            removed: markUpdatesRemoved(db, missingIds, now),
+            restored: restoreRemovedUpdates(db, reappearedIds),
+        };
+        setLastReconciliation(db, now);
+        return counts;
+    })();
+
+    logger.info('Reconciliation completed', {
+        upstreamCount: upstreamIds.size,
+        localActive: activeIds.length,
+        removed,
+        restored,
+    });
+
+    return { upstreamCount: upstreamIds.size, removed, restored };
+}
+
+/**
+ * Store a single update with its related data
+ * 
+ * @param db Database instance
+ * @param update Update to store
+ * @returns Whether the update is new, whether its modified timestamp changed, and whether the previous version was archived as a revision
+ */
+function storeUpdate(
+    db: Database.Database,
+    update: AzureUpdate
+): { inserted: boolean; updated: boolean; archived: boolean } {
+    // T053: Convert HTML to Markdown
+    const descriptionMarkdown = update.description
+        ? convertHtmlToMarkdown(update.description)
+        : null;
+
+    const previousModified = getUpdateModified(db, update.id);
+    const inserted = previousModified === null;
+
+    // Keep the previous version before it is overwritten
+    const archived = archiveUpdateRevision(db, update.id, update.modified);
+
+    // T049: UPSERT main update record
+    upsertUpdate(db, {
+        id: update.id,
+        title: update.title,
+        description_html: update.description || '',
+        description_md: descriptionMarkdown,
+        status: update.status,
+        locale: update.locale,
+        created: update.created,
+        modified: update.modified,
+        metadata: null, // Store unknown fields as JSON if needed
+    });
+
+    // T050: Batch insert related data (replace existing)
+    replaceUpdateTags(db, update.id, update.tags || []);
+    replaceUpdateCategories(db, update.id, update.productCategories || []);
+    replaceUpdateProducts(db, update.id, update.products || []);
+    replaceUpdateAvailabilities(db, update.id, update.availabilities || []);
+
+    // One full-text index rewrite for all tags, categories and products
+    refreshUpdateSearchColumns(db, update.id);
+
+    return { inserted, updated: !inserted && previousModified !== update.modified, archived };
+}
+
 /**
  * Sync updates in a database transaction
  * 
@@ -218,43 +625,44 @@ export async function performSync(db: Database.Database, retentionStartDate?: st
  * T050: Batch insert for tags, categories, products, availabilities
  * T053: HTML-to-Markdown conversion during sync
  * 
+ * When an existing update arrives with a newer modified timestamp, the stored
+ * version (including tags, products and availabilities) is archived to
+ * update_revisions before being overwritten. Updates fetched again with an
+ * unchanged modified timestamp are rewritten but not counted as updated.
+ * 
+ * With an embedding provider, the similarity search vectors of the synced
+ * updates are computed in the same transaction.
+ * 
  * @param db Database instance
  * @param updates Updates to sync
+ * @param embeddings Optional embedding provider
  * @returns Sync statistics
  */
 function syncUpdatesInTransaction(
     db: Database.Database,
-    updates: AzureUpdate[]
-): { recordsProcessed: number } {
+    updates: AzureUpdate[],
+    embeddings?: EmbeddingProvider
+): { recordsProcessed: number; recordsInserted: number; recordsUpdated: number; revisionsRecorded: number } {
+    let recordsInserted = 0;
+    let recordsUpdated = 0;
+    let revisionsRecorded = 0;
+
     // T051: Wrap in transaction
     const syncTransaction = db.transaction((updatesToSync: AzureUpdate[]) => {
         let processed = 0;
 
         for (const update of updatesToSync) {
             try {
-                // T053: Convert HTML to Markdown
-                const descriptionMarkdown = update.description
-                    ? convertHtmlToMarkdown(update.description)
-                    : null;
-
-                // T049: UPSERT main update record
-                upsertUpdate(db, {
-                    id: update.id,
-                    title: update.title,
-                    description_html: update.description || '',
-                    description_md: descriptionMarkdown,
-                    status: update.status,
-                    locale: update.locale,
-                    created: update.created,
-                    modified: update.modified,
-                    metadata: null, // Store unknown fields as JSON if needed
-                });
-
-                // T050: Batch insert related data (replace existing)
-                replaceUpdateTags(db, update.id, update.tags || []);
-                replaceUpdateCategories(db, update.id, update.productCategories || []);
-                replaceUpdateProducts(db, update.id, update.products || []);
-                replaceUpdateAvailabilities(db, update.id, update.availabilities || []);
+                const { inserted, updated, archived } = storeUpdate(db, update);
+                if (inserted) {
+                    recordsInserted++;
+                }
+                if (updated) {
+                    recordsUpdated++;
+                }
+                if (archived) {
+                    revisionsRecorded++;
+                }
 
                 processed++;
 
@@ -279,13 +687,22 @@ function syncUpdatesInTransaction(
             }
         }
 
+        if (embeddings) {
+            embedUpdates(db, embeddings, updatesToSync.map(update => update.id));
+        }
+
         return processed;
     });
 
     // Execute transaction
     const processed = syncTransaction(updates);
 
-    return { recordsProcessed: processed };
+    return {
+        recordsProcessed: processed,
+        recordsInserted,
+        recordsUpdated,
+        revisionsRecorded,
+    };
 }
 
 /**
@@ -316,12 +733,7 @@ export function isSyncNeeded(db: Database.Database, stalenessHours: number): boo
  * @param db Database instance
  * @returns Sync status
  */
-export function getSyncStatus(db: Database.Database): {
-    lastSync: string;
-    syncStatus: string;
-    recordCount: number;
-    hoursSinceSync: number;
-} | null {
+export function getSyncStatus(db: Database.Database): SyncStatusInfo | null {
     const checkpoint = getSyncCheckpoint(db);
 
     if (!checkpoint) {
@@ -337,5 +749,239 @@ export function getSyncStatus(db: Database.Database): {
         syncStatus: checkpoint.syncStatus,
         recordCount: checkpoint.recordCount,
         hoursSinceSync: Math.round(hoursSinceSync * 10) / 10, // Round to 1 decimal
+        durationMs: checkpoint.durationMs,
+        lastError: checkpoint.errorMessage,
+        lastReconciliation: checkpoint.lastReconciliation,
+        lockOwner: checkpoint.lockOwner,
+        lockHeartbeat: checkpoint.lockHeartbeat,
+    };
+}
+
+// =============================================================================
+// Background Sync Scheduler
+// =============================================================================
+
+const DEFAULT_SCHEDULER_JITTER_RATIO = 0.1;
+const DEFAULT_SCHEDULER_MAX_BACKOFF_MINUTES = 360;
+
+/**
+ * Background sync scheduler options
+ */
+export interface SyncSchedulerOptions {
+    checkIntervalMinutes: number; // Minutes between staleness checks (0 disables the scheduler)
+    stalenessHours: number; // Sync when data is older than this
+    retentionStartDate?: string; // Passed through to performSync
+    syncOptions?: SyncOptions; // Passed through to performSync
+    jitterRatio?: number; // Random spread of each delay (default: 0.1 = ±10%)
+    maxBackoffMinutes?: number; // Cap for the delay after consecutive failures (default: 360)
+}
+
+/**
+ * Background sync scheduler status
+ */
+export interface SyncSchedulerStatus {
+    nextRunAt: string | null; // ISO 8601 timestamp of the next staleness check
+    checkIntervalMinutes: number;
+    consecutiveFailures: number;
+    syncing: boolean; // True while a scheduled sync is running
+}
+
+/**
+ * Internal scheduler state
+ */
+interface SyncSchedulerState {
+    db: Database.Database;
+    options: SyncSchedulerOptions;
+    timer: NodeJS.Timeout | null;
+    nextRunAt: number | null;
+    consecutiveFailures: number;
+    syncing: boolean;
+    stopped: boolean;
+}
+
+// One scheduler per process (the server owns a single database)
+let schedulerState: SyncSchedulerState | null = null;
+
+/**
+ * Parse the scheduler check interval from configuration
+ * 
+ * @param value Whole number of minutes (0 disables the scheduler)
+ * @returns Interval in minutes
+ * @throws Error if the value is not a whole number of minutes ≥ 0
+ */
+export function parseCheckIntervalMinutes(value: string): number {
+    const minutes = Number(value.trim());
+    if (value.trim() === '' || !Number.isInteger(minutes) || minutes < 0) {
+        throw new Error(`Invalid sync check interval "${value}": expected a whole number of minutes ≥ 0 (0 disables the scheduler)`);
+    }
+    return minutes;
+}
+
+/**
+ * Compute the delay before the next staleness check
+ * 
+ * Doubles the interval for each consecutive failure (capped at maxBackoffMinutes)
+ * and spreads the result by ±jitterRatio so that several instances do not hit
+ * the upstream API at the same moment.
+ * 
+ * @param intervalMinutes Regular check interval
+ * @param consecutiveFailures Number of failed syncs in a row
+ * @param jitterRatio Random spread (0 = none)
+ * @param maxBackoffMinutes Upper bound for the backed-off interval
+ * @param random Random source returning [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeSchedulerDelayMs(
+    intervalMinutes: number,
+    consecutiveFailures: number,
+    jitterRatio: number = DEFAULT_SCHEDULER_JITTER_RATIO,
+    maxBackoffMinutes: number = DEFAULT_SCHEDULER_MAX_BACKOFF_MINUTES,
+    random: () => number = Math.random
+): number {
+    const backoffCap = Math.max(intervalMinutes, maxBackoffMinutes);
+    const minutes = Math.min(intervalMinutes * 2 ** consecutiveFailures, backoffCap);
+    const jitter = 1 + (random() * 2 - 1) * jitterRatio;
+
+    return Math.round(minutes * 60 * 1000 * jitter);
+}
+
+/**
+ * Arm the timer for the next staleness check
+ */
+function scheduleNextRun(state: SyncSchedulerState): void {
+    const delayMs = computeSchedulerDelayMs(
+        state.options.checkIntervalMinutes,
+        state.consecutiveFailures,
+        state.options.jitterRatio,
+        state.options.maxBackoffMinutes
+    );
+
+    state.nextRunAt = Date.now() + delayMs;
+    state.timer = setTimeout(() => {
+        void runScheduledCheck(state);
+    }, delayMs);
+
+    // Never keep the process alive just for the scheduler
+    state.timer.unref();
+
+    logger.debug('Next background sync check scheduled', {
+        nextRunAt: new Date(state.nextRunAt).toISOString(),
+        consecutiveFailures: state.consecutiveFailures,
+    });
+}
+
+/**
+ * Check staleness and sync if needed, then schedule the next check
+ */
+async function runScheduledCheck(state: SyncSchedulerState): Promise<void> {
+    state.timer = null;
+    state.nextRunAt = null;
+
+    try {
+        if (isSyncNeeded(state.db, state.options.stalenessHours)) {
+            state.syncing = true;
+            logger.info('Data is stale, starting scheduled background sync', {
+                stalenessThreshold: `${state.options.stalenessHours} hours`,
+            });
+
+            const result = await performSync(state.db, state.options.retentionStartDate, state.options.syncOptions);
+
+            if (result.success) {
+                state.consecutiveFailures = 0;
+            } else if (result.error !== SYNC_IN_PROGRESS_ERROR) {
+                state.consecutiveFailures++;
+                logger.warn('Scheduled background sync failed', {
+                    error: result.error,
+                    consecutiveFailures: state.consecutiveFailures,
+                });
+            }
+        }
+    } catch (error) {
+        state.consecutiveFailures++;
+        logger.errorWithStack('Scheduled background sync error', error as Error, {
+            consecutiveFailures: state.consecutiveFailures,
+        });
+    } finally {
+        state.syncing = false;
+    }
+
+    if (!state.stopped) {
+        scheduleNextRun(state);
+    }
+}
+
+/**
+ * Start re-checking data staleness in the background
+ * 
+ * Each check runs performSync when the data is older than stalenessHours.
+ * Syncs run asynchronously, so tool calls keep being served in between.
+ * Calling this again replaces the running scheduler.
+ * 
+ * @param db Database instance
+ * @param options Scheduler options
+ * @throws Error if the check interval is not a whole number of minutes ≥ 0
+ */
+export function startSyncScheduler(db: Database.Database, options: SyncSchedulerOptions): void {
+    if (!Number.isInteger(options.checkIntervalMinutes) || options.checkIntervalMinutes < 0) {
+        // NaN would otherwise arm a timer that fires immediately, over and over
+        throw new Error(`Invalid sync check interval: ${options.checkIntervalMinutes} minutes (expected a whole number ≥ 0)`);
+    }
+
+    stopSyncScheduler();
+
+    if (options.checkIntervalMinutes <= 0) {
+        logger.info('Background sync scheduler disabled');
+        return;
+    }
+
+    schedulerState = {
+        db,
+        options,
+        timer: null,
+        nextRunAt: null,
+        consecutiveFailures: 0,
+        syncing: false,
+        stopped: false,
+    };
+    scheduleNextRun(schedulerState);
+
+    logger.info('Background sync scheduler started', {
+        checkIntervalMinutes: options.checkIntervalMinutes,
+        stalenessHours: options.stalenessHours,
+    });
+}
+
+/**
+ * Stop the background sync scheduler (an in-flight sync finishes on its own)
+ */
+export function stopSyncScheduler(): void {
+    if (!schedulerState) {
+        return;
+    }
+
+    if (schedulerState.timer) {
+        clearTimeout(schedulerState.timer);
+    }
+    schedulerState.stopped = true;
+    schedulerState = null;
+
+    logger.info('Background sync scheduler stopped');
+}
+
+/**
+ * Get the background sync scheduler status
+ * 
+ * @returns Scheduler status, or null if the scheduler is not running
+ */
+export function getSyncSchedulerStatus(): SyncSchedulerStatus | null {
+    if (!schedulerState) {
+        return null;
+    }
+
+    return {
+        nextRunAt: schedulerState.nextRunAt !== null ? new Date(schedulerState.nextRunAt).toISOString() : null,
+        checkIntervalMinutes: schedulerState.options.checkIntervalMinutes,
+        consecutiveFailures: schedulerState.consecutiveFailures,
+        syncing: schedulerState.syncing,
     };
 }
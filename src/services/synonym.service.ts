@@ -0,0 +1,176 @@
+/**
+ * Synonym service for Azure Updates search
+ * 
+ * Azure products go by several names (AKS / Azure Kubernetes Service, Entra ID /
+ * Azure Active Directory), and an announcement uses only one of them. Keyword
+ * queries are expanded with a dictionary built from:
+ * - Built-in Azure names and acronyms (BUILT_IN_SYNONYMS)
+ * - Acronyms and former names in product names, e.g. "Azure Kubernetes Service (AKS)"
+ *   or "Microsoft Entra ID (formerly Azure AD)"
+ * - Groups from the JSON file named by SEARCH_SYNONYMS_FILE
+ */
+
+import { readFileSync } from 'fs';
+import type Database from 'better-sqlite3';
+import { getAllProducts } from '../database/queries.js';
+import { toSynonymKey, type SynonymDictionary } from '../utils/query-parser.js';
+
+/**
+ * Groups of names for the same product or feature
+ */
+export const BUILT_IN_SYNONYMS: readonly (readonly string[])[] = [
+    ['AKS', 'Azure Kubernetes Service'],
+    ['ACA', 'Azure Container Apps', 'Container Apps'],
+    ['ACI', 'Azure Container Instances'],
+    ['ACR', 'Azure Container Registry'],
+    ['Entra ID', 'Microsoft Entra ID', 'Azure Active Directory', 'Azure AD', 'AAD'],
+    ['Cosmos DB', 'DocumentDB'],
+    ['AVD', 'Azure Virtual Desktop', 'Windows Virtual Desktop', 'WVD'],
+    ['VMSS', 'Virtual Machine Scale Sets'],
+    ['APIM', 'API Management'],
+    ['ADF', 'Azure Data Factory', 'Data Factory'],
+    ['ADX', 'Azure Data Explorer', 'Kusto'],
+    ['ADLS', 'Azure Data Lake Storage'],
+    ['AFD', 'Azure Front Door', 'Front Door'],
+    ['ASR', 'Azure Site Recovery', 'Site Recovery'],
+    ['AMA', 'Azure Monitor Agent'],
+    ['MMA', 'Log Analytics agent', 'Microsoft Monitoring Agent'],
+    ['AOAI', 'Azure OpenAI', 'Azure OpenAI Service'],
+    ['Microsoft Foundry', 'Azure AI Foundry', 'Azure AI Studio'],
+    ['Microsoft Sentinel', 'Azure Sentinel'],
+    ['Microsoft Defender for Cloud', 'Azure Security Center'],
+    ['Azure Synapse Analytics', 'Azure SQL Data Warehouse'],
+    ['Azure Managed Lustre', 'AMLFS'],
+];
+
+// Product name with a parenthesized suffix: "Azure Kubernetes Service (AKS)"
+const PRODUCT_ALIAS_PATTERN = /^(.+?)\s*\(([^()]+)\)$/;
+
+// Marks a former name inside the parentheses: "(formerly Azure AD)"
+const FORMER_NAME_PREFIX = /^(formerly|previously)\s+/i;
+
+// Acronym: 2-8 letters or digits with at least two capitals (AKS, APIM, AzureAD)
+const ACRONYM_PATTERN = /^(?=(?:[^A-Z]*[A-Z]){2})[A-Za-z0-9]{2,8}$/;
+
+/**
+ * Build the synonym dictionary for a database
+ * 
+ * @param db Database instance
+ * @param groups Extra synonym groups (e.g. from SEARCH_SYNONYMS_FILE)
+ * @returns Synonym dictionary
+ */
+export function getSynonymDictionary(db: Database.Database, groups: readonly (readonly string[])[] = []): SynonymDictionary {
+    return buildSynonymDictionary([...BUILT_IN_SYNONYMS, ...getProductSynonyms(getAllProducts(db)), ...groups]);
+}
+
+/**
+ * Derive synonym groups from product names with an acronym or former name in parentheses
+ * 
+ * "Azure Kubernetes Service (AKS)" gives ["Azure Kubernetes Service", "AKS"];
+ * suffixes that are neither, such as "(Preview)", are ignored.
+ * 
+ * @param products Product names
+ * @returns Synonym groups
+ */
+export function getProductSynonyms(products: string[]): string[][] {
+    const groups: string[][] = [];
+
+    for (const product of products) {
+        const match = PRODUCT_ALIAS_PATTERN.exec(product.trim());
+        if (!match) {
+            continue;
+        }
+
+        const aliases = match[2].split(/[,;]/)
+            .map(part => part.trim())
+            .filter(part => FORMER_NAME_PREFIX.test(part) || ACRONYM_PATTERN.test(part))
+            .map(part => part.replace(FORMER_NAME_PREFIX, ''));
+
+        if (aliases.length > 0) {
+            groups.push([match[1], ...aliases]);
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Build a dictionary from synonym groups
+ * 
+ * Groups sharing a name are merged, so a product listed by several sources
+ * gets every name. The first spelling of a name is kept.
+ * 
+ * @param groups Synonym groups
+ * @returns Other names per name
+ */
+export function buildSynonymDictionary(groups: readonly (readonly string[])[]): SynonymDictionary {
+    // Merged group (key → name) per key
+    const groupsByKey = new Map<string, Map<string, string>>();
+
+    for (const group of groups) {
+        const merged = new Map<string, string>();
+
+        for (const name of group.map(cleanName).filter(name => name !== '')) {
+            const key = toSynonymKey(name);
+            for (const [otherKey, otherName] of groupsByKey.get(key) ?? []) {
+                merged.set(otherKey, merged.get(otherKey) ?? otherName);
+            }
+            merged.set(key, merged.get(key) ?? name);
+        }
+
+        for (const key of merged.keys()) {
+            groupsByKey.set(key, merged);
+        }
+    }
+
+    const dictionary = new Map<string, string[]>();
+    for (const [key, group] of groupsByKey) {
+        const others = Array.from(group).filter(([otherKey]) => otherKey !== key).map(([, name]) => name);
+        if (others.length > 0) {
+            dictionary.set(key, others);
+        }
+    }
+
+    return dictionary;
+}
+
+/**
+ * Load synonym groups from a JSON file
+ * 
+ * @param path Path to a JSON array of name groups, e.g. [["AKS", "Azure Kubernetes Service"]]
+ * @returns Synonym groups
+ * @throws Error if the file cannot be read or has the wrong shape
+ */
+export function loadSynonymFile(path: string): string[][] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read synonym file ${path}: ${(error as Error).message}`);
+    }
+
+    if (!isSynonymGroups(parsed)) {
+        throw new Error(`Invalid synonym file ${path}: expected a JSON array of name groups with at least two names each, e.g. [["AKS", "Azure Kubernetes Service"]]`);
+    }
+
+    return parsed;
+}
+
+/**
+ * Check the shape of a parsed synonym file
+ */
+function isSynonymGroups(value: unknown): value is string[][] {
+    return Array.isArray(value) && value.every(group =>
+        Array.isArray(group) && group.length >= 2 && group.every(name => typeof name === 'string'));
+}
+
+/**
+ * Drop double quotes and extra spacing; names without letters or digits become empty
+ * 
+ * @param name Name from a synonym group
+ * @returns Cleaned name, or '' if it cannot be searched
+ */
+function cleanName(name: string): string {
+    const cleaned = name.replace(/"/g, ' ').replace(/\s+/g, ' ').trim();
+    return /[\p{L}\p{N}]/u.test(cleaned) ? cleaned : '';
+}
@@ -0,0 +1,131 @@
+/**
+ * MCP Tool: export_retirement_calendar
+ * 
+ * Exports retirement dates as an iCalendar (RFC 5545) feed with one all-day
+ * event per update and retirement month, to be saved as an .ics file and
+ * imported into calendar apps such as Outlook. The same feed is available as
+ * the azure-updates://calendar/retirements.ics resource.
+ * 
+ * @example Retirements of the products we use, without AI services
+ * ```json
+ * {
+ *   "products": { "anyOf": ["Azure Functions", "Azure Kubernetes Service (AKS)"] },
+ *   "productCategories": { "noneOf": ["AI + machine learning"] }
+ * }
+ * ```
+ */
+
+import type Database from 'better-sqlite3';
+import type { MultiValueFilter } from '../models/search-query.js';
+import type { RetirementCalendarFilters } from '../models/retirement-calendar.js';
+import { getRetirementCalendar } from '../services/calendar.service.js';
+import * as logger from '../utils/logger.js';
+import { validateMultiValueFilter } from '../utils/validation.js';
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+/**
+ * Validate input parameters for export_retirement_calendar tool
+ * 
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: RetirementCalendarFilters } {
+    if (input === undefined || input === null) {
+        return { valid: true, errors: [], data: {} };
+    }
+
+    if (typeof input !== 'object') {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    validateMultiValueFilter(data.products, 'products', errors);
+    validateMultiValueFilter(data.productCategories, 'productCategories', errors);
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        errors: [],
+        data: {
+            products: data.products as string[] | MultiValueFilter | undefined,
+            productCategories: data.productCategories as string[] | MultiValueFilter | undefined,
+        },
+    };
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Handle export_retirement_calendar tool invocation
+ * 
+ * @param db Database instance
+ * @param input Tool input parameters
+ * @returns MCP tool response with the iCalendar text or error
+ */
+export function handleExportRetirementCalendar(db: Database.Database, input: unknown): ToolResponse {
+    const startTime = Date.now();
+
+    logger.debug('export_retirement_calendar tool invoked', { input });
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('export_retirement_calendar validation failed', { errors: validation.errors });
+        return createErrorResponse(
+            'Validation failed',
+            validation.errors.length === 1 ? validation.errors[0] : validation.errors
+        );
+    }
+
+    try {
+        const calendar = getRetirementCalendar(db, validation.data);
+
+        logger.info('export_retirement_calendar: Calendar exported', {
+            eventCount: calendar.events.length,
+            durationMs: Date.now() - startTime,
+        });
+
+        return {
+            content: [{ type: 'text', text: calendar.ics }],
+            isError: false,
+        };
+    } catch (error) {
+        logger.error('export_retirement_calendar: Unexpected error', {
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime,
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while exporting the retirement calendar');
+    }
+}
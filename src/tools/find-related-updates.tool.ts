@@ -0,0 +1,177 @@
+/**
+ * MCP Tool: find_related_updates
+ * 
+ * Lists updates related to a given Azure update, e.g., the preview
+ * announcement before a GA or earlier retirement notices for the same
+ * product. Each related update says why it is related (shared products and
+ * categories, similar title, days apart).
+ */
+
+import type Database from 'better-sqlite3';
+import type { RelationDirection } from '../models/related-update.js';
+import { findRelatedUpdates, DEFAULT_RELATED_LIMIT } from '../services/related.service.js';
+import { formatAvailabilities } from '../utils/availability-formatter.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Input parameters for find_related_updates tool
+ */
+export interface FindRelatedUpdatesInput {
+    id: string; // Unique identifier of the Azure update (required)
+    limit?: number; // Maximum related updates (1-50, default: 10)
+    direction?: RelationDirection; // earlier, later or any (default: any)
+}
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+// Upper bound for limit
+const MAX_RELATED_LIMIT = 50;
+
+const VALID_DIRECTIONS: RelationDirection[] = ['earlier', 'later', 'any'];
+
+/**
+ * Validate input parameters for find_related_updates tool
+ * 
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: FindRelatedUpdatesInput } {
+    const errors: string[] = [];
+
+    if (typeof input !== 'object' || input === null) {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+
+    if (!('id' in data)) {
+        errors.push('id is required');
+    } else if (typeof data.id !== 'string') {
+        errors.push('id must be a string');
+    } else if (data.id.trim() === '') {
+        errors.push('id cannot be empty');
+    }
+
+    validateOptions(data, errors);
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        errors: [],
+        data: {
+            id: (data.id as string).trim(),
+            limit: data.limit as number | undefined,
+            direction: data.direction as RelationDirection | undefined,
+        },
+    };
+}
+
+/**
+ * Validate limit and direction
+ * 
+ * @param data Raw input
+ * @param errors Error array to push errors to
+ */
+function validateOptions(data: Record<string, unknown>, errors: string[]): void {
+    if (data.limit !== undefined &&
+        (typeof data.limit !== 'number' || !Number.isInteger(data.limit) || data.limit < 1 || data.limit > MAX_RELATED_LIMIT)) {
+        errors.push(`limit must be an integer between 1 and ${MAX_RELATED_LIMIT}`);
+    }
+
+    if (data.direction !== undefined && !VALID_DIRECTIONS.includes(data.direction as RelationDirection)) {
+        errors.push(`direction must be one of: ${VALID_DIRECTIONS.join(', ')}`);
+    }
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Handle find_related_updates tool invocation
+ * 
+ * @param db Database instance
+ * @param input Tool input parameters (must contain id)
+ * @returns MCP tool response with the related updates or error
+ */
+export function handleFindRelatedUpdates(db: Database.Database, input: unknown): ToolResponse {
+    const startTime = Date.now();
+
+    logger.debug('find_related_updates tool invoked', { input });
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('find_related_updates validation failed', { errors: validation.errors });
+        return createErrorResponse(
+            'Validation failed',
+            validation.errors.length === 1 ? validation.errors[0] : validation.errors
+        );
+    }
+
+    const { id, limit, direction } = validation.data;
+
+    try {
+        const result = findRelatedUpdates(db, id, { limit: limit ?? DEFAULT_RELATED_LIMIT, direction });
+
+        if (!result) {
+            logger.info('find_related_updates: Update not found', { id });
+            return createErrorResponse('Update not found', `No Azure update found with ID: ${id}`);
+        }
+
+        logger.info('find_related_updates: Related updates found', {
+            id,
+            direction: direction ?? 'any',
+            relatedCount: result.related.length,
+            durationMs: Date.now() - startTime,
+        });
+
+        // Convert availability dates from ISO 8601 to year/month for user readability
+        const formattedResult = {
+            ...result,
+            related: result.related.map(update => ({
+                ...update,
+                availabilities: formatAvailabilities(update.availabilities),
+            })),
+        };
+
+        return {
+            content: [{ type: 'text', text: JSON.stringify(formattedResult, null, 2) }],
+            isError: false,
+        };
+    } catch (error) {
+        logger.error('find_related_updates: Unexpected error', {
+            id,
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime,
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while finding related updates');
+    }
+}
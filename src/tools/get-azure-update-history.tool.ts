@@ -0,0 +1,144 @@
+/**
+ * MCP Tool: get_azure_update_history
+ * 
+ * Lists the archived revisions of an Azure update with field-level diffs,
+ * e.g., to answer "when did this retirement date slip?".
+ * 
+ * Revisions are recorded by sync whenever an update arrives with a newer
+ * modified timestamp than the stored version.
+ */
+
+import type Database from 'better-sqlite3';
+import { getUpdateHistory } from '../services/history.service.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Input parameters for get_azure_update_history tool
+ */
+export interface GetAzureUpdateHistoryInput {
+    id: string; // Unique identifier of the Azure update (required)
+    includeDescriptions?: boolean; // Include before/after description text (default: false)
+}
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+/**
+ * Validate input parameters for get_azure_update_history tool
+ * 
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: GetAzureUpdateHistoryInput } {
+    const errors: string[] = [];
+
+    if (typeof input !== 'object' || input === null) {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+
+    if (!('id' in data)) {
+        errors.push('id is required');
+    } else if (typeof data.id !== 'string') {
+        errors.push('id must be a string');
+    } else if (data.id.trim() === '') {
+        errors.push('id cannot be empty');
+    }
+
+    if (data.includeDescriptions !== undefined && typeof data.includeDescriptions !== 'boolean') {
+        errors.push('includeDescriptions must be a boolean');
+    }
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        errors: [],
+        data: {
+            id: (data.id as string).trim(),
+            includeDescriptions: data.includeDescriptions as boolean | undefined,
+        },
+    };
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Handle get_azure_update_history tool invocation
+ * 
+ * @param db Database instance
+ * @param input Tool input parameters (must contain id)
+ * @returns MCP tool response with the revision history or error
+ */
+export function handleGetAzureUpdateHistory(db: Database.Database, input: unknown): ToolResponse {
+    const startTime = Date.now();
+
+    logger.debug('get_azure_update_history tool invoked', { input });
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('get_azure_update_history validation failed', { errors: validation.errors });
+        return createErrorResponse(
+            'Validation failed',
+            validation.errors.length === 1 ? validation.errors[0] : validation.errors
+        );
+    }
+
+    const { id, includeDescriptions } = validation.data;
+
+    try {
+        const history = getUpdateHistory(db, id, { includeDescriptions });
+
+        if (!history) {
+            logger.info('get_azure_update_history: Update not found', { id });
+            return createErrorResponse('Update not found', `No Azure update found with ID: ${id}`);
+        }
+
+        logger.info('get_azure_update_history: History retrieved', {
+            id,
+            revisionCount: history.revisionCount,
+            durationMs: Date.now() - startTime,
+        });
+
+        return {
+            content: [{ type: 'text', text: JSON.stringify(history, null, 2) }],
+            isError: false,
+        };
+    } catch (error) {
+        logger.error('get_azure_update_history: Unexpected error', {
+            id,
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime,
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while retrieving the update history');
+    }
+}
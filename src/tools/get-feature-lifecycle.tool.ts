@@ -0,0 +1,196 @@
+/**
+ * MCP Tool: get_feature_lifecycle
+ * 
+ * Groups announcements about the same feature into timelines with the
+ * stages the feature went through (Private Preview, Preview, General
+ * Availability, Retirement), e.g., to answer "what has been in preview for
+ * over 18 months for the products we use?".
+ * 
+ * @example Long-running previews for some products
+ * ```json
+ * {
+ *   "products": ["Azure Kubernetes Service (AKS)", "Azure Functions"],
+ *   "stage": "Preview",
+ *   "minMonthsInStage": 18
+ * }
+ * ```
+ * 
+ * @example Timeline of the feature an update belongs to
+ * ```json
+ * {
+ *   "updateId": "536699"
+ * }
+ * ```
+ */
+
+import type Database from 'better-sqlite3';
+import { LIFECYCLE_STAGES, type FeatureLifecycleQuery, type FeatureStage } from '../models/feature-lifecycle.js';
+import { getFeatureLifecycles, type LifecycleOptions } from '../services/lifecycle.service.js';
+import { updateExists } from '../database/queries.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+// Upper bound for limit
+const MAX_FEATURE_LIMIT = 100;
+
+/**
+ * Validate input parameters for get_feature_lifecycle tool
+ * 
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: FeatureLifecycleQuery } {
+    if (input === undefined || input === null) {
+        return { valid: true, errors: [], data: {} };
+    }
+
+    if (typeof input !== 'object') {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    validateFilters(data, errors);
+    validateNumbers(data, errors);
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        errors: [],
+        data: {
+            updateId: (data.updateId as string | undefined)?.trim(),
+            products: data.products as string[] | undefined,
+            stage: data.stage as FeatureStage | undefined,
+            minMonthsInStage: data.minMonthsInStage as number | undefined,
+            limit: data.limit as number | undefined,
+        },
+    };
+}
+
+/**
+ * Validate updateId, products and stage
+ * 
+ * @param data Raw input
+ * @param errors Error array to push errors to
+ */
+function validateFilters(data: Record<string, unknown>, errors: string[]): void {
+    if (data.updateId !== undefined && (typeof data.updateId !== 'string' || data.updateId.trim() === '')) {
+        errors.push('updateId must be a non-empty string');
+    }
+
+    if (data.products !== undefined &&
+        (!Array.isArray(data.products) || !data.products.every(product => typeof product === 'string'))) {
+        errors.push('products must be an array of strings');
+    }
+
+    if (data.stage !== undefined && !LIFECYCLE_STAGES.includes(data.stage as FeatureStage)) {
+        errors.push(`stage must be one of: ${LIFECYCLE_STAGES.join(', ')}`);
+    }
+}
+
+/**
+ * Validate minMonthsInStage and limit
+ * 
+ * @param data Raw input
+ * @param errors Error array to push errors to
+ */
+function validateNumbers(data: Record<string, unknown>, errors: string[]): void {
+    if (data.minMonthsInStage !== undefined &&
+        (typeof data.minMonthsInStage !== 'number' || !Number.isInteger(data.minMonthsInStage) || data.minMonthsInStage < 0)) {
+        errors.push('minMonthsInStage must be a non-negative integer');
+    }
+
+    if (data.limit !== undefined &&
+        (typeof data.limit !== 'number' || !Number.isInteger(data.limit) || data.limit < 1 || data.limit > MAX_FEATURE_LIMIT)) {
+        errors.push(`limit must be an integer between 1 and ${MAX_FEATURE_LIMIT}`);
+    }
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Handle get_feature_lifecycle tool invocation
+ * 
+ * @param db Database instance
+ * @param input Tool input parameters
+ * @param options Feature overrides
+ * @returns MCP tool response with the feature timelines or error
+ */
+export function handleGetFeatureLifecycle(
+    db: Database.Database,
+    input: unknown,
+    options: LifecycleOptions = {}
+): ToolResponse {
+    const startTime = Date.now();
+
+    logger.debug('get_feature_lifecycle tool invoked', { input });
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('get_feature_lifecycle validation failed', { errors: validation.errors });
+        return createErrorResponse(
+            'Validation failed',
+            validation.errors.length === 1 ? validation.errors[0] : validation.errors
+        );
+    }
+
+    const query = validation.data;
+
+    try {
+        if (query.updateId !== undefined && !updateExists(db, query.updateId)) {
+            logger.info('get_feature_lifecycle: Update not found', { updateId: query.updateId });
+            return createErrorResponse('Update not found', `No Azure update found with ID: ${query.updateId}`);
+        }
+
+        const result = getFeatureLifecycles(db, query, options);
+
+        logger.info('get_feature_lifecycle: Features found', {
+            totalFeatures: result.metadata.totalFeatures,
+            returnedFeatures: result.metadata.returnedFeatures,
+            durationMs: Date.now() - startTime,
+        });
+
+        return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+            isError: false,
+        };
+    } catch (error) {
+        logger.error('get_feature_lifecycle: Unexpected error', {
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime,
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while building feature lifecycles');
+    }
+}
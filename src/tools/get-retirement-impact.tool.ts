@@ -0,0 +1,192 @@
+/**
+ * MCP Tool: get_retirement_impact
+ * 
+ * Lists upcoming retirements of the products in an inventory, grouped by
+ * urgency (overdue, less than 90 days, less than a year), with the resource
+ * counts and owners of the affected products. The inventory is passed in the
+ * request or configured on the server (INVENTORY_FILE).
+ * 
+ * @example Inventory in the request
+ * ```json
+ * {
+ *   "inventory": [
+ *     "Azure Functions",
+ *     { "product": "Azure Kubernetes Service (AKS)", "resourceCount": 12, "owners": ["platform-team"] }
+ *   ]
+ * }
+ * ```
+ * 
+ * @example Inventory configured on the server
+ * ```json
+ * {}
+ * ```
+ */
+
+import type Database from 'better-sqlite3';
+import type { InventoryEntry } from '../models/retirement-impact.js';
+import { getRetirementImpact, type ImpactOptions } from '../services/impact.service.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+/**
+ * Validate input parameters for get_retirement_impact tool
+ * 
+ * @param input Raw input from MCP client
+ * @param configured Inventory configured on the server, if any
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(
+    input: unknown,
+    configured: InventoryEntry[] | undefined
+): { valid: boolean; errors: string[]; data?: InventoryEntry[] } {
+    if (input !== undefined && input !== null && typeof input !== 'object') {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const inventory = (input as Record<string, unknown> | null | undefined)?.inventory;
+    if (inventory === undefined) {
+        return configured
+            ? { valid: true, errors: [], data: configured }
+            : { valid: false, errors: ['inventory is required because no inventory file is configured on this server'] };
+    }
+
+    if (!Array.isArray(inventory) || inventory.length === 0) {
+        return { valid: false, errors: ['inventory must be a non-empty array of product names or { product, resourceCount, owners } objects'] };
+    }
+
+    const errors: string[] = [];
+    inventory.forEach((entry, index) => validateEntry(entry, `inventory[${index}]`, errors));
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return { valid: true, errors: [], data: inventory as InventoryEntry[] };
+}
+
+/**
+ * Validate one inventory entry: a product name or an item object
+ * 
+ * @param entry Raw entry
+ * @param path Parameter path for error messages
+ * @param errors Error array to push errors to
+ */
+function validateEntry(entry: unknown, path: string, errors: string[]): void {
+    if (typeof entry === 'string') {
+        if (entry.trim() === '') {
+            errors.push(`${path} must be a non-empty product name`);
+        }
+        return;
+    }
+
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        errors.push(`${path} must be a product name or an object with product, resourceCount and owners`);
+        return;
+    }
+
+    const item = entry as Record<string, unknown>;
+
+    if (typeof item.product !== 'string' || item.product.trim() === '') {
+        errors.push(`${path}.product must be a non-empty string`);
+    }
+
+    validateItemDetails(item, path, errors);
+}
+
+/**
+ * Validate the optional resourceCount and owners of an inventory item
+ * 
+ * @param item Raw item
+ * @param path Parameter path for error messages
+ * @param errors Error array to push errors to
+ */
+function validateItemDetails(item: Record<string, unknown>, path: string, errors: string[]): void {
+    const { resourceCount, owners } = item;
+
+    if (resourceCount !== undefined &&
+        (typeof resourceCount !== 'number' || !Number.isInteger(resourceCount) || resourceCount < 0)) {
+        errors.push(`${path}.resourceCount must be a non-negative integer`);
+    }
+
+    if (owners !== undefined && (!Array.isArray(owners) || !owners.every(owner => typeof owner === 'string'))) {
+        errors.push(`${path}.owners must be an array of strings`);
+    }
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Handle get_retirement_impact tool invocation
+ * 
+ * @param db Database instance
+ * @param input Tool input parameters
+ * @param options Configured inventory
+ * @returns MCP tool response with the impact report or error
+ */
+export function handleGetRetirementImpact(
+    db: Database.Database,
+    input: unknown,
+    options: ImpactOptions = {}
+): ToolResponse {
+    const startTime = Date.now();
+
+    logger.debug('get_retirement_impact tool invoked', { input });
+
+    const validation = validateInput(input, options.inventory);
+    if (!validation.valid || !validation.data) {
+        logger.warn('get_retirement_impact validation failed', { errors: validation.errors });
+        return createErrorResponse(
+            'Validation failed',
+            validation.errors.length === 1 ? validation.errors[0] : validation.errors
+        );
+    }
+
+    try {
+        const result = getRetirementImpact(db, validation.data, options);
+
+        logger.info('get_retirement_impact: Report generated', {
+            inventoryProducts: result.metadata.inventoryProducts,
+            impactedRetirements: result.metadata.impactedRetirements,
+            durationMs: Date.now() - startTime,
+        });
+
+        return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+            isError: false,
+        };
+    } catch (error) {
+        logger.error('get_retirement_impact: Unexpected error', {
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime,
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while building the retirement impact report');
+    }
+}
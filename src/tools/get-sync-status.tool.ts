@@ -0,0 +1,132 @@
+/**
+ * MCP Tool: get_sync_status
+ *
+ * Reports the sync checkpoint (last sync, status, last error, duration,
+ * record count), the background scheduler and on-demand sync jobs. With a
+ * jobId, reports that job only, so clients can poll a sync started with
+ * trigger_sync.
+ */
+
+import type Database from 'better-sqlite3';
+import { getSyncStatus, getSyncSchedulerStatus } from '../services/sync.service.js';
+import { getSyncJob, getRunningSyncJob, listSyncJobs } from '../services/sync-job.service.js';
+import * as logger from '../utils/logger.js';
+
+const RECENT_JOB_LIMIT = 5;
+
+/**
+ * Input parameters for get_sync_status tool
+ */
+export interface GetSyncStatusInput {
+    jobId?: string; // Sync job to report (from trigger_sync)
+}
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+/**
+ * Validate input parameters for get_sync_status tool
+ *
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: GetSyncStatusInput } {
+    if (input === undefined || input === null) {
+        return { valid: true, errors: [], data: {} };
+    }
+
+    if (typeof input !== 'object') {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+
+    if (data.jobId !== undefined && (typeof data.jobId !== 'string' || data.jobId.trim() === '')) {
+        return { valid: false, errors: ['jobId must be a non-empty string'] };
+    }
+
+    return { valid: true, errors: [], data: { jobId: data.jobId?.trim() } };
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Create a successful tool response
+ */
+function createSuccessResponse(body: unknown): ToolResponse {
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: false,
+    };
+}
+
+/**
+ * Handle get_sync_status tool invocation
+ *
+ * @param db Database instance
+ * @param input Tool input parameters (optional jobId)
+ * @returns MCP tool response with the sync status or error
+ */
+export function handleGetSyncStatus(db: Database.Database, input: unknown): ToolResponse {
+    logger.debug('get_sync_status tool invoked', { input });
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('get_sync_status validation failed', { errors: validation.errors });
+        return createErrorResponse('Validation failed', validation.errors[0]);
+    }
+
+    const { jobId } = validation.data;
+
+    try {
+        if (jobId) {
+            const job = getSyncJob(jobId);
+            if (!job) {
+                return createErrorResponse(
+                    'Job not found',
+                    `No sync job found with ID: ${jobId} (jobs are kept in memory until the server restarts)`
+                );
+            }
+            return createSuccessResponse({ job });
+        }
+
+        return createSuccessResponse({
+            checkpoint: getSyncStatus(db),
+            scheduler: getSyncSchedulerStatus(),
+            runningJob: getRunningSyncJob(),
+            recentJobs: listSyncJobs(RECENT_JOB_LIMIT),
+        });
+    } catch (error) {
+        logger.error('get_sync_status: Unexpected error', {
+            jobId,
+            error: error instanceof Error ? error.message : String(error),
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while reading the sync status');
+    }
+}
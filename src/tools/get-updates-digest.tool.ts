@@ -0,0 +1,219 @@
+/**
+ * MCP Tool: get_updates_digest
+ * 
+ * Summarizes the updates created or modified in a time window, e.g., for a
+ * weekly "what's new" post: new announcements and modified updates, each
+ * sectioned by availability ring and product category with counts. Returns
+ * Markdown ready to paste into Teams (default) or the same digest as JSON.
+ * 
+ * @example Last week for some products, as Markdown
+ * ```json
+ * {
+ *   "days": 7,
+ *   "products": { "anyOf": ["Azure Functions", "Azure Kubernetes Service (AKS)"] }
+ * }
+ * ```
+ * 
+ * @example Fixed window as JSON
+ * ```json
+ * {
+ *   "since": "2026-10-12",
+ *   "until": "2026-10-19",
+ *   "format": "json"
+ * }
+ * ```
+ */
+
+import type Database from 'better-sqlite3';
+import type { MultiValueFilter } from '../models/search-query.js';
+import type { DigestFormat, UpdatesDigestQuery } from '../models/updates-digest.js';
+import { formatDigestMarkdown, getUpdatesDigest, type DigestOptions } from '../services/digest.service.js';
+import * as logger from '../utils/logger.js';
+import { isValidIsoDate, validateMultiValueFilter } from '../utils/validation.js';
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+/**
+ * Digest query with output format
+ */
+interface UpdatesDigestInput extends UpdatesDigestQuery {
+    format: DigestFormat;
+}
+
+const DIGEST_FORMATS: readonly DigestFormat[] = ['markdown', 'json'];
+
+// Upper bound for days
+const MAX_DIGEST_DAYS = 365;
+
+/**
+ * Validate input parameters for get_updates_digest tool
+ * 
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: UpdatesDigestInput } {
+    if (input === undefined || input === null) {
+        return { valid: true, errors: [], data: { format: 'markdown' } };
+    }
+
+    if (typeof input !== 'object') {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    validateWindow(data, errors);
+    validateMultiValueFilter(data.products, 'products', errors);
+    validateMultiValueFilter(data.productCategories, 'productCategories', errors);
+
+    if (data.format !== undefined && !DIGEST_FORMATS.includes(data.format as DigestFormat)) {
+        errors.push(`format must be one of: ${DIGEST_FORMATS.join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        errors: [],
+        data: {
+            since: data.since as string | undefined,
+            days: data.days as number | undefined,
+            until: data.until as string | undefined,
+            products: data.products as string[] | MultiValueFilter | undefined,
+            productCategories: data.productCategories as string[] | MultiValueFilter | undefined,
+            format: (data.format as DigestFormat | undefined) ?? 'markdown',
+        },
+    };
+}
+
+/**
+ * Validate the time window: since or days, and until
+ * 
+ * @param data Raw input
+ * @param errors Error array to push errors to
+ */
+function validateWindow(data: Record<string, unknown>, errors: string[]): void {
+    const { since, days, until } = data;
+
+    validateDate(since, 'since', errors);
+    validateDate(until, 'until', errors);
+
+    if (days !== undefined &&
+        (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_DIGEST_DAYS)) {
+        errors.push(`days must be an integer between 1 and ${MAX_DIGEST_DAYS}`);
+    }
+
+    if (since !== undefined && days !== undefined) {
+        errors.push('Use either since or days, not both');
+    }
+
+    if (isReversedWindow(since, until)) {
+        errors.push('since must not be after until');
+    }
+}
+
+/**
+ * Check whether valid since and until dates describe a window ending before it starts
+ */
+function isReversedWindow(since: unknown, until: unknown): boolean {
+    return typeof since === 'string' && typeof until === 'string' && isValidIsoDate(since) && isValidIsoDate(until) &&
+        new Date(since) > new Date(until);
+}
+
+/**
+ * Validate an ISO 8601 date parameter
+ * 
+ * @param value Date string value
+ * @param fieldName Field name for error messages
+ * @param errors Error array to push errors to
+ */
+function validateDate(value: unknown, fieldName: string, errors: string[]): void {
+    if (value !== undefined && (typeof value !== 'string' || !isValidIsoDate(value))) {
+        errors.push(`${fieldName} must be a valid ISO 8601 date`);
+    }
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Handle get_updates_digest tool invocation
+ * 
+ * @param db Database instance
+ * @param input Tool input parameters
+ * @param options Reference date for the default window
+ * @returns MCP tool response with the Markdown or JSON digest or error
+ */
+export function handleGetUpdatesDigest(
+    db: Database.Database,
+    input: unknown,
+    options: DigestOptions = {}
+): ToolResponse {
+    const startTime = Date.now();
+
+    logger.debug('get_updates_digest tool invoked', { input });
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('get_updates_digest validation failed', { errors: validation.errors });
+        return createErrorResponse(
+            'Validation failed',
+            validation.errors.length === 1 ? validation.errors[0] : validation.errors
+        );
+    }
+
+    const { format, ...query } = validation.data;
+
+    try {
+        const digest = getUpdatesDigest(db, query, options);
+
+        logger.info('get_updates_digest: Digest generated', {
+            ...digest.metadata,
+            format,
+            durationMs: Date.now() - startTime,
+        });
+
+        return {
+            content: [{
+                type: 'text',
+                text: format === 'markdown' ? formatDigestMarkdown(digest) : JSON.stringify(digest, null, 2),
+            }],
+            isError: false,
+        };
+    } catch (error) {
+        logger.error('get_updates_digest: Unexpected error', {
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime,
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while building the updates digest');
+    }
+}
@@ -0,0 +1,155 @@
+/**
+ * MCP Tool: import_inventory
+ * 
+ * Turns a resource export (the JSON output of an Azure Resource Graph query
+ * or of `az resource list`) into an inventory: the Azure Updates products of
+ * the exported resources with resource counts and, from a tag, owners. The
+ * result feeds get_retirement_impact (inventory) and products filters. Only
+ * the passed export is read; Azure is never called.
+ * 
+ * @example Summarized Resource Graph query (resources | summarize count() by type)
+ * ```json
+ * {
+ *   "resourceExport": {
+ *     "count": 2,
+ *     "data": [
+ *       { "type": "microsoft.containerservice/managedclusters", "count_": 3 },
+ *       { "type": "microsoft.web/sites", "count_": 12 }
+ *     ]
+ *   }
+ * }
+ * ```
+ * 
+ * @example az resource list output with owners from the "owner" tag
+ * ```json
+ * {
+ *   "resourceExport": [
+ *     { "type": "Microsoft.KeyVault/vaults", "name": "kv-prod", "tags": { "owner": "security-team" } }
+ *   ],
+ *   "ownerTag": "owner"
+ * }
+ * ```
+ */
+
+import { importInventory, isResourceExport } from '../services/inventory-import.service.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+/**
+ * Import inventory query parameters
+ */
+interface ImportInventoryInput {
+    resourceExport: unknown;
+    ownerTag?: string;
+}
+
+/**
+ * Validate input parameters for import_inventory tool
+ * 
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: ImportInventoryInput } {
+    if (typeof input !== 'object' || input === null) {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (data.resourceExport === undefined) {
+        errors.push('resourceExport is required');
+    } else if (!isResourceExport(data.resourceExport)) {
+        errors.push('resourceExport must be an array of resources with a type, a Resource Graph result with "data" or an ARM list with "value"');
+    }
+
+    if (data.ownerTag !== undefined && (typeof data.ownerTag !== 'string' || data.ownerTag.trim() === '')) {
+        errors.push('ownerTag must be a non-empty string');
+    }
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        errors: [],
+        data: {
+            resourceExport: data.resourceExport,
+            ownerTag: (data.ownerTag as string | undefined)?.trim(),
+        },
+    };
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Handle import_inventory tool invocation
+ * 
+ * @param input Tool input parameters
+ * @returns MCP tool response with the imported inventory or error
+ */
+export function handleImportInventory(input: unknown): ToolResponse {
+    const startTime = Date.now();
+
+    logger.debug('import_inventory tool invoked');
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('import_inventory validation failed', { errors: validation.errors });
+        return createErrorResponse(
+            'Validation failed',
+            validation.errors.length === 1 ? validation.errors[0] : validation.errors
+        );
+    }
+
+    try {
+        const result = importInventory(validation.data.resourceExport, { ownerTag: validation.data.ownerTag });
+
+        logger.info('import_inventory: Inventory imported', {
+            products: result.inventory.length,
+            unmappedTypes: result.unmappedTypes.length,
+            ...result.metadata,
+            durationMs: Date.now() - startTime,
+        });
+
+        return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+            isError: false,
+        };
+    } catch (error) {
+        logger.error('import_inventory: Unexpected error', {
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startTime,
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while importing the inventory');
+    }
+}
@@ -29,6 +29,71 @@
  * }
  * ```
  * 
+ * @example Several rings in a date range (GA or Preview in 2026-Q1)
+ * ```json
+ * {
+ *   "filters": {
+ *     "availabilityRings": ["General Availability", "Preview"],
+ *     "availabilityDateFrom": "2026-01",
+ *     "availabilityDateTo": "2026-03"
+ *   }
+ * }
+ * ```
+ * 
+ * @example Facet counts to narrow a broad search
+ * ```json
+ * {
+ *   "query": "retirement",
+ *   "facets": ["productCategories", "availabilityRings"],
+ *   "limit": 10
+ * }
+ * ```
+ * 
+ * @example Any-of / none-of filters
+ * ```json
+ * {
+ *   "filters": {
+ *     "products": { "anyOf": ["Azure Kubernetes Service (AKS)", "Azure Functions", "Azure SQL Database"] },
+ *     "productCategories": { "allOf": ["Compute"] },
+ *     "tags": { "noneOf": ["Retirements"] }
+ *   }
+ * }
+ * ```
+ * 
+ * @example Next page (pass metadata.cursor back with the same query, filters and sortBy)
+ * ```json
+ * {
+ *   "query": "retirement",
+ *   "sortBy": "retirement:asc",
+ *   "cursor": "<metadata.cursor from the previous response>"
+ * }
+ * ```
+ * 
+ * @example Boolean query with exclusion and field scoping
+ * ```json
+ * {
+ *   "query": "(product:aks OR kubernetes) AND retirement -preview"
+ * }
+ * ```
+ * 
+ * @example Snippets showing why each result matched
+ * ```json
+ * {
+ *   "query": "legacy image upgrade",
+ *   "includeSnippets": true,
+ *   "snippetOptions": { "maxTokens": 16, "startMarker": "[", "endMarker": "]" }
+ * }
+ * ```
+ * 
+ * @example Hybrid search (keyword and similarity rankings fused; needs SIMILARITY_SEARCH=true)
+ * ```json
+ * {
+ *   "query": "changes that affect private networking",
+ *   "mode": "hybrid",
+ *   "limit": 10
+ * }
+ * ```
+ * 
  * @example Keyword-only search
  * ```json
  * {
@@ -55,9 +120,11 @@
  */
 
 import type Database from 'better-sqlite3';
-import type { SearchQuery, SearchFilters } from '../models/search-query.js';
-import { searchUpdates } from '../services/search.service.js';
+import type { SearchQuery, SearchFilters, FacetField, MultiValueFilter, SearchMode } from '../models/search-query.js';
+import { searchUpdates, getCursorError, type SearchOptions } from '../services/search.service.js';
+import { getQueryError } from '../utils/query-parser.js';
 import { formatAvailabilities } from '../utils/availability-formatter.js';
+import { isValidIsoDate, validateMultiValueFilter } from '../utils/validation.js';
 import * as logger from '../utils/logger.js';
 
 // Constants for validation
@@ -71,6 +138,18 @@ const DEFAULT_LIMIT = 20;
 const MIN_LIMIT = 1;
 const MAX_LIMIT = 100;
 const MIN_OFFSET = 0;
+const VALID_FACETS: FacetField[] = [
+    'tags',
+    'products',
+    'productCategories',
+    'availabilityRings',
+    'statuses',
+    'months',
+];
+const MIN_SNIPPET_TOKENS = 1;
+const MAX_SNIPPET_TOKENS = 64;
+const MAX_SNIPPET_MARKER_LENGTH = 16;
+const VALID_MODES: SearchMode[] = ['keyword', 'similarity', 'hybrid'];
 
 /**
  * Tool input schema validation
@@ -78,19 +157,33 @@ const MIN_OFFSET = 0;
 interface ToolInput {
     query?: string;
     filters?: {
-        tags?: string[];
-        productCategories?: string[];
-        products?: string[];
+        tags?: string[] | MultiValueFilter;
+        productCategories?: string[] | MultiValueFilter;
+        products?: string[] | MultiValueFilter;
         status?: string;
         availabilityRing?: string;
+        availabilityRings?: string[];
+        availabilityDateFrom?: string;
+        availabilityDateTo?: string;
+        availabilityDateTbd?: boolean;
         modifiedFrom?: string;
         modifiedTo?: string;
         retirementFrom?: string;
         retirementTo?: string;
+        includeRemoved?: boolean;
     };
     sortBy?: string;
     limit?: number;
     offset?: number;
+    cursor?: string;
+    facets?: string[];
+    includeSnippets?: boolean;
+    snippetOptions?: {
+        maxTokens?: number;
+        startMarker?: string;
+        endMarker?: string;
+    };
+    mode?: string;
 }
 
 /**
@@ -128,11 +221,13 @@ function createErrorResponse(
  * 
  * @param db Database instance
  * @param args Tool arguments
+ * @param options Relevance ranking, synonym and embedding options
  * @returns MCP tool response
  */
 export function handleSearchAzureUpdates(
     db: Database.Database,
-    args: unknown
+    args: unknown,
+    options: SearchOptions = {}
 ): { content: Array<{ type: string; text: string }> } {
     const startTime = Date.now();
 
@@ -144,7 +239,7 @@ export function handleSearchAzureUpdates(
 
     try {
         // T028: Input validation
-        const validation = validateInput(args);
+        const validation = validateInput(args, !!options.embeddings);
 
         if (!validation.valid) {
             logger.warn('search_azure_updates validation failed', {
@@ -166,7 +261,7 @@ export function handleSearchAzureUpdates(
         });
 
         // Execute search
-        const response = searchUpdates(db, searchQuery);
+        const response = searchUpdates(db, searchQuery, options);
 
         // T030: Log search results
         const queryTime = Date.now() - startTime;
@@ -190,15 +285,22 @@ export function handleSearchAzureUpdates(
                 availabilities: formatAvailabilities(update.availabilities),
                 created: update.created,
                 modified: update.modified,
+                removedAt: update.removedAt ?? undefined,
                 relevance: update.relevanceScore,
+                snippet: update.snippet,
             })),
             metadata: {
                 total: response.metadata.totalResults,
                 limit: response.metadata.limit,
                 offset: response.metadata.offset,
                 hasMore: response.metadata.hasMore,
+                truncated: response.metadata.truncated,
+                cursor: response.metadata.cursor,
+                didYouMean: response.metadata.didYouMean,
+                expansions: response.metadata.expansions,
                 queryTime: response.metadata.queryTime,
             },
+            facets: response.facets,
         };
 
         return {
@@ -227,9 +329,10 @@ export function handleSearchAzureUpdates(
  * T028: Input validation with descriptive error messages
  * 
  * @param args Raw tool arguments
+ * @param similarityEnabled Whether similarity and hybrid modes are available
  * @returns Validation result
  */
-function validateInput(args: unknown): ValidationResult {
+function validateInput(args: unknown, similarityEnabled: boolean): ValidationResult {
     const errors: string[] = [];
 
     // Check if args is an object
@@ -258,29 +361,62 @@ function validateInput(args: unknown): ValidationResult {
         validateFilters(input.filters, errors);
     }
 
+    // Validate facets
+    if (input.facets !== undefined) {
+        validateFacets(input.facets, errors);
+    }
+
+    // Validate snippet parameters
+    validateSnippets(input, errors);
+
+    // Validate search mode
+    validateMode(input, errors, similarityEnabled);
+
     if (errors.length > 0) {
         return { valid: false, errors };
     }
 
-    // Build SearchQuery
+    const searchQuery = toSearchQuery(input);
+
+    // The cursor must come from the same query, filters and sortBy
+    const cursorError = getCursorError(searchQuery);
+    if (cursorError) {
+        return { valid: false, errors: [cursorError] };
+    }
+
+    return { valid: true, errors: [], searchQuery };
+}
+
+/**
+ * Convert validated tool input to SearchQuery
+ * 
+ * @param input Validated tool input
+ * @returns Search query
+ */
+function toSearchQuery(input: ToolInput): SearchQuery {
     const searchQuery: SearchQuery = {
         query: input.query,
         sortBy: input.sortBy as SearchQuery['sortBy'],
         limit: input.limit ?? DEFAULT_LIMIT,
         offset: input.offset ?? MIN_OFFSET,
+        cursor: input.cursor,
+        facets: input.facets as FacetField[] | undefined,
+        includeSnippets: input.includeSnippets,
+        snippetOptions: input.snippetOptions,
+        mode: input.mode as SearchMode | undefined,
     };
 
     if (input.filters) {
         searchQuery.filters = buildSearchFilters(input.filters);
     }
 
-    return { valid: true, errors: [], searchQuery };
+    return searchQuery;
 }
 
 /**
  * Build SearchFilters from validated input filters
  * 
- * Converts retirement dates to ISO 8601 (YYYY-MM-01) for internal use.
+ * Converts retirement and availability dates to ISO 8601 (YYYY-MM-01) for internal use.
  * Accepts both YYYY-MM and YYYY-MM-DD formats, normalizing to month-level.
  * Internal storage still uses ISO format; conversion is only at the API boundary.
  * 
@@ -294,30 +430,55 @@ function buildSearchFilters(inputFilters: ToolInput['filters']): SearchFilters {
 
     // Copy string filters
     if (inputFilters.status) filters.status = inputFilters.status;
-    if (inputFilters.availabilityRing) filters.availabilityRing = inputFilters.availabilityRing;
     if (inputFilters.modifiedFrom) filters.modifiedFrom = inputFilters.modifiedFrom;
     if (inputFilters.modifiedTo) filters.modifiedTo = inputFilters.modifiedTo;
 
-    // Convert retirement dates to ISO 8601 (YYYY-MM-01)
-    // Accepts both YYYY-MM and YYYY-MM-DD, always normalizes to month
-    // User provides: "2026-03" or "2026-03-15" → Internal: "2026-03-01"
-    if (inputFilters.retirementFrom) {
-        const normalizedMonth = inputFilters.retirementFrom.substring(0, 7);
-        filters.retirementFrom = `${normalizedMonth}-01`;
-    }
-    if (inputFilters.retirementTo) {
-        const normalizedMonth = inputFilters.retirementTo.substring(0, 7);
-        filters.retirementTo = `${normalizedMonth}-01`;
-    }
+    buildAvailabilityFilters(inputFilters, filters);
 
     // Copy array filters
     if (inputFilters.tags) filters.tags = inputFilters.tags;
     if (inputFilters.products) filters.products = inputFilters.products;
     if (inputFilters.productCategories) filters.productCategories = inputFilters.productCategories;
 
+    if (inputFilters.includeRemoved) filters.includeRemoved = true;
+
     return filters;
 }
 
+/**
+ * Copy availability ring, availability date and retirement date filters
+ * 
+ * A single availabilityRing is passed on as a one-element availabilityRings
+ * list so that availability dates apply to that ring.
+ * 
+ * @param inputFilters Input filter object
+ * @param filters SearchFilters object (mutated)
+ */
+function buildAvailabilityFilters(inputFilters: NonNullable<ToolInput['filters']>, filters: SearchFilters): void {
+    // Convert retirement dates to ISO 8601 (YYYY-MM-01)
+    // Accepts both YYYY-MM and YYYY-MM-DD, always normalizes to month
+    // User provides: "2026-03" or "2026-03-15" → Internal: "2026-03-01"
+    if (inputFilters.retirementFrom) filters.retirementFrom = toMonthStart(inputFilters.retirementFrom);
+    if (inputFilters.retirementTo) filters.retirementTo = toMonthStart(inputFilters.retirementTo);
+
+    const rings = inputFilters.availabilityRings ?? (inputFilters.availabilityRing ? [inputFilters.availabilityRing] : []);
+    if (rings.length > 0) filters.availabilityRings = rings;
+
+    if (inputFilters.availabilityDateFrom) filters.availabilityDateFrom = toMonthStart(inputFilters.availabilityDateFrom);
+    if (inputFilters.availabilityDateTo) filters.availabilityDateTo = toMonthStart(inputFilters.availabilityDateTo);
+    if (inputFilters.availabilityDateTbd) filters.availabilityDateTbd = true;
+}
+
+/**
+ * Normalize a YYYY-MM or YYYY-MM-DD date to the first of its month
+ * 
+ * @param value Validated month-level date
+ * @returns ISO 8601 date (YYYY-MM-01)
+ */
+function toMonthStart(value: string): string {
+    return `${value.substring(0, 7)}-01`;
+}
+
 /**
  * Validate pagination parameters
  * 
@@ -340,6 +501,24 @@ function validatePagination(input: ToolInput, errors: string[]): void {
             errors.push('offset must be non-negative');
         }
     }
+
+    if (input.cursor !== undefined) {
+        validateCursor(input, errors);
+    }
+}
+
+/**
+ * Validate cursor parameter (its match with the query is checked after conversion)
+ * 
+ * @param input Tool input
+ * @param errors Error array to push errors to
+ */
+function validateCursor(input: ToolInput, errors: string[]): void {
+    if (typeof input.cursor !== 'string' || input.cursor === '') {
+        errors.push('cursor must be a non-empty string (metadata.cursor from a previous response)');
+    } else if (input.offset !== undefined && input.offset !== MIN_OFFSET) {
+        errors.push('cursor cannot be combined with offset; the cursor already marks the position');
+    }
 }
 
 /**
@@ -349,8 +528,18 @@ function validatePagination(input: ToolInput, errors: string[]): void {
  * @param errors Error array to push errors to
  */
 function validateQueryParams(input: ToolInput, errors: string[]): void {
-    if (input.query !== undefined && typeof input.query !== 'string') {
+    if (input.query === undefined) {
+        return;
+    }
+
+    if (typeof input.query !== 'string') {
         errors.push('query must be a string');
+        return;
+    }
+
+    const queryError = getQueryError(input.query);
+    if (queryError) {
+        errors.push(queryError);
     }
 }
 
@@ -367,6 +556,7 @@ function validateSortBy(sortBy: unknown, errors: string[]): void {
     }
 
     const validSortOptions = [
+        'relevance',
         'modified:desc',
         'modified:asc',
         'created:desc',
@@ -380,6 +570,117 @@ function validateSortBy(sortBy: unknown, errors: string[]): void {
     }
 }
 
+/**
+ * Validate facets parameter
+ * 
+ * @param facets Facet names
+ * @param errors Error array to push errors to
+ */
+function validateFacets(facets: unknown, errors: string[]): void {
+    if (!Array.isArray(facets) || !facets.every(facet => VALID_FACETS.includes(facet as FacetField))) {
+        errors.push(`facets must be an array containing any of: ${VALID_FACETS.join(', ')}`);
+    }
+}
+
+/**
+ * Validate mode
+ * 
+ * @param input Tool input
+ * @param errors Error array to push errors to
+ * @param similarityEnabled Whether similarity and hybrid modes are available
+ */
+function validateMode(input: ToolInput, errors: string[], similarityEnabled: boolean): void {
+    if (input.mode === undefined || input.mode === 'keyword') {
+        return;
+    }
+
+    if (!VALID_MODES.includes(input.mode as SearchMode)) {
+        errors.push(`mode must be one of: ${VALID_MODES.join(', ')}`);
+    } else if (!similarityEnabled) {
+        errors.push(`mode "${input.mode}" is not available because similarity search is disabled on this server; use mode "keyword"`);
+    } else {
+        validateRankedSearchParams(input, input.mode, errors);
+    }
+}
+
+/**
+ * Validate the parameters of a similarity or hybrid search
+ * 
+ * @param input Tool input
+ * @param mode Similarity or hybrid
+ * @param errors Error array to push errors to
+ */
+function validateRankedSearchParams(input: ToolInput, mode: string, errors: string[]): void {
+    if (typeof input.query !== 'string' || input.query.trim() === '') {
+        errors.push(`mode "${mode}" requires a query`);
+    }
+    if (input.cursor !== undefined) {
+        errors.push(`cursor is not supported with mode "${mode}"; page with offset instead`);
+    }
+    if (input.sortBy !== undefined && input.sortBy !== 'relevance') {
+        errors.push(`sortBy is not supported with mode "${mode}"; results are ordered by similarity`);
+    }
+}
+
+/**
+ * Validate includeSnippets and snippetOptions
+ * 
+ * @param input Tool input
+ * @param errors Error array to push errors to
+ */
+function validateSnippets(input: ToolInput, errors: string[]): void {
+    if (input.includeSnippets !== undefined && typeof input.includeSnippets !== 'boolean') {
+        errors.push('includeSnippets must be a boolean');
+    }
+
+    if (input.snippetOptions !== undefined) {
+        validateSnippetOptions(input.snippetOptions, errors);
+    }
+}
+
+/**
+ * Validate snippet length and markers
+ * 
+ * @param options Snippet options input
+ * @param errors Error array to push errors to
+ */
+function validateSnippetOptions(options: NonNullable<ToolInput['snippetOptions']>, errors: string[]): void {
+    if (typeof options !== 'object' || options === null) {
+        errors.push('snippetOptions must be an object');
+        return;
+    }
+
+    if (options.maxTokens !== undefined && !isSnippetLength(options.maxTokens)) {
+        errors.push(`snippetOptions.maxTokens must be an integer between ${MIN_SNIPPET_TOKENS} and ${MAX_SNIPPET_TOKENS}`);
+    }
+
+    for (const field of ['startMarker', 'endMarker'] as const) {
+        if (options[field] !== undefined && !isSnippetMarker(options[field])) {
+            errors.push(`snippetOptions.${field} must be a string of at most ${MAX_SNIPPET_MARKER_LENGTH} characters`);
+        }
+    }
+}
+
+/**
+ * Check a snippet length (words per snippet)
+ * 
+ * @param value Value to check
+ * @returns True if value is an integer in the allowed range
+ */
+function isSnippetLength(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) >= MIN_SNIPPET_TOKENS && (value as number) <= MAX_SNIPPET_TOKENS;
+}
+
+/**
+ * Check a snippet highlight marker
+ * 
+ * @param value Value to check
+ * @returns True if value is a string of allowed length
+ */
+function isSnippetMarker(value: unknown): boolean {
+    return typeof value === 'string' && value.length <= MAX_SNIPPET_MARKER_LENGTH;
+}
+
 /**
  * Validate filter parameters
  * 
@@ -395,52 +696,81 @@ function validateFilters(
         return;
     }
 
-    // Validate array filters
-    validateArrayFilter(filters.tags, 'tags', errors);
-    validateArrayFilter(filters.productCategories, 'productCategories', errors);
-    validateArrayFilter(filters.products, 'products', errors);
+    // Validate multi-valued filters
+    validateMultiValueFilter(filters.tags, 'filters.tags', errors);
+    validateMultiValueFilter(filters.productCategories, 'filters.productCategories', errors);
+    validateMultiValueFilter(filters.products, 'filters.products', errors);
 
     // Validate string filters
     if (filters.status !== undefined && typeof filters.status !== 'string') {
         errors.push('filters.status must be a string');
     }
 
-    // Validate availability ring
-    if (filters.availabilityRing !== undefined) {
-        if (typeof filters.availabilityRing !== 'string') {
-            errors.push('filters.availabilityRing must be a string');
-        } else if (!VALID_AVAILABILITY_RINGS.includes(filters.availabilityRing as typeof VALID_AVAILABILITY_RINGS[number])) {
-            errors.push(`filters.availabilityRing must be one of: ${VALID_AVAILABILITY_RINGS.join(', ')}`);
-        }
-    }
+    // Validate availability rings and dates
+    validateAvailabilityFilters(filters, errors);
 
     // Validate date filters
     validateDateFilter(filters.modifiedFrom, 'modifiedFrom', errors);
     validateDateFilter(filters.modifiedTo, 'modifiedTo', errors);
     validateDateFilter(filters.retirementFrom, 'retirementFrom', errors);
     validateDateFilter(filters.retirementTo, 'retirementTo', errors);
+
+    if (filters.includeRemoved !== undefined && typeof filters.includeRemoved !== 'boolean') {
+        errors.push('filters.includeRemoved must be a boolean');
+    }
 }
 
 /**
- * Validate an array filter parameter
+ * Validate availability ring and availability date filters
  * 
- * @param value Filter value
- * @param fieldName Field name for error messages
+ * @param filters Filter input
  * @param errors Error array to push errors to
  */
-function validateArrayFilter(
-    value: unknown,
-    fieldName: string,
+function validateAvailabilityFilters(
+    filters: NonNullable<ToolInput['filters']>,
     errors: string[]
 ): void {
-    if (value === undefined) {
-        return;
+    validateAvailabilityRings(filters, errors);
+
+    validateDateFilter(filters.availabilityDateFrom, 'availabilityDateFrom', errors);
+    validateDateFilter(filters.availabilityDateTo, 'availabilityDateTo', errors);
+
+    if (filters.availabilityDateTbd !== undefined) {
+        if (typeof filters.availabilityDateTbd !== 'boolean') {
+            errors.push('filters.availabilityDateTbd must be a boolean');
+        } else if (filters.availabilityDateTbd && (filters.availabilityDateFrom || filters.availabilityDateTo)) {
+            errors.push('filters.availabilityDateTbd cannot be combined with availabilityDateFrom/availabilityDateTo');
+        }
+    }
+}
+
+/**
+ * Validate availabilityRing and availabilityRings
+ * 
+ * @param filters Filter input
+ * @param errors Error array to push errors to
+ */
+function validateAvailabilityRings(
+    filters: NonNullable<ToolInput['filters']>,
+    errors: string[]
+): void {
+    const isValidRing = (ring: unknown): boolean =>
+        VALID_AVAILABILITY_RINGS.includes(ring as typeof VALID_AVAILABILITY_RINGS[number]);
+
+    if (filters.availabilityRing !== undefined) {
+        if (typeof filters.availabilityRing !== 'string') {
+            errors.push('filters.availabilityRing must be a string');
+        } else if (!isValidRing(filters.availabilityRing)) {
+            errors.push(`filters.availabilityRing must be one of: ${VALID_AVAILABILITY_RINGS.join(', ')}`);
+        }
     }
 
-    if (!Array.isArray(value)) {
-        errors.push(`filters.${fieldName} must be an array`);
-    } else if (!value.every(item => typeof item === 'string')) {
-        errors.push(`filters.${fieldName} must be an array of strings`);
+    if (filters.availabilityRings !== undefined) {
+        if (!Array.isArray(filters.availabilityRings) || !filters.availabilityRings.every(isValidRing)) {
+            errors.push(`filters.availabilityRings must be an array containing any of: ${VALID_AVAILABILITY_RINGS.join(', ')}`);
+        } else if (filters.availabilityRing !== undefined) {
+            errors.push('Use either filters.availabilityRing or filters.availabilityRings, not both');
+        }
     }
 }
 
@@ -448,7 +778,7 @@ function validateArrayFilter(
  * Validate a date filter parameter
  * 
  * For modifiedFrom/To: ISO 8601 format (YYYY-MM-DD or full ISO timestamp)
- * For retirementFrom/To: YYYY-MM or YYYY-MM-DD format (month-level)
+ * For retirementFrom/To and availabilityDateFrom/To: YYYY-MM or YYYY-MM-DD format (month-level)
  *   - Both formats accepted for convenience; normalized to month internally
  *   - Example: "2026-03" or "2026-03-15" both represent March 2026
  * 
@@ -470,8 +800,8 @@ function validateDateFilter(
         return;
     }
 
-    if (fieldName.startsWith('retirement')) {
-        // retirementFrom/To can be YYYY-MM or YYYY-MM-DD (both normalized to month)
+    if (fieldName.startsWith('retirement') || fieldName.startsWith('availabilityDate')) {
+        // retirementFrom/To and availabilityDateFrom/To can be YYYY-MM or YYYY-MM-DD (both normalized to month)
         if (!isValidRetirementDate(value)) {
             errors.push(`filters.${fieldName} must be in YYYY-MM or YYYY-MM-DD format (e.g., 2026-03 or 2026-03-15 for March 2026)`);
         }
@@ -495,14 +825,3 @@ function isValidRetirementDate(dateString: string): boolean {
     const pattern = /^\d{4}-(?:0[1-9]|1[0-2])(?:-(?:0[1-9]|[12]\d|3[01]))?$/;
     return pattern.test(dateString);
 }
-
-/**
- * Validate ISO 8601 date string
- * 
- * @param dateString Date string to validate
- * @returns True if valid ISO 8601 date
- */
-function isValidIsoDate(dateString: string): boolean {
-    const date = new Date(dateString);
-    return !isNaN(date.getTime()) && dateString.includes('-');
-}
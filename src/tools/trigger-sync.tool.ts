@@ -0,0 +1,134 @@
+/**
+ * MCP Tool: trigger_sync
+ *
+ * Starts a differential or full resync with the Azure Updates API in the
+ * background and returns a job ID that can be polled with get_sync_status.
+ */
+
+import type Database from 'better-sqlite3';
+import { startSyncJob, type SyncJob, type SyncJobConfig, type SyncMode } from '../services/sync-job.service.js';
+import * as logger from '../utils/logger.js';
+
+const VALID_MODES: SyncMode[] = ['differential', 'full'];
+
+/**
+ * Input parameters for trigger_sync tool
+ */
+export interface TriggerSyncInput {
+    mode?: SyncMode; // 'differential' (default) or 'full'
+}
+
+/**
+ * MCP tool response format
+ */
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+/**
+ * Error response body
+ */
+interface ErrorResponse {
+    error: string;
+    details: string | string[];
+}
+
+/**
+ * Validate input parameters for trigger_sync tool
+ *
+ * @param input Raw input from MCP client
+ * @returns Validation result with errors if invalid
+ */
+function validateInput(input: unknown): { valid: boolean; errors: string[]; data?: TriggerSyncInput } {
+    if (input === undefined || input === null) {
+        return { valid: true, errors: [], data: {} };
+    }
+
+    if (typeof input !== 'object') {
+        return { valid: false, errors: ['Input must be an object'] };
+    }
+
+    const data = input as Record<string, unknown>;
+
+    if (data.mode !== undefined && !VALID_MODES.includes(data.mode as SyncMode)) {
+        return { valid: false, errors: [`mode must be one of: ${VALID_MODES.join(', ')}`] };
+    }
+
+    return { valid: true, errors: [], data: { mode: data.mode as SyncMode | undefined } };
+}
+
+/**
+ * Create an error tool response
+ */
+function createErrorResponse(error: string, details: string | string[]): ToolResponse {
+    const body: ErrorResponse = { error, details };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: true,
+    };
+}
+
+/**
+ * Create a tool response describing a sync job
+ */
+function createJobResponse(job: SyncJob, alreadyRunning: boolean, message: string): ToolResponse {
+    const body = {
+        jobId: job.jobId,
+        mode: job.mode,
+        status: job.status,
+        startedAt: job.startedAt,
+        alreadyRunning,
+        message,
+    };
+    return {
+        content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+        isError: false,
+    };
+}
+
+/**
+ * Handle trigger_sync tool invocation
+ *
+ * @param db Database instance
+ * @param input Tool input parameters
+ * @param config Retention and sync options applied to the sync
+ * @returns MCP tool response with the job ID or error
+ */
+export function handleTriggerSync(db: Database.Database, input: unknown, config: SyncJobConfig = {}): ToolResponse {
+    logger.debug('trigger_sync tool invoked', { input });
+
+    const validation = validateInput(input);
+    if (!validation.valid || !validation.data) {
+        logger.warn('trigger_sync validation failed', { errors: validation.errors });
+        return createErrorResponse('Validation failed', validation.errors[0]);
+    }
+
+    const mode = validation.data.mode ?? 'differential';
+
+    try {
+        const outcome = startSyncJob(db, mode, config);
+
+        if (!outcome.started) {
+            logger.info('trigger_sync: Sync not started', { reason: outcome.reason });
+
+            // Point the client at the job that is already running
+            if (outcome.job) {
+                return createJobResponse(outcome.job, true, `${outcome.reason}; poll get_sync_status with this jobId`);
+            }
+
+            return createErrorResponse('Sync already in progress', `${outcome.reason}; check get_sync_status and retry later`);
+        }
+
+        return createJobResponse(outcome.job, false, 'Sync started; poll get_sync_status with this jobId');
+    } catch (error) {
+        logger.error('trigger_sync: Unexpected error', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+
+        return createErrorResponse('Internal error', 'An unexpected error occurred while starting the sync');
+    }
+}
@@ -0,0 +1,427 @@
+/**
+ * HTTP transport for the MCP server
+ *
+ * Serves the MCP server over Streamable HTTP (`/mcp`) with a legacy
+ * HTTP+SSE fallback (`GET /sse` + `POST /messages`) so that one shared
+ * instance can serve several clients. Each client session gets its own
+ * MCP server instance on top of the shared database.
+ *
+ * Endpoints:
+ * - POST/GET/DELETE /mcp: Streamable HTTP (stateful sessions)
+ * - GET /sse, POST /messages?sessionId=...: deprecated HTTP+SSE transport
+ * - GET /health: liveness and sync status (never requires auth; when a
+ *   token is configured, only authorized callers get the details)
+ *
+ * Streamable HTTP sessions that see no request for the idle timeout are
+ * closed, so abandoned clients do not keep their MCP server alive.
+ */
+
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type Database from 'better-sqlite3';
+
+import { getSyncStatus } from '../services/sync.service.js';
+import * as logger from '../utils/logger.js';
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpTransportConfig {
+    host: string;
+    port: number; // 0 picks a free port
+    authToken?: string; // When set, MCP endpoints require `Authorization: Bearer <token>`
+    database: Database.Database;
+    version: string;
+    createServer: () => Server; // Factory for one MCP server per client session
+    sessionIdleTimeoutMs?: number; // Close Streamable HTTP sessions idle this long (default: 30 minutes)
+}
+
+/**
+ * Running HTTP transport
+ */
+export interface HttpTransportHandle {
+    url: string; // Base URL, e.g., http://127.0.0.1:3000
+    activeSessions: () => number;
+    close: () => Promise<void>;
+}
+
+/**
+ * Per-session state
+ */
+interface Session {
+    transport: StreamableHTTPServerTransport | SSEServerTransport;
+    server: Server;
+    openRequests: number; // Requests still being answered (including open GET streams)
+    idleTimer?: NodeJS.Timeout; // Closes the session once it has been idle too long
+}
+
+/**
+ * Error raised while reading a request body
+ */
+class RequestBodyError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'RequestBodyError';
+    }
+}
+
+/**
+ * Start serving the MCP server over HTTP
+ *
+ * @param config Transport configuration
+ * @returns Handle with the bound URL and a close function
+ */
+export async function startHttpTransport(config: HttpTransportConfig): Promise<HttpTransportHandle> {
+    const sessions = new Map<string, Session>();
+
+    const httpServer = createServer((req, res) => {
+        handleHttpRequest(config, sessions, req, res).catch((error: unknown) => {
+            if (error instanceof RequestBodyError && !res.headersSent) {
+                sendJsonRpcError(res, error.statusCode, -32700, error.message);
+                return;
+            }
+            logger.error('HTTP request failed', {
+                method: req.method,
+                url: req.url,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, -32603, 'Internal server error');
+            } else {
+                res.end();
+            }
+        });
+    });
+
+    await listen(httpServer, config.host, config.port);
+
+    const address = httpServer.address() as AddressInfo;
+    const url = `http://${formatHost(address.address)}:${address.port}`;
+
+    logger.info('HTTP transport listening', {
+        url,
+        mcpEndpoint: `${url}${MCP_PATH}`,
+        sseEndpoint: `${url}${SSE_PATH}`,
+        authRequired: Boolean(config.authToken),
+    });
+
+    return {
+        url,
+        activeSessions: () => sessions.size,
+        close: async (): Promise<void> => {
+            const openSessions = Array.from(sessions.values());
+            sessions.clear();
+            openSessions.forEach(session => clearTimeout(session.idleTimer));
+            await Promise.allSettled(openSessions.map(session => session.server.close()));
+            httpServer.closeAllConnections();
+            await new Promise<void>((resolve, reject) => {
+                httpServer.close(error => (error ? reject(error) : resolve()));
+            });
+            logger.info('HTTP transport closed');
+        },
+    };
+}
+
+/**
+ * Route an incoming HTTP request
+ */
+async function handleHttpRequest(
+    config: HttpTransportConfig,
+    sessions: Map<string, Session>,
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+        handleHealth(config, sessions, isAuthorized(req, config.authToken), res);
+        return;
+    }
+
+    if (pathname !== MCP_PATH && pathname !== SSE_PATH && pathname !== SSE_MESSAGES_PATH) {
+        sendJson(res, 404, { error: 'Not found' });
+        return;
+    }
+
+    if (!isAuthorized(req, config.authToken)) {
+        logger.warn('Rejected unauthorized HTTP request', { method: req.method, path: pathname });
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+        return;
+    }
+
+    if (pathname === MCP_PATH) {
+        await handleStreamableHttp(config, sessions, req, res);
+    } else if (pathname === SSE_PATH) {
+        await handleSseConnect(config, sessions, req, res);
+    } else {
+        await handleSseMessage(sessions, searchParams.get('sessionId'), req, res);
+    }
+}
+
+/**
+ * Health endpoint: reports liveness and the current sync status
+ *
+ * Version, sessions and sync status (lock owner, last error) are left out
+ * for unauthorized callers.
+ */
+function handleHealth(
+    config: HttpTransportConfig,
+    sessions: Map<string, Session>,
+    authorized: boolean,
+    res: ServerResponse
+): void {
+    let sync: ReturnType<typeof getSyncStatus> = null;
+    try {
+        sync = getSyncStatus(config.database);
+    } catch (error) {
+        logger.warn('Health check could not read sync status', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        sendJson(res, 503, authorized ? { status: 'unavailable', version: config.version } : { status: 'unavailable' });
+        return;
+    }
+
+    if (!authorized) {
+        sendJson(res, 200, { status: 'ok' });
+        return;
+    }
+
+    sendJson(res, 200, {
+        status: 'ok',
+        version: config.version,
+        activeSessions: sessions.size,
+        sync,
+    });
+}
+
+/**
+ * Handle a Streamable HTTP request (POST, GET or DELETE on /mcp)
+ */
+async function handleStreamableHttp(
+    config: HttpTransportConfig,
+    sessions: Map<string, Session>,
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+        const session = sessions.get(sessionId);
+        if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+            sendJsonRpcError(res, 404, -32001, 'Session not found');
+            return;
+        }
+        trackSessionRequest(config, sessions, session, res);
+        await session.transport.handleRequest(req, res, body);
+        return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+    }
+
+    const server = config.createServer();
+    const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: (): string => randomUUID(),
+        onsessioninitialized: (id): void => {
+            const session: Session = { transport, server, openRequests: 0 };
+            sessions.set(id, session);
+            trackSessionRequest(config, sessions, session, res);
+            logger.info('MCP HTTP session started', { sessionId: id, transport: 'streamable-http' });
+        },
+    });
+
+    transport.onclose = (): void => {
+        const id = transport.sessionId;
+        clearTimeout(id ? sessions.get(id)?.idleTimer : undefined);
+        if (id && sessions.delete(id)) {
+            logger.info('MCP HTTP session closed', { sessionId: id, transport: 'streamable-http' });
+        }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Count a request against a Streamable HTTP session and restart its idle
+ * timer once the session has no open requests left
+ */
+function trackSessionRequest(
+    config: HttpTransportConfig,
+    sessions: Map<string, Session>,
+    session: Session,
+    res: ServerResponse
+): void {
+    const idleTimeoutMs = config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.on('close', () => {
+        session.openRequests--;
+        const id = session.transport.sessionId;
+        if (session.openRequests > 0 || !id || sessions.get(id) !== session) {
+            return; // Still busy, or already closed
+        }
+        session.idleTimer = setTimeout(() => {
+            logger.info('Closing idle MCP HTTP session', { sessionId: id, idleTimeoutMs });
+            void session.server.close();
+        }, idleTimeoutMs);
+        session.idleTimer.unref();
+    });
+}
+
+/**
+ * Open a legacy HTTP+SSE session (GET /sse)
+ */
+async function handleSseConnect(
+    config: HttpTransportConfig,
+    sessions: Map<string, Session>,
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+    }
+
+    const server = config.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const id = transport.sessionId;
+
+    sessions.set(id, { transport, server, openRequests: 0 });
+    transport.onclose = (): void => {
+        if (sessions.delete(id)) {
+            logger.info('MCP HTTP session closed', { sessionId: id, transport: 'sse' });
+        }
+    };
+    res.on('close', () => {
+        void server.close();
+    });
+
+    logger.info('MCP HTTP session started', { sessionId: id, transport: 'sse' });
+    await server.connect(transport);
+}
+
+/**
+ * Deliver a client message for a legacy HTTP+SSE session (POST /messages)
+ */
+async function handleSseMessage(
+    sessions: Map<string, Session>,
+    sessionId: string | null,
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+    }
+
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+    }
+
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+}
+
+/**
+ * Check the bearer token (constant-time comparison)
+ */
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+    if (!authToken) {
+        return true;
+    }
+
+    const header = req.headers.authorization;
+    const match = header ? /^Bearer\s+(.+)$/i.exec(header) : null;
+    if (!match) {
+        return false;
+    }
+
+    const provided = Buffer.from(match[1].trim());
+    const expected = Buffer.from(authToken);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        const buffer = chunk as Buffer;
+        size += buffer.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new RequestBodyError('Request body too large', 413);
+        }
+        chunks.push(buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (text.trim() === '') {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(text) as unknown;
+    } catch {
+        throw new RequestBodyError('Invalid JSON in request body', 400);
+    }
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Write a JSON-RPC error response without a request ID
+ */
+function sendJsonRpcError(res: ServerResponse, statusCode: number, code: number, message: string): void {
+    sendJson(res, statusCode, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Start listening and resolve once the port is bound
+ */
+function listen(httpServer: HttpServer, host: string, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, host, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+}
+
+/**
+ * Format a bound address for use in a URL
+ */
+function formatHost(address: string): string {
+    return address.includes(':') ? `[${address}]` : address;
+}
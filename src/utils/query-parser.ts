@@ -0,0 +1,631 @@
+/**
+ * Keyword query parser
+ * 
+ * Compiles the `query` parameter of search_azure_updates into an FTS5 MATCH
+ * expression. Every word and phrase is quoted, so user input can never reach
+ * FTS5 as raw syntax.
+ * 
+ * Grammar:
+ * - Plain words are combined with OR and match as prefixes (kubernetes → "kubernetes"*)
+ * - "quoted text" matches the exact phrase
+ * - AND binds tighter than OR; adjacent terms without an operator are OR-ed
+ * - -term and NOT term exclude matches from the surrounding group
+ *   (the whole query or the enclosing parentheses)
+ * - ( ... ) groups terms
+ * - title:, product:, tag: and category: limit a word, phrase or group to one field
+ * 
+ * Operators are case-sensitive (AND, OR, NOT), so lowercase "and", "or" and
+ * "not" stay ordinary words.
+ * 
+ * With a synonym dictionary, a word or phrase that names a known product also
+ * matches its other names (aks → "aks"* OR "azure kubernetes service"), and
+ * consecutive words forming a known multi-word name count as one phrase.
+ */
+
+import type { SynonymExpansion } from '../models/search-query.js';
+
+// Field prefixes (singular and plural) → FTS column
+const FIELD_COLUMNS: Record<string, string> = {
+    title: 'title',
+    product: 'products',
+    products: 'products',
+    tag: 'tags',
+    tags: 'tags',
+    category: 'categories',
+    categories: 'categories',
+};
+
+const OPERATORS = ['AND', 'OR', 'NOT'] as const;
+
+// Deepest allowed parenthesis nesting
+const MAX_DEPTH = 10;
+
+// Characters that are neither words nor syntax (FTS5 operators in the old query format)
+const IGNORED_CHARACTERS = /[{}[\]^~*]/g;
+
+// A term: word characters up to whitespace, parentheses, quotes or a colon
+const WORD_PATTERN = /^[^\s()":]+/;
+
+const UNEXPECTED_CLOSE_MESSAGE = 'Unexpected ")" in query; remove it or add the matching "("';
+
+// Matches nothing (a query without any term)
+const EMPTY_MATCH = '""';
+
+type Token =
+    | { type: 'word' | 'phrase' | 'field'; value: string }
+    | { type: 'operator'; value: (typeof OPERATORS)[number] }
+    | { type: '(' | ')' | '-' };
+
+type TermNode = { type: 'term'; value: string; phrase: boolean };
+
+type QueryNode =
+    | TermNode
+    | { type: 'or' | 'and'; nodes: QueryNode[] }
+    | { type: 'not'; node: QueryNode; excluded: QueryNode[] }
+    | { type: 'field'; column: string; node: QueryNode };
+
+/**
+ * Operands of an OR group or AND chain, split into matches and exclusions
+ */
+interface Operands {
+    included: QueryNode[];
+    excluded: QueryNode[];
+}
+
+/**
+ * Other names per name, keyed by toSynonymKey(name)
+ * 
+ * Names must not contain double quotes (they are compiled into FTS5 phrases).
+ */
+export type SynonymDictionary = ReadonlyMap<string, readonly string[]>;
+
+/**
+ * Keyword query compiled for FTS5
+ */
+export interface CompiledQuery {
+    match: string; // FTS5 MATCH expression ('""' if the query has no terms)
+    expansions: SynonymExpansion[]; // Terms that also match their synonyms
+}
+
+/**
+ * Parser position in the token list
+ */
+interface ParserState {
+    tokens: Token[];
+    position: number;
+    depth: number;
+    inField: boolean;
+    synonyms?: SynonymDictionary;
+    expansions: SynonymExpansion[];
+}
+
+/**
+ * Compile a keyword query into an FTS5 MATCH expression, expanding synonyms
+ * 
+ * @param query User input query
+ * @param synonyms Optional synonym dictionary
+ * @returns MATCH expression and the applied expansions
+ * @throws Error describing the problem if the query is malformed
+ */
+export function compileQuery(query: string, synonyms?: SynonymDictionary): CompiledQuery {
+    const tokens = tokenize(query);
+    const state: ParserState = {
+        tokens: synonyms ? joinSynonymNames(tokens, synonyms) : tokens,
+        position: 0,
+        depth: 0,
+        inField: false,
+        synonyms,
+        expansions: [],
+    };
+
+    if (state.tokens.length === 0) {
+        return { match: EMPTY_MATCH, expansions: [] };
+    }
+
+    const node = parseGroup(state);
+    const extra = state.tokens[state.position] as Token | undefined;
+    if (extra) {
+        throw new Error(UNEXPECTED_CLOSE_MESSAGE);
+    }
+
+    return { match: compileNode(node), expansions: state.expansions };
+}
+
+/**
+ * Compile a keyword query into an FTS5 MATCH expression (without synonyms)
+ * 
+ * @param query User input query
+ * @returns FTS5 MATCH expression ('""' if the query has no terms)
+ * @throws Error describing the problem if the query is malformed
+ */
+export function compileFtsQuery(query: string): string {
+    return compileQuery(query).match;
+}
+
+/**
+ * Normalize a name for synonym lookup (case and spacing are ignored)
+ * 
+ * @param name Product name, acronym or query term
+ * @returns Dictionary key
+ */
+export function toSynonymKey(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Get the syntax error of a keyword query
+ * 
+ * @param query User input query
+ * @returns Error message, or undefined if the query is valid
+ */
+export function getQueryError(query: string): string | undefined {
+    try {
+        compileFtsQuery(query);
+        return undefined;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+/**
+ * Rewrite the plain words of a query (not phrases, operators or field prefixes)
+ * 
+ * The query is rebuilt from its tokens, so spacing is normalized and ignored
+ * characters are dropped.
+ * 
+ * @param query User input query
+ * @param rewrite Returns the replacement text for a word, or undefined to keep it
+ * @returns Rewritten query
+ * @throws Error if a phrase is not closed
+ */
+export function rewriteQueryWords(query: string, rewrite: (word: string) => string | undefined): string {
+    const parts: string[] = [];
+    let attach = false;
+
+    for (const token of tokenize(query)) {
+        const text = token.type === 'word' ? rewrite(token.value) ?? token.value : formatToken(token);
+
+        // Prefixes and opening parentheses attach to the next token, closing parentheses to the previous one
+        if ((attach || token.type === ')') && parts.length > 0) {
+            parts[parts.length - 1] += text;
+        } else {
+            parts.push(text);
+        }
+        attach = token.type === '(' || token.type === '-' || token.type === 'field';
+    }
+
+    return parts.join(' ');
+}
+
+/**
+ * Format a token as query text
+ * 
+ * @param token Token
+ * @returns Query text
+ */
+function formatToken(token: Token): string {
+    switch (token.type) {
+        case 'phrase':
+            return `"${token.value}"`;
+        case 'field':
+            return `${token.value}:`;
+        case 'word':
+        case 'operator':
+            return token.value;
+        default:
+            return token.type;
+    }
+}
+
+/**
+ * Split a query into tokens
+ * 
+ * @param query User input query
+ * @returns Tokens
+ * @throws Error if a phrase is not closed
+ */
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let rest = query.replace(IGNORED_CHARACTERS, ' ');
+
+    while (rest.length > 0) {
+        const [token, length] = readToken(rest);
+        if (token) {
+            tokens.push(token);
+        }
+        rest = rest.slice(length);
+    }
+
+    return tokens;
+}
+
+/**
+ * Read the token at the start of the remaining input
+ * 
+ * @param rest Remaining input
+ * @returns Token (undefined for skipped input) and number of characters consumed
+ */
+function readToken(rest: string): [Token | undefined, number] {
+    const char = rest[0];
+
+    if (/\s/.test(char) || char === ':') {
+        return [undefined, 1];
+    }
+    if (char === '(' || char === ')') {
+        return [{ type: char }, 1];
+    }
+    if (char === '"') {
+        return readPhrase(rest);
+    }
+    if (char === '-') {
+        // A leading minus excludes the following term; a lone one is ignored
+        return [/^-[^\s)-]/.test(rest) ? { type: '-' } : undefined, 1];
+    }
+
+    return readWord(rest);
+}
+
+/**
+ * Read a quoted phrase (an empty one is skipped)
+ * 
+ * @param rest Remaining input starting with a double quote
+ * @returns Phrase token and number of characters consumed
+ * @throws Error if the phrase is not closed
+ */
+function readPhrase(rest: string): [Token | undefined, number] {
+    const end = rest.indexOf('"', 1);
+    if (end === -1) {
+        throw new Error('Unterminated phrase in query; close it with a double quote, e.g. "virtual machine"');
+    }
+
+    const value = rest.slice(1, end).trim();
+    return [value ? { type: 'phrase', value } : undefined, end + 1];
+}
+
+/**
+ * Read a word, operator or field prefix
+ * 
+ * A word directly followed by a colon and a term is a field prefix if it
+ * names a field; otherwise the colon separates two words (e.g. "Update: ...").
+ * 
+ * @param rest Remaining input starting with a word character
+ * @returns Token and number of characters consumed
+ */
+function readWord(rest: string): [Token, number] {
+    const value = (WORD_PATTERN.exec(rest) as RegExpExecArray)[0];
+    const column = FIELD_COLUMNS[value.toLowerCase()] as string | undefined;
+
+    if (column && /^:[^\s)]/.test(rest.slice(value.length))) {
+        return [{ type: 'field', value: column }, value.length + 1];
+    }
+
+    const operator = OPERATORS.find(op => op === value);
+    return [operator ? { type: 'operator', value: operator } : { type: 'word', value }, value.length];
+}
+
+/**
+ * Replace runs of words that form a known multi-word name with one phrase
+ * (the longest name wins: "azure active directory" before "active directory")
+ * 
+ * @param tokens Tokens
+ * @param synonyms Synonym dictionary
+ * @returns Tokens with names joined
+ */
+function joinSynonymNames(tokens: Token[], synonyms: SynonymDictionary): Token[] {
+    const maxWords = Math.max(1, ...Array.from(synonyms.keys(), key => key.split(' ').length));
+    const joined: Token[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const words = readWords(tokens, i, maxWords);
+        const length = findNameLength(words, synonyms);
+
+        if (length > 1) {
+            joined.push({ type: 'phrase', value: words.slice(0, length).join(' ') });
+            i += length - 1;
+        } else {
+            joined.push(tokens[i]);
+        }
+    }
+
+    return joined;
+}
+
+/**
+ * Read consecutive plain words
+ * 
+ * @param tokens Tokens
+ * @param start Index of the first token
+ * @param limit Maximum number of words
+ * @returns Words (empty if the first token is not a word)
+ */
+function readWords(tokens: Token[], start: number, limit: number): string[] {
+    const words: string[] = [];
+
+    for (const token of tokens.slice(start, start + limit)) {
+        if (token.type !== 'word') {
+            break;
+        }
+        words.push(token.value);
+    }
+
+    return words;
+}
+
+/**
+ * Find the longest leading run of words that is a known name
+ * 
+ * @param words Consecutive words
+ * @param synonyms Synonym dictionary
+ * @returns Number of words in the name (1 if no multi-word name starts here)
+ */
+function findNameLength(words: string[], synonyms: SynonymDictionary): number {
+    for (let length = words.length; length > 1; length--) {
+        if (synonyms.has(toSynonymKey(words.slice(0, length).join(' ')))) {
+            return length;
+        }
+    }
+
+    return 1;
+}
+
+/**
+ * Parse terms up to the end of the query or the closing parenthesis (OR group)
+ * 
+ * @param state Parser state
+ * @returns Group node
+ * @throws Error if the group is malformed
+ */
+function parseGroup(state: ParserState): QueryNode {
+    const operands: Operands = { included: [], excluded: [] };
+
+    while (!isGroupEnd(state)) {
+        if (operands.included.length + operands.excluded.length > 0) {
+            skipOperator(state, 'OR');
+        }
+        const clause = parseClause(state);
+        operands.included.push(...clause.included);
+        operands.excluded.push(...clause.excluded);
+    }
+
+    if (operands.excluded.length > 0 && operands.included.length === 0) {
+        throw new Error('Query cannot only exclude terms; add a term to search for, e.g. storage -classic');
+    }
+    if (operands.included.length === 0) {
+        throw new Error(state.depth > 0
+            ? 'Empty parentheses in query; put terms inside them or remove them'
+            : UNEXPECTED_CLOSE_MESSAGE);
+    }
+
+    return combine('or', operands);
+}
+
+/**
+ * Parse terms joined with AND
+ * 
+ * A chain of exclusions only (e.g. -classic in storage -classic) is returned
+ * as exclusions so that they apply to the enclosing group.
+ * 
+ * @param state Parser state
+ * @returns Matches and exclusions of the chain
+ * @throws Error if the chain is malformed
+ */
+function parseClause(state: ParserState): Operands {
+    const operands: Operands = { included: [], excluded: [] };
+
+    do {
+        const excluded = readExclusion(state);
+        const node = parsePrimary(state);
+        (excluded ? operands.excluded : operands.included).push(node);
+    } while (skipOperator(state, 'AND'));
+
+    if (operands.included.length === 0) {
+        return operands;
+    }
+
+    return { included: [combine('and', operands)], excluded: [] };
+}
+
+/**
+ * Parse a word, phrase, parenthesized group or field-scoped term
+ * 
+ * @param state Parser state
+ * @returns Node
+ * @throws Error if no term follows
+ */
+function parsePrimary(state: ParserState): QueryNode {
+    const token = state.tokens[state.position] as Token | undefined;
+    state.position++;
+
+    switch (token?.type) {
+        case 'word':
+        case 'phrase':
+            return expandTerm(state, { type: 'term', value: token.value, phrase: token.type === 'phrase' });
+        case '(':
+            return parseParentheses(state);
+        case 'field':
+            return parseField(state, token.value);
+        case 'operator':
+            throw createOperatorError(token.value);
+        default:
+            throw new Error('Query ends where a term is expected; add a term or remove the trailing operator');
+    }
+}
+
+/**
+ * Parse a parenthesized group (after the opening parenthesis)
+ * 
+ * @param state Parser state
+ * @returns Group node
+ * @throws Error if the group is not closed or nested too deeply
+ */
+function parseParentheses(state: ParserState): QueryNode {
+    if (state.depth >= MAX_DEPTH) {
+        throw new Error(`Parentheses are nested too deeply in query (at most ${MAX_DEPTH} levels)`);
+    }
+
+    state.depth++;
+    const node = parseGroup(state);
+    state.depth--;
+
+    if (state.tokens[state.position]?.type !== ')') {
+        throw new Error('Missing ")" in query; close every "(" you open');
+    }
+    state.position++;
+
+    return node;
+}
+
+/**
+ * Parse the term scoped by a field prefix (after the prefix)
+ * 
+ * @param state Parser state
+ * @param column FTS column
+ * @returns Field node
+ * @throws Error if the prefix is not directly followed by a term, or scopes are nested
+ */
+function parseField(state: ParserState, column: string): QueryNode {
+    const next = state.tokens[state.position] as Token | undefined;
+
+    if (state.inField) {
+        throw new Error('Field prefixes cannot be nested; use one prefix per term, e.g. title:(aks OR kubernetes)');
+    }
+    if (!next || !['word', 'phrase', '('].includes(next.type)) {
+        throw new Error('A field prefix must be followed by a word, phrase or group, e.g. title:kubernetes or product:"Azure Functions"');
+    }
+
+    state.inField = true;
+    const node = parsePrimary(state);
+    state.inField = false;
+
+    return { type: 'field', column, node };
+}
+
+/**
+ * OR a term with its synonyms (matched as exact phrases) and record the expansion
+ * 
+ * @param state Parser state
+ * @param term Term as written in the query
+ * @returns The term, or an OR group of the term and its synonyms
+ */
+function expandTerm(state: ParserState, term: TermNode): QueryNode {
+    const synonyms = state.synonyms?.get(toSynonymKey(term.value)) ?? [];
+    if (synonyms.length === 0) {
+        return term;
+    }
+
+    if (!state.expansions.some(expansion => expansion.term === term.value)) {
+        state.expansions.push({ term: term.value, synonyms: [...synonyms] });
+    }
+
+    return {
+        type: 'or',
+        nodes: [term, ...synonyms.map((name): TermNode => ({ type: 'term', value: name, phrase: true }))],
+    };
+}
+
+/**
+ * Consume an exclusion marker (-term or NOT term)
+ * 
+ * @param state Parser state
+ * @returns True if the next term is excluded
+ */
+function readExclusion(state: ParserState): boolean {
+    const token = state.tokens[state.position] as Token | undefined;
+    const excluded = token?.type === '-' || (token?.type === 'operator' && token.value === 'NOT');
+
+    if (excluded) {
+        state.position++;
+    }
+
+    return excluded;
+}
+
+/**
+ * Consume a binary operator if it is next
+ * 
+ * @param state Parser state
+ * @param operator Operator to consume
+ * @returns True if the operator was consumed
+ * @throws Error if the operator is not followed by a term
+ */
+function skipOperator(state: ParserState, operator: 'AND' | 'OR'): boolean {
+    const token = state.tokens[state.position] as Token | undefined;
+
+    if (token?.type !== 'operator' || token.value !== operator) {
+        return false;
+    }
+
+    state.position++;
+    if (isGroupEnd(state)) {
+        throw createOperatorError(operator);
+    }
+
+    return true;
+}
+
+/**
+ * Create the error for an operator without a term on both sides
+ * 
+ * @param operator Misplaced operator
+ * @returns Error
+ */
+function createOperatorError(operator: (typeof OPERATORS)[number]): Error {
+    const example = operator === 'NOT' ? 'storage NOT classic' : `aks ${operator} retirement`;
+    return new Error(`Operator ${operator} must be placed between two terms, e.g. ${example}`);
+}
+
+/**
+ * Check whether the current group ends at the current position
+ * 
+ * @param state Parser state
+ * @returns True at the end of the query or a closing parenthesis
+ */
+function isGroupEnd(state: ParserState): boolean {
+    const token = state.tokens[state.position] as Token | undefined;
+    return !token || token.type === ')';
+}
+
+/**
+ * Combine matches with an operator and apply exclusions
+ * 
+ * @param type Operator joining the matches
+ * @param operands Matches (at least one) and exclusions
+ * @returns Node
+ */
+function combine(type: 'or' | 'and', operands: Operands): QueryNode {
+    const { included, excluded } = operands;
+    const node: QueryNode = included.length === 1 ? included[0] : { type, nodes: included };
+    return excluded.length > 0 ? { type: 'not', node, excluded } : node;
+}
+
+/**
+ * Compile a node into FTS5 syntax
+ * 
+ * @param node Query node
+ * @returns FTS5 expression
+ */
+function compileNode(node: QueryNode): string {
+    switch (node.type) {
+        case 'term':
+            return node.phrase ? `"${node.value}"` : `"${node.value}"*`;
+        case 'or':
+        case 'and':
+            return node.nodes.map(wrapNode).join(` ${node.type.toUpperCase()} `);
+        case 'not': {
+            const excluded = node.excluded.length === 1 ? node.excluded[0] : { type: 'or' as const, nodes: node.excluded };
+            return `${wrapNode(node.node)} NOT ${wrapNode(excluded)}`;
+        }
+        case 'field':
+            return `${node.column} : ${wrapNode(node.node)}`;
+    }
+}
+
+/**
+ * Compile a node, parenthesized unless it is a single term
+ * 
+ * @param node Query node
+ * @returns FTS5 expression
+ */
+function wrapNode(node: QueryNode): string {
+    return node.type === 'term' ? compileNode(node) : `(${compileNode(node)})`;
+}
@@ -0,0 +1,15 @@
+/**
+ * Public page of an Azure update
+ */
+
+const UPDATE_PAGE_URL = 'https://azure.microsoft.com/en-us/updates/';
+
+/**
+ * Build the URL of an update's page on azure.microsoft.com
+ * 
+ * @param id Update ID
+ * @returns Page URL
+ */
+export function getUpdateUrl(id: string): string {
+    return `${UPDATE_PAGE_URL}?id=${encodeURIComponent(id)}`;
+}
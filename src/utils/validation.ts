@@ -0,0 +1,69 @@
+/**
+ * Input validation helpers shared by the tools
+ *
+ * Validators push readable messages onto an error array, so a tool can
+ * report every invalid parameter at once.
+ */
+
+/**
+ * Operators of multi-valued filters (tags, products, categories)
+ */
+export const MULTI_VALUE_OPERATORS = ['allOf', 'anyOf', 'noneOf'] as const;
+
+/**
+ * Validate a multi-valued filter: an array of strings (ALL must match) or an
+ * object with allOf / anyOf / noneOf arrays of strings
+ *
+ * @param value Filter value
+ * @param path Parameter path for error messages, e.g. "filters.tags"
+ * @param errors Error array to push errors to
+ */
+export function validateMultiValueFilter(value: unknown, path: string, errors: string[]): void {
+    if (value === undefined) {
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        validateStringArray(value, path, errors);
+        return;
+    }
+
+    if (typeof value !== 'object' || value === null) {
+        errors.push(`${path} must be an array of strings or an object with ${MULTI_VALUE_OPERATORS.join(', ')}`);
+        return;
+    }
+
+    for (const [operator, values] of Object.entries(value)) {
+        if (!MULTI_VALUE_OPERATORS.includes(operator as typeof MULTI_VALUE_OPERATORS[number])) {
+            errors.push(`${path}.${operator} is not supported (use ${MULTI_VALUE_OPERATORS.join(', ')})`);
+        } else if (!Array.isArray(values)) {
+            errors.push(`${path}.${operator} must be an array`);
+        } else {
+            validateStringArray(values, `${path}.${operator}`, errors);
+        }
+    }
+}
+
+/**
+ * Validate ISO 8601 date string
+ *
+ * @param dateString Date string to validate
+ * @returns True if valid ISO 8601 date
+ */
+export function isValidIsoDate(dateString: string): boolean {
+    const date = new Date(dateString);
+    return !isNaN(date.getTime()) && dateString.includes('-');
+}
+
+/**
+ * Validate that every array item is a string
+ *
+ * @param values Array to check
+ * @param path Parameter path for error messages
+ * @param errors Error array to push errors to
+ */
+function validateStringArray(values: unknown[], path: string, errors: string[]): void {
+    if (!values.every(item => typeof item === 'string')) {
+        errors.push(`${path} must be an array of strings`);
+    }
+}
@@ -12,6 +12,8 @@ CREATE TABLE IF NOT EXISTS azure_updates (
   created TEXT NOT NULL,
   modified TEXT NOT NULL,
   metadata TEXT,
+  removed_at TEXT,
+  change_seq INTEGER NOT NULL DEFAULT 0,
   
   CONSTRAINT chk_dates CHECK (
     created IS NOT NULL AND 
@@ -23,6 +25,8 @@ CREATE TABLE IF NOT EXISTS azure_updates (
 CREATE INDEX IF NOT EXISTS idx_updates_modified ON azure_updates(modified DESC);
 CREATE INDEX IF NOT EXISTS idx_updates_created ON azure_updates(created);
 CREATE INDEX IF NOT EXISTS idx_updates_status ON azure_updates(status);
+CREATE INDEX IF NOT EXISTS idx_updates_removed_at ON azure_updates(removed_at);
+CREATE INDEX IF NOT EXISTS idx_updates_change_seq ON azure_updates(change_seq);
 
 -- Many-to-Many Tables
 CREATE TABLE IF NOT EXISTS update_tags (
@@ -63,6 +67,7 @@ CREATE TABLE IF NOT EXISTS update_availabilities (
 CREATE INDEX IF NOT EXISTS idx_availabilities_ring ON update_availabilities(ring);
 CREATE INDEX IF NOT EXISTS idx_availabilities_date ON update_availabilities(date);
 CREATE INDEX IF NOT EXISTS idx_availabilities_ring_date ON update_availabilities(ring, date);
+CREATE INDEX IF NOT EXISTS idx_availabilities_update_date ON update_availabilities(update_id, date);
 
 -- Sync Checkpoints
 CREATE TABLE IF NOT EXISTS sync_checkpoints (
@@ -72,6 +77,9 @@ CREATE TABLE IF NOT EXISTS sync_checkpoints (
   record_count INTEGER NOT NULL DEFAULT 0,
   duration_ms INTEGER,
   error_message TEXT,
+  last_reconciliation TEXT,
+  lock_owner TEXT,
+  lock_heartbeat TEXT,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
@@ -0,0 +1,52 @@
+/**
+ * Test data factory for stored updates
+ *
+ * Inserts one update with its products, categories and availabilities, so
+ * tests only spell out the fields they depend on.
+ */
+
+import type Database from 'better-sqlite3';
+import {
+    upsertUpdate,
+    replaceUpdateAvailabilities,
+    replaceUpdateCategories,
+    replaceUpdateProducts,
+} from '../../src/database/queries.js';
+
+/**
+ * Fields of a test update (all but id are optional)
+ */
+export interface TestUpdate {
+    id: string;
+    title?: string; // Default: "Update <id>"
+    created?: string; // Default: 2025-01-01T00:00:00.0000000Z
+    modified?: string; // Default: created
+    products?: string[];
+    categories?: string[];
+    availabilities?: Array<{ ring: string; date: string | null }>;
+}
+
+/**
+ * Insert an update (or replace the one with the same id)
+ *
+ * @param db Database instance
+ * @param update Update fields; omitted fields get defaults
+ */
+export function addUpdate(db: Database.Database, update: TestUpdate): void {
+    const created = update.created ?? '2025-01-01T00:00:00.0000000Z';
+
+    upsertUpdate(db, {
+        id: update.id,
+        title: update.title ?? `Update ${update.id}`,
+        description_html: '',
+        description_md: null,
+        status: null,
+        locale: null,
+        created,
+        modified: update.modified ?? created,
+        metadata: null,
+    });
+    replaceUpdateProducts(db, update.id, update.products ?? []);
+    replaceUpdateCategories(db, update.id, update.categories ?? []);
+    replaceUpdateAvailabilities(db, update.id, update.availabilities ?? []);
+}
@@ -9,6 +9,9 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { mkdtempSync, rmSync } from 'fs';
+import { initializeDatabase } from '../../src/database/database.js';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION } from '../../src/database/migrations.js';
+import { searchUpdates } from '../../src/services/search.service.js';
 
 describe('Database Integration Tests', () => {
     let db: Database.Database;
@@ -200,6 +203,110 @@ describe('Database Integration Tests', () => {
             expect(checkpoint.record_count).toBe(10);
         });
     });
+
+    describe('Schema Upgrades', () => {
+        function createV1Database(path: string): void {
+            const legacyDb = new Database(path);
+            legacyDb.exec(readFileSync(join(process.cwd(), 'tests/fixtures/schema-v1.sql'), 'utf-8'));
+            legacyDb.exec(`
+                INSERT INTO azure_updates (id, title, description_md, created, modified)
+                VALUES ('legacy-1', 'Legacy load balancer retirement', 'Basic SKU', '2025-01-01', '2025-01-01');
+                INSERT INTO update_products (update_id, product) VALUES ('legacy-1', 'Azure Load Balancer');
+                INSERT INTO update_tags (update_id, tag) VALUES ('legacy-1', 'Networking');
+            `);
+            legacyDb.close();
+        }
+
+        function listSchemaObjects(target: Database.Database): string[] {
+            return (target.prepare(`
+                SELECT type || ':' || name AS entry FROM sqlite_master
+                WHERE name NOT LIKE 'sqlite_%' AND name NOT LIKE 'updates_fts_%'
+                ORDER BY entry
+            `).all() as { entry: string }[]).map(r => r.entry);
+        }
+
+        function listColumns(target: Database.Database, table: string): string[] {
+            return (target.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name).sort();
+        }
+
+        it('should migrate a version 1 database to the latest schema', () => {
+            const legacyPath = join(tempDir, 'legacy.db');
+            createV1Database(legacyPath);
+
+            const upgraded = initializeDatabase({ path: legacyPath });
+            const fresh = initializeDatabase({ path: join(tempDir, 'fresh.db') });
+
+            expect(getSchemaVersion(upgraded)).toBe(LATEST_SCHEMA_VERSION);
+            expect(listSchemaObjects(upgraded)).toEqual(listSchemaObjects(fresh));
+            for (const table of ['azure_updates', 'sync_checkpoints', 'update_revisions', 'sync_runs', 'updates_fts', 'search_terms', 'update_embeddings']) {
+                expect(listColumns(upgraded, table)).toEqual(listColumns(fresh, table));
+            }
+
+            // Each step is recorded
+            const versions = (upgraded.prepare('SELECT version FROM schema_version ORDER BY version').all() as { version: number }[])
+                .map(r => r.version);
+            expect(versions).toEqual(Array.from({ length: LATEST_SCHEMA_VERSION }, (_, i) => i + 1));
+
+            // Sync refreshes the related full-text columns, so the related tables have no triggers
+            expect(upgraded.prepare(`
+                SELECT name FROM sqlite_master
+                WHERE type = 'trigger' AND tbl_name IN ('update_tags', 'update_products', 'update_categories')
+            `).all()).toEqual([]);
+
+            // Existing data survives and stays searchable after the FTS trigger fix
+            upgraded.prepare("UPDATE azure_updates SET title = 'Renamed gateway retirement' WHERE id = 'legacy-1'").run();
+            expect(upgraded.prepare("SELECT id FROM updates_fts WHERE updates_fts MATCH 'gateway'").all()).toEqual([{ id: 'legacy-1' }]);
+            expect(upgraded.prepare("SELECT id FROM updates_fts WHERE updates_fts MATCH 'title:load'").all()).toEqual([]);
+
+            // Tags and products of existing updates are indexed
+            expect(upgraded.prepare("SELECT id FROM updates_fts WHERE updates_fts MATCH 'tags:networking'").all()).toEqual([{ id: 'legacy-1' }]);
+            expect(upgraded.prepare("SELECT id FROM updates_fts WHERE updates_fts MATCH 'products:balancer'").all()).toEqual([{ id: 'legacy-1' }]);
+
+            // Existing updates are numbered in insertion order for search cursors
+            expect(upgraded.prepare("SELECT change_seq FROM azure_updates WHERE id = 'legacy-1'").get()).toEqual({ change_seq: 1 });
+
+            // The spelling vocabulary is built on first use
+            expect(searchUpdates(upgraded, { query: 'balancr' }).metadata.didYouMean?.query).toBe('balancer');
+
+            upgraded.close();
+            fresh.close();
+        });
+
+        it('should migrate databases that already gained columns before migrations existed', () => {
+            const legacyPath = join(tempDir, 'legacy.db');
+            createV1Database(legacyPath);
+            const legacyDb = new Database(legacyPath);
+            legacyDb.exec('ALTER TABLE azure_updates ADD COLUMN removed_at TEXT');
+            legacyDb.exec('ALTER TABLE sync_checkpoints ADD COLUMN last_reconciliation TEXT');
+            legacyDb.close();
+
+            const upgraded = initializeDatabase({ path: legacyPath });
+
+            expect(getSchemaVersion(upgraded)).toBe(LATEST_SCHEMA_VERSION);
+            expect(listColumns(upgraded, 'sync_checkpoints')).toContain('lock_owner');
+            upgraded.close();
+        });
+
+        it('should not re-run migrations on a database created at the latest version', () => {
+            const path = join(tempDir, 'fresh.db');
+            initializeDatabase({ path }).close();
+
+            const reopened = initializeDatabase({ path });
+            const rows = (reopened.prepare('SELECT COUNT(*) AS count FROM schema_version').get() as { count: number }).count;
+
+            expect(rows).toBe(LATEST_SCHEMA_VERSION);
+            reopened.close();
+        });
+
+        it('should refuse to open a database newer than the code', () => {
+            const path = join(tempDir, 'future.db');
+            const future = initializeDatabase({ path });
+            future.prepare('INSERT INTO schema_version (version) VALUES (?)').run(LATEST_SCHEMA_VERSION + 1);
+            future.close();
+
+            expect(() => initializeDatabase({ path })).toThrow(/newer than this server supports/);
+        });
+    });
 });
 
 /**
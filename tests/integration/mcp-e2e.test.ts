@@ -62,11 +62,20 @@ describe('MCP Server E2E Tests', () => {
 
             const response = await handler!({ method: 'tools/list', params: {} });
 
-            expect(response.tools).toHaveLength(2);
+            expect(response.tools).toHaveLength(11);
 
             const toolNames = response.tools.map((t: { name: string }) => t.name);
             expect(toolNames).toContain('search_azure_updates');
             expect(toolNames).toContain('get_azure_update');
+            expect(toolNames).toContain('get_azure_update_history');
+            expect(toolNames).toContain('find_related_updates');
+            expect(toolNames).toContain('get_feature_lifecycle');
+            expect(toolNames).toContain('export_retirement_calendar');
+            expect(toolNames).toContain('get_retirement_impact');
+            expect(toolNames).toContain('import_inventory');
+            expect(toolNames).toContain('get_updates_digest');
+            expect(toolNames).toContain('trigger_sync');
+            expect(toolNames).toContain('get_sync_status');
         });
 
         it('should provide tool schemas with required fields', async () => {
@@ -282,8 +291,10 @@ describe('MCP Server E2E Tests', () => {
             const handler = server._requestHandlers.get('resources/list');
             const response = await handler!({ method: 'resources/list', params: {} });
 
-            expect(response.resources).toHaveLength(1);
+            expect(response.resources).toHaveLength(3);
             expect(response.resources[0].uri).toBe('azure-updates://guide');
+            expect(response.resources[1].uri).toBe('azure-updates://sync-runs');
+            expect(response.resources[2].uri).toBe('azure-updates://calendar/retirements.ics');
             expect(response.resources[0].name).toBe('Azure Updates Search Guide');
         });
 
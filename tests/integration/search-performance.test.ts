@@ -0,0 +1,102 @@
+/**
+ * Performance check for search on a large synthetic database
+ * Guards against N+1 related-data queries in result enrichment by counting
+ * statements rather than timing them, so it holds on slow or loaded runners
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { searchUpdates } from '../../src/services/search.service.js';
+import type { SearchQuery } from '../../src/models/search-query.js';
+
+const ROW_COUNT = 50_000;
+const PAGE_SIZE = 100;
+
+const TAGS = ['Security', 'Compute', 'Features', 'Retirements', 'Networking', 'Storage', 'AI + machine learning', 'Management'];
+const CATEGORIES = ['Compute', 'Databases', 'Networking', 'Storage', 'Security', 'AI + machine learning'];
+const PRODUCTS = ['Virtual Machines', 'Azure SQL Database', 'Azure Cosmos DB', 'Azure Kubernetes Service', 'Azure Functions', 'Azure Storage', 'Azure OpenAI Service', 'Azure Monitor'];
+const RINGS = ['Preview', 'General Availability', 'Retirement'];
+const WORDS = ['virtual', 'machine', 'database', 'kubernetes', 'security', 'network', 'storage', 'function', 'monitor', 'retirement', 'preview', 'performance'];
+
+function pick<T>(values: T[], seed: number): T {
+    return values[seed % values.length];
+}
+
+/**
+ * Fill the database with deterministic synthetic updates
+ */
+function seedDatabase(db: Database.Database): void {
+    const insertUpdate = db.prepare(`
+        INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+        VALUES (?, ?, ?, ?, ?, 'en-us', ?, ?)
+    `);
+    const insertTag = db.prepare('INSERT OR IGNORE INTO update_tags (update_id, tag) VALUES (?, ?)');
+    const insertCategory = db.prepare('INSERT OR IGNORE INTO update_categories (update_id, category) VALUES (?, ?)');
+    const insertProduct = db.prepare('INSERT OR IGNORE INTO update_products (update_id, product) VALUES (?, ?)');
+    const insertAvailability = db.prepare('INSERT OR IGNORE INTO update_availabilities (update_id, ring, date) VALUES (?, ?, ?)');
+
+    db.transaction(() => {
+        for (let i = 0; i < ROW_COUNT; i++) {
+            const id = `perf-${i}`;
+            const month = String((i % 12) + 1).padStart(2, '0');
+            const modified = `${2022 + (i % 4)}-${month}-${String((i % 28) + 1).padStart(2, '0')}T00:00:00Z`;
+            const words = [pick(WORDS, i), pick(WORDS, i * 7 + 3), pick(WORDS, i * 13 + 5)].join(' ');
+
+            insertUpdate.run(
+                id,
+                `Update ${i}: ${words}`,
+                `<p>${words} update number ${i}</p>`,
+                `${words} update number ${i}`,
+                i % 10 === 0 ? 'Retired' : 'Active',
+                modified,
+                modified
+            );
+            insertTag.run(id, pick(TAGS, i));
+            insertTag.run(id, pick(TAGS, i * 3 + 1));
+            insertCategory.run(id, pick(CATEGORIES, i));
+            insertProduct.run(id, pick(PRODUCTS, i));
+            insertProduct.run(id, pick(PRODUCTS, i * 5 + 2));
+            insertAvailability.run(id, pick(RINGS, i), `${2024 + (i % 3)}-${month}-01`);
+        }
+    })();
+}
+
+describe('Search Performance', () => {
+    let db: Database.Database;
+    let statements: string[] | undefined;
+
+    beforeAll(() => {
+        // Records executed statements while a test collects them
+        db = new Database(':memory:', { verbose: sql => statements?.push(String(sql)) });
+        const schema = readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8');
+        db.exec(schema);
+        seedDatabase(db);
+    }, 120000);
+
+    afterAll(() => {
+        db.close();
+    });
+
+    it('should run the same number of statements for any page size', () => {
+        const countStatements = (limit: number): number => {
+            statements = [];
+            searchUpdates(db, { query: 'kubernetes', limit });
+            const count = statements.length;
+            statements = undefined;
+            return count;
+        };
+
+        expect(countStatements(PAGE_SIZE)).toBe(countStatements(1));
+    });
+
+    it.each<[string, SearchQuery]>([
+        ['keyword search', { query: 'kubernetes security', limit: PAGE_SIZE }],
+        ['keyword search + filters', { query: 'database', filters: { tags: ['Security'], status: 'Active' }, limit: PAGE_SIZE }],
+        ['filters only', { filters: { products: ['Azure Functions'] }, limit: PAGE_SIZE }],
+        ['unfiltered page', { limit: PAGE_SIZE, offset: 1000 }],
+    ])('should return a full page for %s', (_name, query) => {
+        expect(searchUpdates(db, query).results).toHaveLength(PAGE_SIZE);
+    });
+});
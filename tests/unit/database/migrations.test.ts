@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+    runMigrations,
+    getSchemaVersion,
+    markSchemaCurrent,
+    MIGRATIONS,
+    LATEST_SCHEMA_VERSION,
+    type Migration,
+} from '../../../src/database/migrations.js';
+
+describe('Schema Migrations', () => {
+    let tempDir: string;
+    let dbPath: string;
+    let db: Database.Database;
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'migrations-'));
+        dbPath = join(tempDir, 'test.db');
+        db = new Database(dbPath);
+        db.exec(`
+            CREATE TABLE schema_version (version INTEGER PRIMARY KEY, applied_at TEXT NOT NULL DEFAULT (datetime('now')));
+            INSERT INTO schema_version (version) VALUES (1);
+            CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);
+            INSERT INTO notes (body) VALUES ('first');
+        `);
+    });
+
+    afterEach(() => {
+        db.close();
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const addColumn: Migration = {
+        version: 2,
+        description: 'Add notes.author',
+        up: (target) => target.exec('ALTER TABLE notes ADD COLUMN author TEXT'),
+    };
+
+    const addIndex: Migration = {
+        version: 3,
+        description: 'Index notes.author',
+        up: (target) => target.exec('CREATE INDEX idx_notes_author ON notes(author)'),
+    };
+
+    const dropBody: Migration = {
+        version: 3,
+        description: 'Drop notes.body',
+        destructive: true,
+        up: (target) => target.exec('ALTER TABLE notes DROP COLUMN body'),
+    };
+
+    it('should apply pending migrations in order and record each step', () => {
+        const result = runMigrations(db, { path: dbPath, migrations: [addColumn, addIndex] });
+
+        expect(result).toEqual({ fromVersion: 1, toVersion: 3, applied: [2, 3], backupPath: null });
+        expect(getSchemaVersion(db)).toBe(3);
+        expect((db.prepare('SELECT version FROM schema_version ORDER BY version').all() as { version: number }[]).map(r => r.version))
+            .toEqual([1, 2, 3]);
+    });
+
+    it('should skip migrations that were already applied', () => {
+        runMigrations(db, { migrations: [addColumn] });
+
+        const result = runMigrations(db, { migrations: [addColumn, addIndex] });
+
+        expect(result.applied).toEqual([3]);
+    });
+
+    it('should roll back a failed migration and keep earlier steps', () => {
+        const failing: Migration = {
+            version: 3,
+            description: 'Broken step',
+            up: (target) => {
+                target.exec('CREATE TABLE half_done (id INTEGER)');
+                throw new Error('boom');
+            },
+        };
+
+        expect(() => runMigrations(db, { migrations: [addColumn, failing] }))
+            .toThrow('Schema migration 3 (Broken step) failed: boom');
+        expect(getSchemaVersion(db)).toBe(2);
+        expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'").get()).toBeUndefined();
+    });
+
+    it('should refuse a database newer than the code', () => {
+        db.prepare('INSERT INTO schema_version (version) VALUES (5)').run();
+
+        expect(() => runMigrations(db, { migrations: [addColumn] })).toThrow(/version 5 is newer than this server supports \(2\)/);
+    });
+
+    it('should back up the database file before a destructive migration', () => {
+        const result = runMigrations(db, { path: dbPath, migrations: [addColumn, dropBody] });
+
+        const backupPath = result.backupPath ?? '';
+        expect(backupPath).toMatch(/test\.db\.v1-.*\.bak$/);
+        expect(existsSync(backupPath)).toBe(true);
+
+        const backup = new Database(backupPath, { readonly: true });
+        expect(getSchemaVersion(backup)).toBe(1);
+        expect(backup.prepare('SELECT body FROM notes').get()).toEqual({ body: 'first' });
+        backup.close();
+    });
+
+    it('should not back up in-memory databases', () => {
+        const memoryDb = new Database(':memory:');
+        memoryDb.exec(`
+            CREATE TABLE schema_version (version INTEGER PRIMARY KEY, applied_at TEXT NOT NULL DEFAULT (datetime('now')));
+            INSERT INTO schema_version (version) VALUES (1);
+            CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);
+        `);
+
+        const result = runMigrations(memoryDb, { path: ':memory:', migrations: [addColumn, dropBody] });
+
+        expect(result.backupPath).toBeNull();
+        expect(result.toVersion).toBe(3);
+        memoryDb.close();
+    });
+
+    it('should reject migration lists with gaps', () => {
+        expect(() => runMigrations(db, { migrations: [addIndex] })).toThrow(/consecutive/);
+    });
+
+    it('should mark a new database as current without running migrations', () => {
+        markSchemaCurrent(db, [addColumn, addIndex]);
+
+        expect(getSchemaVersion(db)).toBe(3);
+        expect(runMigrations(db, { migrations: [addColumn, addIndex] }).applied).toEqual([]);
+    });
+
+    it('should number the built-in migrations consecutively', () => {
+        expect(MIGRATIONS.map(m => m.version)).toEqual(Array.from({ length: MIGRATIONS.length }, (_, i) => i + 2));
+        expect(LATEST_SCHEMA_VERSION).toBe(MIGRATIONS.length + 1);
+    });
+
+    it('should mark the full-text index rebuild as destructive', () => {
+        expect(MIGRATIONS.find(m => m.version === 8)?.destructive).toBe(true);
+    });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import Database from 'better-sqlite3';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
@@ -12,6 +12,8 @@ import {
     replaceUpdateAvailabilities,
     getSyncCheckpoint,
     startSync,
+    renewSyncLock,
+    isSyncLockActive,
     completeSyncSuccess,
     completeSyncFailure,
     getAllTags,
@@ -21,6 +23,13 @@ import {
     getAllStatuses,
     getUpdateCount,
     deleteUpdatesBeforeRetentionDate,
+    archiveUpdateRevision,
+    getUpdateRevisions,
+    getTagsForUpdate,
+    getAvailabilitiesForUpdate,
+    getRelatedDataForUpdates,
+    markUpdatesRemoved,
+    restoreRemovedUpdates,
 } from '../../../src/database/queries.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -83,6 +92,37 @@ describe('Database Queries', () => {
             const result = getUpdateById(db, 'test-1');
             expect(result?.title).toBe('Updated Title');
         });
+
+        it('should number inserts, modifications and restores in write order', () => {
+            const record = {
+                id: 'test-1',
+                title: 'Test Update',
+                description_html: '',
+                description_md: null,
+                status: null,
+                locale: null,
+                created: '2025-01-01T00:00:00Z',
+                modified: '2025-01-01T00:00:00Z',
+                metadata: null,
+            };
+            const changeSeq = (id: string) =>
+                (db.prepare('SELECT change_seq FROM azure_updates WHERE id = ?').get(id) as { change_seq: number }).change_seq;
+
+            upsertUpdate(db, record);
+            upsertUpdate(db, { ...record, id: 'test-2' });
+            expect([changeSeq('test-1'), changeSeq('test-2')]).toEqual([1, 2]);
+
+            // Same modified timestamp: unchanged upstream, keeps its number
+            upsertUpdate(db, { ...record, title: 'Stored again' });
+            expect(changeSeq('test-1')).toBe(1);
+
+            upsertUpdate(db, { ...record, modified: '2025-01-02T00:00:00Z' });
+            expect(changeSeq('test-1')).toBe(3);
+
+            markUpdatesRemoved(db, ['test-2'], '2025-02-01T00:00:00Z');
+            restoreRemovedUpdates(db, ['test-2']);
+            expect(changeSeq('test-2')).toBe(4);
+        });
     });
 
     describe('replaceUpdateTags', () => {
@@ -116,6 +156,58 @@ describe('Database Queries', () => {
         });
     });
 
+    describe('revision history', () => {
+        beforeEach(() => {
+            upsertUpdate(db, {
+                id: 'test-1',
+                title: 'Original Title',
+                description_html: '<p>Original</p>',
+                description_md: 'Original',
+                status: 'Active',
+                locale: null,
+                created: '2025-01-01T00:00:00Z',
+                modified: '2025-01-01T00:00:00Z',
+                metadata: null,
+            });
+            replaceUpdateTags(db, 'test-1', ['Retirements']);
+            replaceUpdateProducts(db, 'test-1', ['Azure VM']);
+            replaceUpdateAvailabilities(db, 'test-1', [{ ring: 'Retirement', date: '2026-03-01' }]);
+        });
+
+        it('should archive the stored version when a newer modified arrives', () => {
+            const archived = archiveUpdateRevision(db, 'test-1', '2025-02-01T00:00:00Z');
+            expect(archived).toBe(true);
+
+            const revisions = getUpdateRevisions(db, 'test-1');
+            expect(revisions).toHaveLength(1);
+            expect(revisions[0].title).toBe('Original Title');
+            expect(revisions[0].modified).toBe('2025-01-01T00:00:00Z');
+            expect(revisions[0].supersededBy).toBe('2025-02-01T00:00:00Z');
+            expect(revisions[0].tags).toEqual(['Retirements']);
+            expect(revisions[0].products).toEqual(['Azure VM']);
+            expect(revisions[0].productCategories).toEqual([]);
+            expect(revisions[0].availabilities).toEqual([{ ring: 'Retirement', date: '2026-03-01' }]);
+        });
+
+        it('should not archive when the incoming version is not newer', () => {
+            expect(archiveUpdateRevision(db, 'test-1', '2025-01-01T00:00:00Z')).toBe(false);
+            expect(archiveUpdateRevision(db, 'test-1', '2024-12-01T00:00:00Z')).toBe(false);
+            expect(getUpdateRevisions(db, 'test-1')).toEqual([]);
+        });
+
+        it('should not archive unknown updates', () => {
+            expect(archiveUpdateRevision(db, 'missing', '2025-02-01T00:00:00Z')).toBe(false);
+        });
+
+        it('should delete revisions together with the update', () => {
+            archiveUpdateRevision(db, 'test-1', '2025-02-01T00:00:00Z');
+            db.pragma('foreign_keys = ON');
+            db.prepare('DELETE FROM azure_updates WHERE id = ?').run('test-1');
+
+            expect(getUpdateRevisions(db, 'test-1')).toEqual([]);
+        });
+    });
+
     describe('sync checkpoint operations', () => {
         it('should get initial sync checkpoint', () => {
             const checkpoint = getSyncCheckpoint(db);
@@ -124,22 +216,65 @@ describe('Database Queries', () => {
             expect(checkpoint?.syncStatus).toBe('success');
         });
 
+        const tenMinutesAgo = (): string => new Date(Date.now() - 10 * 60 * 1000).toISOString();
+
         it('should start sync successfully', () => {
-            const result = startSync(db);
-            expect(result).toBe(true);
+            const result = startSync(db, 'host-a:100', tenMinutesAgo());
+            expect(result).toEqual({ acquired: true, takenOverFrom: null });
 
             const checkpoint = getSyncCheckpoint(db);
             expect(checkpoint?.syncStatus).toBe('in_progress');
+            expect(checkpoint?.lockOwner).toBe('host-a:100');
+            expect(checkpoint?.lockHeartbeat).not.toBeNull();
         });
 
         it('should prevent concurrent syncs', () => {
-            startSync(db);
-            const result = startSync(db);
-            expect(result).toBe(false);
+            startSync(db, 'host-a:100', tenMinutesAgo());
+            const result = startSync(db, 'host-b:200', tenMinutesAgo());
+            expect(result.acquired).toBe(false);
+            expect(isSyncLockActive(db, tenMinutesAgo())).toBe(true);
+        });
+
+        it('should take over a lock whose heartbeat is stale', () => {
+            startSync(db, 'host-a:100', tenMinutesAgo());
+            db.prepare(`UPDATE sync_checkpoints SET lock_heartbeat = '2025-01-01T00:00:00.000Z'`).run();
+
+            expect(isSyncLockActive(db, tenMinutesAgo())).toBe(false);
+
+            const result = startSync(db, 'host-b:200', tenMinutesAgo());
+            expect(result).toEqual({
+                acquired: true,
+                takenOverFrom: { owner: 'host-a:100', heartbeat: '2025-01-01T00:00:00.000Z' },
+            });
+            expect(getSyncCheckpoint(db)?.lockOwner).toBe('host-b:200');
+        });
+
+        it('should treat locks without a heartbeat as stale based on updated_at', () => {
+            db.prepare(`
+                UPDATE sync_checkpoints
+                SET sync_status = 'in_progress', updated_at = datetime('now', '-1 hour')
+                WHERE id = 1
+            `).run();
+
+            const result = startSync(db, 'host-b:200', tenMinutesAgo());
+            expect(result.acquired).toBe(true);
+            expect(result.takenOverFrom?.owner).toBeNull();
+        });
+
+        it('should only renew and release the lock for its owner', () => {
+            startSync(db, 'host-a:100', tenMinutesAgo());
+
+            expect(renewSyncLock(db, 'host-b:200')).toBe(false);
+            expect(completeSyncFailure(db, 'Lost lock', 'host-b:200')).toBe(false);
+            expect(getSyncCheckpoint(db)?.syncStatus).toBe('in_progress');
+
+            expect(renewSyncLock(db, 'host-a:100')).toBe(true);
+            expect(completeSyncSuccess(db, '2025-01-01T00:00:00Z', 1, 10, 'host-a:100')).toBe(true);
+            expect(getSyncCheckpoint(db)).toMatchObject({ syncStatus: 'success', lockOwner: null, lockHeartbeat: null });
         });
 
         it('should complete sync successfully', () => {
-            startSync(db);
+            startSync(db, 'host-a:100', tenMinutesAgo());
             completeSyncSuccess(db, '2025-01-01T00:00:00Z', 100, 1000);
 
             const checkpoint = getSyncCheckpoint(db);
@@ -149,7 +284,7 @@ describe('Database Queries', () => {
         });
 
         it('should mark sync as failed', () => {
-            startSync(db);
+            startSync(db, 'host-a:100', tenMinutesAgo());
             completeSyncFailure(db, 'Test error');
 
             const checkpoint = getSyncCheckpoint(db);
@@ -236,6 +371,75 @@ describe('Database Queries', () => {
         });
     });
 
+    describe('related data queries', () => {
+        beforeEach(() => {
+            for (const id of ['rel-1', 'rel-2', 'rel-3']) {
+                upsertUpdate(db, {
+                    id,
+                    title: `Update ${id}`,
+                    description_html: '',
+                    description_md: '',
+                    status: 'Active',
+                    locale: null,
+                    created: '2025-01-01T00:00:00Z',
+                    modified: '2025-01-01T00:00:00Z',
+                    metadata: null,
+                });
+            }
+
+            replaceUpdateTags(db, 'rel-1', ['Security', 'Compute']);
+            replaceUpdateCategories(db, 'rel-1', ['Databases']);
+            replaceUpdateProducts(db, 'rel-1', ['Azure SQL', 'Azure Cosmos DB']);
+            replaceUpdateAvailabilities(db, 'rel-1', [
+                { ring: 'General Availability', date: '2025-06-01' },
+                { ring: 'Preview', date: '2025-01-01' },
+            ]);
+            replaceUpdateTags(db, 'rel-2', ['Features']);
+        });
+
+        it('should batch-load related data in the same order as the single-update getters', () => {
+            const related = getRelatedDataForUpdates(db, ['rel-1', 'rel-2']);
+
+            expect(related.get('rel-1')).toEqual({
+                tags: getTagsForUpdate(db, 'rel-1'),
+                productCategories: ['Databases'],
+                products: ['Azure Cosmos DB', 'Azure SQL'],
+                availabilities: getAvailabilitiesForUpdate(db, 'rel-1'),
+            });
+            expect(related.get('rel-1')?.tags).toEqual(['Compute', 'Security']);
+            expect(related.get('rel-2')).toEqual({
+                tags: ['Features'],
+                productCategories: [],
+                products: [],
+                availabilities: [],
+            });
+        });
+
+        it('should return empty arrays for updates without related data or unknown IDs', () => {
+            const related = getRelatedDataForUpdates(db, ['rel-3', 'missing']);
+
+            expect(related.size).toBe(2);
+            expect(related.get('rel-3')?.tags).toEqual([]);
+            expect(related.get('missing')?.availabilities).toEqual([]);
+        });
+
+        it('should handle an empty ID list', () => {
+            expect(getRelatedDataForUpdates(db, []).size).toBe(0);
+        });
+
+        it('should prepare each statement once per connection', () => {
+            const prepareSpy = vi.spyOn(db, 'prepare');
+
+            getTagsForUpdate(db, 'rel-1');
+            getTagsForUpdate(db, 'rel-2');
+            getRelatedDataForUpdates(db, ['rel-1']);
+            getRelatedDataForUpdates(db, ['rel-1', 'rel-2', 'rel-3']);
+
+            // One statement for the tag getter, four for the batch loader
+            expect(prepareSpy).toHaveBeenCalledTimes(5);
+        });
+    });
+
     describe('status queries', () => {
         it('should get all distinct statuses', () => {
             upsertUpdate(db, {
@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { generateGuideResource, getGuideResourceResponse } from '../../../src/resources/guide.resource.js';
+import { startSyncScheduler, stopSyncScheduler } from '../../../src/services/sync.service.js';
 import { upsertUpdate, replaceUpdateTags, replaceUpdateCategories, replaceUpdateProducts, replaceUpdateAvailabilities } from '../../../src/database/queries.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -69,6 +70,23 @@ describe('Guide Resource', () => {
             expect(guide.dataFreshness).toHaveProperty('totalRecords');
             expect(guide.dataFreshness).toHaveProperty('syncStatus');
             expect(guide.dataFreshness.totalRecords).toBe(1);
+            expect(guide.dataFreshness.nextScheduledSync).toBeNull();
+        });
+
+        describe('with background scheduler', () => {
+            afterEach(() => {
+                stopSyncScheduler();
+            });
+
+            it('should report the next scheduled sync', () => {
+                startSyncScheduler(db, { checkIntervalMinutes: 60, stalenessHours: 24, jitterRatio: 0 });
+
+                const guide = generateGuideResource(db);
+                const nextRun = new Date(guide.dataFreshness.nextScheduledSync as string).getTime();
+
+                expect(nextRun - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+                expect(nextRun - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+            });
         });
 
         it('should include usage examples', () => {
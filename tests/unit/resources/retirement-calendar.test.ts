@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+    getRetirementCalendarResourceResponse,
+    isRetirementCalendarUri,
+    parseRetirementCalendarFilters,
+} from '../../../src/resources/retirement-calendar.resource.js';
+import { addUpdate } from '../../fixtures/updates.js';
+
+describe('Retirement Calendar Resource', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        for (const [id, product] of [['func-v3', 'Azure Functions'], ['basic-lb', 'Azure Load Balancer']]) {
+            addUpdate(db, {
+                id,
+                title: `Retirement: ${product}`,
+                products: [product],
+                availabilities: [{ ring: 'Retirement', date: '2026-06-01' }],
+            });
+        }
+    });
+
+    it('should recognize the calendar URI with and without query parameters', () => {
+        expect(isRetirementCalendarUri('azure-updates://calendar/retirements.ics')).toBe(true);
+        expect(isRetirementCalendarUri('azure-updates://calendar/retirements.ics?products=X')).toBe(true);
+        expect(isRetirementCalendarUri('azure-updates://calendar/retirements.icsx')).toBe(false);
+    });
+
+    it('should parse product and category filters from query parameters', () => {
+        const filters = parseRetirementCalendarFilters(
+            'azure-updates://calendar/retirements.ics?products=Azure%20Functions&products=AKS' +
+            '&productCategories.anyOf=Compute&productCategories.noneOf=AI+%2B+machine+learning'
+        );
+
+        expect(filters).toEqual({
+            products: { allOf: ['Azure Functions', 'AKS'] },
+            productCategories: { anyOf: ['Compute'], noneOf: ['AI + machine learning'] },
+        });
+        expect(parseRetirementCalendarFilters('azure-updates://calendar/retirements.ics')).toEqual({});
+    });
+
+    it('should reject unsupported query parameters', () => {
+        expect(() => parseRetirementCalendarFilters('azure-updates://calendar/retirements.ics?tags=Retirements'))
+            .toThrow(/Unsupported query parameter "tags"/);
+        expect(() => parseRetirementCalendarFilters('azure-updates://calendar/retirements.ics?products.oneOf=X'))
+            .toThrow(/Unsupported query parameter "products.oneOf"/);
+    });
+
+    it('should return the filtered calendar as text/calendar', () => {
+        const uri = 'azure-updates://calendar/retirements.ics?products.anyOf=Azure%20Functions';
+        const response = getRetirementCalendarResourceResponse(db, uri);
+
+        expect(response.contents).toHaveLength(1);
+        expect(response.contents[0].uri).toBe(uri);
+        expect(response.contents[0].mimeType).toBe('text/calendar');
+        expect(response.contents[0].text).toContain('UID:retirement-func-v3@azure-updates-mcp-server');
+        expect(response.contents[0].text).not.toContain('basic-lb');
+    });
+});
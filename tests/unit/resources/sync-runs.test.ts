@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { generateSyncRunsResource, getSyncRunsResourceResponse } from '../../../src/resources/sync-runs.resource.js';
+import { insertSyncRun, completeSyncRun } from '../../../src/database/queries.js';
+
+describe('Sync Runs Resource', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+    });
+
+    it('should return an empty list before any sync', () => {
+        const data = generateSyncRunsResource(db);
+
+        expect(data.runs).toEqual([]);
+        expect(data.summary).toEqual({ returned: 0, failed: 0, skipped: 0, lastSuccessAt: null, lastFailureAt: null });
+    });
+
+    it('should list runs newest first with a summary', () => {
+        const first = insertSyncRun(db, '2025-01-01T00:00:00.000Z', 'initial');
+        completeSyncRun(db, first, {
+            status: 'success',
+            recordsInserted: 100,
+            recordsUpdated: 0,
+            recordsDeleted: 0,
+            pagesFetched: 1,
+            durationMs: 2000,
+        });
+        const second = insertSyncRun(db, '2025-01-02T00:00:00.000Z', 'differential');
+        completeSyncRun(db, second, {
+            status: 'failed',
+            recordsInserted: 0,
+            recordsUpdated: 0,
+            recordsDeleted: 0,
+            pagesFetched: 0,
+            durationMs: 300,
+            errorMessage: 'HTTP 503',
+        });
+        insertSyncRun(db, '2025-01-03T00:00:00.000Z', 'full');
+
+        const data = generateSyncRunsResource(db);
+
+        expect(data.runs.map(run => run.mode)).toEqual(['full', 'differential', 'initial']);
+        expect(data.runs[0]).toMatchObject({ status: 'in_progress', finishedAt: null });
+        expect(data.runs[1]).toMatchObject({ status: 'failed', errorMessage: 'HTTP 503', durationMs: 300 });
+        expect(data.runs[2]).toMatchObject({ recordsInserted: 100, pagesFetched: 1 });
+        expect(data.summary.failed).toBe(1);
+        expect(data.summary.lastSuccessAt).toBe(data.runs[2].finishedAt);
+        expect(data.summary.lastFailureAt).toBe(data.runs[1].finishedAt);
+    });
+
+    it('should count skipped runs apart from failures', () => {
+        const run = insertSyncRun(db, '2025-01-01T00:00:00.000Z', 'differential');
+        completeSyncRun(db, run, {
+            status: 'skipped',
+            recordsInserted: 0,
+            recordsUpdated: 0,
+            recordsDeleted: 0,
+            pagesFetched: 0,
+            durationMs: 5,
+            errorMessage: 'Sync already in progress',
+        });
+
+        const data = generateSyncRunsResource(db);
+
+        expect(data.summary).toMatchObject({ failed: 0, skipped: 1, lastFailureAt: null });
+    });
+
+    it('should format as an MCP resource response', () => {
+        const response = getSyncRunsResourceResponse(db);
+
+        expect(response.contents[0].uri).toBe('azure-updates://sync-runs');
+        expect(response.contents[0].mimeType).toBe('application/json');
+        expect(JSON.parse(response.contents[0].text)).toHaveProperty('runs');
+    });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getRetirementCalendar } from '../../../src/services/calendar.service.js';
+import { replaceUpdateAvailabilities, markUpdatesRemoved, archiveUpdateRevision } from '../../../src/database/queries.js';
+import { addUpdate } from '../../fixtures/updates.js';
+
+describe('Calendar Service', () => {
+    let db: Database.Database;
+
+    // Stored timestamps of every calendar update
+    const dates = { created: '2025-01-10T08:00:00.0000000Z', modified: '2025-02-03T09:30:15.0000000Z' };
+
+    function unfold(ics: string): string[] {
+        return ics.replace(/\r\n /g, '').split('\r\n');
+    }
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        addUpdate(db, {
+            ...dates,
+            id: 'basic-lb',
+            title: 'Retirement: Basic Load Balancer, upgrade to Standard',
+            products: ['Azure Load Balancer'],
+            categories: ['Networking'],
+            availabilities: [{ ring: 'Retirement', date: '2025-09-01' }],
+        });
+        addUpdate(db, {
+            ...dates,
+            id: 'func-v3',
+            title: 'Azure Functions runtime v3 will be retired',
+            products: ['Azure Functions'],
+            categories: ['Compute'],
+            availabilities: [{ ring: 'Retirement', date: '2026-12-01' }],
+        });
+        addUpdate(db, {
+            ...dates,
+            id: 'phased',
+            title: 'Retirement: Classic alerts; phased shutdown',
+            products: ['Azure Monitor'],
+            categories: ['Management and governance'],
+            availabilities: [
+                { ring: 'Retirement', date: '2026-03-01' },
+                { ring: 'Retirement', date: '2026-06-01' },
+            ],
+        });
+        addUpdate(db, {
+            ...dates,
+            id: 'tbd',
+            title: 'Retirement of legacy SKU',
+            products: ['Azure Functions'],
+            categories: ['Compute'],
+            availabilities: [{ ring: 'Retirement', date: null }],
+        });
+        addUpdate(db, {
+            ...dates,
+            id: 'ga',
+            title: 'Generally Available: Flex Consumption',
+            products: ['Azure Functions'],
+            categories: ['Compute'],
+            availabilities: [{ ring: 'General Availability', date: '2025-11-01' }],
+        });
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('should create one event per update and dated retirement month, earliest first', () => {
+        const { events } = getRetirementCalendar(db);
+
+        expect(events.map(event => [event.updateId, event.date])).toEqual([
+            ['basic-lb', '2025-09-01'],
+            ['phased', '2026-03-01'],
+            ['phased', '2026-06-01'],
+            ['func-v3', '2026-12-01'],
+        ]);
+    });
+
+    it('should derive stable UIDs from the update ID', () => {
+        const { events } = getRetirementCalendar(db);
+
+        expect(events.map(event => event.uid)).toEqual([
+            'retirement-basic-lb@azure-updates-mcp-server',
+            'retirement-phased@azure-updates-mcp-server',
+            'retirement-phased-202606@azure-updates-mcp-server',
+            'retirement-func-v3@azure-updates-mcp-server',
+        ]);
+
+        replaceUpdateAvailabilities(db, 'basic-lb', [{ ring: 'Retirement', date: '2026-01-01' }]);
+        const moved = getRetirementCalendar(db).events.find(event => event.updateId === 'basic-lb');
+
+        expect(moved?.uid).toBe('retirement-basic-lb@azure-updates-mcp-server');
+        expect(moved?.date).toBe('2026-01-01');
+    });
+
+    it('should keep the UIDs of further retirement months when another month is added', () => {
+        replaceUpdateAvailabilities(db, 'phased', [
+            { ring: 'Retirement', date: '2026-03-01' },
+            { ring: 'Retirement', date: '2026-06-01' },
+            { ring: 'Retirement', date: '2026-09-01' },
+        ]);
+
+        expect(getRetirementCalendar(db).events.filter(event => event.updateId === 'phased').map(event => event.uid)).toEqual([
+            'retirement-phased@azure-updates-mcp-server',
+            'retirement-phased-202606@azure-updates-mcp-server',
+            'retirement-phased-202609@azure-updates-mcp-server',
+        ]);
+    });
+
+    it('should format all-day events as RFC 5545', () => {
+        const { ics } = getRetirementCalendar(db, { products: ['Azure Load Balancer'] }, { now: new Date('2026-10-19T12:00:00Z') });
+        const lines = unfold(ics);
+
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(lines.slice(0, 3)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//azure-updates-mcp-server//Retirement Calendar//EN']);
+        expect(lines).toContain('UID:retirement-basic-lb@azure-updates-mcp-server');
+        expect(lines).toContain('DTSTAMP:20261019T120000Z');
+        expect(lines).toContain('LAST-MODIFIED:20250203T093015Z');
+        expect(lines).toContain('SEQUENCE:0');
+        expect(lines).toContain('DTSTART;VALUE=DATE:20250901');
+        expect(lines).toContain('DTEND;VALUE=DATE:20250902');
+        expect(lines).toContain('SUMMARY:Retirement: Basic Load Balancer\\, upgrade to Standard');
+        expect(lines).toContain(
+            'DESCRIPTION:Retirement month: 2025-09\\nProducts: Azure Load Balancer\\nhttps://azure.microsoft.com/en-us/updates/?id=basic-lb'
+        );
+        expect(lines).toContain('URL:https://azure.microsoft.com/en-us/updates/?id=basic-lb');
+        expect(lines).toContain('CATEGORIES:Azure Load Balancer');
+    });
+
+    it('should raise SEQUENCE and LAST-MODIFIED when the update changes', () => {
+        archiveUpdateRevision(db, 'basic-lb', '2025-06-01T10:00:00.0000000Z');
+        addUpdate(db, {
+            ...dates,
+            id: 'basic-lb',
+            title: 'Retirement: Basic Load Balancer, upgrade to Standard',
+            products: ['Azure Load Balancer'],
+            categories: ['Networking'],
+            availabilities: [{ ring: 'Retirement', date: '2025-10-01' }],
+        });
+        db.prepare('UPDATE azure_updates SET modified = ? WHERE id = ?').run('2025-06-01T10:00:00.0000000Z', 'basic-lb');
+
+        const [event] = getRetirementCalendar(db, { products: ['Azure Load Balancer'] }).events;
+        const lines = unfold(getRetirementCalendar(db, { products: ['Azure Load Balancer'] }).ics);
+
+        expect(event.sequence).toBe(1);
+        expect(lines).toContain('SEQUENCE:1');
+        expect(lines).toContain('LAST-MODIFIED:20250601T100000Z');
+        expect(lines).toContain('DTSTART;VALUE=DATE:20251001');
+    });
+
+    it('should fold long lines at 75 octets without splitting characters', () => {
+        addUpdate(db, {
+            ...dates,
+            id: 'long',
+            title: `Retirement: ${'Ünïcödé '.repeat(20)}`,
+            availabilities: [{ ring: 'Retirement', date: '2027-01-01' }],
+        });
+
+        const { ics } = getRetirementCalendar(db);
+
+        for (const line of ics.split('\r\n')) {
+            expect(Buffer.byteLength(line, 'utf-8')).toBeLessThanOrEqual(75);
+        }
+        expect(unfold(ics)).toContain(`SUMMARY:Retirement: ${'Ünïcödé '.repeat(20)}`);
+    });
+
+    it('should apply product and category filters like searches', () => {
+        expect(getRetirementCalendar(db, { products: { anyOf: ['Azure Functions', 'Azure Monitor'] } }).events
+            .map(event => event.updateId)).toEqual(['phased', 'phased', 'func-v3']);
+        expect(getRetirementCalendar(db, { productCategories: { noneOf: ['Compute', 'Networking'] } }).events
+            .map(event => event.updateId)).toEqual(['phased', 'phased']);
+    });
+
+    it('should leave out removed updates', () => {
+        markUpdatesRemoved(db, ['basic-lb'], '2025-03-01T00:00:00.000Z');
+
+        expect(getRetirementCalendar(db).events.map(event => event.updateId)).not.toContain('basic-lb');
+    });
+
+    it('should return an empty calendar without retirements', () => {
+        const { events, ics } = getRetirementCalendar(db, { products: ['Azure Cosmos DB'] });
+
+        expect(events).toEqual([]);
+        expect(ics).not.toContain('BEGIN:VEVENT');
+        expect(ics).toContain('END:VCALENDAR');
+    });
+});
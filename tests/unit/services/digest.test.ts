@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getUpdatesDigest, formatDigestMarkdown } from '../../../src/services/digest.service.js';
+import { markUpdatesRemoved } from '../../../src/database/queries.js';
+import { addUpdate } from '../../fixtures/updates.js';
+
+describe('Digest Service', () => {
+    let db: Database.Database;
+    const now = new Date('2026-10-19T12:00:00.000Z');
+
+    // Availabilities in the given rings (the date does not matter to the digest)
+    function inRings(...rings: string[]): Array<{ ring: string; date: string }> {
+        return rings.map(ring => ({ ring, date: '2026-11-01' }));
+    }
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        const thisWeek = { created: '2026-10-14T09:00:00.0000000Z', modified: '2026-10-15T09:00:00.0000000Z' };
+        const updatedThisWeek = { created: '2026-05-01T09:00:00.0000000Z', modified: '2026-10-16T09:00:00.0000000Z' };
+        const lastMonth = { created: '2026-09-01T09:00:00.0000000Z', modified: '2026-09-02T09:00:00.0000000Z' };
+
+        addUpdate(db, {
+            ...thisWeek,
+            id: 'aks-ga',
+            title: 'Generally available: AKS [LTS] support',
+            products: ['Azure Kubernetes Service (AKS)'],
+            categories: ['Containers', 'Compute'],
+            availabilities: inRings('Preview', 'General Availability'),
+        });
+        addUpdate(db, {
+            ...thisWeek,
+            id: 'func-preview',
+            title: 'Public preview: Flex Consumption',
+            products: ['Azure Functions'],
+            categories: ['Compute'],
+            availabilities: inRings('Preview'),
+        });
+        addUpdate(db, { ...thisWeek, id: 'no-ring', title: 'Azure Monitor pricing update', products: ['Azure Monitor'] });
+        addUpdate(db, {
+            ...updatedThisWeek,
+            id: 'func-v3',
+            title: 'Azure Functions runtime v3 will be retired',
+            products: ['Azure Functions'],
+            categories: ['Compute'],
+            availabilities: inRings('Retirement'),
+        });
+        addUpdate(db, {
+            ...lastMonth,
+            id: 'old',
+            title: 'Older announcement',
+            products: ['Azure Functions'],
+            categories: ['Compute'],
+            availabilities: inRings('General Availability'),
+        });
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    describe('getUpdatesDigest', () => {
+        it('should split updates in the window into new and modified ones', () => {
+            const digest = getUpdatesDigest(db, {}, { now });
+
+            expect(digest.window).toEqual({ since: '2026-10-12T12:00:00.000Z', until: '2026-10-19T12:00:00.000Z' });
+            expect(digest.metadata).toEqual({ totalUpdates: 4, newUpdates: 3, modifiedUpdates: 1 });
+            expect(digest.modifiedUpdates.rings).toEqual([
+                {
+                    ring: 'Retirement',
+                    count: 1,
+                    categories: [{ category: 'Compute', count: 1, updates: [expect.objectContaining({ id: 'func-v3' })] }],
+                },
+            ]);
+        });
+
+        it('should section updates by most advanced ring and first category', () => {
+            const { newUpdates } = getUpdatesDigest(db, {}, { now });
+
+            expect(newUpdates.count).toBe(3);
+            expect(newUpdates.rings.map(ring => [ring.ring, ring.count, ring.categories.map(c => c.category)])).toEqual([
+                ['Preview', 1, ['Compute']],
+                ['General Availability', 1, ['Compute']],
+                ['No availability ring', 1, ['Uncategorized']],
+            ]);
+            expect(newUpdates.rings[1].categories[0].updates[0]).toEqual({
+                id: 'aks-ga',
+                title: 'Generally available: AKS [LTS] support',
+                url: 'https://azure.microsoft.com/en-us/updates/?id=aks-ga',
+                created: '2026-10-14T09:00:00.0000000Z',
+                modified: '2026-10-15T09:00:00.0000000Z',
+                products: ['Azure Kubernetes Service (AKS)'],
+                productCategories: ['Compute', 'Containers'],
+                availabilities: [
+                    { ring: 'Preview', year: 2026, month: 'November' },
+                    { ring: 'General Availability', year: 2026, month: 'November' },
+                ],
+            });
+        });
+
+        it('should use since and until as the window', () => {
+            const digest = getUpdatesDigest(db, { since: '2026-09-01', until: '2026-10-01' }, { now });
+
+            expect(digest.metadata).toEqual({ totalUpdates: 1, newUpdates: 1, modifiedUpdates: 0 });
+            expect(digest.newUpdates.rings[0].categories[0].updates[0].id).toBe('old');
+        });
+
+        it('should include the whole day of a date-only until', () => {
+            const digest = getUpdatesDigest(db, { since: '2026-10-01', until: '2026-10-15' }, { now });
+
+            expect(digest.window.until).toBe('2026-10-15');
+            expect(digest.metadata).toEqual({ totalUpdates: 3, newUpdates: 3, modifiedUpdates: 0 });
+            expect(getUpdatesDigest(db, { since: '2026-10-01', until: '2026-10-15T00:00:00Z' }, { now }).metadata.totalUpdates).toBe(0);
+        });
+
+        it('should count days back from now', () => {
+            expect(getUpdatesDigest(db, { days: 60 }, { now }).metadata.totalUpdates).toBe(5);
+        });
+
+        it('should apply product filters and leave out removed updates', () => {
+            markUpdatesRemoved(db, ['func-preview'], '2026-10-17T00:00:00.000Z');
+
+            const digest = getUpdatesDigest(db, { products: { anyOf: ['Azure Functions'] } }, { now });
+
+            expect(digest.scope).toEqual({ products: { anyOf: ['Azure Functions'] }, productCategories: undefined });
+            expect(digest.metadata).toEqual({ totalUpdates: 1, newUpdates: 0, modifiedUpdates: 1 });
+        });
+    });
+
+    describe('formatDigestMarkdown', () => {
+        it('should render sections with counts and links', () => {
+            const markdown = formatDigestMarkdown(getUpdatesDigest(db, { productCategories: ['Compute'] }, { now }));
+
+            expect(markdown).toBe([
+                '# Azure Updates digest: 2026-10-12 to 2026-10-19',
+                '',
+                '_Product categories: Compute_',
+                '',
+                '**3 updates**: 2 new, 1 modified',
+                '',
+                '## New announcements (2)',
+                '',
+                '### Preview (1)',
+                '',
+                '#### Compute (1)',
+                '',
+                '- [Public preview: Flex Consumption](https://azure.microsoft.com/en-us/updates/?id=func-preview) · Azure Functions · 2026-10-14',
+                '',
+                '### General Availability (1)',
+                '',
+                '#### Compute (1)',
+                '',
+                '- [Generally available: AKS \\[LTS\\] support](https://azure.microsoft.com/en-us/updates/?id=aks-ga) · Azure Kubernetes Service (AKS) · 2026-10-14',
+                '',
+                '## Modified updates (1)',
+                '',
+                '### Retirement (1)',
+                '',
+                '#### Compute (1)',
+                '',
+                '- [Azure Functions runtime v3 will be retired](https://azure.microsoft.com/en-us/updates/?id=func-v3) · Azure Functions · 2026-10-16',
+                '',
+            ].join('\n'));
+        });
+
+        it('should mark empty sections', () => {
+            const markdown = formatDigestMarkdown(getUpdatesDigest(db, { since: '2026-10-18' }, { now }));
+
+            expect(markdown).toContain('**0 updates**: 0 new, 0 modified');
+            expect(markdown).toContain('## New announcements (0)\n\n_None_');
+            expect(markdown).toContain('## Modified updates (0)\n\n_None_');
+        });
+    });
+});
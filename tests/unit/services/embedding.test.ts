@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+    createEmbeddingProvider,
+    createHashingEmbeddingProvider,
+    ensureUpdateEmbeddings,
+    findSimilarUpdates,
+} from '../../../src/services/embedding.service.js';
+
+function cosine(a: Float32Array, b: Float32Array): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('Embedding Service', () => {
+    describe('createHashingEmbeddingProvider', () => {
+        const provider = createHashingEmbeddingProvider();
+
+        it('should return one unit-length vector per text', () => {
+            const vectors = provider.embed(['Private networking for Container Apps', 'Backup vault immutability']);
+
+            expect(provider.model).toBe('hashing-v1-512');
+            expect(vectors).toHaveLength(2);
+            for (const vector of vectors) {
+                expect(vector).toHaveLength(512);
+                expect(cosine(vector, vector)).toBeCloseTo(1, 5);
+            }
+        });
+
+        it('should return a zero vector for texts without words', () => {
+            const [vector] = provider.embed(['the - of']);
+
+            expect(vector.every(value => value === 0)).toBe(true);
+        });
+
+        it('should place related word forms closer than unrelated texts', () => {
+            const [query, related, unrelated] = provider.embed([
+                'network isolation',
+                'Networking and isolated environments',
+                'Backup vault immutability',
+            ]);
+
+            expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated) + 0.15);
+        });
+    });
+
+    describe('createEmbeddingProvider', () => {
+        it('should create providers by name and vector length', () => {
+            expect(createEmbeddingProvider('hashing').model).toBe('hashing-v1-512');
+            expect(createEmbeddingProvider('hashing', 64).model).toBe('hashing-v1-64');
+        });
+
+        it('should reject unknown providers and invalid vector lengths', () => {
+            expect(() => createEmbeddingProvider('minilm')).toThrow('Unknown embedding provider "minilm" (available: hashing)');
+            expect(() => createEmbeddingProvider('toString')).toThrow(/Unknown embedding provider/);
+            expect(() => createEmbeddingProvider('hashing', 0)).toThrow(/Invalid embedding dimensions/);
+            expect(() => createEmbeddingProvider('hashing', Number('abc'))).toThrow(/Invalid embedding dimensions/);
+        });
+    });
+
+    describe('stored embeddings', () => {
+        let db: Database.Database;
+        const provider = createHashingEmbeddingProvider();
+
+        beforeEach(() => {
+            db = new Database(':memory:');
+            db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, '', ?, 'Active', 'en-us', '2025-03-01T00:00:00.0000000Z', '2025-03-01T00:00:00.0000000Z')
+            `);
+            insert.run('emb-net', 'Private networking for Container Apps', 'Route traffic through your virtual network');
+            insert.run('emb-endpoint', 'Private endpoints for Azure Cache', 'Connect over a private network link');
+            insert.run('emb-backup', 'Backup vault immutability', 'Protect backups from deletion');
+        });
+
+        afterEach(() => {
+            db.close();
+        });
+
+        function storedIds(): string[] {
+            return (db.prepare('SELECT update_id FROM update_embeddings ORDER BY update_id').all() as { update_id: string }[])
+                .map(row => row.update_id);
+        }
+
+        it('should embed only updates without a vector', () => {
+            expect(ensureUpdateEmbeddings(db, provider)).toBe(3);
+            expect(ensureUpdateEmbeddings(db, provider)).toBe(0);
+            expect(storedIds()).toEqual(['emb-backup', 'emb-endpoint', 'emb-net']);
+        });
+
+        it('should recompute vectors of another model', () => {
+            ensureUpdateEmbeddings(db, createHashingEmbeddingProvider(64));
+
+            expect(ensureUpdateEmbeddings(db, provider)).toBe(3);
+            expect(db.prepare('SELECT DISTINCT model FROM update_embeddings').all()).toEqual([{ model: provider.model }]);
+        });
+
+        it('should drop a vector when the title or description changes', () => {
+            ensureUpdateEmbeddings(db, provider);
+
+            db.prepare("UPDATE azure_updates SET status = 'Retired' WHERE id = 'emb-net'").run();
+            expect(storedIds()).toContain('emb-net');
+
+            db.prepare("UPDATE azure_updates SET description_md = 'Changed' WHERE id = 'emb-net'").run();
+            expect(storedIds()).toEqual(['emb-backup', 'emb-endpoint']);
+        });
+
+        it('should rank candidates by similarity and drop dissimilar updates', () => {
+            ensureUpdateEmbeddings(db, provider);
+
+            const { updates, truncated } = findSimilarUpdates(db, provider, 'private network', { sql: 'SELECT id FROM azure_updates', params: [] }, 10);
+
+            expect(updates.map(update => update.id)).toEqual(['emb-endpoint', 'emb-net']);
+            expect(updates[0].similarity).toBeGreaterThanOrEqual(updates[1].similarity);
+            expect(truncated).toBe(false);
+        });
+
+        it('should only consider candidates and report when the limit cuts the ranking', () => {
+            ensureUpdateEmbeddings(db, provider);
+            const candidates = { sql: 'SELECT id FROM azure_updates WHERE id != ?', params: ['emb-endpoint'] };
+
+            expect(findSimilarUpdates(db, provider, 'private network', candidates, 10).updates.map(update => update.id)).toEqual(['emb-net']);
+            expect(findSimilarUpdates(db, provider, 'private network', { sql: 'SELECT id FROM azure_updates', params: [] }, 1))
+                .toEqual({ updates: [expect.objectContaining({ id: 'emb-endpoint' })], truncated: true });
+        });
+
+        it('should score only the most recently modified candidates and report the others', () => {
+            ensureUpdateEmbeddings(db, provider);
+            db.prepare("UPDATE azure_updates SET modified = '2025-06-01T00:00:00.0000000Z' WHERE id != 'emb-endpoint'").run();
+
+            const ranking = findSimilarUpdates(db, provider, 'private network', { sql: 'SELECT id FROM azure_updates', params: [] }, 10, 2);
+
+            expect(ranking).toEqual({ updates: [expect.objectContaining({ id: 'emb-net' })], truncated: true });
+        });
+
+        it('should skip updates without a stored vector instead of computing it', () => {
+            const all = { sql: 'SELECT id FROM azure_updates', params: [] };
+
+            expect(findSimilarUpdates(db, provider, 'private network', all, 10).updates).toEqual([]);
+            expect(storedIds()).toEqual([]);
+        });
+    });
+});
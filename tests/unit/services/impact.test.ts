@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getRetirementImpact, loadInventoryFile } from '../../../src/services/impact.service.js';
+import { markUpdatesRemoved } from '../../../src/database/queries.js';
+import { addUpdate } from '../../fixtures/updates.js';
+import type { InventoryEntry } from '../../../src/models/retirement-impact.js';
+
+describe('Impact Service', () => {
+    let db: Database.Database;
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    function impact(inventory: InventoryEntry[]) {
+        return getRetirementImpact(db, inventory, { now });
+    }
+
+    const inventory: InventoryEntry[] = [
+        { product: 'Azure Functions', resourceCount: 40, owners: ['app-team'] },
+        { product: 'Azure Kubernetes Service (AKS)', resourceCount: 12, owners: ['platform-team'] },
+        'Azure Monitor',
+    ];
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        const retirements: Array<[string, string[], string | null]> = [
+            ['func-v3', ['Azure Functions'], '2026-09-01'],
+            ['aks-ubuntu', ['Azure Kubernetes Service (AKS)', 'Azure Functions'], '2026-12-01'],
+            ['classic-alerts', ['Azure Monitor'], '2027-06-01'],
+            ['current-month', ['Azure Monitor'], '2026-10-01'],
+            ['far-future', ['Azure Functions'], '2028-01-01'],
+            ['tbd', ['Azure Kubernetes Service (AKS)'], null],
+            ['other', ['Azure Load Balancer'], '2026-11-01'],
+        ];
+        for (const [id, products, date] of retirements) {
+            addUpdate(db, { id, title: `Retirement: ${id}`, products, availabilities: [{ ring: 'Retirement', date }] });
+        }
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    describe('getRetirementImpact', () => {
+        it('should group retirements of inventory products by urgency', () => {
+            const { buckets, metadata } = impact(inventory);
+            const ids = (bucket: keyof typeof buckets) => buckets[bucket].map(retirement => retirement.updateId);
+
+            expect(ids('overdue')).toEqual(['func-v3']);
+            expect(ids('within90Days')).toEqual(['current-month', 'aks-ubuntu']);
+            expect(ids('withinYear')).toEqual(['classic-alerts']);
+            expect(metadata).toEqual({
+                asOf: '2026-10-19',
+                inventoryProducts: 3,
+                impactedRetirements: 4,
+                laterRetirements: 1,
+                undatedRetirements: 1,
+            });
+        });
+
+        it('should attach affected products, resource counts and owners', () => {
+            const [retirement] = impact(inventory).buckets.within90Days.filter(entry => entry.updateId === 'aks-ubuntu');
+
+            expect(retirement).toEqual({
+                updateId: 'aks-ubuntu',
+                title: 'Retirement: aks-ubuntu',
+                url: 'https://azure.microsoft.com/en-us/updates/?id=aks-ubuntu',
+                retirementDate: '2026-12-01',
+                daysUntil: 43,
+                affectedProducts: [
+                    { product: 'Azure Functions', resourceCount: 40, owners: ['app-team'] },
+                    { product: 'Azure Kubernetes Service (AKS)', resourceCount: 12, owners: ['platform-team'] },
+                ],
+                resourceCount: 52,
+                owners: ['app-team', 'platform-team'],
+            });
+            expect(impact(inventory).buckets.overdue[0].daysUntil).toBe(-48);
+        });
+
+        it('should report no resource count when the inventory declares none', () => {
+            const [retirement] = impact(inventory).buckets.withinYear;
+
+            expect(retirement.affectedProducts).toEqual([{ product: 'Azure Monitor' }]);
+            expect(retirement.resourceCount).toBeNull();
+            expect(retirement.owners).toEqual([]);
+        });
+
+        it('should match product names case-insensitively and merge duplicate entries', () => {
+            const result = impact([
+                { product: 'azure functions', resourceCount: 5, owners: ['a'] },
+                { product: 'Azure Functions ', resourceCount: 3, owners: ['b', 'a'] },
+            ]);
+
+            expect(result.metadata.inventoryProducts).toBe(1);
+            expect(result.buckets.overdue[0].affectedProducts).toEqual([
+                { product: 'azure functions', resourceCount: 8, owners: ['a', 'b'] },
+            ]);
+        });
+
+        it('should list inventory products that no update uses', () => {
+            expect(impact(['Azure Functons', 'Azure Monitor']).unmatchedProducts).toEqual(['Azure Functons']);
+        });
+
+        it('should leave out removed updates', () => {
+            markUpdatesRemoved(db, ['func-v3'], '2026-01-01T00:00:00.000Z');
+
+            expect(impact(inventory).buckets.overdue).toEqual([]);
+        });
+    });
+
+    describe('loadInventoryFile', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = mkdtempSync(join(tmpdir(), 'inventory-test-'));
+        });
+
+        afterEach(() => {
+            rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should load product names and items', () => {
+            const path = join(tempDir, 'inventory.json');
+            writeFileSync(path, JSON.stringify(inventory));
+
+            expect(loadInventoryFile(path)).toEqual(inventory);
+        });
+
+        it('should import resource exports', () => {
+            const path = join(tempDir, 'resources.json');
+            writeFileSync(path, JSON.stringify({
+                data: [{ type: 'microsoft.web/sites', kind: 'functionapp', count_: 40 }],
+            }));
+
+            expect(loadInventoryFile(path)).toEqual([{ product: 'Azure Functions', resourceCount: 40 }]);
+        });
+
+        it('should load YAML files by extension', () => {
+            for (const name of ['inventory.yaml', 'inventory.yml']) {
+                const path = join(tempDir, name);
+                writeFileSync(path, [
+                    '- Azure Monitor',
+                    '- product: Azure Kubernetes Service (AKS)',
+                    '  resourceCount: 12',
+                    '  owners: [platform-team]',
+                ].join('\n'));
+
+                expect(loadInventoryFile(path)).toEqual([
+                    'Azure Monitor',
+                    { product: 'Azure Kubernetes Service (AKS)', resourceCount: 12, owners: ['platform-team'] },
+                ]);
+            }
+        });
+
+        it('should report syntax errors with the file format', () => {
+            const yamlPath = join(tempDir, 'inventory.yaml');
+            writeFileSync(yamlPath, '- product: [Azure Functions');
+            const jsonPath = join(tempDir, 'inventory.json');
+            writeFileSync(jsonPath, '["Azure Functions"');
+
+            expect(() => loadInventoryFile(yamlPath)).toThrow(/Invalid YAML in inventory file/);
+            expect(() => loadInventoryFile(jsonPath)).toThrow(/Invalid JSON in inventory file/);
+        });
+
+        it('should reject files with the wrong shape', () => {
+            const path = join(tempDir, 'inventory.json');
+            writeFileSync(path, JSON.stringify([{ product: 'Azure Functions', resourceCount: -1 }]));
+
+            expect(() => loadInventoryFile(path)).toThrow(/Invalid inventory file/);
+        });
+
+        it('should report unreadable files', () => {
+            expect(() => loadInventoryFile(join(tempDir, 'missing.json'))).toThrow(/Cannot read inventory file/);
+        });
+    });
+});
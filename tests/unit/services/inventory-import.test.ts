@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { importInventory, isResourceExport, RESOURCE_TYPE_PRODUCTS } from '../../../src/services/inventory-import.service.js';
+
+describe('Inventory Import Service', () => {
+    const resources = [
+        { type: 'Microsoft.ContainerService/managedClusters', name: 'aks-prod', tags: { Owner: 'platform-team' } },
+        { type: 'Microsoft.ContainerService/managedClusters', name: 'aks-dev', tags: { owner: 'dev-team' } },
+        { type: 'Microsoft.Web/sites', kind: 'functionapp,linux', name: 'func-orders', tags: { owner: 'app-team' } },
+        { type: 'Microsoft.Web/sites', kind: 'app', name: 'web-shop' },
+        { type: 'Microsoft.Web/sites', kind: 'functionapp,workflowapp', name: 'logic-billing' },
+        { type: 'Microsoft.Sql/servers/databases', name: 'sql-prod/orders' },
+        { type: 'Microsoft.Contoso/widgets', name: 'widget-1' },
+    ];
+
+    describe('importInventory', () => {
+        it('should map resource types of az resource list output to products', () => {
+            const result = importInventory(resources);
+
+            expect(result.inventory).toEqual([
+                { product: 'Azure Kubernetes Service (AKS)', resourceCount: 2 },
+                { product: 'Azure Functions', resourceCount: 1 },
+                { product: 'Azure App Service', resourceCount: 1 },
+                { product: 'Azure Logic Apps', resourceCount: 1 },
+                { product: 'Azure SQL Database', resourceCount: 1 },
+            ]);
+            expect(result.products).toEqual([
+                'Azure App Service',
+                'Azure Functions',
+                'Azure Kubernetes Service (AKS)',
+                'Azure Logic Apps',
+                'Azure SQL Database',
+            ]);
+            expect(result.unmappedTypes).toEqual([{ type: 'microsoft.contoso/widgets', resourceCount: 1 }]);
+            expect(result.metadata).toEqual({ resources: 7, mappedResources: 6, skippedRows: 0 });
+        });
+
+        it('should collect owners from a tag matched case-insensitively', () => {
+            const { inventory } = importInventory(resources, { ownerTag: 'OWNER' });
+
+            expect(inventory[0]).toEqual({
+                product: 'Azure Kubernetes Service (AKS)',
+                resourceCount: 2,
+                owners: ['platform-team', 'dev-team'],
+            });
+            expect(inventory[1]).toEqual({ product: 'Azure Functions', resourceCount: 1, owners: ['app-team'] });
+        });
+
+        it('should count summarized Resource Graph rows', () => {
+            const result = importInventory({
+                totalRecords: 3,
+                count: 3,
+                data: [
+                    { type: 'microsoft.keyvault/vaults', count_: 4 },
+                    { type: 'microsoft.recoveryservices/vaults', count_: 2 },
+                    { type: 'microsoft.contoso/widgets', count_: 9 },
+                ],
+            });
+
+            expect(result.inventory).toEqual([
+                { product: 'Azure Key Vault', resourceCount: 4 },
+                { product: 'Azure Backup', resourceCount: 2 },
+                { product: 'Azure Site Recovery', resourceCount: 2 },
+            ]);
+            expect(result.metadata).toEqual({ resources: 15, mappedResources: 6, skippedRows: 0 });
+        });
+
+        it('should read Resource Graph results in table format', () => {
+            const result = importInventory({
+                data: {
+                    columns: [{ name: 'type', type: 'string' }, { name: 'count_', type: 'long' }],
+                    rows: [['microsoft.containerservice/managedclusters', 5]],
+                },
+            });
+
+            expect(result.inventory).toEqual([{ product: 'Azure Kubernetes Service (AKS)', resourceCount: 5 }]);
+        });
+
+        it('should read ARM list responses and skip rows without a resource type', () => {
+            const result = importInventory({ value: [{ type: 'Microsoft.KeyVault/vaults' }, { name: 'no-type' }, 'text'] });
+
+            expect(result.products).toEqual(['Azure Key Vault']);
+            expect(result.metadata.skippedRows).toBe(2);
+        });
+
+        it('should reject values that are not exports', () => {
+            expect(() => importInventory({ resources: [] })).toThrow(/Not a resource export/);
+        });
+    });
+
+    describe('isResourceExport', () => {
+        it('should tell resource exports from inventories', () => {
+            expect(isResourceExport(resources)).toBe(true);
+            expect(isResourceExport({ data: [] })).toBe(true);
+            expect(isResourceExport({ value: [] })).toBe(true);
+            expect(isResourceExport(['Azure Functions'])).toBe(false);
+            expect(isResourceExport([{ product: 'Azure Functions', type: 'x/y' }])).toBe(false);
+            expect(isResourceExport([])).toBe(false);
+        });
+    });
+
+    describe('RESOURCE_TYPE_PRODUCTS', () => {
+        it('should use lowercase resource types', () => {
+            for (const type of Object.keys(RESOURCE_TYPE_PRODUCTS)) {
+                expect(type).toBe(type.toLowerCase());
+            }
+        });
+    });
+});
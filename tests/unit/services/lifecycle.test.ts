@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getFeatureLifecycles, loadFeatureOverrideFile, type LifecycleOptions } from '../../../src/services/lifecycle.service.js';
+import { addUpdate } from '../../fixtures/updates.js';
+import type { FeatureLifecycleQuery } from '../../../src/models/feature-lifecycle.js';
+
+describe('Lifecycle Service', () => {
+    let db: Database.Database;
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    function lifecycles(query: FeatureLifecycleQuery = {}, options: LifecycleOptions = {}) {
+        return getFeatureLifecycles(db, query, { now, ...options });
+    }
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        const aks = ['Azure Kubernetes Service (AKS)'];
+        addUpdate(db, {
+            id: 'nap-preview',
+            title: 'Public Preview: AKS node auto-provisioning',
+            created: '2024-03-05T00:00:00.0000000Z',
+            products: aks,
+            availabilities: [{ ring: 'Preview', date: '2024-03-01' }],
+        });
+        addUpdate(db, {
+            id: 'nap-ga',
+            title: 'Generally Available: Node auto-provisioning in AKS',
+            created: '2025-06-02T00:00:00.0000000Z',
+            products: aks,
+            availabilities: [{ ring: 'General Availability', date: '2025-06-01' }],
+        });
+        addUpdate(db, {
+            id: 'lts',
+            title: 'Public Preview: AKS long-term support',
+            created: '2024-01-10T00:00:00.0000000Z',
+            products: aks,
+            availabilities: [
+                { ring: 'Private Preview', date: null },
+                { ring: 'Preview', date: '2024-01-01' },
+            ],
+        });
+        addUpdate(db, {
+            id: 'flex',
+            title: 'Public Preview: Flex Consumption plan',
+            created: '2025-08-01T00:00:00.0000000Z',
+            products: ['Azure Functions'],
+            availabilities: [
+                { ring: 'Preview', date: '2025-08-01' },
+                { ring: 'General Availability', date: '2027-01-01' },
+            ],
+        });
+        addUpdate(db, {
+            id: 'basic-notice',
+            title: 'Basic Load Balancer will be retired',
+            created: '2022-09-30T00:00:00.0000000Z',
+            products: ['Azure Load Balancer'],
+            availabilities: [{ ring: 'Retirement', date: '2025-06-01' }],
+        });
+        addUpdate(db, {
+            id: 'basic-retire',
+            title: 'Retirement: Basic Load Balancer',
+            created: '2025-01-15T00:00:00.0000000Z',
+            products: ['Azure Load Balancer'],
+            availabilities: [{ ring: 'Retirement', date: '2025-09-01' }],
+        });
+        addUpdate(db, {
+            id: 'no-rings',
+            title: 'AKS node auto-provisioning docs',
+            created: '2025-07-01T00:00:00.0000000Z',
+            products: aks,
+        });
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    describe('getFeatureLifecycles', () => {
+        it('should group announcements about a feature and derive its stages', () => {
+            const [feature] = lifecycles({ updateId: 'nap-ga' }).features;
+
+            expect(feature.id).toBe('nap-preview');
+            expect(feature.name).toBe('Node auto-provisioning in AKS');
+            expect(feature.updates.map(update => update.id)).toEqual(['nap-preview', 'nap-ga']);
+            expect(feature.stages).toEqual([
+                { stage: 'Preview', date: '2024-03-01', updateId: 'nap-preview' },
+                { stage: 'General Availability', date: '2025-06-01', updateId: 'nap-ga' },
+            ]);
+            expect(feature.transitions).toEqual([{ from: 'Preview', to: 'General Availability', days: 457 }]);
+            expect(feature.currentStage).toBe('General Availability');
+            expect(feature.currentStageSince).toBe('2025-06-01');
+            expect(feature.monthsInCurrentStage).toBe(16);
+            expect(feature.manual).toBe(false);
+        });
+
+        it('should find features in preview for over 18 months for given products', () => {
+            const result = lifecycles({
+                products: ['Azure Kubernetes Service (AKS)', 'Azure Functions'],
+                stage: 'Preview',
+                minMonthsInStage: 18,
+            });
+
+            expect(result.features.map(feature => feature.id)).toEqual(['lts']);
+            expect(result.features[0].monthsInCurrentStage).toBe(33);
+            expect(result.metadata).toMatchObject({ totalFeatures: 1, returnedFeatures: 1, asOf: '2026-10-19' });
+        });
+
+        it('should keep planned stages out of the current stage and transitions', () => {
+            const [feature] = lifecycles({ updateId: 'flex' }).features;
+
+            expect(feature.stages.map(stage => stage.stage)).toEqual(['Preview', 'General Availability']);
+            expect(feature.currentStage).toBe('Preview');
+            expect(feature.transitions).toEqual([]);
+        });
+
+        it('should take stage dates from the latest announcement', () => {
+            const [feature] = lifecycles({ updateId: 'basic-notice' }).features;
+
+            expect(feature.updates.map(update => update.id)).toEqual(['basic-notice', 'basic-retire']);
+            expect(feature.name).toBe('Basic Load Balancer');
+            expect(feature.stages).toEqual([{ stage: 'Retirement', date: '2025-09-01', updateId: 'basic-retire' }]);
+            expect(feature.currentStage).toBe('Retirement');
+        });
+
+        it('should list stages without a date but not count them as reached', () => {
+            const [feature] = lifecycles({ updateId: 'lts' }).features;
+
+            expect(feature.stages[0]).toEqual({ stage: 'Private Preview', date: null, updateId: 'lts' });
+            expect(feature.currentStage).toBe('Preview');
+        });
+
+        it('should order features by how long they have been in their current stage', () => {
+            const result = lifecycles();
+
+            expect(result.features.map(feature => feature.id)).toEqual(['lts', 'nap-preview', 'flex', 'basic-notice']);
+            expect(result.metadata.medianPreviewToGaDays).toBe(457);
+        });
+
+        it('should group updates listed in an override and leave them out of automatic grouping', () => {
+            const result = lifecycles({}, { overrides: [{ name: 'AKS LTS and NAP', updateIds: ['lts', 'nap-ga', 'missing'] }] });
+            const manual = result.features.find(feature => feature.manual);
+            const preview = result.features.find(feature => feature.id === 'nap-preview');
+
+            expect(manual?.name).toBe('AKS LTS and NAP');
+            expect(manual?.updates.map(update => update.id)).toEqual(['lts', 'nap-ga']);
+            expect(preview?.updates.map(update => update.id)).toEqual(['nap-preview']);
+        });
+
+        it('should apply the limit after counting all matches', () => {
+            const result = lifecycles({ limit: 1 });
+
+            expect(result.features).toHaveLength(1);
+            expect(result.metadata.totalFeatures).toBe(4);
+        });
+    });
+
+    describe('loadFeatureOverrideFile', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = mkdtempSync(join(tmpdir(), 'overrides-test-'));
+        });
+
+        afterEach(() => {
+            rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should load feature groups', () => {
+            const path = join(tempDir, 'features.json');
+            writeFileSync(path, JSON.stringify([{ name: 'AKS LTS', updateIds: ['1', '2'] }, { updateIds: ['3'] }]));
+
+            expect(loadFeatureOverrideFile(path)).toEqual([{ name: 'AKS LTS', updateIds: ['1', '2'] }, { updateIds: ['3'] }]);
+        });
+
+        it('should reject files with the wrong shape', () => {
+            const path = join(tempDir, 'features.json');
+            writeFileSync(path, JSON.stringify([{ name: 'Empty', updateIds: [] }]));
+
+            expect(() => loadFeatureOverrideFile(path)).toThrow(/Invalid feature override file/);
+        });
+
+        it('should report unreadable files', () => {
+            expect(() => loadFeatureOverrideFile(join(tempDir, 'missing.json'))).toThrow(/Cannot read feature override file/);
+        });
+    });
+});
@@ -24,7 +24,8 @@ describe('Search Service - Phrase Search', () => {
                 status TEXT,
                 locale TEXT,
                 created TEXT NOT NULL,
-                modified TEXT NOT NULL
+                modified TEXT NOT NULL,
+                removed_at TEXT
             );
 
             CREATE VIRTUAL TABLE updates_fts USING fts5(
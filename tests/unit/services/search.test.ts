@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
-import { searchUpdates } from '../../../src/services/search.service.js';
+import { searchUpdates, parseRankWeights, DEFAULT_RANK_WEIGHTS, type SearchOptions } from '../../../src/services/search.service.js';
+import { createHashingEmbeddingProvider, ensureUpdateEmbeddings } from '../../../src/services/embedding.service.js';
+import { refreshUpdateSearchColumns, upsertUpdate } from '../../../src/database/queries.js';
 import type { SearchQuery } from '../../../src/models/search-query.js';
 import { mkdtempSync, rmSync } from 'fs';
 import { join } from 'path';
@@ -91,6 +93,9 @@ describe('Search Service', () => {
         database.prepare('INSERT INTO update_products (update_id, product) VALUES (?, ?)').run('test-1', 'Azure Virtual Machines');
         database.prepare('INSERT INTO update_products (update_id, product) VALUES (?, ?)').run('test-2', 'Azure SQL Database');
         database.prepare('INSERT INTO update_products (update_id, product) VALUES (?, ?)').run('test-3', 'Azure Machine Learning');
+        for (const id of ['test-1', 'test-2', 'test-3']) {
+            refreshUpdateSearchColumns(database, id);
+        }
 
         // Insert availabilities
         database.prepare('INSERT INTO update_availabilities (update_id, ring, date) VALUES (?, ?, ?)').run(
@@ -285,5 +290,710 @@ describe('Search Service', () => {
             expect(result.results[0].products).toBeDefined();
             expect(result.results[0].availabilities).toBeDefined();
         });
+
+        it('should exclude updates removed upstream by default', () => {
+            db.prepare('UPDATE azure_updates SET removed_at = ? WHERE id = ?').run('2025-07-01T00:00:00.000Z', 'test-2');
+
+            const result = searchUpdates(db, { limit: 10, offset: 0 });
+            expect(result.metadata.totalResults).toBe(2);
+            expect(result.results.map(r => r.id)).not.toContain('test-2');
+
+            const keywordResult = searchUpdates(db, { query: 'Retirement', limit: 10, offset: 0 });
+            expect(keywordResult.results.map(r => r.id)).not.toContain('test-2');
+        });
+
+        it('should include removed updates when includeRemoved is set', () => {
+            db.prepare('UPDATE azure_updates SET removed_at = ? WHERE id = ?').run('2025-07-01T00:00:00.000Z', 'test-2');
+
+            const result = searchUpdates(db, { filters: { includeRemoved: true }, limit: 10, offset: 0 });
+            expect(result.metadata.totalResults).toBe(3);
+
+            const removed = result.results.find(r => r.id === 'test-2');
+            expect(removed?.removedAt).toBe('2025-07-01T00:00:00.000Z');
+        });
+    });
+
+    describe('availability rings and dates', () => {
+        function searchIds(filters: SearchQuery['filters']): string[] {
+            return searchUpdates(db, { filters, limit: 10, offset: 0 }).results.map(r => r.id).sort();
+        }
+
+        beforeEach(() => {
+            // test-1: GA date not announced yet
+            db.prepare('INSERT INTO update_availabilities (update_id, ring, date) VALUES (?, ?, ?)').run('test-1', 'General Availability', null);
+        });
+
+        it('should match any of several rings', () => {
+            expect(searchIds({ availabilityRings: ['Preview', 'Retirement'] })).toEqual(['test-2', 'test-3']);
+        });
+
+        it('should filter availability dates across all rings', () => {
+            expect(searchIds({ availabilityDateFrom: '2026-01-01', availabilityDateTo: '2026-12-01' })).toEqual(['test-2']);
+        });
+
+        it('should apply availability dates to the listed rings only', () => {
+            expect(searchIds({ availabilityRings: ['Preview'], availabilityDateFrom: '2026-01-01' })).toEqual([]);
+            expect(searchIds({ availabilityRings: ['Preview'], availabilityDateTo: '2025-06-01' })).toEqual(['test-3']);
+        });
+
+        it('should find rings whose date is TBD', () => {
+            expect(searchIds({ availabilityDateTbd: true })).toEqual(['test-1']);
+            expect(searchIds({ availabilityRings: ['Preview'], availabilityDateTbd: true })).toEqual([]);
+        });
+    });
+
+    describe('multi-valued filter operators', () => {
+        function searchIds(filters: SearchQuery['filters']): string[] {
+            return searchUpdates(db, { filters, limit: 10, offset: 0 }).results.map(r => r.id).sort();
+        }
+
+        it('should match any of the listed products', () => {
+            expect(searchIds({ products: { anyOf: ['Azure SQL Database', 'Azure Machine Learning', 'Unknown'] } }))
+                .toEqual(['test-2', 'test-3']);
+        });
+
+        it('should exclude updates in noneOf categories', () => {
+            expect(searchIds({ productCategories: { noneOf: ['Compute', 'Databases'] } })).toEqual(['test-3']);
+        });
+
+        it('should combine operators across dimensions', () => {
+            expect(searchIds({
+                products: { anyOf: ['Azure Virtual Machines', 'Azure SQL Database'] },
+                tags: { noneOf: ['Retirements'] },
+            })).toEqual(['test-1']);
+        });
+
+        it('should ignore empty operator arrays', () => {
+            expect(searchIds({ tags: { anyOf: [], noneOf: [] } })).toEqual(['test-1', 'test-2', 'test-3']);
+        });
+
+        it('should apply operators to the total count and keyword searches', () => {
+            const result = searchUpdates(db, {
+                query: 'Azure',
+                filters: { tags: { noneOf: ['Security'] } },
+                limit: 1,
+                offset: 0,
+            });
+
+            expect(result.metadata.totalResults).toBe(2);
+        });
+    });
+
+    describe('facets', () => {
+        it('should not compute facets unless requested', () => {
+            const result = searchUpdates(db, { limit: 10, offset: 0 });
+
+            expect(result.facets).toBeUndefined();
+        });
+
+        it('should count every requested dimension across all matches', () => {
+            const result = searchUpdates(db, {
+                limit: 1,
+                offset: 0,
+                facets: ['tags', 'products', 'productCategories', 'availabilityRings', 'statuses', 'months'],
+            });
+
+            // Counts cover all 3 matches even though only one result is returned
+            expect(result.results).toHaveLength(1);
+            expect(result.facets?.statuses).toEqual([
+                { value: 'Active', count: 2 },
+                { value: 'Retired', count: 1 },
+            ]);
+            expect(result.facets?.productCategories).toEqual([
+                { value: 'AI + Machine Learning', count: 1 },
+                { value: 'Compute', count: 1 },
+                { value: 'Databases', count: 1 },
+            ]);
+            expect(result.facets?.availabilityRings).toEqual([
+                { value: 'Preview', count: 1 },
+                { value: 'Retirement', count: 1 },
+            ]);
+            expect(result.facets?.tags).toHaveLength(3);
+            expect(result.facets?.products).toHaveLength(3);
+            expect(result.facets?.months).toEqual([
+                { value: '2025-06', count: 1 },
+                { value: '2025-02', count: 1 },
+                { value: '2025-01', count: 1 },
+            ]);
+        });
+
+        it('should apply the keyword and filters to facet counts', () => {
+            const result = searchUpdates(db, {
+                query: 'Azure',
+                filters: { status: 'Active' },
+                limit: 10,
+                offset: 0,
+                facets: ['productCategories'],
+            });
+
+            expect(result.facets).toEqual({
+                productCategories: [
+                    { value: 'AI + Machine Learning', count: 1 },
+                    { value: 'Compute', count: 1 },
+                ],
+            });
+        });
+
+        it('should count an update once per ring even with several dates', () => {
+            db.prepare('INSERT INTO update_availabilities (update_id, ring, date) VALUES (?, ?, ?)').run('test-2', 'Retirement', '2026-09-30');
+
+            const result = searchUpdates(db, { limit: 10, offset: 0, facets: ['availabilityRings'] });
+
+            expect(result.facets?.availabilityRings).toContainEqual({ value: 'Retirement', count: 1 });
+        });
+
+        it('should exclude removed updates from facet counts by default', () => {
+            db.prepare('UPDATE azure_updates SET removed_at = ? WHERE id = ?').run('2025-07-01T00:00:00.000Z', 'test-2');
+
+            const result = searchUpdates(db, { limit: 10, offset: 0, facets: ['statuses'] });
+
+            expect(result.facets?.statuses).toEqual([{ value: 'Active', count: 2 }]);
+        });
+    });
+
+    describe('cursor pagination', () => {
+        beforeEach(() => {
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, ?, ?, 'Active', 'en-us', ?, ?)
+            `);
+            const retire = db.prepare('INSERT INTO update_availabilities (update_id, ring, date) VALUES (?, ?, ?)');
+
+            // Repeated dates and retirement months exercise the id tie-breaker;
+            // longer descriptions give distinct relevance scores
+            for (let i = 0; i < 12; i++) {
+                const id = `page-${String(i).padStart(2, '0')}`;
+                const day = String((i % 4) + 1).padStart(2, '0');
+                insert.run(
+                    id,
+                    `Pagination update ${i}`,
+                    '',
+                    `pagination ${'filler '.repeat(i % 5)}`,
+                    `2024-03-${day}T00:00:00.0000000Z`,
+                    `2024-05-${day}T00:00:00.0000000Z`
+                );
+                if (i % 3 !== 0) {
+                    retire.run(id, 'Retirement', `2026-0${(i % 2) + 1}-01`);
+                }
+            }
+        });
+
+        function collectPages(query: SearchQuery): { ids: string[]; offsets: number[] } {
+            const ids: string[] = [];
+            const offsets: number[] = [];
+            let cursor: string | undefined;
+
+            do {
+                const result = searchUpdates(db, { ...query, limit: 5, cursor });
+                ids.push(...result.results.map(r => r.id));
+                offsets.push(result.metadata.offset);
+                cursor = result.metadata.cursor;
+                expect(cursor !== undefined).toBe(result.metadata.hasMore);
+            } while (cursor);
+
+            return { ids, offsets };
+        }
+
+        it.each<[string, SearchQuery]>([
+            ['modified:desc', { sortBy: 'modified:desc' }],
+            ['modified:asc', { sortBy: 'modified:asc' }],
+            ['created:desc', { sortBy: 'created:desc' }],
+            ['created:asc', { sortBy: 'created:asc' }],
+            ['retirement:asc', { sortBy: 'retirement:asc' }],
+            ['retirement:desc', { sortBy: 'retirement:desc' }],
+            ['relevance', { query: 'pagination', sortBy: 'relevance' }],
+            ['default sort with keyword', { query: 'pagination' }],
+        ])('should page through %s results without gaps or duplicates', (_name, query) => {
+            const all = searchUpdates(db, { ...query, limit: 100 }).results.map(r => r.id);
+            const { ids, offsets } = collectPages(query);
+
+            expect(ids).toEqual(all);
+            expect(new Set(ids).size).toBe(ids.length);
+            expect(offsets).toEqual(offsets.map((_, i) => i * 5));
+        });
+
+        it('should order relevance-sorted results by score', () => {
+            const result = searchUpdates(db, { query: 'pagination', sortBy: 'relevance', limit: 100 });
+            const scores = result.results.map(r => r.relevanceScore ?? 0);
+
+            expect(scores).toEqual([...scores].sort((a, b) => a - b));
+        });
+
+        it('should not shift later pages when updates are inserted between pages', () => {
+            const first = searchUpdates(db, { sortBy: 'modified:asc', limit: 5 });
+
+            // Sorts after the first page, so without the snapshot it would appear on the next one
+            upsertUpdate(db, {
+                id: 'page-new',
+                title: 'Pagination newcomer',
+                description_html: '',
+                description_md: '',
+                status: 'Active',
+                locale: 'en-us',
+                created: '2024-05-03T00:00:00.0000000Z',
+                modified: '2024-05-03T00:00:00.0000000Z',
+                metadata: null,
+            });
+
+            const second = searchUpdates(db, { sortBy: 'modified:asc', limit: 5, cursor: first.metadata.cursor });
+
+            expect(second.results.map(r => r.id)).not.toContain('page-new');
+            expect(second.metadata.totalResults).toBe(first.metadata.totalResults);
+            expect(searchUpdates(db, { sortBy: 'modified:asc', limit: 100 }).results.map(r => r.id)).toContain('page-new');
+        });
+
+        it('should not repeat updates modified between pages', () => {
+            const first = searchUpdates(db, { sortBy: 'modified:asc', limit: 5 });
+            const [edited] = first.results;
+
+            // Now sorts last, so without the snapshot the last page would return it again
+            upsertUpdate(db, {
+                id: edited.id,
+                title: edited.title,
+                description_html: '',
+                description_md: 'pagination edited',
+                status: 'Active',
+                locale: 'en-us',
+                created: '2024-03-01T00:00:00.0000000Z',
+                modified: '2030-01-01T00:00:00.0000000Z',
+                metadata: null,
+            });
+
+            const ids = first.results.map(r => r.id);
+            let cursor = first.metadata.cursor;
+            while (cursor) {
+                const page = searchUpdates(db, { sortBy: 'modified:asc', limit: 5, cursor });
+                ids.push(...page.results.map(r => r.id));
+                cursor = page.metadata.cursor;
+            }
+
+            expect(ids.filter(id => id === edited.id)).toHaveLength(1);
+            expect(new Set(ids).size).toBe(ids.length);
+            expect(ids).toHaveLength(first.metadata.totalResults);
+            expect(searchUpdates(db, { sortBy: 'modified:asc', limit: 100 }).results.at(-1)?.id).toBe(edited.id);
+        });
+
+        it('should reject a cursor from a different query', () => {
+            const first = searchUpdates(db, { sortBy: 'modified:asc', limit: 5 });
+
+            expect(() => searchUpdates(db, { sortBy: 'created:asc', limit: 5, cursor: first.metadata.cursor }))
+                .toThrow('cursor belongs to a different query');
+            expect(() => searchUpdates(db, { sortBy: 'modified:asc', filters: { status: 'Active' }, limit: 5, cursor: first.metadata.cursor }))
+                .toThrow('cursor belongs to a different query');
+        });
+
+        it('should reject a malformed cursor', () => {
+            expect(() => searchUpdates(db, { limit: 5, cursor: 'not-a-cursor' })).toThrow('cursor is invalid');
+            expect(() => searchUpdates(db, { limit: 5, cursor: Buffer.from('{"id":1}').toString('base64url') }))
+                .toThrow('cursor is invalid');
+        });
+    });
+
+    describe('field-weighted ranking', () => {
+        beforeEach(() => {
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, '', ?, 'Active', 'en-us', '2025-03-01T00:00:00.0000000Z', '2025-03-01T00:00:00.0000000Z')
+            `);
+            insert.run('weight-title', 'Kubernetes fleet management', 'Manage many clusters from one place');
+            insert.run('weight-desc', 'Container platform news', 'This release improves kubernetes networking, storage and upgrades for clusters');
+            insert.run('weight-product', 'Node pool upgrades', 'Faster upgrades for node pools');
+            db.prepare('INSERT INTO update_products (update_id, product) VALUES (?, ?)').run('weight-product', 'Azure Kubernetes Service');
+            refreshUpdateSearchColumns(db, 'weight-product');
+        });
+
+        function rankedIds(query: SearchQuery, options?: SearchOptions): string[] {
+            return searchUpdates(db, { ...query, sortBy: 'relevance', limit: 100 }, options).results.map(r => r.id);
+        }
+
+        it('should match tags, products and categories', () => {
+            expect(rankedIds({ query: 'Databases' })).toEqual(['test-2']);
+            expect(rankedIds({ query: 'Retirements' })).toContain('test-2');
+            expect(rankedIds({ query: 'kubernetes' })).toContain('weight-product');
+        });
+
+        it('should rank title and product hits above description hits by default', () => {
+            expect(rankedIds({ query: 'kubernetes' })).toEqual(['weight-title', 'weight-product', 'weight-desc']);
+        });
+
+        it('should apply configured weights', () => {
+            const ids = rankedIds({ query: 'kubernetes' }, { rankWeights: { title: 1, description: 20, products: 1 } });
+
+            expect(ids[0]).toBe('weight-desc');
+        });
+
+        it('should report the weighted score as relevance', () => {
+            const results = searchUpdates(db, { query: 'kubernetes', sortBy: 'relevance', limit: 100 }).results;
+
+            expect(results.every(r => typeof r.relevanceScore === 'number' && r.relevanceScore < 0)).toBe(true);
+        });
+
+        it('should keep the index in sync when related values are refreshed', () => {
+            db.prepare('DELETE FROM update_products WHERE update_id = ?').run('weight-product');
+            refreshUpdateSearchColumns(db, 'weight-product');
+            expect(rankedIds({ query: 'kubernetes' })).not.toContain('weight-product');
+
+            db.prepare('INSERT INTO update_tags (update_id, tag) VALUES (?, ?)').run('weight-product', 'Containers');
+            refreshUpdateSearchColumns(db, 'weight-product');
+            expect(rankedIds({ query: 'containers' })).toContain('weight-product');
+
+            db.prepare("UPDATE azure_updates SET title = 'Kubernetes node pools' WHERE id = ?").run('weight-product');
+            expect(rankedIds({ query: 'kubernetes' })).toContain('weight-product');
+            expect(rankedIds({ query: 'containers' })).toContain('weight-product');
+        });
+
+        it('should fall back to modified:desc for relevance without a keyword', () => {
+            const byRelevance = searchUpdates(db, { sortBy: 'relevance', limit: 100 }).results.map(r => r.id);
+            const byModified = searchUpdates(db, { sortBy: 'modified:desc', limit: 100 }).results.map(r => r.id);
+
+            expect(byRelevance).toEqual(byModified);
+        });
+    });
+
+    describe('boolean queries', () => {
+        beforeEach(() => {
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, '', ?, 'Active', 'en-us', '2025-03-01T00:00:00.0000000Z', '2025-03-01T00:00:00.0000000Z')
+            `);
+            insert.run('bool-aks', 'Retirement of AKS node images', 'Upgrade your clusters');
+            insert.run('bool-classic', 'Retirement of classic storage accounts', 'Migrate to storage v2');
+            insert.run('bool-storage', 'Storage account failover', 'Customer-managed failover for storage');
+            db.prepare('INSERT INTO update_products (update_id, product) VALUES (?, ?)').run('bool-aks', 'Azure Kubernetes Service');
+            refreshUpdateSearchColumns(db, 'bool-aks');
+        });
+
+        function matchingIds(query: string): string[] {
+            return searchUpdates(db, { query, limit: 100 }).results.map(r => r.id).filter(id => id.startsWith('bool-')).sort();
+        }
+
+        it('should require every AND term', () => {
+            expect(matchingIds('AKS AND retirement')).toEqual(['bool-aks']);
+            expect(matchingIds('AKS retirement')).toEqual(['bool-aks', 'bool-classic']);
+        });
+
+        it('should exclude terms', () => {
+            expect(matchingIds('storage -classic')).toEqual(['bool-storage']);
+            expect(matchingIds('retirement NOT (classic OR kubernetes)')).toEqual([]);
+        });
+
+        it('should scope terms to a field', () => {
+            expect(matchingIds('product:kubernetes')).toEqual(['bool-aks']);
+            expect(matchingIds('title:storage')).toEqual(['bool-classic', 'bool-storage']);
+            expect(matchingIds('title:migrate')).toEqual([]);
+        });
+
+        it('should apply structured filters and the total count to boolean queries', () => {
+            const response = searchUpdates(db, {
+                query: 'retirement -classic',
+                filters: { products: ['Azure Kubernetes Service'] },
+            });
+
+            expect(response.results.map(r => r.id)).toEqual(['bool-aks']);
+            expect(response.metadata.totalResults).toBe(1);
+        });
+
+        it('should reject malformed queries', () => {
+            expect(() => searchUpdates(db, { query: '(aks OR kubernetes' })).toThrow('Missing ")"');
+        });
+    });
+
+    describe('snippets', () => {
+        beforeEach(() => {
+            db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, '', ?, 'Active', 'en-us', '2025-03-01T00:00:00.0000000Z', '2025-03-01T00:00:00.0000000Z')
+            `).run(
+                'snippet-1',
+                'Node image upgrades',
+                'Clusters created before 2024 use the old image.\n\nStarting in March, node pools running the legacy image are upgraded automatically during the maintenance window. '
+                    + 'Plan your workload disruption budgets before the rollout reaches your region.'
+            );
+        });
+
+        function findSnippetResult(query: SearchQuery) {
+            return searchUpdates(db, { limit: 100, ...query }).results.find(r => r.id === 'snippet-1');
+        }
+
+        it('should not include snippets unless requested', () => {
+            expect(findSnippetResult({ query: 'maintenance' })?.snippet).toBeUndefined();
+        });
+
+        it('should highlight matched terms in a description excerpt', () => {
+            const snippet = findSnippetResult({ query: 'maintenance', includeSnippets: true })?.snippet;
+
+            expect(snippet).toContain('**maintenance**');
+            expect(snippet).not.toContain('\n');
+            expect(snippet?.startsWith('…')).toBe(true);
+        });
+
+        it('should apply the configured length and markers', () => {
+            const snippet = findSnippetResult({
+                query: 'maintenance',
+                includeSnippets: true,
+                snippetOptions: { maxTokens: 5, startMarker: '<mark>', endMarker: '</mark>' },
+            })?.snippet;
+
+            expect(snippet).toContain('<mark>maintenance</mark>');
+            expect(snippet?.replace(/…/g, '').trim().split(' ')).toHaveLength(5);
+        });
+
+        it('should not include snippets without a keyword', () => {
+            expect(findSnippetResult({ includeSnippets: true })?.snippet).toBeUndefined();
+        });
+    });
+
+    describe('spelling correction', () => {
+        beforeEach(() => {
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, '', ?, 'Active', 'en-us', '2025-03-01T00:00:00.0000000Z', '2025-03-01T00:00:00.0000000Z')
+            `);
+            insert.run('typo-aks', 'Kubernetes 1.33 is generally available', 'New Kubernetes version for clusters');
+            insert.run('typo-cosmos', 'Cosmos DB vector search', 'Vector indexing in Cosmos DB');
+        });
+
+        it('should correct a misspelled word and report the corrected query', () => {
+            const response = searchUpdates(db, { query: 'kuberentes' });
+
+            expect(response.results.map(r => r.id)).toEqual(['typo-aks']);
+            expect(response.metadata.didYouMean).toEqual({
+                query: 'kubernetes',
+                corrections: [{ term: 'kuberentes', suggestion: 'kubernetes' }],
+            });
+        });
+
+        it('should continue corrected results with the cursor of the original query', () => {
+            db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES ('typo-aks-lts', 'Kubernetes long-term support', '', 'LTS for Kubernetes', 'Active', 'en-us',
+                    '2025-02-01T00:00:00.0000000Z', '2025-02-01T00:00:00.0000000Z')
+            `).run();
+
+            const first = searchUpdates(db, { query: 'kuberentes', limit: 1 });
+            expect(first.metadata.didYouMean?.query).toBe('kubernetes');
+            expect(first.metadata.cursor).toBeDefined();
+
+            const second = searchUpdates(db, { query: 'kuberentes', limit: 1, cursor: first.metadata.cursor });
+
+            expect([...first.results, ...second.results].map(r => r.id)).toEqual(['typo-aks', 'typo-aks-lts']);
+            expect(second.metadata.offset).toBe(1);
+            expect(second.metadata.hasMore).toBe(false);
+        });
+
+        it('should split run-together words into a phrase', () => {
+            const response = searchUpdates(db, { query: 'cosmosdb' });
+
+            expect(response.results.map(r => r.id)).toEqual(['typo-cosmos']);
+            expect(response.metadata.didYouMean?.query).toBe('"cosmos db"');
+        });
+
+        it('should keep operators, phrases and correct words', () => {
+            const response = searchUpdates(db, { query: 'title:kuberentes AND "generally available"' });
+
+            expect(response.metadata.didYouMean?.query).toBe('title:kubernetes AND "generally available"');
+            expect(response.results.map(r => r.id)).toEqual(['typo-aks']);
+        });
+
+        it('should not correct queries that match', () => {
+            expect(searchUpdates(db, { query: 'kubernetes' }).metadata.didYouMean).toBeUndefined();
+        });
+
+        it('should return the empty result when no correction matches', () => {
+            const response = searchUpdates(db, { query: 'zzqxv' });
+
+            expect(response.results).toEqual([]);
+            expect(response.metadata.didYouMean).toBeUndefined();
+        });
+
+        it('should apply filters to the corrected query', () => {
+            const response = searchUpdates(db, { query: 'kuberentes', filters: { status: 'Retired' } });
+
+            expect(response.results).toEqual([]);
+            expect(response.metadata.didYouMean).toBeUndefined();
+        });
+    });
+
+    describe('synonym expansion', () => {
+        beforeEach(() => {
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, '', ?, 'Active', 'en-us', '2025-03-01T00:00:00.0000000Z', '2025-03-01T00:00:00.0000000Z')
+            `);
+            insert.run('syn-aks', 'AKS node auto-provisioning is generally available', 'Provision nodes automatically');
+            insert.run('syn-kubernetes', 'Azure Kubernetes Service fleet updates', 'Update clusters in waves');
+            insert.run('syn-aad', 'Azure Active Directory Graph retirement', 'Update apps to Microsoft Graph');
+            insert.run('syn-entra', 'Entra ID conditional access update', 'New policy conditions');
+            insert.run('syn-lustre', 'Lustre CSI driver update', 'Dynamic provisioning');
+            db.prepare('INSERT INTO update_products (update_id, product) VALUES (?, ?)')
+                .run('syn-lustre', 'Azure Managed Lustre File System (AMLFS2)');
+            refreshUpdateSearchColumns(db, 'syn-lustre');
+        });
+
+        function matchingIds(query: string, options?: SearchOptions): string[] {
+            return searchUpdates(db, { query }, options).results.map(r => r.id).sort();
+        }
+
+        it('should match an acronym and its full name', () => {
+            expect(matchingIds('aks')).toEqual(['syn-aks', 'syn-kubernetes']);
+            expect(matchingIds('"Azure Kubernetes Service"')).toEqual(['syn-aks', 'syn-kubernetes']);
+        });
+
+        it('should treat consecutive words forming a known name as one term', () => {
+            expect(matchingIds('Entra ID')).toEqual(['syn-aad', 'syn-entra']);
+            expect(matchingIds('azure active directory')).toEqual(['syn-aad', 'syn-entra']);
+        });
+
+        it('should report the applied expansions', () => {
+            const response = searchUpdates(db, { query: 'AKS AND generally' });
+
+            expect(response.results.map(r => r.id)).toEqual(['syn-aks']);
+            expect(response.metadata.expansions).toEqual([
+                { term: 'AKS', synonyms: ['Azure Kubernetes Service'] },
+            ]);
+        });
+
+        it('should exclude synonyms together with the term', () => {
+            const ids = matchingIds('update -"entra id"');
+
+            expect(ids).toContain('syn-lustre');
+            expect(ids).not.toContain('syn-entra');
+            expect(ids).not.toContain('syn-aad');
+        });
+
+        it('should not report expansions for queries without known names', () => {
+            expect(searchUpdates(db, { query: 'fleet' }).metadata.expansions).toBeUndefined();
+        });
+
+        it('should derive synonyms from acronyms in product names', () => {
+            expect(matchingIds('amlfs2')).toEqual(['syn-lustre']);
+        });
+
+        it('should add configured synonym groups', () => {
+            expect(matchingIds('waves')).toEqual(['syn-kubernetes']);
+            expect(matchingIds('waves', { synonyms: [['waves', 'auto-provisioning']] })).toEqual(['syn-aks', 'syn-kubernetes']);
+        });
+    });
+
+    describe('similarity and hybrid search', () => {
+        const embeddings = createHashingEmbeddingProvider();
+        const options: SearchOptions = { embeddings };
+
+        beforeEach(() => {
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, ?, '', ?, ?, 'en-us', '2025-04-01T00:00:00.0000000Z', '2025-04-01T00:00:00.0000000Z')
+            `);
+            insert.run('sem-net', 'Private networking for Container Apps', 'Route traffic through your virtual network', 'Active');
+            insert.run('sem-endpoint', 'Private endpoints for Azure Cache', 'Connect over a private link', 'Active');
+            insert.run('sem-vnet', 'Virtual network flow logs', 'Capture networking traffic for analysis', 'Retired');
+            insert.run('sem-backup', 'Backup vault immutability', 'Protect backups from deletion', 'Active');
+            ensureUpdateEmbeddings(db, embeddings);
+        });
+
+        it('should rank updates by similarity in similarity mode', () => {
+            const response = searchUpdates(db, { query: 'networking', mode: 'similarity' }, options);
+            const ids = response.results.map(r => r.id);
+
+            expect(ids.slice(0, 2).sort()).toEqual(['sem-net', 'sem-vnet']);
+            expect(ids).not.toContain('sem-backup');
+            expect(response.results.map(r => r.relevanceScore)).toEqual(
+                [...response.results.map(r => r.relevanceScore)].sort((a, b) => (b ?? 0) - (a ?? 0))
+            );
+        });
+
+        it('should rank updates matching both keywords and meaning first in hybrid mode', () => {
+            const response = searchUpdates(db, { query: 'private network', mode: 'hybrid' }, options);
+            const ids = response.results.map(r => r.id);
+
+            expect(ids[0]).toBe('sem-net');
+            expect(ids).toContain('sem-endpoint');
+            expect(ids).toContain('sem-vnet');
+            expect(ids).not.toContain('sem-backup');
+        });
+
+        it('should apply filters', () => {
+            const ids = searchUpdates(db, { query: 'networking', mode: 'hybrid', filters: { status: 'Retired' } }, options)
+                .results.map(r => r.id);
+
+            expect(ids[0]).toBe('sem-vnet');
+            expect(ids).not.toContain('sem-net');
+        });
+
+        it('should page with offset and count all ranked updates', () => {
+            const all = searchUpdates(db, { query: 'private network', mode: 'hybrid' }, options);
+            const page = searchUpdates(db, { query: 'private network', mode: 'hybrid', limit: 1, offset: 1 }, options);
+
+            expect(page.results.map(r => r.id)).toEqual([all.results[1].id]);
+            expect(page.metadata.totalResults).toBe(all.metadata.totalResults);
+            expect(page.metadata.hasMore).toBe(all.metadata.totalResults > 2);
+            expect(page.metadata.cursor).toBeUndefined();
+        });
+
+        it('should flag totals cut by the ranking limit as truncated', () => {
+            expect(searchUpdates(db, { query: 'networking', mode: 'hybrid' }, options).metadata.truncated).toBeUndefined();
+
+            const insert = db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES (?, 'Networking change', '', NULL, 'Active', 'en-us', '2025-04-01T00:00:00.0000000Z', '2025-04-01T00:00:00.0000000Z')
+            `);
+            for (let i = 0; i < 200; i++) {
+                insert.run(`sem-bulk-${i}`);
+            }
+
+            const response = searchUpdates(db, { query: 'networking', mode: 'hybrid' }, options);
+
+            expect(response.metadata.truncated).toBe(true);
+            expect(response.metadata.totalResults).toBeGreaterThanOrEqual(200);
+        });
+
+        it('should count facets over all ranked updates', () => {
+            const response = searchUpdates(db, { query: 'networking', mode: 'similarity', limit: 1, facets: ['statuses'] }, options);
+            const total = response.facets?.statuses?.reduce((sum, facet) => sum + facet.count, 0);
+
+            expect(total).toBe(response.metadata.totalResults);
+        });
+
+        it('should add snippets for keyword matches in hybrid mode', () => {
+            const response = searchUpdates(db, { query: 'link', mode: 'hybrid', includeSnippets: true }, options);
+
+            expect(response.results.find(r => r.id === 'sem-endpoint')?.snippet).toBe('Connect over a private **link**');
+        });
+
+        it('should not write embeddings of updates stored without one', () => {
+            db.prepare(`
+                INSERT INTO azure_updates (id, title, description_html, description_md, status, locale, created, modified)
+                VALUES ('sem-late', 'Networking insights', '', NULL, 'Active', 'en-us', '2025-04-01T00:00:00.0000000Z', '2025-04-01T00:00:00.0000000Z')
+            `).run();
+            const count = (): unknown => db.prepare('SELECT COUNT(*) AS count FROM update_embeddings').get();
+            const before = count();
+
+            const ids = searchUpdates(db, { query: 'networking', mode: 'similarity' }, options).results.map(r => r.id);
+
+            expect(ids).not.toContain('sem-late');
+            expect(count()).toEqual(before);
+        });
+
+        it('should reject similarity modes without an embedding provider', () => {
+            expect(() => searchUpdates(db, { query: 'networking', mode: 'similarity' })).toThrow(/requires similarity search/);
+        });
+    });
+
+    describe('parseRankWeights', () => {
+        it('should parse column=weight pairs', () => {
+            expect(parseRankWeights('title=20, products=7.5')).toEqual({ title: 20, products: 7.5 });
+            expect(parseRankWeights('')).toEqual({});
+        });
+
+        it('should reject unknown columns and invalid weights', () => {
+            expect(() => parseRankWeights('summary=3')).toThrow('Invalid rank weight "summary=3"');
+            expect(() => parseRankWeights('title=-1')).toThrow('Invalid rank weight');
+            expect(() => parseRankWeights('title=high')).toThrow('Invalid rank weight');
+            expect(() => parseRankWeights('title')).toThrow('Invalid rank weight');
+        });
+
+        it('should weight titles above descriptions by default', () => {
+            expect(DEFAULT_RANK_WEIGHTS.title).toBeGreaterThan(DEFAULT_RANK_WEIGHTS.description);
+        });
     });
 });
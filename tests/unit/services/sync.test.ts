@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import Database from 'better-sqlite3';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
@@ -6,10 +6,25 @@ import { fileURLToPath } from 'url';
 
 vi.mock('../../../src/services/azure-api.service.js', () => ({
     fetchAzureUpdates: vi.fn(async () => []),
+    fetchAzureUpdateIds: vi.fn(async () => []),
     fetchUpdateCount: vi.fn(async () => 0),
 }));
 
-import { performSync, isSyncNeeded, getSyncStatus } from '../../../src/services/sync.service.js';
+import {
+    performSync,
+    isSyncNeeded,
+    getSyncStatus,
+    reconcileRemovedUpdates,
+    computeSchedulerDelayMs,
+    parseCheckIntervalMinutes,
+    startSyncScheduler,
+    stopSyncScheduler,
+    getSyncSchedulerStatus,
+} from '../../../src/services/sync.service.js';
+import { fetchAzureUpdates, fetchAzureUpdateIds } from '../../../src/services/azure-api.service.js';
+import { createHashingEmbeddingProvider } from '../../../src/services/embedding.service.js';
+import { getUpdateById, getUpdateRevisions, getSyncCheckpoint, getRecentSyncRuns } from '../../../src/database/queries.js';
+import type { AzureUpdate } from '../../../src/models/azure-update.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -113,6 +128,460 @@ describe('Sync Service', () => {
         });
     });
 
+    describe('revision history', () => {
+        const baseUpdate: AzureUpdate = {
+            id: 'rev-1',
+            title: 'Retirement of Basic SKU',
+            description: '<p>Retiring on March 2026</p>',
+            url: 'https://azure.microsoft.com/en-us/updates/?id=rev-1',
+            status: null,
+            locale: null,
+            created: '2025-01-01T00:00:00.0000000Z',
+            modified: '2025-01-01T00:00:00.0000000Z',
+            tags: ['Retirements'],
+            productCategories: ['Networking'],
+            products: ['Azure Load Balancer'],
+            availabilities: [{ ring: 'Retirement', date: '2026-03-01' }],
+        };
+
+        it('should index the tags, products and categories of stored updates', async () => {
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([baseUpdate]);
+            await performSync(db);
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([{
+                ...baseUpdate,
+                modified: '2025-02-01T00:00:00.0000000Z',
+                tags: ['Features', 'Retirements'],
+                products: [],
+            }]);
+            await performSync(db);
+
+            expect(db.prepare('SELECT tags, products, categories FROM updates_fts WHERE id = ?').get('rev-1')).toEqual({
+                tags: 'Features, Retirements',
+                products: null,
+                categories: 'Networking',
+            });
+        });
+
+        it('should archive the previous version when a newer modified arrives', async () => {
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([baseUpdate]);
+            await performSync(db);
+
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([{
+                ...baseUpdate,
+                description: '<p>Retiring on September 2026</p>',
+                modified: '2025-02-01T00:00:00.0000000Z',
+                availabilities: [{ ring: 'Retirement', date: '2026-09-01' }],
+            }]);
+            const result = await performSync(db);
+
+            expect(result.success).toBe(true);
+            expect(getUpdateById(db, 'rev-1')?.availabilities).toEqual([{ ring: 'Retirement', date: '2026-09-01' }]);
+
+            const revisions = getUpdateRevisions(db, 'rev-1');
+            expect(revisions).toHaveLength(1);
+            expect(revisions[0].modified).toBe('2025-01-01T00:00:00.0000000Z');
+            expect(revisions[0].availabilities).toEqual([{ ring: 'Retirement', date: '2026-03-01' }]);
+        });
+
+        it('should not archive when the same version is synced again', async () => {
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([baseUpdate]);
+            await performSync(db);
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([baseUpdate]);
+            await performSync(db);
+
+            expect(getUpdateRevisions(db, 'rev-1')).toEqual([]);
+        });
+
+        it('should rebuild the search vocabulary after storing updates', async () => {
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([baseUpdate]);
+            await performSync(db);
+
+            const terms = db.prepare('SELECT term, documents FROM search_terms ORDER BY term').all();
+            expect(terms).toContainEqual({ term: 'retirement', documents: 1 });
+            expect(terms).toContainEqual({ term: 'balancer', documents: 1 });
+        });
+
+        it('should store embeddings when an embedding provider is set', async () => {
+            const embeddings = createHashingEmbeddingProvider();
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([baseUpdate]);
+            await performSync(db);
+
+            expect(db.prepare('SELECT COUNT(*) AS count FROM update_embeddings').get()).toEqual({ count: 0 });
+
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([{
+                ...baseUpdate,
+                title: 'Retirement of Basic SKU public IPs',
+                modified: '2025-02-01T00:00:00.0000000Z',
+            }]);
+            await performSync(db, undefined, { embeddings });
+
+            expect(db.prepare('SELECT update_id, model, length(vector) AS bytes FROM update_embeddings').all()).toEqual([
+                { update_id: 'rev-1', model: embeddings.model, bytes: 512 * 4 },
+            ]);
+        });
+
+        it('should embed updates stored while similarity search was off', async () => {
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([baseUpdate]);
+            await performSync(db);
+
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([]);
+            const embeddings = createHashingEmbeddingProvider();
+            await performSync(db, undefined, { embeddings });
+
+            expect(db.prepare('SELECT update_id, model FROM update_embeddings').all()).toEqual([
+                { update_id: 'rev-1', model: embeddings.model },
+            ]);
+        });
+    });
+
+    describe('sync run history', () => {
+        function makeUpdate(id: string, modified = '2025-01-01T00:00:00.0000000Z'): AzureUpdate {
+            return {
+                id,
+                title: `Update ${id}`,
+                description: '',
+                url: `https://azure.microsoft.com/en-us/updates/?id=${id}`,
+                status: null,
+                locale: null,
+                created: '2025-01-01T00:00:00.0000000Z',
+                modified,
+                tags: [],
+                productCategories: [],
+                products: [],
+                availabilities: [],
+            };
+        }
+
+        it('should record each run with real insert/update counts and pages fetched', async () => {
+            vi.mocked(fetchAzureUpdates).mockImplementationOnce(async (options) => {
+                options?.onPageFetched?.(1, 2);
+                options?.onPageFetched?.(2, 1);
+                return ['a', 'b', 'c'].map(id => makeUpdate(id));
+            });
+            await performSync(db);
+
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([
+                makeUpdate('a', '2025-02-01T00:00:00.0000000Z'),
+                makeUpdate('d', '2025-02-01T00:00:00.0000000Z'),
+            ]);
+            const result = await performSync(db);
+
+            expect(result).toMatchObject({ recordsInserted: 1, recordsUpdated: 1 });
+
+            const [latest, initial] = getRecentSyncRuns(db, 10);
+            expect(initial).toMatchObject({
+                mode: 'initial',
+                status: 'success',
+                recordsInserted: 3,
+                recordsUpdated: 0,
+                pagesFetched: 2,
+                errorMessage: null,
+            });
+            expect(initial.finishedAt).not.toBeNull();
+            expect(latest).toMatchObject({ mode: 'differential', status: 'success', recordsInserted: 1, recordsUpdated: 1 });
+        });
+
+        it('should not count unchanged updates as updated', async () => {
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce(['a', 'b'].map(id => makeUpdate(id)));
+            await performSync(db);
+
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([
+                makeUpdate('a'),
+                makeUpdate('b', '2025-02-01T00:00:00.0000000Z'),
+            ]);
+            const result = await performSync(db, undefined, { full: true });
+
+            expect(result).toMatchObject({ recordsProcessed: 2, recordsInserted: 0, recordsUpdated: 1 });
+        });
+
+        it('should record full resyncs and failures', async () => {
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([makeUpdate('a')]);
+            await performSync(db);
+            vi.mocked(fetchAzureUpdates).mockRejectedValueOnce(new Error('API unavailable'));
+            await performSync(db, undefined, { full: true });
+
+            const [latest] = getRecentSyncRuns(db, 1);
+            expect(latest).toMatchObject({ mode: 'full', status: 'failed', errorMessage: 'API unavailable' });
+        });
+
+        it('should record runs skipped because another sync holds the lock', async () => {
+            db.prepare(`UPDATE sync_checkpoints SET sync_status = 'in_progress' WHERE id = 1`).run();
+
+            await performSync(db);
+
+            const runs = getRecentSyncRuns(db, 10);
+            expect(runs).toHaveLength(1);
+            expect(runs[0]).toMatchObject({ status: 'skipped', errorMessage: 'Sync already in progress' });
+        });
+    });
+
+    describe('sync lock lease', () => {
+        it('should take over a lock whose heartbeat is older than the lock timeout', async () => {
+            db.prepare(`
+                UPDATE sync_checkpoints
+                SET sync_status = 'in_progress', lock_owner = 'crashed-host:1',
+                    lock_heartbeat = datetime('now', '-11 minutes')
+                WHERE id = 1
+            `).run();
+
+            const result = await performSync(db, undefined, { lockTimeoutMinutes: 10 });
+
+            expect(result.success).toBe(true);
+            const checkpoint = getSyncCheckpoint(db);
+            expect(checkpoint?.syncStatus).toBe('success');
+            expect(checkpoint?.lockOwner).toBeNull();
+            expect(checkpoint?.lockHeartbeat).toBeNull();
+        });
+
+        it('should not take over a lock with a recent heartbeat', async () => {
+            db.prepare(`
+                UPDATE sync_checkpoints
+                SET sync_status = 'in_progress', lock_owner = 'other-host:1',
+                    lock_heartbeat = datetime('now', '-5 minutes')
+                WHERE id = 1
+            `).run();
+
+            const result = await performSync(db, undefined, { lockTimeoutMinutes: 10 });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('already in progress');
+            expect(getSyncCheckpoint(db)?.lockOwner).toBe('other-host:1');
+        });
+
+        it('should not write results after the lock was taken over', async () => {
+            vi.mocked(fetchAzureUpdates).mockImplementationOnce(async () => {
+                // Another process decides our lock is stale while we are fetching
+                db.prepare(`UPDATE sync_checkpoints SET lock_owner = 'other-host:1' WHERE id = 1`).run();
+                return [{
+                    id: 'taken-over',
+                    title: 'Update taken-over',
+                    description: '',
+                    url: 'https://azure.microsoft.com/en-us/updates/?id=taken-over',
+                    status: null,
+                    locale: null,
+                    created: '2025-01-01T00:00:00.0000000Z',
+                    modified: '2025-01-01T00:00:00.0000000Z',
+                    tags: [],
+                    productCategories: [],
+                    products: [],
+                    availabilities: [],
+                }];
+            });
+
+            const result = await performSync(db);
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('taken over');
+            expect(getUpdateById(db, 'taken-over')).toBeNull();
+            // The new owner's lock is left alone
+            expect(getSyncCheckpoint(db)).toMatchObject({ syncStatus: 'in_progress', lockOwner: 'other-host:1' });
+        });
+    });
+
+    describe('removed update reconciliation', () => {
+        function makeUpdate(id: string): AzureUpdate {
+            return {
+                id,
+                title: `Update ${id}`,
+                description: '',
+                url: `https://azure.microsoft.com/en-us/updates/?id=${id}`,
+                status: null,
+                locale: null,
+                created: '2025-01-01T00:00:00.0000000Z',
+                modified: '2025-01-01T00:00:00.0000000Z',
+                tags: [],
+                productCategories: [],
+                products: [],
+                availabilities: [],
+            };
+        }
+
+        beforeEach(async () => {
+            vi.mocked(fetchAzureUpdateIds).mockClear();
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce(['a', 'b', 'c'].map(makeUpdate));
+            await performSync(db);
+        });
+
+        it('should record reconciliation time on initial sync without listing IDs', () => {
+            expect(fetchAzureUpdateIds).not.toHaveBeenCalled();
+            expect(getSyncCheckpoint(db)?.lastReconciliation).not.toBeNull();
+        });
+
+        it('should tombstone updates missing upstream', async () => {
+            vi.mocked(fetchAzureUpdateIds).mockResolvedValueOnce(['a', 'c']);
+
+            const result = await reconcileRemovedUpdates(db);
+
+            expect(result).toEqual({ upstreamCount: 2, removed: 1, restored: 0 });
+            expect(getUpdateById(db, 'b')?.removedAt).not.toBeNull();
+            expect(getUpdateById(db, 'a')?.removedAt).toBeNull();
+        });
+
+        it('should restore tombstoned updates that reappear upstream', async () => {
+            vi.mocked(fetchAzureUpdateIds).mockResolvedValueOnce(['a', 'c']);
+            await reconcileRemovedUpdates(db);
+
+            vi.mocked(fetchAzureUpdateIds).mockResolvedValueOnce(['a', 'b', 'c']);
+            const result = await reconcileRemovedUpdates(db);
+
+            expect(result.restored).toBe(1);
+            expect(getUpdateById(db, 'b')?.removedAt).toBeNull();
+        });
+
+        it('should refuse to tombstone when upstream returns no IDs', async () => {
+            vi.mocked(fetchAzureUpdateIds).mockResolvedValueOnce([]);
+
+            await expect(reconcileRemovedUpdates(db)).rejects.toThrow('no update IDs');
+            expect(getUpdateById(db, 'a')?.removedAt).toBeNull();
+        });
+
+        it('should run during differential sync when due', async () => {
+            vi.mocked(fetchAzureUpdateIds).mockResolvedValueOnce(['a', 'b']);
+
+            const result = await performSync(db, undefined, { reconcileIntervalHours: 0 });
+
+            expect(result.success).toBe(true);
+            expect(result.recordsRemoved).toBe(1);
+            expect(getUpdateById(db, 'c')?.removedAt).not.toBeNull();
+        });
+
+        it('should skip reconciliation when not due', async () => {
+            const result = await performSync(db, undefined, { reconcileIntervalHours: 24 });
+
+            expect(result.success).toBe(true);
+            expect(fetchAzureUpdateIds).not.toHaveBeenCalled();
+        });
+
+        it('should not fail the sync when reconciliation fails', async () => {
+            vi.mocked(fetchAzureUpdateIds).mockRejectedValueOnce(new Error('network down'));
+
+            const result = await performSync(db, undefined, { reconcileIntervalHours: 0 });
+
+            expect(result.success).toBe(true);
+            expect(result.recordsRemoved).toBe(0);
+        });
+
+        it('should not tombstone after the lock was taken over while listing IDs', async () => {
+            vi.mocked(fetchAzureUpdateIds).mockImplementationOnce(async () => {
+                db.prepare(`UPDATE sync_checkpoints SET lock_owner = 'other-host:1' WHERE id = 1`).run();
+                return ['a', 'b'];
+            });
+
+            const result = await performSync(db, undefined, { reconcileIntervalHours: 0 });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('taken over');
+            expect(getUpdateById(db, 'c')?.removedAt).toBeNull();
+        });
+
+        it('should clear the tombstone when the update is synced again', async () => {
+            vi.mocked(fetchAzureUpdateIds).mockResolvedValueOnce(['a', 'c']);
+            await reconcileRemovedUpdates(db);
+
+            vi.mocked(fetchAzureUpdates).mockResolvedValueOnce([{ ...makeUpdate('b'), modified: '2025-02-01T00:00:00.0000000Z' }]);
+            await performSync(db);
+
+            expect(getUpdateById(db, 'b')?.removedAt).toBeNull();
+        });
+    });
+
+    describe('background sync scheduler', () => {
+        const HOUR_MS = 60 * 60 * 1000;
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            vi.mocked(fetchAzureUpdates).mockClear();
+        });
+
+        afterEach(() => {
+            stopSyncScheduler();
+            vi.useRealTimers();
+        });
+
+        it('should back off exponentially after failures up to the cap', () => {
+            expect(computeSchedulerDelayMs(60, 0, 0)).toBe(HOUR_MS);
+            expect(computeSchedulerDelayMs(60, 1, 0)).toBe(2 * HOUR_MS);
+            expect(computeSchedulerDelayMs(60, 2, 0)).toBe(4 * HOUR_MS);
+            expect(computeSchedulerDelayMs(60, 5, 0, 360)).toBe(6 * HOUR_MS);
+        });
+
+        it('should spread delays by the jitter ratio', () => {
+            expect(computeSchedulerDelayMs(60, 0, 0.1, 360, () => 0)).toBe(0.9 * HOUR_MS);
+            expect(computeSchedulerDelayMs(60, 0, 0.1, 360, () => 0.5)).toBe(HOUR_MS);
+            expect(computeSchedulerDelayMs(60, 0, 0.1, 360, () => 0.999999)).toBeCloseTo(1.1 * HOUR_MS, -2);
+        });
+
+        it('should parse whole, non-negative check intervals only', () => {
+            expect(parseCheckIntervalMinutes('60')).toBe(60);
+            expect(parseCheckIntervalMinutes(' 0 ')).toBe(0);
+            for (const value of ['', 'hourly', '1.5', '-5', 'NaN', 'Infinity', '10abc']) {
+                expect(() => parseCheckIntervalMinutes(value)).toThrow(/Invalid sync check interval/);
+            }
+        });
+
+        it('should refuse to start with an invalid interval', () => {
+            expect(() => startSyncScheduler(db, { checkIntervalMinutes: NaN, stalenessHours: 24 }))
+                .toThrow(/Invalid sync check interval/);
+            expect(getSyncSchedulerStatus()).toBeNull();
+        });
+
+        it('should not start when the interval is 0', () => {
+            startSyncScheduler(db, { checkIntervalMinutes: 0, stalenessHours: 24 });
+
+            expect(getSyncSchedulerStatus()).toBeNull();
+        });
+
+        it('should sync on the interval only when data is stale', async () => {
+            db.prepare(`UPDATE sync_checkpoints SET last_sync = ?, sync_status = 'success' WHERE id = 1`)
+                .run(new Date().toISOString());
+
+            startSyncScheduler(db, { checkIntervalMinutes: 60, stalenessHours: 2, jitterRatio: 0 });
+            expect(getSyncSchedulerStatus()?.nextRunAt).toBe(new Date(Date.now() + HOUR_MS).toISOString());
+
+            // 1 hour: still fresh
+            await vi.advanceTimersByTimeAsync(HOUR_MS);
+            expect(fetchAzureUpdates).not.toHaveBeenCalled();
+
+            // 2 hours: stale, sync runs
+            await vi.advanceTimersByTimeAsync(HOUR_MS);
+            expect(fetchAzureUpdates).toHaveBeenCalledTimes(1);
+            expect(getSyncSchedulerStatus()).toMatchObject({ consecutiveFailures: 0, syncing: false });
+        });
+
+        it('should back off after failed syncs and reset after success', async () => {
+            vi.mocked(fetchAzureUpdates)
+                .mockRejectedValueOnce(new Error('API unavailable'))
+                .mockRejectedValueOnce(new Error('API unavailable'));
+
+            startSyncScheduler(db, { checkIntervalMinutes: 60, stalenessHours: 24, jitterRatio: 0 });
+
+            await vi.advanceTimersByTimeAsync(HOUR_MS);
+            expect(getSyncSchedulerStatus()?.consecutiveFailures).toBe(1);
+
+            // Next attempt is 2 hours later
+            await vi.advanceTimersByTimeAsync(HOUR_MS);
+            expect(fetchAzureUpdates).toHaveBeenCalledTimes(1);
+            await vi.advanceTimersByTimeAsync(HOUR_MS);
+            expect(fetchAzureUpdates).toHaveBeenCalledTimes(2);
+            expect(getSyncSchedulerStatus()?.consecutiveFailures).toBe(2);
+
+            // Then 4 hours later, which succeeds
+            await vi.advanceTimersByTimeAsync(4 * HOUR_MS);
+            expect(fetchAzureUpdates).toHaveBeenCalledTimes(3);
+            expect(getSyncSchedulerStatus()?.consecutiveFailures).toBe(0);
+        });
+
+        it('should stop scheduling after stop', async () => {
+            startSyncScheduler(db, { checkIntervalMinutes: 60, stalenessHours: 24, jitterRatio: 0 });
+            stopSyncScheduler();
+
+            await vi.advanceTimersByTimeAsync(3 * HOUR_MS);
+
+            expect(fetchAzureUpdates).not.toHaveBeenCalled();
+            expect(getSyncSchedulerStatus()).toBeNull();
+        });
+    });
+
     describe('edge cases', () => {
         it('should handle null checkpoint gracefully', () => {
             // Delete checkpoint
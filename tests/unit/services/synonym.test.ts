@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+    buildSynonymDictionary,
+    getProductSynonyms,
+    loadSynonymFile,
+} from '../../../src/services/synonym.service.js';
+
+describe('Synonym Service', () => {
+    describe('getProductSynonyms', () => {
+        it('should take acronyms and former names from parentheses', () => {
+            expect(getProductSynonyms([
+                'Azure Kubernetes Service (AKS)',
+                'Microsoft Entra ID (formerly Azure AD)',
+                'Azure Functions',
+                'Azure Monitor (Preview)',
+            ])).toEqual([
+                ['Azure Kubernetes Service', 'AKS'],
+                ['Microsoft Entra ID', 'Azure AD'],
+            ]);
+        });
+    });
+
+    describe('buildSynonymDictionary', () => {
+        it('should map every name to the other names of its group', () => {
+            const dictionary = buildSynonymDictionary([['AKS', 'Azure Kubernetes Service']]);
+
+            expect(dictionary.get('aks')).toEqual(['Azure Kubernetes Service']);
+            expect(dictionary.get('azure kubernetes service')).toEqual(['AKS']);
+        });
+
+        it('should merge groups sharing a name', () => {
+            const dictionary = buildSynonymDictionary([
+                ['Entra ID', 'Azure AD'],
+                ['Microsoft Entra ID', 'AAD'],
+                ['azure ad', 'Microsoft Entra ID'],
+            ]);
+
+            expect(dictionary.get('aad')).toEqual(['Entra ID', 'Azure AD', 'Microsoft Entra ID']);
+        });
+
+        it('should drop double quotes and names without letters or digits', () => {
+            const dictionary = buildSynonymDictionary([['"ACA"', '--', 'Container  Apps']]);
+
+            expect(dictionary.get('aca')).toEqual(['Container Apps']);
+            expect(dictionary.has('--')).toBe(false);
+        });
+    });
+
+    describe('loadSynonymFile', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = mkdtempSync(join(tmpdir(), 'synonyms-test-'));
+        });
+
+        afterEach(() => {
+            rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should load name groups', () => {
+            const path = join(tempDir, 'synonyms.json');
+            writeFileSync(path, JSON.stringify([['ACA', 'Container Apps']]));
+
+            expect(loadSynonymFile(path)).toEqual([['ACA', 'Container Apps']]);
+        });
+
+        it('should reject files with the wrong shape', () => {
+            const path = join(tempDir, 'synonyms.json');
+            writeFileSync(path, JSON.stringify({ ACA: ['Container Apps'] }));
+
+            expect(() => loadSynonymFile(path)).toThrow('Invalid synonym file');
+        });
+
+        it('should reject unreadable files', () => {
+            expect(() => loadSynonymFile(join(tempDir, 'missing.json'))).toThrow('Cannot read synonym file');
+        });
+    });
+});
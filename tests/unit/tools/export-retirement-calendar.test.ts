@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { handleExportRetirementCalendar } from '../../../src/tools/export-retirement-calendar.tool.js';
+import { addUpdate } from '../../fixtures/updates.js';
+
+describe('Export Retirement Calendar Tool', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        addUpdate(db, {
+            id: 'func-v3',
+            title: 'Azure Functions runtime v3 will be retired',
+            products: ['Azure Functions'],
+            availabilities: [{ ring: 'Retirement', date: '2026-12-01' }],
+        });
+    });
+
+    it('should reject invalid filters', () => {
+        const result = handleExportRetirementCalendar(db, { products: 'Azure Functions', productCategories: { oneOf: ['Compute'] } });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(true);
+        expect(response.error).toBe('Validation failed');
+        expect(response.details).toEqual([
+            'products must be an array of strings or an object with allOf, anyOf, noneOf',
+            'productCategories.oneOf is not supported (use allOf, anyOf, noneOf)',
+        ]);
+    });
+
+    it('should return the calendar as iCalendar text', () => {
+        const result = handleExportRetirementCalendar(db, { products: { anyOf: ['Azure Functions'] } });
+        const ics = result.content[0].text;
+
+        expect(result.isError).toBe(false);
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+        expect(ics).toContain('DTSTART;VALUE=DATE:20261201\r\n');
+        expect(ics).toContain('UID:retirement-func-v3@azure-updates-mcp-server\r\n');
+    });
+
+    it('should export all retirements without filters', () => {
+        const result = handleExportRetirementCalendar(db, undefined);
+
+        expect(result.content[0].text.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    });
+});
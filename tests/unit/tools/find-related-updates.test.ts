@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { handleFindRelatedUpdates } from '../../../src/tools/find-related-updates.tool.js';
+import { markUpdatesRemoved } from '../../../src/database/queries.js';
+import { addUpdate } from '../../fixtures/updates.js';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Find Related Updates Tool', () => {
+    let db: Database.Database;
+    let tempDir: string;
+
+    function findRelated(input: Record<string, unknown>) {
+        return JSON.parse(handleFindRelatedUpdates(db, input).content[0].text);
+    }
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'related-tool-test-'));
+        db = new Database(join(tempDir, 'test.db'));
+
+        const schemaPath = join(process.cwd(), 'src/database/schema.sql');
+        db.exec(readFileSync(schemaPath, 'utf-8'));
+
+        const aks = ['Azure Kubernetes Service (AKS)'];
+        const updates: Array<[string, string, string, string[], string[]]> = [
+            ['ga', 'Generally available: AKS node auto-provisioning', '2025-06-01', aks, ['Containers']],
+            ['preview', 'Public preview: AKS node auto-provisioning', '2025-01-15', aks, ['Containers']],
+            ['lts', 'AKS long-term support for Kubernetes 1.30', '2024-08-01', aks, ['Containers']],
+            ['api', 'Retirement: node auto-provisioning v1 API', '2026-01-01', aks, ['Containers']],
+            ['arc', 'Node auto-provisioning for Arc-enabled clusters', '2025-05-01', ['Azure Arc'], ['Hybrid']],
+            ['backup', 'Backup vault immutability', '2025-05-20', ['Azure Backup'], ['Storage']],
+            ['gone', 'AKS node pools snapshot', '2025-05-30', aks, ['Containers']],
+        ];
+        for (const [id, title, created, products, categories] of updates) {
+            addUpdate(db, {
+                id,
+                title,
+                created: `${created}T00:00:00.0000000Z`,
+                products,
+                categories,
+                availabilities: id === 'preview' ? [{ ring: 'Preview', date: '2025-01-15' }] : [],
+            });
+        }
+        markUpdatesRemoved(db, ['gone'], '2025-07-01T00:00:00.0000000Z');
+    });
+
+    afterEach(() => {
+        db.close();
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    describe('Input Validation', () => {
+        it('should reject missing id parameter', () => {
+            const result = handleFindRelatedUpdates(db, {});
+            const response = JSON.parse(result.content[0].text);
+
+            expect(result.isError).toBe(true);
+            expect(response.error).toBe('Validation failed');
+            expect(response.details).toBe('id is required');
+        });
+
+        it('should reject invalid limit and direction', () => {
+            const response = findRelated({ id: 'ga', limit: 0, direction: 'before' });
+
+            expect(response.details).toEqual([
+                'limit must be an integer between 1 and 50',
+                'direction must be one of: earlier, later, any',
+            ]);
+        });
+
+        it('should report unknown updates', () => {
+            const result = handleFindRelatedUpdates(db, { id: 'missing' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(result.isError).toBe(true);
+            expect(response.error).toBe('Update not found');
+        });
+    });
+
+    describe('Related Updates', () => {
+        it('should rank the preview of a GA announcement first and explain why', () => {
+            const response = findRelated({ id: 'ga' });
+            const [first] = response.related;
+
+            expect(response.title).toBe('Generally available: AKS node auto-provisioning');
+            expect(first.id).toBe('preview');
+            expect(first.sharedProducts).toEqual(['Azure Kubernetes Service (AKS)']);
+            expect(first.sharedTitleTerms).toEqual(['aks', 'node', 'auto', 'provisioning']);
+            expect(first.daysApart).toBe(-137);
+            expect(first.reasons).toEqual([
+                'Same product: Azure Kubernetes Service (AKS)',
+                'Similar title (shared words: aks, node, auto, provisioning)',
+                'Same category: Containers',
+                'Published 137 days earlier',
+            ]);
+            expect(first.availabilities).toEqual([{ ring: 'Preview', year: 2025, month: 'January' }]);
+        });
+
+        it('should include updates with a similar title but other products', () => {
+            const arc = findRelated({ id: 'ga' }).related.find((update: { id: string }) => update.id === 'arc');
+
+            expect(arc.sharedProducts).toEqual([]);
+            expect(arc.reasons).toEqual([
+                'Similar title (shared words: node, auto, provisioning)',
+                'Published 31 days earlier',
+            ]);
+        });
+
+        it('should order by score and skip unrelated and removed updates', () => {
+            const related = findRelated({ id: 'ga' }).related;
+            const ids = related.map((update: { id: string }) => update.id);
+
+            expect(ids.sort()).toEqual(['api', 'arc', 'lts', 'preview']);
+            expect(related.map((update: { score: number }) => update.score))
+                .toEqual([...related.map((update: { score: number }) => update.score)].sort((a, b) => b - a));
+        });
+
+        it('should only return earlier or later updates when a direction is given', () => {
+            const earlier = findRelated({ id: 'ga', direction: 'earlier' }).related.map((update: { id: string }) => update.id);
+            const later = findRelated({ id: 'ga', direction: 'later' }).related.map((update: { id: string }) => update.id);
+
+            expect(earlier.sort()).toEqual(['arc', 'lts', 'preview']);
+            expect(later).toEqual(['api']);
+        });
+
+        it('should respect the limit', () => {
+            expect(findRelated({ id: 'ga', limit: 2 }).related).toHaveLength(2);
+        });
+    });
+});
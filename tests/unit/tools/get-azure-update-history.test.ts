@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { handleGetAzureUpdateHistory } from '../../../src/tools/get-azure-update-history.tool.js';
+import {
+    archiveUpdateRevision,
+    upsertUpdate,
+    replaceUpdateTags,
+    replaceUpdateProducts,
+    replaceUpdateAvailabilities,
+} from '../../../src/database/queries.js';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Get Azure Update History Tool', () => {
+    let db: Database.Database;
+    let tempDir: string;
+
+    const baseRecord = {
+        id: 'history-1',
+        title: 'Retirement: Basic Load Balancer',
+        description_html: '<p>Retiring in March 2026</p>',
+        description_md: 'Retiring in March 2026',
+        status: null,
+        locale: null,
+        created: '2025-01-01T00:00:00.0000000Z',
+        modified: '2025-01-01T00:00:00.0000000Z',
+        metadata: null,
+    };
+
+    /**
+     * Simulate what sync does for a newer version: archive, then overwrite
+     */
+    function applyNewVersion(
+        record: typeof baseRecord,
+        tags: string[],
+        products: string[],
+        availabilities: Array<{ ring: string; date: string | null }>
+    ): void {
+        archiveUpdateRevision(db, record.id, record.modified);
+        upsertUpdate(db, record);
+        replaceUpdateTags(db, record.id, tags);
+        replaceUpdateProducts(db, record.id, products);
+        replaceUpdateAvailabilities(db, record.id, availabilities);
+    }
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'history-tool-test-'));
+        db = new Database(join(tempDir, 'test.db'));
+
+        const schemaPath = join(process.cwd(), 'src/database/schema.sql');
+        db.exec(readFileSync(schemaPath, 'utf-8'));
+
+        applyNewVersion(baseRecord, ['Retirements'], ['Azure Load Balancer'], [
+            { ring: 'Retirement', date: '2026-03-01' },
+        ]);
+    });
+
+    afterEach(() => {
+        db.close();
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    describe('Input Validation', () => {
+        it('should reject missing id parameter', () => {
+            const result = handleGetAzureUpdateHistory(db, {});
+            const response = JSON.parse(result.content[0].text);
+
+            expect(result.isError).toBe(true);
+            expect(response.error).toBe('Validation failed');
+            expect(response.details).toContain('id is required');
+        });
+
+        it('should reject non-boolean includeDescriptions', () => {
+            const result = handleGetAzureUpdateHistory(db, { id: 'history-1', includeDescriptions: 'yes' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(result.isError).toBe(true);
+            expect(response.details).toContain('includeDescriptions must be a boolean');
+        });
+    });
+
+    describe('History Retrieval', () => {
+        it('should return not found for unknown update', () => {
+            const result = handleGetAzureUpdateHistory(db, { id: 'missing' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(result.isError).toBe(true);
+            expect(response.error).toBe('Update not found');
+        });
+
+        it('should return empty history for an update that was never edited', () => {
+            const result = handleGetAzureUpdateHistory(db, { id: 'history-1' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(result.isError).toBe(false);
+            expect(response.revisionCount).toBe(0);
+            expect(response.history).toEqual([]);
+        });
+
+        it('should report field-level diffs newest first', () => {
+            applyNewVersion(
+                { ...baseRecord, modified: '2025-02-01T00:00:00.0000000Z', description_md: 'Retiring in September 2026' },
+                ['Retirements'],
+                ['Azure Load Balancer'],
+                [{ ring: 'Retirement', date: '2026-09-01' }]
+            );
+            applyNewVersion(
+                { ...baseRecord, modified: '2025-03-01T00:00:00.0000000Z', title: 'Retirement: Basic Load Balancer (extended)', description_md: 'Retiring in September 2026' },
+                ['Retirements', 'Networking'],
+                ['Azure Load Balancer'],
+                [{ ring: 'Retirement', date: '2026-09-01' }]
+            );
+
+            const result = handleGetAzureUpdateHistory(db, { id: 'history-1' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.revisionCount).toBe(2);
+            expect(response.currentModified).toBe('2025-03-01T00:00:00.0000000Z');
+            expect(response.history).toHaveLength(2);
+
+            const [latest, earlier] = response.history;
+            expect(latest.modified).toBe('2025-03-01T00:00:00.0000000Z');
+            expect(latest.previousModified).toBe('2025-02-01T00:00:00.0000000Z');
+            expect(latest.changes).toEqual([
+                { field: 'title', type: 'value', before: 'Retirement: Basic Load Balancer', after: 'Retirement: Basic Load Balancer (extended)' },
+                { field: 'tags', type: 'set', added: ['Networking'], removed: [] },
+            ]);
+
+            expect(earlier.modified).toBe('2025-02-01T00:00:00.0000000Z');
+            expect(earlier.changes).toEqual([
+                { field: 'description', type: 'text' },
+                { field: 'availabilities.Retirement', type: 'value', before: 'March 2026', after: 'September 2026' },
+            ]);
+        });
+
+        it('should include description text when requested', () => {
+            applyNewVersion(
+                { ...baseRecord, modified: '2025-02-01T00:00:00.0000000Z', description_md: 'Retiring in September 2026' },
+                ['Retirements'],
+                ['Azure Load Balancer'],
+                [{ ring: 'Retirement', date: null }]
+            );
+
+            const result = handleGetAzureUpdateHistory(db, { id: 'history-1', includeDescriptions: true });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.history[0].changes).toEqual([
+                { field: 'description', type: 'text', before: 'Retiring in March 2026', after: 'Retiring in September 2026' },
+                { field: 'availabilities.Retirement', type: 'value', before: 'March 2026', after: 'TBD' },
+            ]);
+        });
+    });
+});
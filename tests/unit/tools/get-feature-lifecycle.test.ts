@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { handleGetFeatureLifecycle } from '../../../src/tools/get-feature-lifecycle.tool.js';
+import { addUpdate } from '../../fixtures/updates.js';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Get Feature Lifecycle Tool', () => {
+    let db: Database.Database;
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'lifecycle-tool-test-'));
+        db = new Database(join(tempDir, 'test.db'));
+
+        const schemaPath = join(process.cwd(), 'src/database/schema.sql');
+        db.exec(readFileSync(schemaPath, 'utf-8'));
+
+        const updates: Array<[string, string, string, string]> = [
+            ['flex-preview', 'Public Preview: Flex Consumption plan', 'Preview', '2023-05-01'],
+            ['flex-ga', 'Generally Available: Flex Consumption plan', 'General Availability', '2024-11-01'],
+            ['mcp-preview', 'Public Preview: MCP tool triggers', 'Preview', '2024-02-01'],
+        ];
+        for (const [id, title, ring, date] of updates) {
+            addUpdate(db, {
+                id,
+                title,
+                created: `${date}T00:00:00.0000000Z`,
+                products: ['Azure Functions'],
+                availabilities: [{ ring, date }],
+            });
+        }
+    });
+
+    afterEach(() => {
+        db.close();
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should reject invalid parameters', () => {
+        const result = handleGetFeatureLifecycle(db, { products: 'Azure Functions', stage: 'Beta', minMonthsInStage: -1, limit: 500 });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(true);
+        expect(response.error).toBe('Validation failed');
+        expect(response.details).toEqual([
+            'products must be an array of strings',
+            'stage must be one of: Private Preview, Preview, General Availability, Retirement',
+            'minMonthsInStage must be a non-negative integer',
+            'limit must be an integer between 1 and 100',
+        ]);
+    });
+
+    it('should report unknown updates', () => {
+        const result = handleGetFeatureLifecycle(db, { updateId: 'missing' });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.parse(result.content[0].text).error).toBe('Update not found');
+    });
+
+    it('should return the timeline of the feature an update belongs to', () => {
+        const result = handleGetFeatureLifecycle(db, { updateId: 'flex-ga' });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(false);
+        expect(response.features).toHaveLength(1);
+        expect(response.features[0].updates.map((update: { id: string }) => update.id)).toEqual(['flex-preview', 'flex-ga']);
+        expect(response.features[0].transitions).toEqual([{ from: 'Preview', to: 'General Availability', days: 550 }]);
+        expect(response.metadata.medianPreviewToGaDays).toBe(550);
+    });
+
+    it('should list long-running previews', () => {
+        const response = JSON.parse(handleGetFeatureLifecycle(db, { stage: 'Preview', minMonthsInStage: 18 }).content[0].text);
+
+        expect(response.features.map((feature: { id: string }) => feature.id)).toEqual(['mcp-preview']);
+        expect(response.features[0].currentStageSince).toBe('2024-02-01');
+    });
+});
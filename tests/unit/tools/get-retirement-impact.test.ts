@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { handleGetRetirementImpact } from '../../../src/tools/get-retirement-impact.tool.js';
+import { addUpdate } from '../../fixtures/updates.js';
+
+describe('Get Retirement Impact Tool', () => {
+    let db: Database.Database;
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        addUpdate(db, {
+            id: 'func-v3',
+            title: 'Azure Functions runtime v3 will be retired',
+            products: ['Azure Functions'],
+            availabilities: [{ ring: 'Retirement', date: '2026-12-01' }],
+        });
+    });
+
+    it('should require an inventory when none is configured', () => {
+        const result = handleGetRetirementImpact(db, {});
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(true);
+        expect(response.details).toBe('inventory is required because no inventory file is configured on this server');
+    });
+
+    it('should reject invalid inventory entries', () => {
+        const result = handleGetRetirementImpact(db, {
+            inventory: ['', { resourceCount: 1.5, owners: 'team' }, 42],
+        });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(true);
+        expect(response.error).toBe('Validation failed');
+        expect(response.details).toEqual([
+            'inventory[0] must be a non-empty product name',
+            'inventory[1].product must be a non-empty string',
+            'inventory[1].resourceCount must be a non-negative integer',
+            'inventory[1].owners must be an array of strings',
+            'inventory[2] must be a product name or an object with product, resourceCount and owners',
+        ]);
+    });
+
+    it('should use the inventory from the request', () => {
+        const result = handleGetRetirementImpact(
+            db,
+            { inventory: [{ product: 'Azure Functions', owners: ['app-team'] }] },
+            { now }
+        );
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(false);
+        expect(response.buckets.within90Days[0]).toMatchObject({ updateId: 'func-v3', owners: ['app-team'] });
+    });
+
+    it('should fall back to the configured inventory', () => {
+        const result = handleGetRetirementImpact(db, undefined, { inventory: ['Azure Functions', 'Azure Batch'], now });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(response.metadata.impactedRetirements).toBe(1);
+        expect(response.unmatchedProducts).toEqual(['Azure Batch']);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { handleGetSyncStatus } from '../../../src/tools/get-sync-status.tool.js';
+import { completeSyncFailure, completeSyncSuccess } from '../../../src/database/queries.js';
+
+describe('Get Sync Status Tool', () => {
+    let db: Database.Database;
+
+    function parse(result: { content: Array<{ text: string }> }): Record<string, unknown> {
+        return JSON.parse(result.content[0].text) as Record<string, unknown>;
+    }
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+    });
+
+    it('should report the checkpoint with duration and record count', () => {
+        completeSyncSuccess(db, new Date().toISOString(), 1234, 5678);
+
+        const result = handleGetSyncStatus(db, {});
+        const response = parse(result) as { checkpoint: Record<string, unknown> };
+
+        expect(result.isError).toBe(false);
+        expect(response.checkpoint).toMatchObject({
+            syncStatus: 'success',
+            recordCount: 1234,
+            durationMs: 5678,
+            lastError: null,
+        });
+        expect(response).toHaveProperty('scheduler', null);
+        expect(response).toHaveProperty('recentJobs');
+    });
+
+    it('should report the last error after a failed sync', () => {
+        completeSyncFailure(db, 'Request timed out');
+
+        const response = parse(handleGetSyncStatus(db, undefined)) as { checkpoint: Record<string, unknown> };
+
+        expect(response.checkpoint).toMatchObject({ syncStatus: 'failed', lastError: 'Request timed out' });
+    });
+
+    it('should reject an invalid jobId', () => {
+        const result = handleGetSyncStatus(db, { jobId: 42 });
+
+        expect(result.isError).toBe(true);
+        expect(parse(result).details).toBe('jobId must be a non-empty string');
+    });
+
+    it('should return not found for an unknown job', () => {
+        const result = handleGetSyncStatus(db, { jobId: 'missing-job' });
+
+        expect(result.isError).toBe(true);
+        expect(parse(result).error).toBe('Job not found');
+    });
+});
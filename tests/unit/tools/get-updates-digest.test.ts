@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { handleGetUpdatesDigest } from '../../../src/tools/get-updates-digest.tool.js';
+import { addUpdate } from '../../fixtures/updates.js';
+
+describe('Get Updates Digest Tool', () => {
+    let db: Database.Database;
+    const now = new Date('2026-10-19T12:00:00.000Z');
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+
+        addUpdate(db, {
+            id: 'func-flex',
+            title: 'Generally available: Flex Consumption',
+            created: '2026-10-14T09:00:00.0000000Z',
+            products: ['Azure Functions'],
+            availabilities: [{ ring: 'General Availability', date: '2026-10-01' }],
+        });
+    });
+
+    it('should return a Markdown digest of the last 7 days by default', () => {
+        const result = handleGetUpdatesDigest(db, undefined, { now });
+
+        expect(result.isError).toBe(false);
+        expect(result.content[0].text).toContain('# Azure Updates digest: 2026-10-12 to 2026-10-19');
+        expect(result.content[0].text).toContain('### General Availability (1)');
+    });
+
+    it('should return the digest as JSON', () => {
+        const result = handleGetUpdatesDigest(db, { since: '2026-10-01', format: 'json' }, { now });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(false);
+        expect(response.window).toEqual({ since: '2026-10-01', until: '2026-10-19T12:00:00.000Z' });
+        expect(response.metadata).toEqual({ totalUpdates: 1, newUpdates: 1, modifiedUpdates: 0 });
+    });
+
+    it('should reject invalid parameters', () => {
+        const result = handleGetUpdatesDigest(db, {
+            since: 'last monday',
+            days: 0,
+            products: { oneOf: ['Azure Functions'] },
+            format: 'html',
+        });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(true);
+        expect(response.error).toBe('Validation failed');
+        expect(response.details).toEqual([
+            'since must be a valid ISO 8601 date',
+            'days must be an integer between 1 and 365',
+            'Use either since or days, not both',
+            'products.oneOf is not supported (use allOf, anyOf, noneOf)',
+            'format must be one of: markdown, json',
+        ]);
+    });
+
+    it('should reject a window that ends before it starts', () => {
+        const result = handleGetUpdatesDigest(db, { since: '2026-10-19', until: '2026-10-12' });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(response.details).toBe('since must not be after until');
+    });
+});
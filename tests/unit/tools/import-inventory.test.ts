@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { handleImportInventory } from '../../../src/tools/import-inventory.tool.js';
+
+describe('Import Inventory Tool', () => {
+    it('should require a resource export', () => {
+        const result = handleImportInventory({});
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(true);
+        expect(response.details).toBe('resourceExport is required');
+    });
+
+    it('should reject invalid parameters', () => {
+        const result = handleImportInventory({ resourceExport: ['Azure Functions'], ownerTag: ' ' });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(true);
+        expect(response.error).toBe('Validation failed');
+        expect(response.details).toEqual([
+            'resourceExport must be an array of resources with a type, a Resource Graph result with "data" or an ARM list with "value"',
+            'ownerTag must be a non-empty string',
+        ]);
+    });
+
+    it('should return the imported inventory', () => {
+        const result = handleImportInventory({
+            resourceExport: [
+                { type: 'Microsoft.KeyVault/vaults', name: 'kv-prod', tags: { owner: 'security-team' } },
+                { type: 'Microsoft.Contoso/widgets', name: 'widget-1' },
+            ],
+            ownerTag: 'owner',
+        });
+        const response = JSON.parse(result.content[0].text);
+
+        expect(result.isError).toBe(false);
+        expect(response.inventory).toEqual([{ product: 'Azure Key Vault', resourceCount: 1, owners: ['security-team'] }]);
+        expect(response.products).toEqual(['Azure Key Vault']);
+        expect(response.unmappedTypes).toEqual([{ type: 'microsoft.contoso/widgets', resourceCount: 1 }]);
+    });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
 import { handleSearchAzureUpdates } from '../../../src/tools/search-azure-updates.tool.js';
+import { createHashingEmbeddingProvider, ensureUpdateEmbeddings } from '../../../src/services/embedding.service.js';
 import { mkdtempSync, rmSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -130,6 +131,22 @@ describe('Search Azure Updates Tool', () => {
             expect(response.details).toContain('query must be a string');
         });
 
+        it('should reject malformed boolean queries', () => {
+            const result = handleSearchAzureUpdates(db, { query: 'retirement AND' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details[0]).toContain('Operator AND must be placed between two terms');
+        });
+
+        it('should accept boolean queries', () => {
+            const result = handleSearchAzureUpdates(db, { query: '(retirement OR preview) AND NOT title:classic' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBeUndefined();
+            expect(Array.isArray(response.results)).toBe(true);
+        });
+
         it('should reject invalid filters type', () => {
             const result = handleSearchAzureUpdates(db, { filters: 'invalid' });
             const response = JSON.parse(result.content[0].text);
@@ -158,6 +175,14 @@ describe('Search Azure Updates Tool', () => {
             expect(response.details).toContain('filters.modifiedFrom must be a valid ISO 8601 date');
         });
 
+        it('should reject unknown facets', () => {
+            const result = handleSearchAzureUpdates(db, { facets: ['tags', 'colors'] });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details[0]).toContain('facets must be an array');
+        });
+
         it('should accept valid availability rings', () => {
             const validRings = ['General Availability', 'Preview', 'Private Preview', 'Retirement'];
 
@@ -219,6 +244,26 @@ describe('Search Azure Updates Tool', () => {
             expect(update).toHaveProperty('modified');
         });
 
+        it('should return facet counts when requested', () => {
+            const result = handleSearchAzureUpdates(db, { facets: ['tags', 'statuses'] });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.facets).toEqual({
+                tags: [
+                    { value: 'Retirements', count: 2 },
+                    { value: 'Security', count: 1 },
+                ],
+                statuses: [{ value: 'Active', count: 3 }],
+            });
+        });
+
+        it('should omit facets unless requested', () => {
+            const result = handleSearchAzureUpdates(db, {});
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response).not.toHaveProperty('facets');
+        });
+
         it('should return correct response structure', () => {
             const result = handleSearchAzureUpdates(db, {});
 
@@ -367,6 +412,17 @@ describe('Search Azure Updates Tool', () => {
             expect(retirementUpdates[0].id).toBe('retire-2');
         });
 
+        it('should accept relevance sort with a keyword query', () => {
+            const result = handleSearchAzureUpdates(db, {
+                query: 'Retirement',
+                sortBy: 'relevance',
+            });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBeUndefined();
+            expect(response.results.length).toBeGreaterThan(0);
+        });
+
         it('should reject invalid sortBy value', () => {
             const result = handleSearchAzureUpdates(db, {
                 sortBy: 'invalid:sort',
@@ -388,6 +444,153 @@ describe('Search Azure Updates Tool', () => {
         });
     });
 
+    describe('Cursor Pagination', () => {
+        it('should return a cursor that continues after the previous page', () => {
+            const first = JSON.parse(handleSearchAzureUpdates(db, { sortBy: 'modified:asc', limit: 1 }).content[0].text);
+            expect(first.metadata.hasMore).toBe(true);
+            expect(typeof first.metadata.cursor).toBe('string');
+
+            const second = JSON.parse(handleSearchAzureUpdates(db, {
+                sortBy: 'modified:asc',
+                limit: 1,
+                cursor: first.metadata.cursor,
+            }).content[0].text);
+
+            expect(second.results).toHaveLength(1);
+            expect(second.results[0].id).not.toBe(first.results[0].id);
+            expect(second.metadata.offset).toBe(1);
+        });
+
+        it('should omit the cursor on the last page', () => {
+            const response = JSON.parse(handleSearchAzureUpdates(db, { limit: 100 }).content[0].text);
+
+            expect(response.metadata.hasMore).toBe(false);
+            expect(response.metadata.cursor).toBeUndefined();
+        });
+
+        it('should reject a cursor combined with offset', () => {
+            const first = JSON.parse(handleSearchAzureUpdates(db, { limit: 1 }).content[0].text);
+            const result = handleSearchAzureUpdates(db, { limit: 1, offset: 5, cursor: first.metadata.cursor });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details).toContain('cursor cannot be combined with offset; the cursor already marks the position');
+        });
+
+        it('should reject a cursor issued for a different query', () => {
+            const first = JSON.parse(handleSearchAzureUpdates(db, { limit: 1 }).content[0].text);
+            const result = handleSearchAzureUpdates(db, { limit: 1, sortBy: 'created:asc', cursor: first.metadata.cursor });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details[0]).toContain('cursor belongs to a different query');
+        });
+
+        it('should reject a malformed cursor', () => {
+            const result = handleSearchAzureUpdates(db, { cursor: 'garbage' });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details[0]).toContain('cursor is invalid');
+        });
+    });
+
+    describe('Spelling Correction', () => {
+        it('should report the corrected query in metadata', () => {
+            const response = JSON.parse(handleSearchAzureUpdates(db, { query: 'servcie' }).content[0].text);
+
+            expect(response.metadata.didYouMean).toEqual({
+                query: 'service',
+                corrections: [{ term: 'servcie', suggestion: 'service' }],
+            });
+            expect(response.results.map((r: { id: string }) => r.id).sort()).toEqual(['retire-1', 'retire-2']);
+        });
+    });
+
+    describe('Synonym Expansion', () => {
+        it('should report the synonyms applied in metadata', () => {
+            const response = JSON.parse(handleSearchAzureUpdates(db, { query: 'aks' }).content[0].text);
+
+            expect(response.metadata.expansions).toEqual([{ term: 'aks', synonyms: ['Azure Kubernetes Service'] }]);
+        });
+    });
+
+    describe('Snippets', () => {
+        it('should return highlighted snippets when requested', () => {
+            const response = JSON.parse(handleSearchAzureUpdates(db, {
+                query: 'soon',
+                includeSnippets: true,
+                snippetOptions: { startMarker: '[', endMarker: ']' },
+            }).content[0].text);
+
+            expect(response.results[0].id).toBe('retire-1');
+            expect(response.results[0].snippet).toBe('Retiring [soon]');
+        });
+
+        it('should omit snippets by default', () => {
+            const response = JSON.parse(handleSearchAzureUpdates(db, { query: 'soon' }).content[0].text);
+
+            expect(response.results[0].snippet).toBeUndefined();
+        });
+
+        it('should reject invalid snippet parameters', () => {
+            const result = handleSearchAzureUpdates(db, {
+                query: 'soon',
+                includeSnippets: 'yes',
+                snippetOptions: { maxTokens: 100, startMarker: 5 },
+            });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details).toEqual([
+                'includeSnippets must be a boolean',
+                'snippetOptions.maxTokens must be an integer between 1 and 64',
+                'snippetOptions.startMarker must be a string of at most 16 characters',
+            ]);
+        });
+    });
+
+    describe('Similarity Search Mode', () => {
+        const embeddings = createHashingEmbeddingProvider();
+        const options = { embeddings };
+
+        beforeEach(() => {
+            ensureUpdateEmbeddings(db, embeddings);
+        });
+
+        it('should rank by similarity in similarity mode', () => {
+            const response = JSON.parse(handleSearchAzureUpdates(db, { query: 'retirements', mode: 'similarity' }, options).content[0].text);
+
+            expect(response.results.map((r: { id: string }) => r.id).sort()).toEqual(['retire-1', 'retire-2']);
+            expect(response.metadata.hasMore).toBe(false);
+        });
+
+        it('should reject similarity modes when similarity search is disabled', () => {
+            const response = JSON.parse(handleSearchAzureUpdates(db, { query: 'retirement', mode: 'hybrid' }).content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details).toEqual([
+                'mode "hybrid" is not available because similarity search is disabled on this server; use mode "keyword"',
+            ]);
+        });
+
+        it('should reject invalid modes and parameters similarity modes do not support', () => {
+            const invalid = JSON.parse(handleSearchAzureUpdates(db, { query: 'retirement', mode: 'vector' }, options).content[0].text);
+            const unsupported = JSON.parse(handleSearchAzureUpdates(db, {
+                mode: 'similarity',
+                cursor: 'abc',
+                sortBy: 'modified:desc',
+            }, options).content[0].text);
+
+            expect(invalid.details).toEqual(['mode must be one of: keyword, similarity, hybrid']);
+            expect(unsupported.details).toEqual([
+                'mode "similarity" requires a query',
+                'cursor is not supported with mode "similarity"; page with offset instead',
+                'sortBy is not supported with mode "similarity"; results are ordered by similarity',
+            ]);
+        });
+    });
+
     describe('Logging', () => {
         it('should log tool invocations', () => {
             // This test verifies the tool runs without errors
@@ -630,4 +833,104 @@ describe('Search Azure Updates Tool', () => {
             expect(response.results).toHaveLength(0);
         });
     });
+
+    describe('anyOf / allOf / noneOf Filters', () => {
+        function searchIds(filters: Record<string, unknown>): string[] {
+            const result = handleSearchAzureUpdates(db, { filters });
+            const response = JSON.parse(result.content[0].text);
+            return response.results.map((r: { id: string }) => r.id).sort();
+        }
+
+        it('should match updates with any of the listed tags', () => {
+            expect(searchIds({ tags: { anyOf: ['Security', 'Retirements'] } })).toEqual(['retire-1', 'retire-2', 'test-1']);
+        });
+
+        it('should exclude updates with any of the noneOf tags', () => {
+            expect(searchIds({ tags: { noneOf: ['Retirements'] } })).toEqual(['test-1']);
+        });
+
+        it('should treat allOf like an array filter', () => {
+            expect(searchIds({ tags: { allOf: ['Security'] } })).toEqual(searchIds({ tags: ['Security'] }));
+        });
+
+        it('should combine operators within one dimension', () => {
+            db.prepare('INSERT INTO update_tags (update_id, tag) VALUES (?, ?)').run('retire-2', 'Compute');
+
+            expect(searchIds({ tags: { anyOf: ['Retirements'], noneOf: ['Compute'] } })).toEqual(['retire-1']);
+        });
+
+        it('should reject unknown operators', () => {
+            const result = handleSearchAzureUpdates(db, { filters: { products: { oneOf: ['Azure Functions'] } } });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details[0]).toContain('filters.products.oneOf is not supported');
+        });
+
+        it('should reject operator values that are not string arrays', () => {
+            const result = handleSearchAzureUpdates(db, { filters: { tags: { anyOf: 'Security' } } });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.details[0]).toBe('filters.tags.anyOf must be an array');
+        });
+    });
+
+    describe('Availability Rings and Dates', () => {
+        function searchIds(filters: Record<string, unknown>): string[] {
+            const result = handleSearchAzureUpdates(db, { filters });
+            const response = JSON.parse(result.content[0].text);
+            return response.results.map((r: { id: string }) => r.id).sort();
+        }
+
+        beforeEach(() => {
+            db.prepare('INSERT INTO update_availabilities (update_id, ring, date) VALUES (?, ?, ?)').run('test-1', 'Preview', '2026-02-01');
+            db.prepare('INSERT INTO update_availabilities (update_id, ring, date) VALUES (?, ?, ?)').run('test-1', 'General Availability', null);
+        });
+
+        it('should match GA or Preview within a month range', () => {
+            expect(searchIds({
+                availabilityRings: ['General Availability', 'Preview'],
+                availabilityDateFrom: '2026-01',
+                availabilityDateTo: '2026-03',
+            })).toEqual(['test-1']);
+        });
+
+        it('should scope dates to a single availabilityRing', () => {
+            expect(searchIds({ availabilityRing: 'Retirement', availabilityDateFrom: '2026-02', availabilityDateTo: '2026-02' })).toEqual([]);
+            expect(searchIds({ availabilityRing: 'Preview', availabilityDateFrom: '2026-02-15', availabilityDateTo: '2026-02' })).toEqual(['test-1']);
+        });
+
+        it('should find updates with a TBD date', () => {
+            expect(searchIds({ availabilityRings: ['General Availability'], availabilityDateTbd: true })).toEqual(['test-1']);
+        });
+
+        it('should reject invalid rings in availabilityRings', () => {
+            const result = handleSearchAzureUpdates(db, { filters: { availabilityRings: ['Preview', 'Beta'] } });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.error).toBe('Validation failed');
+            expect(response.details[0]).toContain('filters.availabilityRings must be an array containing any of');
+        });
+
+        it('should reject availabilityRing together with availabilityRings', () => {
+            const result = handleSearchAzureUpdates(db, { filters: { availabilityRing: 'Preview', availabilityRings: ['Preview'] } });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.details[0]).toContain('not both');
+        });
+
+        it('should reject malformed availability dates', () => {
+            const result = handleSearchAzureUpdates(db, { filters: { availabilityDateFrom: '2026-Q1' } });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.details[0]).toContain('filters.availabilityDateFrom must be in YYYY-MM or YYYY-MM-DD format');
+        });
+
+        it('should reject availabilityDateTbd combined with a date range', () => {
+            const result = handleSearchAzureUpdates(db, { filters: { availabilityDateTbd: true, availabilityDateTo: '2026-03' } });
+            const response = JSON.parse(result.content[0].text);
+
+            expect(response.details[0]).toContain('cannot be combined');
+        });
+    });
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+vi.mock('../../../src/services/azure-api.service.js', () => ({
+    fetchAzureUpdates: vi.fn(async () => []),
+    fetchAzureUpdateIds: vi.fn(async () => []),
+    fetchUpdateCount: vi.fn(async () => 0),
+}));
+
+import { handleTriggerSync } from '../../../src/tools/trigger-sync.tool.js';
+import { handleGetSyncStatus } from '../../../src/tools/get-sync-status.tool.js';
+import { fetchAzureUpdates } from '../../../src/services/azure-api.service.js';
+import { completeSyncSuccess, startSync } from '../../../src/database/queries.js';
+
+describe('Trigger Sync Tool', () => {
+    let db: Database.Database;
+
+    function parse(result: { content: Array<{ text: string }> }): Record<string, unknown> {
+        return JSON.parse(result.content[0].text) as Record<string, unknown>;
+    }
+
+    async function waitForJob(jobId: string): Promise<Record<string, unknown>> {
+        return vi.waitFor(() => {
+            const { job } = parse(handleGetSyncStatus(db, { jobId })) as { job: Record<string, unknown> };
+            expect(job.status).not.toBe('running');
+            return job;
+        });
+    }
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+        completeSyncSuccess(db, '2025-06-01T00:00:00.0000000Z', 0, 100);
+        vi.mocked(fetchAzureUpdates).mockClear();
+    });
+
+    describe('Input Validation', () => {
+        it('should reject an unknown mode', () => {
+            const result = handleTriggerSync(db, { mode: 'partial' });
+
+            expect(result.isError).toBe(true);
+            expect(parse(result).details).toBe('mode must be one of: differential, full');
+        });
+    });
+
+    describe('Sync Jobs', () => {
+        it('should start a differential sync and return a job ID', async () => {
+            const result = handleTriggerSync(db, {});
+            const response = parse(result);
+
+            expect(result.isError).toBe(false);
+            expect(response).toMatchObject({ mode: 'differential', status: 'running', alreadyRunning: false });
+            expect(typeof response.jobId).toBe('string');
+
+            const job = await waitForJob(response.jobId as string);
+            expect(job.status).toBe('succeeded');
+            expect(fetchAzureUpdates).toHaveBeenCalledWith(expect.objectContaining({
+                modifiedSince: '2025-06-01T00:00:00.0000000Z',
+            }));
+        });
+
+        it('should re-fetch the whole retention window for a full sync', async () => {
+            const response = parse(handleTriggerSync(db, { mode: 'full' }, { retentionStartDate: '2024-01-01' }));
+
+            await waitForJob(response.jobId as string);
+            expect(fetchAzureUpdates).toHaveBeenCalledWith(expect.objectContaining({
+                modifiedSince: '2024-01-01T00:00:00.000Z',
+                includeCount: true,
+            }));
+        });
+
+        it('should report an initial sync when there is no checkpoint yet', async () => {
+            db.prepare(`UPDATE sync_checkpoints SET last_sync = '1970-01-01T00:00:00.0000000Z' WHERE id = 1`).run();
+
+            const response = parse(handleTriggerSync(db, {}));
+
+            expect(response).toMatchObject({ mode: 'initial', alreadyRunning: false });
+            await waitForJob(response.jobId as string);
+        });
+
+        it('should return the running job instead of starting another', async () => {
+            const first = parse(handleTriggerSync(db, {}));
+            const second = parse(handleTriggerSync(db, { mode: 'full' }));
+
+            expect(second).toMatchObject({ jobId: first.jobId, mode: 'differential', alreadyRunning: true });
+
+            await waitForJob(first.jobId as string);
+            expect(fetchAzureUpdates).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report an error when a background sync holds the lock', () => {
+            startSync(db, 'other-host:1', new Date(Date.now() - 60 * 1000).toISOString());
+
+            const result = handleTriggerSync(db, {});
+
+            expect(result.isError).toBe(true);
+            expect(parse(result).error).toBe('Sync already in progress');
+        });
+
+        it('should record failures on the job', async () => {
+            vi.mocked(fetchAzureUpdates).mockRejectedValueOnce(new Error('API unavailable'));
+
+            const response = parse(handleTriggerSync(db, {}));
+            const job = await waitForJob(response.jobId as string);
+
+            expect(job.status).toBe('failed');
+            expect(job.error).toBe('API unavailable');
+            expect(job.finishedAt).not.toBeNull();
+        });
+    });
+});
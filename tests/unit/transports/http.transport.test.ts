@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { startHttpTransport, type HttpTransportHandle } from '../../../src/transports/http.transport.js';
+import { createMCPServer } from '../../../src/server.js';
+import { completeSyncSuccess } from '../../../src/database/queries.js';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('HTTP Transport', () => {
+    let db: Database.Database;
+    let tempDir: string;
+    let handle: HttpTransportHandle;
+
+    async function start(authToken?: string, sessionIdleTimeoutMs?: number): Promise<void> {
+        handle = await startHttpTransport({
+            host: '127.0.0.1',
+            port: 0,
+            authToken,
+            sessionIdleTimeoutMs,
+            database: db,
+            version: '1.0.0-test',
+            createServer: () => createMCPServer({ name: 'http-test', version: '1.0.0-test', database: db }),
+        });
+    }
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'http-transport-test-'));
+        db = new Database(join(tempDir, 'test.db'));
+        db.exec(readFileSync(join(process.cwd(), 'src/database/schema.sql'), 'utf-8'));
+    });
+
+    afterEach(async () => {
+        await handle.close();
+        db.close();
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    describe('Health Endpoint', () => {
+        it('should report liveness and active sessions', async () => {
+            await start();
+
+            const response = await fetch(`${handle.url}/health`);
+            const body = await response.json() as Record<string, unknown>;
+
+            expect(response.status).toBe(200);
+            expect(body).toMatchObject({ status: 'ok', version: '1.0.0-test', activeSessions: 0 });
+        });
+
+        it('should report sync status to authorized callers', async () => {
+            completeSyncSuccess(db, new Date().toISOString(), 42, 1000);
+            await start('secret-token');
+
+            const response = await fetch(`${handle.url}/health`, { headers: { Authorization: 'Bearer secret-token' } });
+            const body = await response.json() as { sync: Record<string, unknown> };
+
+            expect(response.status).toBe(200);
+            expect(body.sync).toMatchObject({ syncStatus: 'success', recordCount: 42 });
+        });
+
+        it('should report only the status without auth when a token is configured', async () => {
+            completeSyncSuccess(db, new Date().toISOString(), 42, 1000);
+            await start('secret-token');
+
+            const response = await fetch(`${handle.url}/health`);
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ status: 'ok' });
+        });
+    });
+
+    describe('Routing and Auth', () => {
+        it('should return 404 for unknown paths', async () => {
+            await start();
+
+            const response = await fetch(`${handle.url}/unknown`);
+            expect(response.status).toBe(404);
+        });
+
+        it('should reject requests without a valid bearer token', async () => {
+            await start('secret-token');
+
+            const missing = await fetch(`${handle.url}/mcp`, { method: 'POST', body: '{}' });
+            const wrong = await fetch(`${handle.url}/mcp`, {
+                method: 'POST',
+                body: '{}',
+                headers: { Authorization: 'Bearer wrong-token' },
+            });
+
+            expect(missing.status).toBe(401);
+            expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+            expect(wrong.status).toBe(401);
+        });
+
+        it('should reject non-initialize requests without a session', async () => {
+            await start();
+
+            const response = await fetch(`${handle.url}/mcp`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+                body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+            });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should reject invalid JSON bodies', async () => {
+            await start();
+
+            const response = await fetch(`${handle.url}/mcp`, { method: 'POST', body: '{not json' });
+            const body = await response.json() as { error: { code: number } };
+
+            expect(response.status).toBe(400);
+            expect(body.error.code).toBe(-32700);
+        });
+    });
+
+    describe('MCP Sessions', () => {
+        it('should serve tools over Streamable HTTP with a bearer token', async () => {
+            await start('secret-token');
+
+            const client = new Client({ name: 'test-client', version: '1.0.0' });
+            const transport = new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+                requestInit: { headers: { Authorization: 'Bearer secret-token' } },
+            });
+            await client.connect(transport);
+
+            const { tools } = await client.listTools();
+            expect(tools.map(tool => tool.name)).toContain('search_azure_updates');
+            expect(handle.activeSessions()).toBe(1);
+
+            await transport.terminateSession();
+            await client.close();
+            expect(handle.activeSessions()).toBe(0);
+        });
+
+        it('should close Streamable HTTP sessions that stay idle', async () => {
+            await start(undefined, 50);
+
+            const response = await fetch(`${handle.url}/mcp`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+                body: JSON.stringify({
+                    jsonrpc: '2.0',
+                    id: 1,
+                    method: 'initialize',
+                    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'abandoned', version: '1.0.0' } },
+                }),
+            });
+            await response.text();
+            const sessionId = response.headers.get('mcp-session-id');
+
+            expect(handle.activeSessions()).toBe(1);
+            await vi.waitFor(() => expect(handle.activeSessions()).toBe(0));
+
+            const stale = await fetch(`${handle.url}/mcp`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Accept: 'application/json, text/event-stream',
+                    'mcp-session-id': sessionId ?? '',
+                },
+                body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+            });
+            expect(stale.status).toBe(404);
+        });
+
+        it('should serve tools over the legacy SSE transport', async () => {
+            await start();
+
+            const client = new Client({ name: 'test-client', version: '1.0.0' });
+            await client.connect(new SSEClientTransport(new URL(`${handle.url}/sse`)));
+
+            const { tools } = await client.listTools();
+            expect(tools.map(tool => tool.name)).toContain('get_azure_update');
+            expect(handle.activeSessions()).toBe(1);
+
+            await client.close();
+        });
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { compileFtsQuery, compileQuery, getQueryError, rewriteQueryWords } from '../../../src/utils/query-parser.js';
+
+describe('Query Parser', () => {
+    describe('compileFtsQuery', () => {
+        it('should join plain words with OR and prefix matching', () => {
+            expect(compileFtsQuery('virtual machine')).toBe('"virtual"* OR "machine"*');
+        });
+
+        it('should keep quoted phrases exact', () => {
+            expect(compileFtsQuery('"Azure Virtual Machines" preview')).toBe('"Azure Virtual Machines" OR "preview"*');
+        });
+
+        it('should treat lowercase operators as words', () => {
+            expect(compileFtsQuery('not and or')).toBe('"not"* OR "and"* OR "or"*');
+        });
+
+        it('should compile AND and OR with AND binding tighter', () => {
+            expect(compileFtsQuery('AKS AND retirement')).toBe('"AKS"* AND "retirement"*');
+            expect(compileFtsQuery('a OR b AND c')).toBe('"a"* OR ("b"* AND "c"*)');
+        });
+
+        it('should apply exclusions to the surrounding group', () => {
+            expect(compileFtsQuery('storage -classic')).toBe('"storage"* NOT "classic"*');
+            expect(compileFtsQuery('storage NOT classic')).toBe('"storage"* NOT "classic"*');
+            expect(compileFtsQuery('blob files -classic -legacy')).toBe('("blob"* OR "files"*) NOT ("classic"* OR "legacy"*)');
+            expect(compileFtsQuery('storage AND NOT classic')).toBe('"storage"* NOT "classic"*');
+        });
+
+        it('should group terms with parentheses', () => {
+            expect(compileFtsQuery('(aks OR kubernetes) AND retirement')).toBe('("aks"* OR "kubernetes"*) AND "retirement"*');
+            expect(compileFtsQuery('storage (blob -classic)')).toBe('"storage"* OR ("blob"* NOT "classic"*)');
+        });
+
+        it('should scope terms to fields', () => {
+            expect(compileFtsQuery('title:aks')).toBe('title : "aks"*');
+            expect(compileFtsQuery('product:"Azure Functions" tag:(security OR compliance)'))
+                .toBe('(products : "Azure Functions") OR (tags : ("security"* OR "compliance"*))');
+            expect(compileFtsQuery('Category:compute')).toBe('categories : "compute"*');
+        });
+
+        it('should treat other colons as word separators', () => {
+            expect(compileFtsQuery('Update: retirement')).toBe('"Update"* OR "retirement"*');
+            expect(compileFtsQuery('note:aks')).toBe('"note"* OR "aks"*');
+        });
+
+        it('should keep hyphenated words and symbols inside words', () => {
+            expect(compileFtsQuery('x-ray C# .NET')).toBe('"x-ray"* OR "C#"* OR ".NET"*');
+        });
+
+        it('should ignore unsupported FTS5 characters', () => {
+            expect(compileFtsQuery('kube* {aks} ^2')).toBe('"kube"* OR "aks"* OR "2"*');
+            expect(compileFtsQuery('***')).toBe('""');
+            expect(compileFtsQuery('""')).toBe('""');
+            expect(compileFtsQuery('storage - classic')).toBe('"storage"* OR "classic"*');
+        });
+    });
+
+    describe('compileQuery with synonyms', () => {
+        const synonyms = new Map([
+            ['aks', ['Azure Kubernetes Service']],
+            ['azure kubernetes service', ['AKS']],
+            ['entra id', ['Azure Active Directory']],
+            ['azure active directory', ['Entra ID']],
+        ]);
+
+        it('should OR a known term with its synonyms as phrases', () => {
+            expect(compileQuery('aks retirement', synonyms)).toEqual({
+                match: '("aks"* OR "Azure Kubernetes Service") OR "retirement"*',
+                expansions: [{ term: 'aks', synonyms: ['Azure Kubernetes Service'] }],
+            });
+        });
+
+        it('should join consecutive words that form a known name', () => {
+            expect(compileQuery('Azure Active Directory retirement', synonyms).match)
+                .toBe('("Azure Active Directory" OR "Entra ID") OR "retirement"*');
+            expect(compileQuery('azure active', synonyms).match).toBe('"azure"* OR "active"*');
+        });
+
+        it('should expand phrases and keep fields and exclusions around the expansion', () => {
+            expect(compileQuery('title:"entra id" -aks', synonyms).match)
+                .toBe('(title : ("entra id" OR "Azure Active Directory")) NOT ("aks"* OR "Azure Kubernetes Service")');
+        });
+
+        it('should report each expanded term once', () => {
+            expect(compileQuery('aks OR aks', synonyms).expansions).toHaveLength(1);
+        });
+
+        it('should compile like compileFtsQuery without synonyms', () => {
+            const query = 'Entra ID AND aks';
+            expect(compileQuery(query)).toEqual({ match: compileFtsQuery(query), expansions: [] });
+        });
+    });
+
+    describe('rewriteQueryWords', () => {
+        it('should replace plain words only', () => {
+            const rewritten = rewriteQueryWords('title:(kuberentes OR aks) -"kuberentes preview" kuberentes*', word =>
+                word === 'kuberentes' ? 'kubernetes' : undefined);
+
+            expect(rewritten).toBe('title:(kubernetes OR aks) -"kuberentes preview" kubernetes');
+        });
+
+        it('should keep a query without replacements equivalent', () => {
+            const query = '(aks OR kubernetes) AND retirement -preview';
+            expect(compileFtsQuery(rewriteQueryWords(query, () => undefined))).toBe(compileFtsQuery(query));
+        });
+    });
+
+    describe('getQueryError', () => {
+        it('should accept valid queries', () => {
+            expect(getQueryError('(aks OR kubernetes) AND retirement -preview')).toBeUndefined();
+        });
+
+        it.each([
+            ['(aks OR kubernetes', 'Missing ")"'],
+            ['aks)', 'Unexpected ")"'],
+            ['()', 'Empty parentheses'],
+            ['"virtual machine', 'Unterminated phrase'],
+            ['aks AND', 'Operator AND must be placed between two terms'],
+            ['OR aks', 'Operator OR must be placed between two terms'],
+            ['aks NOT', 'Query ends where a term is expected'],
+            ['-classic', 'Query cannot only exclude terms'],
+            ['title:-aks', 'A field prefix must be followed by a word, phrase or group'],
+            ['title:(aks OR tag:containers)', 'Field prefixes cannot be nested'],
+            ['('.repeat(11) + 'aks' + ')'.repeat(11), 'nested too deeply'],
+        ])('should reject %s', (query, message) => {
+            expect(getQueryError(query)).toContain(message);
+        });
+    });
+});
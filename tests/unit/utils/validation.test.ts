@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { isValidIsoDate, validateMultiValueFilter } from '../../../src/utils/validation.js';
+
+describe('Validation', () => {
+    describe('validateMultiValueFilter', () => {
+        function validate(value: unknown): string[] {
+            const errors: string[] = [];
+            validateMultiValueFilter(value, 'filters.tags', errors);
+            return errors;
+        }
+
+        it('should accept missing values, string arrays and operator objects', () => {
+            expect(validate(undefined)).toEqual([]);
+            expect(validate(['Retirements'])).toEqual([]);
+            expect(validate({ allOf: ['Compute'], anyOf: [], noneOf: ['Preview'] })).toEqual([]);
+        });
+
+        it('should report every invalid part under the given path', () => {
+            expect(validate('Retirements')).toEqual(['filters.tags must be an array of strings or an object with allOf, anyOf, noneOf']);
+            expect(validate([1])).toEqual(['filters.tags must be an array of strings']);
+            expect(validate({ oneOf: ['a'], anyOf: 'b', noneOf: [2] })).toEqual([
+                'filters.tags.oneOf is not supported (use allOf, anyOf, noneOf)',
+                'filters.tags.anyOf must be an array',
+                'filters.tags.noneOf must be an array of strings',
+            ]);
+        });
+    });
+
+    describe('isValidIsoDate', () => {
+        it('should accept dates and timestamps only', () => {
+            expect(isValidIsoDate('2026-10-19')).toBe(true);
+            expect(isValidIsoDate('2026-10-19T12:00:00Z')).toBe(true);
+            expect(isValidIsoDate('2026-13-01')).toBe(false);
+            expect(isValidIsoDate('1760000000000')).toBe(false);
+            expect(isValidIsoDate('last monday')).toBe(false);
+        });
+    });
+});